@@ -1,7 +1,9 @@
 import WebSocket from 'ws';
 import readline from 'readline';
+import { watchServer } from '../03_encryption/presence';
 
-const ws = new WebSocket('ws://localhost:8080');
+const ws = new WebSocket(process.env.CHAT_URL || 'ws://localhost:8080');
+watchServer(ws); // A server that stops pinging us is dropped (and we exit)
 
 const rl = readline.createInterface({
     input: process.stdin,
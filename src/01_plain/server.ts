@@ -1,30 +1,44 @@
+import { IncomingMessage } from 'http';
 import { WebSocketServer, WebSocket } from 'ws';
-
-const wss = new WebSocketServer({ port: 8080 });
+import { keepAlive } from '../03_encryption/presence';
+import { FloodGuard } from '../03_encryption/flood-guard';
 
 interface Client extends WebSocket {
     id: string;
 }
 
-wss.on('connection', (ws: Client) => {
-    ws.id = Math.random().toString(36).substring(7);
-    console.log(`Client ${ws.id} connected`);
+// Listens on its own port when run directly; src/server.ts mounts it next to the other phases instead
+export function startPhase1Server(wss: WebSocketServer = new WebSocketServer({ port: 8080 })) {
+    const flood = new FloodGuard(); // Same limits as the other phases; refusals arrive as JSON error lines
+
+    wss.on('connection', (ws: Client, req: IncomingMessage) => {
+        if (!flood.admit(ws, req)) return; // Too many connections from this IP: told and closed
+
+        ws.id = Math.random().toString(36).substring(7);
+        console.log(`Client ${ws.id} connected`);
+        keepAlive(ws, () => ws.id); // Half-open sockets are terminated instead of lingering in wss.clients
+
+        ws.on('message', (data, isBinary) => {
+            if (!flood.allowFrame(ws, data)) return; // Told rate_limited (and closed after repeated abuse)
 
-    ws.on('message', (data, isBinary) => {
-        const message = isBinary ? data : data.toString();
-        console.log(`Received from ${ws.id}: ${message}`);
+            const message = isBinary ? data : data.toString();
+            console.log(`Received from ${ws.id}: ${message}`);
 
-        // Broadcast to all other clients
-        wss.clients.forEach((client) => {
-            if (client !== ws && client.readyState === WebSocket.OPEN) {
-                client.send(`User ${ws.id}: ${message}`);
-            }
+            // Broadcast to all other clients
+            wss.clients.forEach((client) => {
+                if (client !== ws && client.readyState === WebSocket.OPEN) {
+                    client.send(`User ${ws.id}: ${message}`);
+                }
+            });
         });
-    });
 
-    ws.on('close', () => {
-        console.log(`Client ${ws.id} disconnected`);
+        ws.on('close', () => {
+            console.log(`Client ${ws.id} disconnected`);
+        });
     });
-});
+}
 
-console.log('Phase 1 Server started on ws://localhost:8080');
+if (require.main === module) {
+    startPhase1Server();
+    console.log('Phase 1 Server started on ws://localhost:8080');
+}
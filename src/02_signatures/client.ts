@@ -1,12 +1,15 @@
 import WebSocket from 'ws';
 import readline from 'readline';
 import { generateRSAKeys, signMessage, verifySignature } from './crypto-utils';
+import { ProtocolError, parseFrame, PHASE2_FRAMES } from '../03_encryption/protocol';
+import { watchServer } from '../03_encryption/presence';
 
 // 1. Generate Identity
 const { publicKey, privateKey } = generateRSAKeys();
 console.log('Identity generated.');
 
-const ws = new WebSocket('ws://localhost:8081');
+const ws = new WebSocket(process.env.CHAT_URL || 'ws://localhost:8081');
+watchServer(ws); // A server that stops pinging us is dropped (and we exit)
 
 const rl = readline.createInterface({
     input: process.stdin,
@@ -28,11 +31,16 @@ ws.on('open', () => {
 
 ws.on('message', (data) => {
     try {
-        const payload = JSON.parse(data.toString());
+        const payload = parseFrame(data.toString(), PHASE2_FRAMES);
+        if (payload.type === 'error') {
+            console.error(`\n[ERROR] ${payload.message} (${payload.code})`);
+            process.stdout.write('> ');
+            return;
+        }
         const { senderId, content, signature, senderPublicKey } = payload;
 
         // 3. Verify Signature
-        const isValid = verifySignature(content, signature, senderPublicKey);
+        const isValid = !!senderPublicKey && verifySignature(content, signature, senderPublicKey); // No key sent yet: cannot be verified
 
         if (isValid) {
             console.log(`\n[VERIFIED] ${senderId}: ${content}`);
@@ -42,7 +50,8 @@ ws.on('message', (data) => {
         process.stdout.write('> ');
 
     } catch (e) {
-        console.error('Error parsing message:', e);
+        if (e instanceof ProtocolError) console.error(`\n[PROTOCOL] Dropped frame: ${e.message}`);
+        else console.error('Error parsing message:', e);
     }
 });
 
@@ -58,3 +67,8 @@ rl.on('line', (input) => {
 
     process.stdout.write('> ');
 });
+
+ws.on('close', () => {
+    console.log('\nDisconnected from server');
+    process.exit(0);
+});
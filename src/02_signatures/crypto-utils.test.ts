@@ -0,0 +1,78 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateKeyPairSync, webcrypto } from 'crypto';
+import {
+    KeyPair,
+    SignatureAlgorithm,
+    SIGNATURE_ALGORITHMS,
+    signatureAlgorithmsForKey,
+    signWithAlgorithm,
+    verifyWithAlgorithm
+} from './crypto-utils';
+
+const pem = { publicKeyEncoding: { type: 'spki', format: 'pem' }, privateKeyEncoding: { type: 'pkcs8', format: 'pem' } } as const;
+
+// One key pair per algorithm, as the CA certifies them
+const keysFor: Record<SignatureAlgorithm, () => KeyPair> = {
+    'ed25519': () => generateKeyPairSync('ed25519', pem),
+    'ecdsa-p256-sha256': () => generateKeyPairSync('ec', { namedCurve: 'prime256v1', ...pem }),
+    'rsa-pss-sha256': () => generateKeyPairSync('rsa', { modulusLength: 2048, ...pem }),
+    'rsa-pkcs1-sha256': () => generateKeyPairSync('rsa', { modulusLength: 2048, ...pem })
+};
+
+// The parameters web-client/src/crypto-browser.ts passes to WebCrypto for each algorithm
+const webCryptoParams: Record<SignatureAlgorithm, { key: any; sign: any }> = {
+    'ed25519': { key: { name: 'Ed25519' }, sign: { name: 'Ed25519' } },
+    'ecdsa-p256-sha256': { key: { name: 'ECDSA', namedCurve: 'P-256' }, sign: { name: 'ECDSA', hash: 'SHA-256' } },
+    'rsa-pss-sha256': { key: { name: 'RSA-PSS', hash: 'SHA-256' }, sign: { name: 'RSA-PSS', saltLength: 32 } },
+    'rsa-pkcs1-sha256': { key: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' }, sign: { name: 'RSASSA-PKCS1-v1_5' } }
+};
+
+const der = (keyPem: string) => Buffer.from(keyPem.replace(/-----[^-]+-----|\s/g, ''), 'base64');
+const importKey = (algorithm: SignatureAlgorithm, format: 'spki' | 'pkcs8', keyPem: string) =>
+    webcrypto.subtle.importKey(format, der(keyPem), webCryptoParams[algorithm].key, false, [format === 'spki' ? 'verify' : 'sign']);
+
+describe('signature algorithms', () => {
+    it('names what each key type can sign with', () => {
+        assert.deepEqual(signatureAlgorithmsForKey(keysFor['ed25519']().publicKey), ['ed25519']);
+        assert.deepEqual(signatureAlgorithmsForKey(keysFor['ecdsa-p256-sha256']().publicKey), ['ecdsa-p256-sha256']);
+        assert.deepEqual(signatureAlgorithmsForKey(keysFor['rsa-pss-sha256']().publicKey), ['rsa-pss-sha256', 'rsa-pkcs1-sha256']);
+        assert.deepEqual(signatureAlgorithmsForKey(generateKeyPairSync('ec', { namedCurve: 'secp384r1', ...pem }).publicKey), []);
+    });
+
+    for (const algorithm of SIGNATURE_ALGORITHMS) {
+        describe(algorithm, () => {
+            const keys = keysFor[algorithm]();
+            const other = keysFor[algorithm]();
+
+            it('verifies its own signatures and nothing else', () => {
+                const signature = signWithAlgorithm(algorithm, 'hello', keys.privateKey);
+                assert.ok(verifyWithAlgorithm(algorithm, 'hello', signature, keys.publicKey));
+                assert.equal(verifyWithAlgorithm(algorithm, 'hello!', signature, keys.publicKey), false);
+                assert.equal(verifyWithAlgorithm(algorithm, 'hello', signature, other.publicKey), false);
+                assert.equal(verifyWithAlgorithm(algorithm, 'hello', 'AAAA', keys.publicKey), false);
+            });
+
+            it('verifies what WebCrypto signs', async () => {
+                const privateKey = await importKey(algorithm, 'pkcs8', keys.privateKey);
+                const signature = await webcrypto.subtle.sign(webCryptoParams[algorithm].sign, privateKey, Buffer.from('hello'));
+                assert.ok(verifyWithAlgorithm(algorithm, 'hello', Buffer.from(signature).toString('base64'), keys.publicKey));
+            });
+
+            it('signs what WebCrypto verifies', async () => {
+                const publicKey = await importKey(algorithm, 'spki', keys.publicKey);
+                const signature = Buffer.from(signWithAlgorithm(algorithm, 'hello', keys.privateKey), 'base64');
+                assert.ok(await webcrypto.subtle.verify(webCryptoParams[algorithm].sign, publicKey, signature, Buffer.from('hello')));
+            });
+        });
+    }
+
+    it('does not verify a signature under another algorithm', () => {
+        const rsa = keysFor['rsa-pss-sha256']();
+        const signature = signWithAlgorithm('rsa-pss-sha256', 'hello', rsa.privateKey);
+        assert.equal(verifyWithAlgorithm('rsa-pkcs1-sha256', 'hello', signature, rsa.publicKey), false);
+
+        const ed25519 = keysFor['ed25519']();
+        assert.equal(verifyWithAlgorithm('ecdsa-p256-sha256', 'hello', signWithAlgorithm('ed25519', 'hello', ed25519.privateKey), ed25519.publicKey), false);
+    });
+});
@@ -26,7 +26,7 @@ export const generateRSAKeys = (): KeyPair => {
     return { publicKey, privateKey };
 };
 
-import { sign, verify } from 'crypto';
+import { sign, verify, createPublicKey, constants } from 'crypto';
 
 /**
  * Signs a message using the sender's Private Key.
@@ -51,3 +51,56 @@ export const verifySignature = (message: string, signature: string, publicKey: s
     );
     return isVerified;
 };
+
+// --- SIGNATURE ALGORITHMS ---
+// signMessage / verifySignature above are RSA PKCS#1 v1.5. The Phase 6 handshake negotiates the
+// algorithm instead: the signer picks one its key supports from the list the verifier accepts.
+// The CA certifies RSA, Ed25519 and P-256 keys (see src/05_auth/crypto-utils.ts).
+
+export type SignatureAlgorithm = 'ed25519' | 'ecdsa-p256-sha256' | 'rsa-pss-sha256' | 'rsa-pkcs1-sha256';
+
+// Strongest first
+export const SIGNATURE_ALGORITHMS: SignatureAlgorithm[] = ['ed25519', 'ecdsa-p256-sha256', 'rsa-pss-sha256', 'rsa-pkcs1-sha256'];
+
+/**
+ * What a key can sign with, strongest first.
+ * @param keyPem public or private key (PEM)
+ */
+export const signatureAlgorithmsForKey = (keyPem: string): SignatureAlgorithm[] => {
+    const key = createPublicKey(keyPem);
+    switch (key.asymmetricKeyType) {
+        case 'ed25519': return ['ed25519'];
+        case 'ec': return key.asymmetricKeyDetails?.namedCurve === 'prime256v1' ? ['ecdsa-p256-sha256'] : [];
+        case 'rsa': return ['rsa-pss-sha256', 'rsa-pkcs1-sha256'];
+        default: return [];
+    }
+};
+
+// RSA-PSS with a salt as long as the digest (32 bytes), and ECDSA signatures as r || s rather than
+// DER, like WebCrypto in the browser
+const signatureOptions = (algorithm: SignatureAlgorithm, keyPem: string) => {
+    if (!signatureAlgorithmsForKey(keyPem).includes(algorithm)) throw new Error(`Key cannot be used with ${algorithm}`);
+    return {
+        digest: algorithm === 'ed25519' ? null : 'sha256', // Ed25519 hashes internally
+        padding: algorithm === 'rsa-pss-sha256' ? constants.RSA_PKCS1_PSS_PADDING : algorithm === 'rsa-pkcs1-sha256' ? constants.RSA_PKCS1_PADDING : undefined,
+        saltLength: algorithm === 'rsa-pss-sha256' ? constants.RSA_PSS_SALTLEN_DIGEST : undefined,
+        dsaEncoding: algorithm === 'ecdsa-p256-sha256' ? 'ieee-p1363' as const : undefined
+    };
+};
+
+/**
+ * @throws if the key does not fit the algorithm
+ */
+export const signWithAlgorithm = (algorithm: SignatureAlgorithm, message: string, privateKey: string): string => {
+    const { digest, ...options } = signatureOptions(algorithm, privateKey);
+    return sign(digest, Buffer.from(message), { key: privateKey, ...options }).toString('base64');
+};
+
+export const verifyWithAlgorithm = (algorithm: SignatureAlgorithm, message: string, signature: string, publicKey: string): boolean => {
+    try {
+        const { digest, ...options } = signatureOptions(algorithm, publicKey);
+        return verify(digest, Buffer.from(message), { key: publicKey, ...options }, Buffer.from(signature, 'base64'));
+    } catch (e) {
+        return false; // Wrong key type, malformed key or signature
+    }
+};
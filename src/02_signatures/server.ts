@@ -1,56 +1,68 @@
+import { IncomingMessage } from 'http';
 import { WebSocketServer, WebSocket } from 'ws';
-
-const wss = new WebSocketServer({ port: 8081 }); // New port for Phase 2
+import { FloodGuard } from '../03_encryption/flood-guard';
+import { keepAlive } from '../03_encryption/presence';
+import { ProtocolError, errorFrame, parseFrame, PHASE2_REQUESTS } from '../03_encryption/protocol';
 
 interface Client extends WebSocket {
     id: string;
     publicKey?: string;
 }
 
-interface Message {
-    type: 'pubkey' | 'message';
-    content?: string;
-    signature?: string;
-    key?: string;
-}
+// Per-connection token buckets, frame size and per-IP connection caps (there are no identities to charge here)
+const flood = new FloodGuard();
+
+// Listens on its own port when run directly; src/server.ts mounts it next to the other phases instead
+export function startPhase2Server(wss: WebSocketServer = new WebSocketServer({ port: 8081 })) { // New port for Phase 2
+    wss.on('connection', (ws: Client, req: IncomingMessage) => {
+        if (!flood.admit(ws, req)) return; // Too many connections from this IP: told and closed
+
+        ws.id = Math.random().toString(36).substring(7);
+        console.log(`Client ${ws.id} connected`);
+        keepAlive(ws, () => ws.id); // Half-open sockets are terminated instead of lingering in wss.clients
+
+        ws.on('message', (data) => {
+            if (!flood.allowFrame(ws, data)) return; // Told rate_limited (and closed after repeated abuse)
+
+            try {
+                // Checked against the schema for its type (see 03_encryption/protocol.ts)
+                const parsed = parseFrame(data.toString(), PHASE2_REQUESTS);
 
-wss.on('connection', (ws: Client) => {
-    ws.id = Math.random().toString(36).substring(7);
-    console.log(`Client ${ws.id} connected`);
-
-    ws.on('message', (data) => {
-        try {
-            const parsed: Message = JSON.parse(data.toString());
-
-            if (parsed.type === 'pubkey' && parsed.key) {
-                // Store the client's public key
-                ws.publicKey = parsed.key;
-                console.log(`Client ${ws.id} registered Public Key`);
-            } else if (parsed.type === 'message') {
-                // Broadcast message + signature + sender's public key
-                console.log(`Relaying message from ${ws.id}`);
-
-                const broadcastPayload = JSON.stringify({
-                    senderId: ws.id,
-                    content: parsed.content,
-                    signature: parsed.signature,
-                    senderPublicKey: ws.publicKey
-                });
-
-                wss.clients.forEach((client) => {
-                    if (client !== ws && client.readyState === WebSocket.OPEN) {
-                        client.send(broadcastPayload);
-                    }
-                });
+                if (parsed.type === 'pubkey') {
+                    // Store the client's public key
+                    ws.publicKey = parsed.key;
+                    console.log(`Client ${ws.id} registered Public Key`);
+                } else if (parsed.type === 'message') {
+                    // Broadcast message + signature + sender's public key
+                    console.log(`Relaying message from ${ws.id}`);
+
+                    const broadcastPayload = JSON.stringify({
+                        type: 'broadcast',
+                        senderId: ws.id,
+                        content: parsed.content,
+                        signature: parsed.signature,
+                        senderPublicKey: ws.publicKey
+                    });
+
+                    wss.clients.forEach((client) => {
+                        if (client !== ws && client.readyState === WebSocket.OPEN) {
+                            client.send(broadcastPayload);
+                        }
+                    });
+                }
+            } catch (e) {
+                if (e instanceof ProtocolError) ws.send(JSON.stringify(errorFrame(e.code, e.message)));
+                else console.error('Failed to parse message:', e);
             }
-        } catch (e) {
-            console.error('Failed to parse message:', e);
-        }
-    });
+        });
 
-    ws.on('close', () => {
-        console.log(`Client ${ws.id} disconnected`);
+        ws.on('close', () => {
+            console.log(`Client ${ws.id} disconnected`);
+        });
     });
-});
+}
 
-console.log('Phase 2 Server started on ws://localhost:8081');
+if (require.main === module) {
+    startPhase2Server();
+    console.log('Phase 2 Server started on ws://localhost:8081');
+}
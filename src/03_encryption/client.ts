@@ -5,9 +5,16 @@ import {
     generateAESKey,
     encryptAESKeyWithRSA,
     decryptAESKeyWithRSA,
-    encryptMessageAES,
-    decryptMessageAES
+    signPacket,
+    openSignedPacket,
+    SignatureStatus
 } from './crypto-utils';
+import { DoubleRatchet } from './double-ratchet';
+import { RekeyingSession, SessionPayload } from './rekeying-session';
+import { VerifiedPeers, verifyCommand, keyChangedWarning } from './safety-number';
+import { GroupChat } from './group-chat';
+import { ProtocolError, parseFrame, validateFrame, PHASE3_FRAMES, PHASE3_PAYLOADS } from './protocol';
+import { IdleReporter, describePresence, watchServer } from './presence';
 
 // --- Identity ---
 console.log('Generating RSA Identity...');
@@ -18,54 +25,145 @@ console.log('Identity generated.');
 interface User {
     id: string;
     publicKey?: string;
+    presence?: string; // online, away or offline (then without a key)
+    since?: number;
 }
 
 let connectedUsers: User[] = [];
 let targetUser: User | null = null;
-let sessionKey: string | null = null;
+let session: RekeyingSession | null = null; // Double Ratchet seeded by the session key, rekeyed now and then
+let myId = ''; // Assigned by the server (welcome)
+const verifiedPeers = new VerifiedPeers(); // IDs change with every connection, so in memory only
+let signOutgoing = process.env.SIGN_MESSAGES === '1'; // Sign-then-encrypt (toggle with `sign on|off`)
 
-const ws = new WebSocket('ws://localhost:8082');
+let ws: WebSocket;
+let resumeToken = ''; // Sent when we register as resumable: takes our ID back after a reconnect
+let resuming = false; // Reconnected, waiting for the answer to our resume
+
+// Group chats: sender keys go out wrapped for the key each member registered
+const groups = new GroupChat({
+    localId: () => myId,
+    privateKey,
+    send: (message) => ws.send(JSON.stringify(message)),
+    memberKey: async (member) => member.publicKey,
+    log: (line) => {
+        console.log(`\n${line}`);
+        process.stdout.write('> ');
+    }
+});
 
 const rl = readline.createInterface({
     input: process.stdin,
     output: process.stdout
 });
 
-ws.on('open', () => {
-    console.log('Connected to Phase 3 Server.');
-
-    // Register Identity
-    ws.send(JSON.stringify({
-        type: 'register',
-        payload: { publicKey }
-    }));
-
-    console.log('\nCommands:');
-    console.log('  list                 -> Show online users');
-    console.log('  connect <User ID>    -> Start secure session');
-    console.log('  msg <text>           -> Send encrypted message');
-    process.stdout.write('> ');
+// Away after AWAY_AFTER_MINUTES without input, online again on the next line (see presence.ts)
+const idle = new IdleReporter((status) => {
+    if (ws?.readyState === WebSocket.OPEN) ws.send(JSON.stringify({ type: 'presence', status }));
 });
 
-ws.on('message', (data) => {
-    try {
-        const msg = JSON.parse(data.toString());
+function connect() {
+    ws = new WebSocket(process.env.CHAT_URL || 'ws://localhost:8082');
+    watchServer(ws); // A server that stops pinging us is dropped, and 'close' reconnects
 
-        if (msg.type === 'user_list') {
-            connectedUsers = msg.users;
-            console.log('\n[USERS] Online:', connectedUsers.map(u => u.id).join(', '));
+    ws.on('open', () => {
+        const reconnected = !!myId;
+        if (reconnected) {
+            // Ask for our old ID first. The answer is a second welcome, then anything queued for us.
+            resuming = true;
+            ws.send(JSON.stringify({ type: 'resume', id: myId, resumeToken }));
         }
-        else if (msg.type === 'direct') {
-            handleDirectMessage(msg);
+        console.log('Connected to Phase 3 Server.');
+
+        // Register Identity
+        ws.send(JSON.stringify({
+            type: 'register',
+            payload: { publicKey },
+            resumable: true // Keep our ID (and queue messages for it) while we are away
+        }));
+        if (reconnected) {
+            idle.reconnected();
+            return;
         }
-        else if (msg.type === 'error') {
-            console.error('\n[ERROR]', msg.message);
+
+        console.log('\nCommands:');
+        console.log('  list                 -> Show users (online, away, offline)');
+        console.log('  connect <User ID>    -> Start secure session');
+        console.log('  msg <text>           -> Send encrypted message');
+        console.log(`  sign <on|off>        -> Sign messages before encrypting (now: ${signOutgoing ? 'on' : 'off'})`);
+        console.log('  verify <User ID> [confirm|<code>]');
+        console.log('                       -> Compare safety numbers, mark the peer verified');
+        console.log('  group create|leave <name>, group invite <name> <User ID>');
+        console.log('  groups               -> Show your groups');
+        console.log('  gmsg <name> <text>   -> Send encrypted message to a group');
+        process.stdout.write('> ');
+    });
+
+    ws.on('message', (data) => {
+        try {
+            const msg = parseFrame(data.toString(), PHASE3_FRAMES);
+            // The relay passes payloads through unchecked: check them before any handler does
+            if (msg.type === 'direct') validateFrame(msg.payload, PHASE3_PAYLOADS);
+
+            if (msg.type === 'welcome') {
+                if (resuming && msg.resumed === undefined) return; // This connection's new ID: the answer to our resume follows
+                if (resuming && !msg.resumed) console.log(`\n[INFO] Could not get ${myId} back. Sessions under the old ID are gone.`);
+                resuming = false;
+                myId = msg.id; // Bound into every envelope we send and expect
+                resumeToken = msg.resumeToken ?? ''; // A new ID gets its token once registered (resume_token)
+                console.log(`[INFO] My ID: ${myId}`);
+            }
+            else if (msg.type === 'resume_token') {
+                if (msg.id === myId) resumeToken = msg.resumeToken;
+            }
+            else if (msg.type === 'queued') {
+                console.log(`\n[QUEUED] ${msg.targetId} is offline. The server keeps the message until it is back (${msg.waiting} waiting).`);
+            }
+            else if (msg.type === 'user_list') {
+                connectedUsers = msg.users;
+                console.log('\n[USERS]', connectedUsers.map(describePresence).join(', '));
+                for (const user of connectedUsers) {
+                    if (user.publicKey && verifiedPeers.check(user.id, user.publicKey) === 'changed') console.log(keyChangedWarning(user.id));
+                }
+            }
+            else if (groups.handle(msg)) {
+                // Group update, group message or sender key: handled (in order) by GroupChat
+            }
+            else if (msg.type === 'direct') {
+                handleDirectMessage(msg);
+            }
+            else if (msg.type === 'error') {
+                console.error(`\n[ERROR] ${msg.message} (${msg.code})`);
+            }
+            process.stdout.write('> ');
+        } catch (e) {
+            if (e instanceof ProtocolError) console.error(`\n[PROTOCOL] Dropped frame: ${e.message}`);
+            else console.error('Error:', e);
         }
+    });
+
+    // Reconnect and take our ID back: the server queues direct messages for us in the meantime
+    ws.on('close', () => {
+        console.log('\n[INFO] Disconnected. Reconnecting in 2s...');
+        setTimeout(connect, 2000);
+    });
+    ws.on('error', () => { /* Followed by 'close' */ });
+}
+connect();
+
+const signatureLabel = (status: SignatureStatus, senderId: string) =>
+    status === 'valid' ? `(signed by ${senderId})` : status === 'invalid' ? '(SIGNATURE INVALID)' : '(unsigned)';
+
+function startSession(ratchet: DoubleRatchet, peerId: string) {
+    session?.close();
+    session = new RekeyingSession(ratchet, { localId: myId, peerId }, (payload: SessionPayload) => {
+        ws.send(JSON.stringify({ type: 'direct', targetId: peerId, payload }));
+    });
+    session.onEvent = (event) => {
+        console.log(`\n[REKEY] ${event}`);
         process.stdout.write('> ');
-    } catch (e) {
-        console.error('Error:', e);
-    }
-});
+    };
+}
 
 function handleDirectMessage(envelope: any) {
     const { senderId, payload } = envelope;
@@ -75,7 +173,8 @@ function handleDirectMessage(envelope: any) {
         try {
             // Decrypt the AES key using our Private RSA Key
             const decryptedKey = decryptAESKeyWithRSA(payload.encryptedKey, privateKey);
-            sessionKey = decryptedKey;
+            if (!payload.ratchetKey) throw new Error('No ratchet key in key exchange');
+            startSession(new DoubleRatchet(decryptedKey, payload.ratchetKey), senderId);
 
             // Auto-set the sender as our target
             targetUser = connectedUsers.find(u => u.id === senderId) || { id: senderId };
@@ -85,15 +184,20 @@ function handleDirectMessage(envelope: any) {
             console.error('[FAIL] Could not decrypt session key:', e);
         }
     }
-    else if (payload.type === 'chat') {
-        if (!sessionKey) {
+    else if (payload.type === 'chat' || payload.type === 'rekey') {
+        if (!session) {
             console.log(`\n[ENCRYPTED] Message from ${senderId} (Cannot decrypt: No Session Key)`);
             return;
         }
         try {
-            // Decrypt the message using the AES Session Key
-            const plaintext = decryptMessageAES(payload.content, sessionKey);
-            console.log(`\n[SECURE] ${senderId}: ${plaintext}`);
+            // Decrypt the message with its own key from the ratchet (rekey messages are handled inside)
+            const plaintext = session.decrypt(payload, senderId);
+            if (plaintext === null) return;
+
+            // Signed packets: check the signature against the key the sender registered
+            const senderKey = connectedUsers.find(u => u.id === senderId)?.publicKey;
+            const { body, status } = openSignedPacket(plaintext, senderId, myId, senderKey);
+            console.log(`\n[SECURE] ${senderId}: ${body} ${signatureLabel(status, senderId)}`);
         } catch (e) {
             console.error('[DECRYPT FAIL] Integrity check failed or wrong key.');
         }
@@ -101,6 +205,7 @@ function handleDirectMessage(envelope: any) {
 }
 
 rl.on('line', (input) => {
+    idle.activity();
     const args = input.trim().split(' ');
     const command = args[0];
 
@@ -119,9 +224,10 @@ rl.on('line', (input) => {
 
         console.log(`\nInitiating Handshake with ${targetId}...`);
 
-        // 1. Generate AES Session Key
+        // 1. Generate AES Session Key (seeds the Double Ratchet)
         const newSessionKey = generateAESKey();
-        sessionKey = newSessionKey;
+        const ratchet = new DoubleRatchet(newSessionKey);
+        startSession(ratchet, user.id);
         targetUser = user;
 
         // 2. Encrypt AES Key with Target's RSA Public Key
@@ -133,7 +239,8 @@ rl.on('line', (input) => {
             targetId: targetUser.id,
             payload: {
                 type: 'key_exchange',
-                encryptedKey: encryptedKey
+                encryptedKey: encryptedKey,
+                ratchetKey: ratchet.publicKey
             }
         }));
 
@@ -141,7 +248,7 @@ rl.on('line', (input) => {
         process.stdout.write('> ');
     }
     else if (command === 'msg') {
-        if (!targetUser || !sessionKey) {
+        if (!targetUser || !session) {
             console.log('No secure session. Use "connect <ID>" first.');
             process.stdout.write('> ');
             return;
@@ -149,19 +256,50 @@ rl.on('line', (input) => {
 
         const text = args.slice(1).join(' ');
 
-        // 4. Encrypt Message with AES-GCM
-        const encryptedPayload = encryptMessageAES(text, sessionKey);
+        // 4. Optionally sign it with our identity key, then encrypt with AES-GCM under the next message key
+        const payload = session.encrypt(signOutgoing ? signPacket(text, myId, targetUser.id, privateKey) : text);
 
         ws.send(JSON.stringify({
             type: 'direct',
             targetId: targetUser.id,
-            payload: {
-                type: 'chat',
-                content: encryptedPayload
-            }
+            payload
         }));
 
-        console.log(`[SENT] (Encrypted): ${text}`);
+        console.log(`[SENT] (${signOutgoing ? 'Signed & ' : ''}Encrypted): ${text}`);
+        process.stdout.write('> ');
+    }
+    else if (command === 'verify') {
+        const user = connectedUsers.find(u => u.id === args[1]);
+        if (!user || !user.publicKey) {
+            console.log('User not found or has no public key.');
+        } else {
+            verifyCommand(verifiedPeers, { id: myId, publicKey }, { id: user.id, publicKey: user.publicKey }, args[2]).forEach(line => console.log(line));
+        }
+        process.stdout.write('> ');
+    }
+    else if (command === 'group') {
+        const [action, name, userId] = args.slice(1);
+        if (action === 'create' && name) groups.create(name);
+        else if (action === 'invite' && name && userId) groups.invite(name, userId);
+        else if (action === 'leave' && name) groups.leave(name);
+        else console.log('Usage: group create <name> | group invite <name> <User ID> | group leave <name>');
+        process.stdout.write('> ');
+    }
+    else if (command === 'groups') {
+        const names = groups.names();
+        if (names.length === 0) console.log('No groups.');
+        names.forEach(name => console.log(`  ${name}: ${groups.membersOf(name).join(', ')}`));
+        process.stdout.write('> ');
+    }
+    else if (command === 'gmsg') {
+        const text = args.slice(2).join(' ');
+        if (!groups.sendMessage(args[1], text)) console.log('Not a member of that group. Use "group create <name>" first.');
+        else console.log(`[SENT] (Encrypted to ${args[1]}): ${text}`);
+        process.stdout.write('> ');
+    }
+    else if (command === 'sign') {
+        signOutgoing = args[1] === 'on';
+        console.log(`Message signing ${signOutgoing ? 'on' : 'off'}.`);
         process.stdout.write('> ');
     } else {
         // Broadcast or local echo? Phase 3 focuses on direct.
@@ -0,0 +1,48 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateAESKey, encryptMessageAES, decryptMessageAES, MessageContext, ExpectedContext } from './crypto-utils';
+
+const context: MessageContext = { senderId: 'alice', recipientId: 'bob', sessionId: 'session-1', type: 'chat', seq: 7 };
+const expected: ExpectedContext = { senderId: 'alice', recipientId: 'bob', sessionId: 'session-1', type: 'chat' };
+
+// What a relay could do: rewrite a clear envelope field
+const tamper = (envelope: string, changes: Partial<MessageContext>) => JSON.stringify({ ...JSON.parse(envelope), ...changes });
+
+describe('AES-GCM envelope', () => {
+    const key = generateAESKey();
+
+    it('round-trips the message with its context', () => {
+        const { plaintext, context: received } = decryptMessageAES(encryptMessageAES('hello', key, context), key, expected);
+        assert.equal(plaintext, 'hello');
+        assert.deepEqual(received, context);
+    });
+
+    // The receiver expects the rewritten value, as it would for a message really sent that way: only the tag catches it
+    const rewrites: [string, Partial<MessageContext>][] = [
+        ['sender', { senderId: 'mallory' }],
+        ['recipient', { recipientId: 'carol' }],
+        ['session', { sessionId: 'session-2' }],
+        ['type', { type: 'group_chat' }]
+    ];
+    for (const [field, changes] of rewrites) {
+        it(`rejects an envelope whose ${field} was rewritten`, () => {
+            const envelope = tamper(encryptMessageAES('hello', key, context), changes);
+            assert.throws(() => decryptMessageAES(envelope, key, { ...expected, ...changes }), /Unsupported state or unable to authenticate data/);
+            assert.throws(() => decryptMessageAES(envelope, key, expected), /mismatch/);
+        });
+    }
+
+    it('rejects an envelope whose sequence number was rewritten', () => {
+        const envelope = encryptMessageAES('hello', key, context);
+        assert.throws(() => decryptMessageAES(tamper(envelope, { seq: 8 }), key, expected), /unable to authenticate/);
+        assert.throws(() => decryptMessageAES(tamper(envelope, { seq: -1 }), key, expected), /Invalid envelope sequence number/);
+        assert.throws(() => decryptMessageAES(tamper(envelope, { seq: '7' as unknown as number }), key, expected), /Invalid envelope sequence number/);
+    });
+
+    it('binds the extra associated data and the version', () => {
+        const envelope = encryptMessageAES('hello', key, context, 'header-1');
+        assert.equal(decryptMessageAES(envelope, key, expected, 'header-1').plaintext, 'hello');
+        assert.throws(() => decryptMessageAES(envelope, key, expected, 'header-2'), /unable to authenticate/);
+        assert.throws(() => decryptMessageAES(JSON.stringify({ ...JSON.parse(envelope), v: 1 }), key, expected, 'header-1'), /Unsupported envelope version: 1/);
+    });
+});
@@ -1,5 +1,8 @@
 import {
     generateKeyPairSync,
+    createPrivateKey,
+    createPublicKey,
+    diffieHellman,
     sign,
     verify,
     randomBytes,
@@ -15,6 +18,15 @@ export interface KeyPair {
     privateKey: string;
 }
 
+// Negotiable signatures (Phase 6 handshake)
+export {
+    SignatureAlgorithm,
+    SIGNATURE_ALGORITHMS,
+    signatureAlgorithmsForKey,
+    signWithAlgorithm,
+    verifyWithAlgorithm
+} from '../02_signatures/crypto-utils';
+
 // --- RSA (Existing) ---
 
 export const generateRSAKeys = (): KeyPair => {
@@ -77,37 +89,193 @@ export const decryptAESKeyWithRSA = (encryptedAESKeyBase64: string, privateKey:
 };
 
 // 4. Encrypt Message with AES-GCM
-// Returns: JSON string containing { iv, encrypted, authTag }
-export const encryptMessageAES = (message: string, aesKeyBase64: string): string => {
-    const key = Buffer.from(aesKeyBase64, 'base64');
-    const iv = randomBytes(12); // Standard IV size for GCM
-    const cipher = createCipheriv('aes-256-gcm', key, iv);
+// Versioned envelope: { v: 2, senderId, recipientId, sessionId, type, seq, iv, encrypted, authTag }
+// The routing metadata travels in clear but is authenticated (GCM associated data), so the relay
+// cannot deliver a ciphertext under another sender, to another recipient, or into another session.
+// (v1 was the bare { iv, encrypted, authTag } and is no longer accepted.)
+
+export const ENVELOPE_VERSION = 2;
+
+export interface MessageContext {
+    senderId: string;
+    recipientId: string;
+    sessionId: string;
+    type: string; // e.g. 'chat'
+    seq: number;
+}
+
+// Everything the receiver checks itself. The sequence number is read from the envelope.
+export type ExpectedContext = Omit<MessageContext, 'seq'>;
+
+export interface DecryptedMessage {
+    plaintext: string;
+    context: MessageContext;
+}
+
+// JSON array, so no field can bleed into the next one
+const envelopeAAD = (ctx: MessageContext, extraAAD: string): string =>
+    JSON.stringify(['chatapp-envelope', ENVELOPE_VERSION, ctx.senderId, ctx.recipientId, ctx.sessionId, ctx.type, ctx.seq, extraAAD]);
+
+/**
+ * @param extraAAD additional data the receiver rebuilds itself (e.g. a Double Ratchet header)
+ */
+export const encryptMessageAES = (message: string, aesKeyBase64: string, context: MessageContext, extraAAD: string = ''): string => {
+    const { senderId, recipientId, sessionId, type, seq } = context;
+    const sealed = JSON.parse(sealMessage(message, aesKeyBase64, envelopeAAD(context, extraAAD)));
+    return JSON.stringify({ v: ENVELOPE_VERSION, senderId, recipientId, sessionId, type, seq, ...sealed });
+};
+
+// 5. Decrypt Message with AES-GCM
+/**
+ * @throws if the envelope is not v2, its metadata differs from `expected`, or anything was tampered with
+ */
+export const decryptMessageAES = (encryptedPayload: string, aesKeyBase64: string, expected: ExpectedContext, extraAAD: string = ''): DecryptedMessage => {
+    const envelope = JSON.parse(encryptedPayload);
+    if (envelope.v !== ENVELOPE_VERSION) throw new Error(`Unsupported envelope version: ${envelope.v}`);
 
-    let encrypted = cipher.update(message, 'utf8', 'base64');
+    const context: MessageContext = {
+        senderId: envelope.senderId,
+        recipientId: envelope.recipientId,
+        sessionId: envelope.sessionId,
+        type: envelope.type,
+        seq: envelope.seq
+    };
+    for (const field of ['senderId', 'recipientId', 'sessionId', 'type'] as const) {
+        if (context[field] !== expected[field]) throw new Error(`Envelope ${field} mismatch`);
+    }
+    if (!Number.isSafeInteger(context.seq) || context.seq < 0) throw new Error('Invalid envelope sequence number');
+
+    return { plaintext: openMessage(encryptedPayload, aesKeyBase64, envelopeAAD(context, extraAAD)), context };
+};
+
+// 6. AES-GCM with Associated Data (AEAD)
+// Same { iv, encrypted, authTag } envelope as encryptMessageAES. The AAD is authenticated but not
+// sent: both sides rebuild it from what they already know (e.g. a message header).
+// ChaCha20-Poly1305 fits the same envelope (32-byte key, 12-byte nonce, 16-byte tag). The Phase 6
+// handshake can negotiate it; everything else uses AES-256-GCM.
+
+export type AeadAlgorithm = 'aes-256-gcm' | 'chacha20-poly1305';
+
+const createAEADCipher = (aead: AeadAlgorithm, key: Buffer, iv: Buffer) =>
+    aead === 'chacha20-poly1305' ? createCipheriv(aead, key, iv, { authTagLength: 16 }) : createCipheriv(aead, key, iv);
+
+const createAEADDecipher = (aead: AeadAlgorithm, key: Buffer, iv: Buffer) =>
+    aead === 'chacha20-poly1305' ? createDecipheriv(aead, key, iv, { authTagLength: 16 }) : createDecipheriv(aead, key, iv);
+
+export const sealMessage = (plaintext: string, keyBase64: string, aad: string, aead: AeadAlgorithm = 'aes-256-gcm'): string => {
+    const iv = randomBytes(12);
+    const cipher = createAEADCipher(aead, Buffer.from(keyBase64, 'base64'), iv);
+    cipher.setAAD(Buffer.from(aad, 'utf8'), { plaintextLength: Buffer.byteLength(plaintext) });
+
+    let encrypted = cipher.update(plaintext, 'utf8', 'base64');
     encrypted += cipher.final('base64');
-    const authTag = cipher.getAuthTag().toString('base64');
 
     return JSON.stringify({
         iv: iv.toString('base64'),
-        encrypted: encrypted,
-        authTag: authTag
+        encrypted,
+        authTag: cipher.getAuthTag().toString('base64')
     });
 };
 
-// 5. Decrypt Message with AES-GCM
-export const decryptMessageAES = (encryptedPayload: string, aesKeyBase64: string): string => {
-    const { iv, encrypted, authTag } = JSON.parse(encryptedPayload);
-    const key = Buffer.from(aesKeyBase64, 'base64');
-
-    const decipher = createDecipheriv(
-        'aes-256-gcm',
-        key,
-        Buffer.from(iv, 'base64')
-    );
-
+/**
+ * @throws if the ciphertext, tag or associated data was tampered with
+ */
+export const openMessage = (sealed: string, keyBase64: string, aad: string, aead: AeadAlgorithm = 'aes-256-gcm'): string => {
+    const { iv, encrypted, authTag } = JSON.parse(sealed);
+    const decipher = createAEADDecipher(aead, Buffer.from(keyBase64, 'base64'), Buffer.from(iv, 'base64'));
+    decipher.setAAD(Buffer.from(aad, 'utf8'), { plaintextLength: Buffer.byteLength(encrypted, 'base64') });
     decipher.setAuthTag(Buffer.from(authTag, 'base64'));
 
     let decrypted = decipher.update(encrypted, 'base64', 'utf8');
     decrypted += decipher.final('utf8');
     return decrypted;
 };
+
+// --- X25519 (Diffie-Hellman) ---
+// Short-lived key pairs for the Double Ratchet (and the Phase 6 handshake).
+// Raw 32-byte public keys travel as base64. Node wants them wrapped in an SPKI structure.
+
+const X25519_SPKI_PREFIX = Buffer.from('302a300506032b656e032100', 'hex');
+
+export interface EphemeralKeyPair {
+    publicKey: string;  // Raw X25519 public key (base64)
+    privateKey: string; // PKCS#8 PEM. Never leaves this process.
+}
+
+export const generateEphemeralKeyPair = (): EphemeralKeyPair => {
+    const { publicKey, privateKey } = generateKeyPairSync('x25519', {
+        publicKeyEncoding: { type: 'spki', format: 'der' },
+        privateKeyEncoding: { type: 'pkcs8', format: 'pem' }
+    });
+    return {
+        publicKey: publicKey.subarray(X25519_SPKI_PREFIX.length).toString('base64'),
+        privateKey
+    };
+};
+
+/**
+ * X25519(ourPrivate, theirPublic).
+ * @throws if the peer key is malformed or a low-order point (all-zero shared secret)
+ */
+export const computeSharedSecret = (privateKey: string, peerPublicKey: string): Buffer => {
+    const raw = Buffer.from(peerPublicKey, 'base64');
+    if (raw.length !== 32) throw new Error('Ephemeral key must be 32 bytes');
+
+    const secret = diffieHellman({
+        privateKey: createPrivateKey(privateKey),
+        publicKey: createPublicKey({ key: Buffer.concat([X25519_SPKI_PREFIX, raw]), format: 'der', type: 'spki' })
+    });
+    if (secret.every(byte => byte === 0)) throw new Error('Degenerate shared secret');
+    return secret;
+};
+
+// --- SIGN-THEN-ENCRYPT (Optional) ---
+// Both parties hold the same message keys, so AES-GCM alone cannot tell who wrote a message:
+// the peer could forge one "from" us. A signed packet puts the sender's identity signature
+// inside the encryption: { signedBy, body, signature }. The signature covers sender and
+// recipient too, so the peer cannot pass a message it received off as addressed to someone else.
+
+export interface SignedPacket {
+    signedBy: string;
+    body: string;      // The chat payload (Phases 4-5: the replay-protected packet JSON)
+    signature: string;
+}
+
+export type SignatureStatus = 'valid' | 'invalid' | 'unsigned';
+
+export const signedPacketMessage = (senderId: string, recipientId: string, body: string): string =>
+    JSON.stringify(['chatapp-signed-message', senderId, recipientId, body]);
+
+export const signPacket = (body: string, senderId: string, recipientId: string, privateKey: string): string => {
+    const packet: SignedPacket = { signedBy: senderId, body, signature: signMessage(signedPacketMessage(senderId, recipientId, body), privateKey) };
+    return JSON.stringify(packet);
+};
+
+/**
+ * Unwraps a signed packet, or passes an unsigned payload through unchanged.
+ * @param senderPublicKey the sender's registered key (Phase 5: from its verified certificate)
+ */
+export const openSignedPacket = (plaintext: string, senderId: string, recipientId: string, senderPublicKey?: string): { body: string; status: SignatureStatus } => {
+    let packet: Partial<SignedPacket>;
+    try {
+        packet = JSON.parse(plaintext);
+    } catch (e) {
+        return { body: plaintext, status: 'unsigned' };
+    }
+    if (typeof packet?.body !== 'string' || typeof packet.signature !== 'string' || typeof packet.signedBy !== 'string') {
+        return { body: plaintext, status: 'unsigned' };
+    }
+
+    const valid = packet.signedBy === senderId && !!senderPublicKey &&
+        safeVerify(signedPacketMessage(senderId, recipientId, packet.body), packet.signature, senderPublicKey);
+    return { body: packet.body, status: valid ? 'valid' : 'invalid' };
+};
+
+// verify() throws on a malformed key or signature; that is just an invalid signature here
+const safeVerify = (message: string, signature: string, publicKey: string): boolean => {
+    try {
+        return verifySignature(message, signature, publicKey);
+    } catch (e) {
+        return false;
+    }
+};
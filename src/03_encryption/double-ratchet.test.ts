@@ -0,0 +1,80 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { DoubleRatchet, MessageRoute } from './double-ratchet';
+import { generateAESKey } from './crypto-utils';
+
+const toBob: MessageRoute = { senderId: 'alice', recipientId: 'bob', type: 'chat' };
+const toAlice: MessageRoute = { senderId: 'bob', recipientId: 'alice', type: 'chat' };
+
+describe('DoubleRatchet', () => {
+    let alice: DoubleRatchet; // Initiator: generated the session key
+    let bob: DoubleRatchet;
+
+    beforeEach(() => {
+        const sessionKey = generateAESKey();
+        alice = new DoubleRatchet(sessionKey);
+        bob = new DoubleRatchet(sessionKey, alice.publicKey);
+    });
+
+    it('derives the same session ID on both sides', () => {
+        assert.equal(alice.sessionId, bob.sessionId);
+        assert.notEqual(new DoubleRatchet(generateAESKey()).sessionId, alice.sessionId);
+    });
+
+    it('lets both sides send straight away and ratchets on every reply', () => {
+        const a1 = alice.encrypt('hi bob', toBob);
+        const b1 = bob.encrypt('hi alice', toAlice);
+        assert.equal(bob.decrypt(a1, toBob), 'hi bob');
+        assert.equal(alice.decrypt(b1, toAlice), 'hi alice');
+
+        const a2 = alice.encrypt('how are you?', toBob);
+        assert.notEqual(a2.header.dh, a1.header.dh);
+        assert.equal(bob.decrypt(a2, toBob), 'how are you?');
+        const b2 = bob.encrypt('fine', toAlice);
+        assert.notEqual(b2.header.dh, b1.header.dh);
+        assert.equal(alice.decrypt(b2, toAlice), 'fine');
+    });
+
+    it('decrypts messages of one chain out of order', () => {
+        const [m0, m1, m2] = ['one', 'two', 'three'].map(text => alice.encrypt(text, toBob));
+        assert.equal(bob.decrypt(m2, toBob), 'three');
+        assert.equal(bob.decrypt(m0, toBob), 'one');
+        assert.equal(bob.decrypt(m1, toBob), 'two');
+    });
+
+    it('keeps skipped keys of a previous chain across a ratchet step', () => {
+        const a0 = alice.encrypt('a0', toBob);
+        const a1 = alice.encrypt('a1', toBob);
+        assert.equal(bob.decrypt(a0, toBob), 'a0');
+        assert.equal(alice.decrypt(bob.encrypt('reply', toAlice), toAlice), 'reply');
+
+        const a2 = alice.encrypt('a2', toBob);
+        assert.deepEqual({ pn: a2.header.pn, n: a2.header.n }, { pn: 2, n: 0 });
+        assert.equal(bob.decrypt(a2, toBob), 'a2');
+        assert.equal(bob.decrypt(a1, toBob), 'a1');
+    });
+
+    it('uses every message key once', () => {
+        const m0 = alice.encrypt('one', toBob);
+        const m1 = alice.encrypt('two', toBob);
+        assert.equal(bob.decrypt(m1, toBob), 'two');
+        assert.equal(bob.decrypt(m0, toBob), 'one');
+        assert.throws(() => bob.decrypt(m0, toBob));
+        assert.throws(() => bob.decrypt(m1, toBob));
+    });
+
+    it('rejects tampered and misrouted messages without losing its place', () => {
+        const m0 = alice.encrypt('one', toBob);
+        assert.throws(() => bob.decrypt({ ...m0, header: { ...m0.header, n: 5 } }, toBob));
+        assert.throws(() => bob.decrypt(m0, { ...toBob, senderId: 'mallory' }));
+        assert.throws(() => bob.decrypt(m0, { ...toBob, type: 'file' }));
+        assert.equal(bob.decrypt(m0, toBob), 'one');
+    });
+
+    it('refuses to skip more than 100 messages in a chain', () => {
+        const messages = Array.from({ length: 102 }, (_, i) => alice.encrypt(`m${i}`, toBob));
+        assert.throws(() => bob.decrypt(messages[101], toBob), /Too many skipped messages/);
+        assert.equal(bob.decrypt(messages[100], toBob), 'm100');
+        assert.equal(bob.decrypt(messages[0], toBob), 'm0');
+    });
+});
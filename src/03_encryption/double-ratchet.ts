@@ -0,0 +1,181 @@
+import { createHmac, hkdfSync } from 'crypto';
+import {
+    generateEphemeralKeyPair,
+    computeSharedSecret,
+    encryptMessageAES,
+    decryptMessageAES,
+    EphemeralKeyPair,
+    ExpectedContext
+} from './crypto-utils';
+
+// --- DOUBLE RATCHET (Phases 3-5) ---
+// The RSA-wrapped session key only seeds the conversation. Every message gets its own key from a
+// symmetric KDF chain (HMAC-SHA256), and every reply moves the chains forward with a fresh X25519
+// Diffie-Hellman (the DH ratchet). A leaked message key exposes one message; a leaked chain key
+// stops working after the next reply. Follows the Signal specification, with one difference at
+// the start so both sides can send straight after the key_exchange:
+//   - The initiator (who generated the session key) sends its ratchet key in the key_exchange and
+//     encrypts on an "initial" chain derived from the session key until the first reply.
+//   - The responder starts like Signal's Alice: it already knows the initiator's ratchet key.
+// Must match DoubleRatchet in web-client/src/crypto-browser.ts (same KDFs, header and envelope).
+//
+// Wire format: payload { type: 'chat', epoch, header: { dh, pn, n }, content } (epoch: see rekeying-session.ts)
+//   dh = sender's current ratchet public key, pn = length of its previous sending chain,
+//   n = message number in the current chain, content = encryptMessageAES() v2 envelope. The envelope
+//   binds sender, recipient, session ID, type and a running sequence number; the header is extra AAD.
+
+export interface RatchetHeader {
+    dh: string; // Raw X25519 public key (base64)
+    pn: number;
+    n: number;
+}
+
+export interface RatchetMessage {
+    header: RatchetHeader;
+    content: string;
+}
+
+const RATCHET_CONTEXT = 'chatapp-double-ratchet';
+const MAX_SKIP = 100;          // Missing messages tolerated in one chain (more = refuse, not compute)
+const MAX_SKIPPED_KEYS = 1000; // Stored keys for late messages, oldest dropped first
+
+// KDF_RK: HKDF-SHA256 salted with the root key over the DH output -> (new root key, chain key)
+const kdfRoot = (rootKey: Buffer, dhOutput: Buffer): [Buffer, Buffer] => {
+    const okm = Buffer.from(hkdfSync('sha256', dhOutput, rootKey, `${RATCHET_CONTEXT} root`, 64));
+    return [okm.subarray(0, 32), okm.subarray(32)];
+};
+
+// KDF_CK: HMAC-SHA256 with the chain key -> (next chain key, message key)
+const kdfChain = (chainKey: Buffer): [Buffer, Buffer] => [
+    createHmac('sha256', chainKey).update(Buffer.from([0x02])).digest(),
+    createHmac('sha256', chainKey).update(Buffer.from([0x01])).digest()
+];
+
+// Sender, recipient and message type. The ratchet adds its session ID and sequence number.
+export type MessageRoute = Omit<ExpectedContext, 'sessionId'>;
+
+export const ratchetAAD = (header: RatchetHeader): string =>
+    [RATCHET_CONTEXT, header.dh, header.pn, header.n].join('|');
+
+export class DoubleRatchet {
+    public readonly sessionId: string; // Same on both sides, derived from the session key
+    private dhSelf: EphemeralKeyPair;
+    private dhRemote: string | null = null;
+    private rootKey: Buffer;
+    private sendChain: Buffer | null = null;
+    private receiveChain: Buffer | null = null;
+    private sendCount = 0;
+    private receiveCount = 0;
+    private previousSendCount = 0;
+    private sendSeq = 0; // Across all chains
+    private skipped = new Map<string, Buffer>(); // `${dh}:${n}` -> message key
+
+    /**
+     * @param sessionKeyBase64 the AES session key from the key_exchange
+     * @param peerRatchetKey the initiator's ratchet key (responder only)
+     */
+    constructor(sessionKeyBase64: string, peerRatchetKey?: string) {
+        // Root key and the initiator's first sending chain, both bound to the session key
+        const sessionKey = Buffer.from(sessionKeyBase64, 'base64');
+        const okm = Buffer.from(hkdfSync('sha256', sessionKey, Buffer.alloc(32), `${RATCHET_CONTEXT} init`, 64));
+        this.sessionId = Buffer.from(hkdfSync('sha256', sessionKey, Buffer.alloc(32), `${RATCHET_CONTEXT} session id`, 16)).toString('hex');
+        const initialChain = okm.subarray(32);
+        this.rootKey = okm.subarray(0, 32);
+        this.dhSelf = generateEphemeralKeyPair();
+
+        if (peerRatchetKey) {
+            this.dhRemote = peerRatchetKey;
+            this.receiveChain = initialChain;
+            [this.rootKey, this.sendChain] = kdfRoot(this.rootKey, computeSharedSecret(this.dhSelf.privateKey, peerRatchetKey));
+        } else {
+            this.sendChain = initialChain;
+        }
+    }
+
+    // Our current ratchet public key (the initiator sends it as `ratchetKey` in the key_exchange)
+    public get publicKey(): string {
+        return this.dhSelf.publicKey;
+    }
+
+    public encrypt(plaintext: string, route: MessageRoute): RatchetMessage {
+        const [nextChain, messageKey] = kdfChain(this.sendChain!);
+        this.sendChain = nextChain;
+        const header: RatchetHeader = { dh: this.dhSelf.publicKey, pn: this.previousSendCount, n: this.sendCount++ };
+        const context = { ...route, sessionId: this.sessionId, seq: this.sendSeq++ };
+        return { header, content: encryptMessageAES(plaintext, messageKey.toString('base64'), context, ratchetAAD(header)) };
+    }
+
+    private open(message: RatchetMessage, messageKey: Buffer, route: MessageRoute): string {
+        const expected = { ...route, sessionId: this.sessionId };
+        return decryptMessageAES(message.content, messageKey.toString('base64'), expected, ratchetAAD(message.header)).plaintext;
+    }
+
+    /**
+     * Decrypts out-of-order messages too, using keys skipped earlier. Each message key works once.
+     * @param route what the relay told us: sender, recipient (us) and message type
+     * @throws on tampering, replays, misrouting, or too many skipped messages. The ratchet is left unchanged.
+     */
+    public decrypt(message: RatchetMessage, route: MessageRoute): string {
+        const { header } = message;
+        const skippedId = `${header.dh}:${header.n}`;
+        const skippedKey = this.skipped.get(skippedId);
+        if (skippedKey) {
+            const plaintext = this.open(message, skippedKey, route);
+            this.skipped.delete(skippedId);
+            return plaintext;
+        }
+
+        // Work on a copy: a forged header must not advance (or break) our chains
+        const saved = this.snapshot();
+        try {
+            if (header.dh !== this.dhRemote) {
+                this.skipMessageKeys(header.pn);
+                this.ratchetStep(header.dh);
+            }
+            this.skipMessageKeys(header.n);
+            const [nextChain, messageKey] = kdfChain(this.receiveChain!);
+            this.receiveChain = nextChain;
+            this.receiveCount++;
+            return this.open(message, messageKey, route);
+        } catch (e) {
+            this.restore(saved);
+            throw e;
+        }
+    }
+
+    // DH ratchet: new receiving chain from their new key, then a new key pair and sending chain of ours
+    private ratchetStep(remoteKey: string) {
+        this.previousSendCount = this.sendCount;
+        this.sendCount = 0;
+        this.receiveCount = 0;
+        this.dhRemote = remoteKey;
+        [this.rootKey, this.receiveChain] = kdfRoot(this.rootKey, computeSharedSecret(this.dhSelf.privateKey, remoteKey));
+        this.dhSelf = generateEphemeralKeyPair();
+        [this.rootKey, this.sendChain] = kdfRoot(this.rootKey, computeSharedSecret(this.dhSelf.privateKey, remoteKey));
+    }
+
+    // Store the keys of messages we have not received yet (up to `until`) in the current chain
+    private skipMessageKeys(until: number) {
+        if (!this.receiveChain) return;
+        if (until - this.receiveCount > MAX_SKIP) throw new Error('Too many skipped messages');
+        while (this.receiveCount < until) {
+            const [nextChain, messageKey] = kdfChain(this.receiveChain);
+            this.receiveChain = nextChain;
+            this.skipped.set(`${this.dhRemote}:${this.receiveCount++}`, messageKey);
+            if (this.skipped.size > MAX_SKIPPED_KEYS) this.skipped.delete(this.skipped.keys().next().value!);
+        }
+    }
+
+    private snapshot() {
+        return {
+            dhSelf: this.dhSelf, dhRemote: this.dhRemote, rootKey: this.rootKey,
+            sendChain: this.sendChain, receiveChain: this.receiveChain,
+            sendCount: this.sendCount, receiveCount: this.receiveCount, previousSendCount: this.previousSendCount,
+            skipped: new Map(this.skipped)
+        };
+    }
+
+    private restore(saved: ReturnType<DoubleRatchet['snapshot']>) {
+        Object.assign(this, saved);
+    }
+}
@@ -0,0 +1,151 @@
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { EventEmitter } from 'events';
+import { IncomingMessage } from 'http';
+import { WebSocket } from 'ws';
+import { FloodGuard, RateLimits, TokenBucket, Throttle } from './flood-guard';
+
+const limits: RateLimits = {
+    framesPerSecond: 1,
+    frameBurst: 3,
+    identityFramesPerSecond: 1,
+    identityFrameBurst: 4,
+    maxFrameBytes: 16,
+    maxConnectionsPerIp: 2,
+    maxStrikes: 3,
+    strikeWindowMs: 60_000,
+    userListIntervalMs: 1000,
+    trustProxy: false
+};
+
+// Enough of a ws socket for the guard: records what it was sent and whether it was closed
+class FakeSocket extends EventEmitter {
+    public sent: any[] = [];
+    public closeCode?: number;
+    send(data: string) { this.sent.push(JSON.parse(data)); }
+    close(code: number) { this.closeCode = code; }
+}
+
+const socket = () => new FakeSocket() as FakeSocket & WebSocket;
+const request = (remoteAddress: string, forwardedFor?: string) =>
+    ({ headers: forwardedFor ? { 'x-forwarded-for': forwardedFor } : {}, socket: { remoteAddress } }) as unknown as IncomingMessage;
+const frame = Buffer.from('{"type":"list"}');
+
+describe('TokenBucket', () => {
+    beforeEach(() => mock.timers.enable({ apis: ['Date'] }));
+    afterEach(() => mock.timers.reset());
+
+    it('allows a burst, then refills at the given rate up to capacity', () => {
+        const bucket = new TokenBucket(2, 3);
+        assert.deepEqual([1, 2, 3, 4].map(() => bucket.take()), [true, true, true, false]);
+        mock.timers.tick(500);
+        assert.ok(bucket.take());
+        assert.equal(bucket.take(), false);
+        mock.timers.tick(10_000);
+        assert.ok(bucket.isFull());
+        assert.deepEqual([1, 2, 3, 4].map(() => bucket.take()), [true, true, true, false]);
+    });
+});
+
+describe('Throttle', () => {
+    beforeEach(() => mock.timers.enable({ apis: ['Date', 'setTimeout'], now: 1_000_000 }));
+    afterEach(() => mock.timers.reset());
+
+    it('runs at once, then coalesces calls into one run per interval', () => {
+        let runs = 0;
+        const throttle = new Throttle(1000, () => runs++);
+        throttle.run();
+        assert.equal(runs, 1);
+        throttle.run();
+        throttle.run();
+        assert.equal(runs, 1);
+        mock.timers.tick(1000);
+        assert.equal(runs, 2);
+        mock.timers.tick(5000);
+        assert.equal(runs, 2);
+    });
+});
+
+describe('FloodGuard', () => {
+    beforeEach(() => {
+        mock.timers.enable({ apis: ['Date'] });
+        mock.method(console, 'warn', () => {});
+    });
+    afterEach(() => {
+        mock.timers.reset();
+        mock.restoreAll();
+    });
+
+    it('caps connections per IP and frees the slot on close', () => {
+        const guard = new FloodGuard(limits);
+        const [a, b, c] = [socket(), socket(), socket()];
+        assert.ok(guard.admit(a, request('10.0.0.1')));
+        assert.ok(guard.admit(b, request('10.0.0.1')));
+        assert.equal(guard.admit(c, request('10.0.0.1')), false);
+        assert.equal(c.sent[0].code, 'rate_limited');
+        assert.equal(c.closeCode, 1008);
+        assert.ok(guard.admit(socket(), request('10.0.0.2')));
+
+        a.emit('close');
+        assert.ok(guard.admit(socket(), request('10.0.0.1')));
+    });
+
+    it('counts clients behind the proxy by the last X-Forwarded-For hop only', () => {
+        const guard = new FloodGuard({ ...limits, trustProxy: true });
+        assert.ok(guard.admit(socket(), request('172.16.0.2', '1.1.1.1, 9.9.9.9')));
+        assert.ok(guard.admit(socket(), request('172.16.0.2', '2.2.2.2, 9.9.9.9')));
+        assert.equal(guard.admit(socket(), request('172.16.0.2', '3.3.3.3, 9.9.9.9')), false);
+        assert.ok(guard.admit(socket(), request('172.16.0.2', '8.8.8.8')));
+
+        const untrusting = new FloodGuard(limits);
+        assert.ok(untrusting.admit(socket(), request('172.16.0.2', '1.1.1.1')));
+        assert.ok(untrusting.admit(socket(), request('172.16.0.2', '2.2.2.2')));
+        assert.equal(untrusting.admit(socket(), request('172.16.0.2', '3.3.3.3')), false);
+    });
+
+    it('refuses oversized frames and frames beyond the connection bucket', () => {
+        const guard = new FloodGuard(limits);
+        const ws = socket();
+        guard.admit(ws, request('10.0.0.1'));
+        assert.equal(guard.allowFrame(ws, Buffer.alloc(17)), false);
+        assert.match(ws.sent[0].message, /Frame too large/);
+
+        assert.deepEqual([1, 2, 3, 4].map(() => guard.allowFrame(ws, frame)), [true, true, true, false]);
+        assert.match(ws.sent[1].message, /Too many messages/);
+        mock.timers.tick(1000);
+        assert.ok(guard.allowFrame(ws, frame));
+    });
+
+    it('charges an identity across its connections', () => {
+        const guard = new FloodGuard({ ...limits, maxConnectionsPerIp: 5 });
+        const [first, second] = [socket(), socket()];
+        guard.admit(first, request('10.0.0.1'));
+        guard.admit(second, request('10.0.0.1'));
+        assert.deepEqual([1, 2, 3].map(() => guard.allowFrame(first, frame, 'alice')), [true, true, true]);
+        assert.ok(guard.allowFrame(second, frame, 'alice'));
+        assert.equal(guard.allowFrame(second, frame, 'alice'), false);
+        assert.match(second.sent[0].message, /from alice/);
+        assert.ok(guard.allowFrame(second, frame, 'bob'));
+    });
+
+    it('disconnects after too many strikes inside the window and drops what follows', () => {
+        const guard = new FloodGuard({ ...limits, frameBurst: 1, framesPerSecond: 0.001 });
+        const ws = socket();
+        guard.admit(ws, request('10.0.0.1'));
+        guard.allowFrame(ws, frame);
+        guard.allowFrame(ws, frame);
+        guard.allowFrame(ws, frame);
+        assert.equal(ws.closeCode, undefined);
+        mock.timers.tick(60_000); // Both strikes leave the window
+        guard.allowFrame(ws, frame);
+        guard.allowFrame(ws, frame);
+        assert.equal(ws.closeCode, undefined);
+        guard.allowFrame(ws, frame);
+        assert.equal(ws.closeCode, 1008);
+        assert.equal(guard.allowFrame(ws, frame), false);
+    });
+
+    it('lets sockets it never admitted through', () => {
+        assert.ok(new FloodGuard(limits).allowFrame(socket(), Buffer.alloc(1024)));
+    });
+});
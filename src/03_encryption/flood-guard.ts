@@ -0,0 +1,206 @@
+import { IncomingMessage } from 'http';
+import { RawData, WebSocket } from 'ws';
+import { errorFrame } from './protocol';
+
+// --- FLOOD GUARD (rate limiting, Phases 1-6) ---
+// Every relay charges each incoming frame to two token buckets: one for the connection, and one for
+// the identity behind it (once known), which survives reconnects. Frames over the size cap, frames
+// with an empty bucket and connections over the per-IP cap are refused with a `rate_limited` error.
+// Each refusal is a strike; a connection that collects too many strikes inside the window is logged
+// and closed (1008, policy violation).
+//
+//   client <- { type: 'error', code: 'rate_limited', message }
+//
+// `Throttle` coalesces bursts of user_list broadcasts, so a reconnect loop costs everyone one list
+// per interval instead of one per connect and close.
+
+export interface RateLimits {
+    framesPerSecond: number;          // Per connection, refill rate
+    frameBurst: number;               // Per connection, bucket size
+    identityFramesPerSecond: number;  // Per identity, across all its connections
+    identityFrameBurst: number;
+    maxFrameBytes: number;
+    maxConnectionsPerIp: number;
+    maxStrikes: number;               // Refusals tolerated inside strikeWindowMs before disconnecting
+    strikeWindowMs: number;
+    userListIntervalMs: number;       // At most one user_list broadcast per interval
+    trustProxy: boolean;              // Take the client IP from the last X-Forwarded-For hop (behind Caddy)
+}
+
+export const rateLimitsFromEnv = (): RateLimits => ({
+    framesPerSecond: Number(process.env.RATE_LIMIT_PER_SECOND) || 20,
+    frameBurst: Number(process.env.RATE_LIMIT_BURST) || 40,
+    identityFramesPerSecond: Number(process.env.RATE_LIMIT_IDENTITY_PER_SECOND) || 30,
+    identityFrameBurst: Number(process.env.RATE_LIMIT_IDENTITY_BURST) || 60,
+    maxFrameBytes: Number(process.env.MAX_FRAME_BYTES) || 256 * 1024,
+    maxConnectionsPerIp: Number(process.env.MAX_CONNECTIONS_PER_IP) || 20,
+    maxStrikes: Number(process.env.RATE_LIMIT_MAX_STRIKES) || 10,
+    strikeWindowMs: (Number(process.env.RATE_LIMIT_STRIKE_WINDOW_SECONDS) || 60) * 1000,
+    userListIntervalMs: Number(process.env.USER_LIST_INTERVAL_MS) || 1000,
+    trustProxy: process.env.RATE_LIMIT_TRUST_PROXY === '1'
+});
+
+export class TokenBucket {
+    private tokens: number;
+    private updatedAt = Date.now();
+    private ratePerSecond: number;
+    private capacity: number;
+
+    constructor(ratePerSecond: number, capacity: number) {
+        this.ratePerSecond = ratePerSecond;
+        this.capacity = capacity;
+        this.tokens = capacity;
+    }
+
+    // Takes one token if there is one
+    public take(): boolean {
+        this.refill();
+        if (this.tokens < 1) return false;
+        this.tokens -= 1;
+        return true;
+    }
+
+    // Back at capacity: the bucket can be forgotten without anyone gaining from it
+    public isFull(): boolean {
+        this.refill();
+        return this.tokens >= this.capacity;
+    }
+
+    private refill() {
+        const now = Date.now();
+        this.tokens = Math.min(this.capacity, this.tokens + (now - this.updatedAt) / 1000 * this.ratePerSecond);
+        this.updatedAt = now;
+    }
+}
+
+// Runs fn at most once per interval. Calls in between are coalesced into one run at the end of it.
+export class Throttle {
+    private lastRun = 0;
+    private timer: NodeJS.Timeout | null = null;
+    private intervalMs: number;
+    private fn: () => void;
+
+    constructor(intervalMs: number, fn: () => void) {
+        this.intervalMs = intervalMs;
+        this.fn = fn;
+    }
+
+    public run() {
+        if (this.timer) return; // Already due
+        const wait = this.lastRun + this.intervalMs - Date.now();
+        if (wait <= 0) {
+            this.fire();
+            return;
+        }
+        this.timer = setTimeout(() => {
+            this.timer = null;
+            this.fire();
+        }, wait);
+    }
+
+    private fire() {
+        this.lastRun = Date.now();
+        this.fn();
+    }
+}
+
+interface ConnectionState {
+    ip: string;
+    bucket: TokenBucket;
+    strikes: number[]; // When each recent refusal happened
+    disconnected: boolean;
+}
+
+export class FloodGuard {
+    public readonly limits: RateLimits;
+    private connections = new WeakMap<WebSocket, ConnectionState>();
+    private connectionsPerIp = new Map<string, number>();
+    private identityBuckets = new Map<string, TokenBucket>();
+
+    constructor(limits: RateLimits = rateLimitsFromEnv()) {
+        this.limits = limits;
+    }
+
+    // A throttle for this relay's user_list broadcasts
+    public throttle(fn: () => void): Throttle {
+        return new Throttle(this.limits.userListIntervalMs, fn);
+    }
+
+    /**
+     * Call first thing on a new connection.
+     * @returns false if the IP is over its connection cap: the socket has been told and closed
+     */
+    public admit(ws: WebSocket, req: IncomingMessage): boolean {
+        const ip = this.clientIp(req);
+        const open = this.connectionsPerIp.get(ip) || 0;
+        if (open >= this.limits.maxConnectionsPerIp) {
+            console.warn(`[RATE LIMIT] Refused connection from ${ip}: ${open} already open`);
+            ws.send(JSON.stringify(errorFrame('rate_limited', `Too many connections from your address (max ${this.limits.maxConnectionsPerIp})`)));
+            ws.close(1008, 'Too many connections');
+            return false;
+        }
+
+        this.connectionsPerIp.set(ip, open + 1);
+        this.connections.set(ws, { ip, bucket: new TokenBucket(this.limits.framesPerSecond, this.limits.frameBurst), strikes: [], disconnected: false });
+        ws.once('close', () => {
+            const left = (this.connectionsPerIp.get(ip) || 1) - 1;
+            if (left > 0) this.connectionsPerIp.set(ip, left);
+            else this.connectionsPerIp.delete(ip);
+            this.identityBuckets.forEach((bucket, id) => { if (bucket.isFull()) this.identityBuckets.delete(id); });
+        });
+        return true;
+    }
+
+    /**
+     * Charges an incoming frame to the connection and, once it has one, to its identity.
+     * @returns false if the frame must be dropped: the sender has been told (or disconnected)
+     */
+    public allowFrame(ws: WebSocket, data: RawData, identity?: string): boolean {
+        const state = this.connections.get(ws);
+        if (!state) return true; // Not admitted through this guard
+        if (state.disconnected) return false; // Frames still buffered behind the close
+
+        const size = Array.isArray(data) ? data.reduce((total, part) => total + part.length, 0) : data.byteLength;
+        if (size > this.limits.maxFrameBytes) {
+            return this.refuse(ws, state, identity, `Frame too large (${size} bytes, max ${this.limits.maxFrameBytes})`);
+        }
+        if (!state.bucket.take()) {
+            return this.refuse(ws, state, identity, `Too many messages (max ${this.limits.framesPerSecond}/s)`);
+        }
+        if (identity !== undefined) {
+            let bucket = this.identityBuckets.get(identity);
+            if (!bucket) {
+                bucket = new TokenBucket(this.limits.identityFramesPerSecond, this.limits.identityFrameBurst);
+                this.identityBuckets.set(identity, bucket);
+            }
+            if (!bucket.take()) {
+                return this.refuse(ws, state, identity, `Too many messages from ${identity} (max ${this.limits.identityFramesPerSecond}/s)`);
+            }
+        }
+        return true;
+    }
+
+    private refuse(ws: WebSocket, state: ConnectionState, identity: string | undefined, reason: string): false {
+        const now = Date.now();
+        state.strikes = state.strikes.filter(at => at > now - this.limits.strikeWindowMs);
+        state.strikes.push(now);
+        ws.send(JSON.stringify(errorFrame('rate_limited', reason)));
+
+        if (state.strikes.length >= this.limits.maxStrikes) {
+            console.warn(`[RATE LIMIT] Disconnecting ${identity ?? 'unidentified client'} (${state.ip}): ${state.strikes.length} violations, last: ${reason}`);
+            state.disconnected = true;
+            ws.close(1008, 'Rate limit exceeded');
+        }
+        return false;
+    }
+
+    // Only the last X-Forwarded-For hop is the proxy's own observation: clients can put anything before it
+    private clientIp(req: IncomingMessage): string {
+        const forwarded = req.headers['x-forwarded-for'];
+        if (this.limits.trustProxy && typeof forwarded === 'string') {
+            const lastHop = forwarded.split(',').pop()!.trim();
+            if (lastHop) return lastHop;
+        }
+        return req.socket.remoteAddress || 'unknown';
+    }
+}
@@ -0,0 +1,146 @@
+import {
+    SenderKeyGroup,
+    SenderKeyEnvelope,
+    GroupCiphertext,
+    wrapSenderKey,
+    unwrapSenderKey
+} from './sender-keys';
+import { GroupMember } from './group-registry';
+import { FrameOf, PHASE3_FRAMES, PHASE5_FRAMES } from './protocol';
+
+// --- GROUP CHAT (client side, Phases 3-5) ---
+// Keeps our groups and sender keys, and turns relay messages into chat lines.
+// Every membership change (create, join, leave) rotates our sender key and sends it to every
+// other member as a direct `sender_key` payload. Messages that arrive before the sender's key
+// are reported as undecryptable; the key follows right behind them.
+
+export interface GroupChatOptions {
+    localId: () => string;  // Our ID on the relay (Phases 3-4 only know it after `welcome`)
+    privateKey: string;
+    send: (message: object) => void;
+    // The member's identity key, or undefined if it can't be trusted (Phase 5: verify the certificate)
+    memberKey: (member: GroupMember) => Promise<string | undefined>;
+    log: (line: string) => void;
+}
+
+// What the relay sends a client, already checked against the phase's schemas
+type RelayFrame = FrameOf<typeof PHASE3_FRAMES> | FrameOf<typeof PHASE5_FRAMES>;
+
+export class GroupChat {
+    private options: GroupChatOptions;
+    private groups = new Map<string, SenderKeyGroup>();
+    private keys = new Map<string, string>(); // member ID -> identity key from the last group_update
+    private queue: Promise<void> = Promise.resolve(); // Relay messages, one at a time and in order
+
+    constructor(options: GroupChatOptions) {
+        this.options = options;
+    }
+
+    public names(): string[] {
+        return [...this.groups.keys()];
+    }
+
+    public membersOf(name: string): string[] {
+        return this.groups.get(name)?.members || [];
+    }
+
+    public create(name: string) {
+        this.options.send({ type: 'group_create', group: name });
+    }
+
+    public invite(name: string, userId: string) {
+        this.options.send({ type: 'group_invite', group: name, userId });
+    }
+
+    public leave(name: string) {
+        this.options.send({ type: 'group_leave', group: name });
+    }
+
+    /**
+     * Encrypts once for the whole group; the relay fans it out.
+     * @returns false if we are not in the group
+     */
+    public sendMessage(name: string, text: string): boolean {
+        const group = this.groups.get(name);
+        if (!group) return false;
+        const payload: GroupCiphertext = group.encrypt(text, this.options.privateKey);
+        this.options.send({ type: 'group_message', group: name, payload });
+        return true;
+    }
+
+    /**
+     * group_update, group_message or a direct `sender_key` payload from the relay.
+     * @returns false if the message is not about groups
+     */
+    public handle(msg: RelayFrame): boolean {
+        let handler: () => Promise<void>;
+        if (msg.type === 'group_update') handler = () => this.onUpdate(msg);
+        else if (msg.type === 'group_message') handler = () => this.onMessage(msg);
+        else if (msg.type === 'direct' && msg.payload.type === 'sender_key') {
+            handler = () => this.onSenderKey(msg.senderId, msg.payload as SenderKeyEnvelope); // Checked against SENDER_KEY
+        }
+        else return false;
+
+        this.queue = this.queue
+            .then(handler)
+            .catch(e => this.options.log(`[GROUP] ${e instanceof Error ? e.message : e}`));
+        return true;
+    }
+
+    private async onUpdate(msg: { group: string; action: string; userId: string; by?: string; members: GroupMember[] }) {
+        const me = this.options.localId();
+        if (msg.action === 'left' && msg.userId === me) {
+            this.groups.delete(msg.group);
+            this.options.log(`[GROUP] You left ${msg.group}.`);
+            return;
+        }
+
+        let group = this.groups.get(msg.group);
+        if (!group) {
+            group = new SenderKeyGroup(msg.group, me);
+            this.groups.set(msg.group, group);
+        }
+        group.members = msg.members.map(m => m.id);
+        if (msg.action === 'left') group.forget(msg.userId);
+
+        const text = msg.action === 'created' ? 'created'
+            : msg.action === 'joined' ? `${msg.userId} joined${msg.by ? ` (invited by ${msg.by})` : ''}`
+            : `${msg.userId} left`;
+        this.options.log(`[GROUP] ${msg.group}: ${text}. Members: ${group.members.join(', ')}`);
+
+        // New sender key for the new member list: joiners can't read the past, leavers can't read the future
+        const distribution = group.rotate();
+        for (const member of msg.members) {
+            if (member.id === me) continue;
+            const key = await this.options.memberKey(member);
+            if (!key) {
+                this.keys.delete(member.id);
+                this.options.log(`[GROUP] ${msg.group}: no trusted key for ${member.id}, not sending our sender key.`);
+                continue;
+            }
+            this.keys.set(member.id, key);
+            const payload: SenderKeyEnvelope = wrapSenderKey(distribution, me, member.id, key, this.options.privateKey);
+            this.options.send({ type: 'direct', targetId: member.id, payload });
+        }
+    }
+
+    private async onSenderKey(senderId: string, envelope: SenderKeyEnvelope) {
+        const group = this.groups.get(envelope.group);
+        const senderKey = this.keys.get(senderId);
+        if (!group || !group.members.includes(senderId) || !senderKey) {
+            throw new Error(`Ignoring sender key from ${senderId} for ${envelope.group}`);
+        }
+        group.accept(senderId, unwrapSenderKey(envelope, senderId, this.options.localId(), senderKey, this.options.privateKey));
+    }
+
+    private async onMessage(msg: { group: string; senderId: string; payload: GroupCiphertext }) {
+        const group = this.groups.get(msg.group);
+        const senderKey = this.keys.get(msg.senderId);
+        if (!group || !senderKey) throw new Error(`Message for ${msg.group} from ${msg.senderId} (Cannot decrypt: not a member)`);
+        try {
+            this.options.log(`[GROUP ${msg.group}] ${msg.senderId}: ${group.decrypt(msg.senderId, msg.payload, senderKey)}`);
+        } catch (e) {
+            throw new Error(`Message for ${msg.group} from ${msg.senderId} (Cannot decrypt: ${(e as Error).message})`);
+        }
+    }
+}
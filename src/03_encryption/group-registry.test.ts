@@ -0,0 +1,89 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { GroupRegistry, isGroupRequest } from './group-registry';
+import { ProtocolError, ErrorCode, GroupRequest } from './protocol';
+
+const rejects = (code: ErrorCode, fn: () => unknown, message?: RegExp) =>
+    assert.throws(fn, (e: unknown) => e instanceof ProtocolError && e.code === code && (!message || message.test(e.message)));
+
+describe('GroupRegistry', () => {
+    let online: Set<string>;
+    let sent: { to: string; message: any }[];
+    let registry: GroupRegistry;
+
+    const inbox = (userId: string) => sent.filter(s => s.to === userId).map(s => s.message);
+    const handle = (senderId: string, msg: GroupRequest) => registry.handle(senderId, msg);
+
+    beforeEach(() => {
+        online = new Set(['alice', 'bob', 'carol']);
+        sent = [];
+        registry = new GroupRegistry({
+            isOnline: userId => online.has(userId),
+            send: (to, message) => sent.push({ to, message }),
+            describe: userId => ({ id: userId, publicKey: `${userId}-key` })
+        });
+    });
+
+    it('creates a group and announces joins to every member', () => {
+        handle('alice', { type: 'group_create', group: 'friends' });
+        handle('alice', { type: 'group_invite', group: 'friends', userId: 'bob' });
+        const update = inbox('bob').at(-1);
+        assert.deepEqual(update, {
+            type: 'group_update', group: 'friends', action: 'joined', userId: 'bob', by: 'alice',
+            members: [{ id: 'alice', publicKey: 'alice-key' }, { id: 'bob', publicKey: 'bob-key' }]
+        });
+        assert.deepEqual(inbox('alice').at(-1), update);
+    });
+
+    it('refuses to create a group that exists, or with an invalid name', () => {
+        handle('alice', { type: 'group_create', group: 'friends' });
+        rejects('not_allowed', () => handle('carol', { type: 'group_create', group: 'friends' }), /already exists/);
+        rejects('bad_payload', () => handle('carol', { type: 'group_create', group: 'no spaces' }), /Invalid group name/);
+        rejects('bad_payload', () => handle('carol', { type: 'group_create', group: 'x'.repeat(33) }));
+    });
+
+    it('refuses everything but create from non-members', () => {
+        handle('alice', { type: 'group_create', group: 'friends' });
+        sent = [];
+        rejects('not_allowed', () => handle('carol', { type: 'group_invite', group: 'friends', userId: 'carol' }), /not a member of friends/);
+        rejects('not_allowed', () => handle('carol', { type: 'group_message', group: 'friends', payload: { content: 'hi' } }));
+        rejects('not_allowed', () => handle('carol', { type: 'group_leave', group: 'friends' }));
+        rejects('not_allowed', () => handle('carol', { type: 'group_message', group: 'nowhere', payload: {} }));
+        assert.deepEqual(sent, []);
+    });
+
+    it('only invites online users who are not members yet', () => {
+        handle('alice', { type: 'group_create', group: 'friends' });
+        handle('alice', { type: 'group_invite', group: 'friends', userId: 'bob' });
+        rejects('not_allowed', () => handle('alice', { type: 'group_invite', group: 'friends', userId: 'bob' }), /already in friends/);
+        rejects('target_offline', () => handle('alice', { type: 'group_invite', group: 'friends', userId: 'dave' }));
+    });
+
+    it('fans a message out to every other member, unchanged', () => {
+        handle('alice', { type: 'group_create', group: 'friends' });
+        handle('alice', { type: 'group_invite', group: 'friends', userId: 'bob' });
+        handle('alice', { type: 'group_invite', group: 'friends', userId: 'carol' });
+        sent = [];
+        const payload = { keyId: 'k', iteration: 0, content: 'sealed', signature: 'sig' };
+        handle('bob', { type: 'group_message', group: 'friends', payload });
+        assert.deepEqual(sent.map(s => s.to), ['alice', 'carol']);
+        assert.ok(sent.every(s => s.message.senderId === 'bob' && s.message.payload === payload));
+    });
+
+    it('removes leavers and disconnected members, and the group once empty', () => {
+        handle('alice', { type: 'group_create', group: 'friends' });
+        handle('alice', { type: 'group_invite', group: 'friends', userId: 'bob' });
+        handle('bob', { type: 'group_leave', group: 'friends' });
+        assert.deepEqual(inbox('bob').at(-1), { type: 'group_update', group: 'friends', action: 'left', userId: 'bob', members: [] });
+        assert.deepEqual(inbox('alice').at(-1).members.map((m: any) => m.id), ['alice']);
+
+        registry.removeEverywhere('alice');
+        handle('carol', { type: 'group_create', group: 'friends' }); // The name is free again
+    });
+
+    it('recognizes group requests by type', () => {
+        assert.ok(isGroupRequest({ type: 'group_invite' }));
+        assert.equal(isGroupRequest({ type: 'direct' }), false);
+        assert.equal(isGroupRequest({ type: 'hasOwnProperty' }), false);
+    });
+});
@@ -0,0 +1,96 @@
+import { ProtocolError, GroupRequest, GROUP_REQUESTS } from './protocol';
+
+// --- GROUPS (relay side, Phases 3-5) ---
+// The relay keeps group membership so it can fan a message out, and tells members who else is in
+// the group (with their key or certificate). Messages are encrypted once by the sender with its
+// sender key (see sender-keys.ts), so the relay never sees plaintext.
+//
+//   group_create  { group }           -> group_update { group, action: 'created', userId, members }
+//   group_invite  { group, userId }   -> group_update { ..., action: 'joined', by }   (members only)
+//   group_leave   { group }           -> group_update { ..., action: 'left' }, and members: [] to the leaver
+//   group_message { group, payload }  -> group_message { group, senderId, payload } to every other member
+//
+// A member that disconnects leaves all its groups: its sender keys die with the client.
+
+export interface GroupMember {
+    id: string;
+    publicKey?: string;   // Phases 3-4: registered key
+    certificate?: string; // Phase 5: the client verifies it like any other certificate
+    chain?: string[];
+}
+
+export interface GroupRelay {
+    isOnline(userId: string): boolean;
+    send(userId: string, message: object): void;
+    describe(userId: string): GroupMember; // What members learn about each other
+}
+
+const GROUP_NAME = /^[\w.-]{1,32}$/;
+
+// For a frame already checked against its phase's schemas (see protocol.ts)
+export const isGroupRequest = (msg: { type: string }): msg is GroupRequest =>
+    Object.prototype.hasOwnProperty.call(GROUP_REQUESTS, msg.type);
+
+export class GroupRegistry {
+    private groups = new Map<string, Set<string>>(); // name -> member IDs
+    private relay: GroupRelay;
+
+    constructor(relay: GroupRelay) {
+        this.relay = relay;
+    }
+
+    /**
+     * Handles a group request from a connected (Phase 5: registered) client.
+     * @throws ProtocolError for the client if the request is not allowed
+     */
+    public handle(senderId: string, msg: GroupRequest) {
+        const name = msg.group;
+        if (!GROUP_NAME.test(name)) throw new ProtocolError('bad_payload', 'Invalid group name (letters, digits, . _ -)');
+        const members = this.groups.get(name);
+
+        if (msg.type === 'group_create') {
+            if (members) throw new ProtocolError('not_allowed', `Group ${name} already exists`);
+            this.groups.set(name, new Set([senderId]));
+            this.announce(name, 'created', senderId);
+            return;
+        }
+        if (!members?.has(senderId)) throw new ProtocolError('not_allowed', `You are not a member of ${name}`);
+
+        if (msg.type === 'group_invite') {
+            if (!this.relay.isOnline(msg.userId)) throw new ProtocolError('target_offline', `${msg.userId} is not online`);
+            if (members.has(msg.userId)) throw new ProtocolError('not_allowed', `${msg.userId} is already in ${name}`);
+            members.add(msg.userId);
+            this.announce(name, 'joined', msg.userId, senderId);
+        }
+        else if (msg.type === 'group_leave') {
+            this.remove(name, senderId);
+        }
+        else if (msg.type === 'group_message') {
+            // Encrypted once: the same payload goes to every other member
+            const relayed = { type: 'group_message', group: name, senderId, payload: msg.payload };
+            members.forEach(id => {
+                if (id !== senderId) this.relay.send(id, relayed);
+            });
+        }
+    }
+
+    public removeEverywhere(userId: string) {
+        this.groups.forEach((members, name) => {
+            if (members.has(userId)) this.remove(name, userId);
+        });
+    }
+
+    private remove(name: string, userId: string) {
+        const members = this.groups.get(name)!;
+        members.delete(userId);
+        this.relay.send(userId, { type: 'group_update', group: name, action: 'left', userId, members: [] });
+        if (members.size === 0) this.groups.delete(name);
+        else this.announce(name, 'left', userId);
+    }
+
+    private announce(name: string, action: 'created' | 'joined' | 'left', userId: string, by?: string) {
+        const ids = [...this.groups.get(name)!];
+        const update = { type: 'group_update', group: name, action, userId, by, members: ids.map(id => this.relay.describe(id)) };
+        ids.forEach(id => this.relay.send(id, update));
+    }
+}
@@ -0,0 +1,66 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { OfflineQueue } from './offline-queue';
+import { ProtocolError } from './protocol';
+
+const limits = { maxMessages: 3, maxBytes: 1024, maxTotalBytes: 4096, ttlMs: 60_000 };
+
+describe('OfflineQueue', () => {
+    it('delivers queued messages oldest first, once', () => {
+        const queue = new OfflineQueue(limits);
+        assert.equal(queue.enqueue('bob', 'alice', { n: 1 }), 1);
+        assert.equal(queue.enqueue('bob', 'carol', { n: 2 }), 2);
+        assert.equal(queue.enqueue('dave', 'alice', { n: 3 }), 1);
+
+        const delivered = queue.drain('bob').map(frame => JSON.parse(frame));
+        assert.deepEqual(delivered.map(m => [m.type, m.senderId, m.payload.n]), [['direct', 'alice', 1], ['direct', 'carol', 2]]);
+        assert.ok(delivered.every(m => typeof m.queuedAt === 'number'));
+        assert.deepEqual(queue.drain('bob'), []);
+        assert.equal(queue.drain('dave').length, 1);
+    });
+
+    it('splices payloads back as the sender sent them', () => {
+        const queue = new OfflineQueue(limits);
+        const payload = { type: 'chat', content: '{"iv":"…","encrypted":"\\u0000"}', header: { dh: 'a', pn: 0, n: 0 } };
+        queue.enqueue('bob', 'alice', payload);
+        assert.deepEqual(JSON.parse(queue.drain('bob')[0]).payload, payload);
+    });
+
+    it('refuses messages beyond the per-recipient message cap', () => {
+        const queue = new OfflineQueue(limits);
+        [1, 2, 3].forEach(n => queue.enqueue('bob', 'alice', { n }));
+        assert.throws(() => queue.enqueue('bob', 'alice', { n: 4 }), (e: unknown) => e instanceof ProtocolError && e.code === 'queue_full');
+        assert.equal(queue.enqueue('carol', 'alice', { n: 4 }), 1);
+        assert.deepEqual(queue.drain('bob').map(frame => JSON.parse(frame).payload.n), [1, 2, 3]);
+    });
+
+    it('refuses messages beyond the per-recipient byte cap', () => {
+        const queue = new OfflineQueue({ ...limits, maxBytes: 40 });
+        queue.enqueue('bob', 'alice', 'x'.repeat(20));
+        assert.throws(() => queue.enqueue('bob', 'alice', 'x'.repeat(20)), ProtocolError);
+        assert.equal(queue.enqueue('bob', 'alice', 'x'.repeat(10)), 2);
+    });
+
+    it('refuses messages beyond the byte cap for all recipients together', () => {
+        const queue = new OfflineQueue({ ...limits, maxBytes: 40, maxTotalBytes: 60 });
+        queue.enqueue('bob', 'alice', 'x'.repeat(30));
+        assert.throws(() => queue.enqueue('carol', 'alice', 'x'.repeat(30)), /Offline queue is full/);
+        assert.equal(queue.enqueue('carol', 'alice', 'x'.repeat(20)), 1);
+
+        queue.drain('bob');
+        assert.equal(queue.enqueue('dave', 'alice', 'x'.repeat(30)), 1);
+    });
+
+    it('drops messages older than the TTL', () => {
+        const queue = new OfflineQueue({ ...limits, ttlMs: 0 });
+        queue.enqueue('bob', 'alice', { n: 1 });
+        assert.deepEqual(queue.drain('bob'), []);
+    });
+
+    it('forgets discarded recipients', () => {
+        const queue = new OfflineQueue(limits);
+        queue.enqueue('bob', 'alice', { n: 1 });
+        queue.discard('bob');
+        assert.deepEqual(queue.drain('bob'), []);
+    });
+});
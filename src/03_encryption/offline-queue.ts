@@ -0,0 +1,88 @@
+import { ProtocolError } from './protocol';
+
+// --- OFFLINE QUEUE (store-and-forward, Phases 3-5) ---
+// The relay keeps `direct` messages for a recipient that is offline and delivers them, in order,
+// when it comes back. Payloads are ciphertext envelopes: they are stored as the JSON the sender
+// sent and spliced back into the relayed message, never parsed or decrypted.
+// Each recipient has a cap on messages and bytes, and the whole queue a cap on bytes. A full queue refuses new messages (the sender
+// is told) instead of dropping old ones, which would leave gaps in a ratchet chain.
+//
+//   sender    <- { type: 'queued', targetId, waiting }
+//   recipient <- { type: 'direct', senderId, payload, queuedAt }   on reconnect, oldest first
+
+export interface OfflineQueueLimits {
+    maxMessages: number; // Per recipient
+    maxBytes: number;    // Per recipient, serialized payloads
+    maxTotalBytes: number; // All recipients together
+    ttlMs: number;       // Undelivered messages are dropped after this
+}
+
+export const offlineQueueLimitsFromEnv = (): OfflineQueueLimits => ({
+    maxMessages: Number(process.env.OFFLINE_QUEUE_MAX_MESSAGES) || 100,
+    maxBytes: Number(process.env.OFFLINE_QUEUE_MAX_BYTES) || 1024 * 1024,
+    maxTotalBytes: Number(process.env.OFFLINE_QUEUE_MAX_TOTAL_BYTES) || 64 * 1024 * 1024,
+    ttlMs: (Number(process.env.OFFLINE_QUEUE_TTL_MINUTES) || 24 * 60) * 60 * 1000
+});
+
+interface QueuedMessage {
+    senderId: string;
+    payload: string; // As received, opaque
+    queuedAt: number;
+}
+
+const size = (queue: QueuedMessage[]) => queue.reduce((total, m) => total + m.payload.length, 0);
+
+export class OfflineQueue {
+    public readonly limits: OfflineQueueLimits;
+    private queues = new Map<string, QueuedMessage[]>(); // recipient ID -> oldest first
+
+    constructor(limits: OfflineQueueLimits = offlineQueueLimitsFromEnv()) {
+        this.limits = limits;
+    }
+
+    /**
+     * @returns how many messages are now waiting for the recipient
+     * @throws ProtocolError (queue_full) for the sender if the recipient's queue, or the relay's, is full
+     */
+    public enqueue(recipientId: string, senderId: string, payload: unknown): number {
+        let totalBytes = 0;
+        this.queues.forEach((_, id) => { totalBytes += size(this.pending(id)); }); // Drop what expired for anyone
+        const queue = this.pending(recipientId);
+        const serialized = JSON.stringify(payload ?? null);
+        if (queue.length >= this.limits.maxMessages || size(queue) + serialized.length > this.limits.maxBytes) {
+            throw new ProtocolError('queue_full', `Offline queue for ${recipientId} is full`);
+        }
+        if (totalBytes + serialized.length > this.limits.maxTotalBytes) {
+            throw new ProtocolError('queue_full', 'Offline queue is full');
+        }
+        queue.push({ senderId, payload: serialized, queuedAt: Date.now() });
+        this.queues.set(recipientId, queue);
+        return queue.length;
+    }
+
+    /**
+     * Removes everything waiting for the recipient.
+     * @returns the relay messages to send, in the order they were queued
+     */
+    public drain(recipientId: string): string[] {
+        const queue = this.pending(recipientId);
+        this.queues.delete(recipientId);
+        return queue.map(m =>
+            `{"type":"direct","senderId":${JSON.stringify(m.senderId)},"queuedAt":${m.queuedAt},"payload":${m.payload}}`
+        );
+    }
+
+    // Forgets a recipient that will not come back (e.g. its identity expired)
+    public discard(recipientId: string) {
+        this.queues.delete(recipientId);
+    }
+
+    // Unexpired messages for the recipient
+    private pending(recipientId: string): QueuedMessage[] {
+        const cutoff = Date.now() - this.limits.ttlMs;
+        const queue = (this.queues.get(recipientId) || []).filter(m => m.queuedAt > cutoff);
+        if (queue.length === 0) this.queues.delete(recipientId);
+        else this.queues.set(recipientId, queue);
+        return queue;
+    }
+}
@@ -0,0 +1,115 @@
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { EventEmitter } from 'events';
+import { WebSocket } from 'ws';
+import { ProtocolError } from './protocol';
+import { parseClientStatus, IdleReporter, watchServer, keepAlive, describePresence } from './presence';
+
+const limits = { intervalMs: 1000, timeoutMs: 3000 };
+
+// Enough of a ws socket for the heartbeats: counts pings and terminations
+class FakeSocket extends EventEmitter {
+    public pings = 0;
+    public terminated = false;
+    ping() { this.pings++; }
+    terminate() {
+        this.terminated = true;
+        this.emit('close');
+    }
+}
+
+const socket = () => new FakeSocket() as FakeSocket & WebSocket;
+
+describe('parseClientStatus', () => {
+    it('accepts online and away only', () => {
+        assert.equal(parseClientStatus('online'), 'online');
+        assert.equal(parseClientStatus('away'), 'away');
+        for (const status of ['offline', 'AWAY', '']) {
+            assert.throws(() => parseClientStatus(status), (e: unknown) => e instanceof ProtocolError && e.code === 'bad_payload');
+        }
+    });
+});
+
+describe('IdleReporter', () => {
+    beforeEach(() => mock.timers.enable({ apis: ['setTimeout'] }));
+    afterEach(() => mock.timers.reset());
+
+    it('reports away after the idle time and online on the next activity', () => {
+        const reports: string[] = [];
+        const idle = new IdleReporter(status => reports.push(status), 5000);
+        mock.timers.tick(4999);
+        idle.activity(); // Restarts the wait
+        mock.timers.tick(4999);
+        assert.deepEqual(reports, []);
+        mock.timers.tick(1);
+        assert.deepEqual(reports, ['away']);
+
+        idle.activity();
+        idle.activity();
+        assert.deepEqual(reports, ['away', 'online']);
+    });
+
+    it('repeats away after a reconnect, and only then', () => {
+        const reports: string[] = [];
+        const idle = new IdleReporter(status => reports.push(status), 5000);
+        idle.reconnected();
+        assert.deepEqual(reports, []);
+        mock.timers.tick(5000);
+        idle.reconnected();
+        assert.deepEqual(reports, ['away', 'away']);
+    });
+});
+
+describe('heartbeats', () => {
+    beforeEach(() => {
+        mock.timers.enable({ apis: ['Date', 'setInterval'], now: 1_000_000 });
+        mock.method(console, 'log', () => {});
+    });
+    afterEach(() => {
+        mock.timers.reset();
+        mock.restoreAll();
+    });
+
+    it('client: drops a server that has been silent past the timeout', () => {
+        const ws = socket();
+        watchServer(ws, limits);
+        mock.timers.tick(2000);
+        ws.emit('ping'); // Heard from it
+        mock.timers.tick(3000);
+        assert.equal(ws.terminated, false);
+        mock.timers.tick(1000);
+        assert.equal(ws.terminated, true);
+    });
+
+    it('client: any frame counts as hearing from the server', () => {
+        const ws = socket();
+        watchServer(ws, limits);
+        for (let i = 0; i < 10; i++) {
+            mock.timers.tick(1000);
+            ws.emit('message', Buffer.from('{}'));
+        }
+        assert.equal(ws.terminated, false);
+    });
+
+    it('relay: pings every interval and reaps a client without pongs', () => {
+        const ws = socket();
+        keepAlive(ws, () => 'alice', limits);
+        mock.timers.tick(3000);
+        assert.equal(ws.pings, 3);
+        ws.emit('pong');
+        mock.timers.tick(3000);
+        assert.equal(ws.terminated, false);
+        mock.timers.tick(1000);
+        assert.equal(ws.terminated, true);
+        mock.timers.tick(5000);
+        assert.equal(ws.pings, 6); // Stopped on close
+    });
+});
+
+describe('describePresence', () => {
+    it('marks away and offline users', () => {
+        assert.equal(describePresence({ id: 'alice', presence: 'online' }), 'alice');
+        assert.equal(describePresence({ id: 'bob', presence: 'away', since: 1 }), 'bob (away)');
+        assert.equal(describePresence({ id: 'carol', presence: 'offline' }), 'carol (offline)');
+    });
+});
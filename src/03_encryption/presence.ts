@@ -0,0 +1,116 @@
+import { WebSocket } from 'ws';
+import { ProtocolError } from './protocol';
+
+// --- HEARTBEATS AND PRESENCE (Phases 1-6) ---
+// A connection can die without a close (laptop lid, NAT timeout, pulled cable). Neither side
+// notices until it writes, so the relay would list the user as online forever.
+// - Relays ping every socket (WebSocket ping, answered by every client including browsers) and
+//   terminate one that has not been heard from within the timeout. 'close' then runs the usual cleanup.
+// - CLI clients expect those pings and drop a server that has gone quiet; browsers cannot see
+//   pings, so the web client sends { type: 'ping' } and expects { type: 'pong' } (Phases 3-6).
+// - Clients report { type: 'presence', status: 'online' | 'away' }. User lists carry
+//   presence 'online' | 'away' | 'offline' with `since` for the last two.
+
+export type PresenceStatus = 'online' | 'away' | 'offline';
+
+export interface HeartbeatLimits {
+    intervalMs: number; // Relays ping this often
+    timeoutMs: number;  // Silence after which either side gives the connection up
+}
+
+export const heartbeatLimitsFromEnv = (): HeartbeatLimits => ({
+    intervalMs: (Number(process.env.HEARTBEAT_INTERVAL_SECONDS) || 15) * 1000,
+    timeoutMs: (Number(process.env.HEARTBEAT_TIMEOUT_SECONDS) || 45) * 1000
+});
+
+export const awayAfterMsFromEnv = (): number => (Number(process.env.AWAY_AFTER_MINUTES) || 5) * 60 * 1000;
+
+/**
+ * Relay side: pings the client every interval and terminates it once it has been silent
+ * (no pong and no frame) for longer than the timeout.
+ * @param describe names the client in the log when it is reaped
+ */
+export function keepAlive(ws: WebSocket, describe: () => string, limits: HeartbeatLimits = heartbeatLimitsFromEnv()) {
+    let lastHeard = Date.now();
+    const heard = () => { lastHeard = Date.now(); };
+    ws.on('pong', heard);
+    ws.on('message', heard);
+
+    const timer = setInterval(() => {
+        const silentMs = Date.now() - lastHeard;
+        if (silentMs > limits.timeoutMs) {
+            console.log(`Reaping ${describe()}: no heartbeat for ${Math.round(silentMs / 1000)}s`);
+            ws.terminate();
+            return;
+        }
+        ws.ping();
+    }, limits.intervalMs);
+    ws.once('close', () => clearInterval(timer));
+}
+
+/**
+ * CLI side: terminates the connection if the server has sent neither a ping nor a frame
+ * within the timeout. The client's own 'close' handler then reports it (and reconnects).
+ */
+export function watchServer(ws: WebSocket, limits: HeartbeatLimits = heartbeatLimitsFromEnv()) {
+    let lastHeard = Date.now();
+    const heard = () => { lastHeard = Date.now(); };
+    ws.on('open', heard);
+    ws.on('ping', heard);
+    ws.on('message', heard);
+
+    const timer = setInterval(() => {
+        const silentMs = Date.now() - lastHeard;
+        if (silentMs <= limits.timeoutMs) return;
+        console.log(`\n[INFO] No heartbeat from the server for ${Math.round(silentMs / 1000)}s. Dropping the connection.`);
+        ws.terminate();
+    }, limits.intervalMs);
+    ws.once('close', () => clearInterval(timer));
+}
+
+// Relay side: the statuses a client may claim for itself (offline is for the relay to say)
+export function parseClientStatus(status: string): 'online' | 'away' {
+    if (status === 'online' || status === 'away') return status;
+    throw new ProtocolError('bad_payload', 'Presence status must be "online" or "away"');
+}
+
+/**
+ * CLI side: reports 'away' after a while without input and 'online' again on the next line.
+ * Call activity() for every line typed, and reconnected() once the relay knows us again.
+ */
+export class IdleReporter {
+    private status: 'online' | 'away' = 'online';
+    private timer: NodeJS.Timeout | null = null;
+    private report: (status: 'online' | 'away') => void;
+    private awayAfterMs: number;
+
+    constructor(report: (status: 'online' | 'away') => void, awayAfterMs: number = awayAfterMsFromEnv()) {
+        this.report = report;
+        this.awayAfterMs = awayAfterMs;
+        this.activity();
+    }
+
+    public activity() {
+        if (this.timer) clearTimeout(this.timer);
+        if (this.status === 'away') this.set('online');
+        this.timer = setTimeout(() => this.set('away'), this.awayAfterMs);
+        this.timer.unref();
+    }
+
+    // A new connection starts out online: tell the relay if we are not
+    public reconnected() {
+        if (this.status === 'away') this.report('away');
+    }
+
+    private set(status: 'online' | 'away') {
+        this.status = status;
+        this.report(status);
+    }
+}
+
+// For CLI user lists: "alice", "bob (away)", "carol (offline since 14:02:11)"
+export function describePresence(user: { id: string; presence?: string; since?: number }): string {
+    if (user.presence === 'away') return `${user.id} (away)`;
+    if (user.presence === 'offline') return `${user.id} (offline${user.since ? ` since ${new Date(user.since).toLocaleTimeString()}` : ''})`;
+    return user.id;
+}
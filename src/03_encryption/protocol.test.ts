@@ -0,0 +1,76 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+    ProtocolError,
+    ErrorCode,
+    parseFrame,
+    validateFrame,
+    PHASE3_REQUESTS,
+    PHASE3_FRAMES,
+    PHASE4_PAYLOADS,
+    PHASE5_REQUESTS,
+    PHASE6_REQUESTS,
+    CA_RESPONSES
+} from './protocol';
+
+const rejects = (code: ErrorCode, fn: () => unknown, message?: RegExp) =>
+    assert.throws(fn, (e: unknown) => e instanceof ProtocolError && e.code === code && (!message || message.test(e.message)));
+
+describe('parseFrame', () => {
+    it('returns frames that match their schema, extra fields included', () => {
+        const frame = parseFrame('{"type":"direct","targetId":"bob","payload":{"type":"chat"},"extra":1}', PHASE3_REQUESTS);
+        assert.equal(frame.type, 'direct');
+        assert.deepEqual(frame, { type: 'direct', targetId: 'bob', payload: { type: 'chat' }, extra: 1 });
+    });
+
+    it('rejects anything that is not a JSON object with a string type', () => {
+        rejects('bad_json', () => parseFrame('{"type":', PHASE3_REQUESTS), /not valid JSON/);
+        ['[]', 'null', '"list"', '{}', '{"type":3}'].forEach(data => rejects('bad_json', () => parseFrame(data, PHASE3_REQUESTS)));
+    });
+
+    it('rejects types the phase does not know, inherited names included', () => {
+        rejects('unknown_type', () => parseFrame('{"type":"shout"}', PHASE3_REQUESTS), /"shout"/);
+        rejects('unknown_type', () => parseFrame('{"type":"toString"}', PHASE3_REQUESTS));
+        rejects('unknown_type', () => parseFrame('{"type":"__proto__"}', PHASE3_REQUESTS));
+    });
+
+    it('keeps each phase to its own message types', () => {
+        const create = '{"type":"group_create","group":"friends"}';
+        assert.equal(parseFrame(create, PHASE5_REQUESTS).type, 'group_create');
+        rejects('unknown_type', () => parseFrame(create, PHASE6_REQUESTS));
+        rejects('unknown_type', () => parseFrame('{"type":"register_with_cert","payload":{"certificate":"pem"}}', PHASE3_REQUESTS));
+    });
+});
+
+describe('validateFrame', () => {
+    it('names the first missing or mistyped field', () => {
+        rejects('bad_payload', () => validateFrame({ type: 'direct', payload: {} }, PHASE3_REQUESTS), /"targetId" in direct/);
+        rejects('bad_payload', () => validateFrame({ type: 'direct', targetId: 'bob', payload: [] }, PHASE3_REQUESTS), /"payload"/);
+        rejects('bad_payload', () => validateFrame({ type: 'register', payload: { publicKey: 42 } }, PHASE3_REQUESTS), /"payload.publicKey"/);
+    });
+
+    it('checks every item of a list of objects', () => {
+        const users = [{ id: 'alice', presence: 'online' }, { id: 'bob' }];
+        rejects('bad_payload', () => validateFrame({ type: 'user_list', users }, PHASE3_FRAMES), /"users\[1\].presence"/);
+        rejects('bad_payload', () => validateFrame({ type: 'user_list', users: ['alice'] }, PHASE3_FRAMES), /"users\[0\]"/);
+        assert.ok(validateFrame({ type: 'user_list', users: [] }, PHASE3_FRAMES));
+    });
+
+    it('lets optional fields be missing or null but not mistyped', () => {
+        assert.ok(validateFrame({ type: 'key_exchange', encryptedKey: 'k' }, PHASE4_PAYLOADS));
+        assert.ok(validateFrame({ type: 'key_exchange', encryptedKey: 'k', replayStrategy: null }, PHASE4_PAYLOADS));
+        rejects('bad_payload', () => validateFrame({ type: 'key_exchange', encryptedKey: 'k', replayStrategy: 1 }, PHASE4_PAYLOADS));
+    });
+
+    it('checks string lists and finite numbers', () => {
+        rejects('bad_payload', () => validateFrame({ type: 'replay_challenge', nonces: ['a', 1] }, PHASE4_PAYLOADS), /"nonces"/);
+        rejects('bad_payload', () => validateFrame({ type: 'revoked', serialNumber: '0a', crlVersion: Infinity }, CA_RESPONSES), /"crlVersion"/);
+        rejects('bad_payload', () => validateFrame({ type: 'revoked', serialNumber: '0a', crlVersion: '2' }, CA_RESPONSES));
+        assert.ok(validateFrame({ type: 'revoked', serialNumber: '0a', crlVersion: 2 }, CA_RESPONSES));
+    });
+
+    it('checks nested statements in CA responses', () => {
+        rejects('bad_payload', () => validateFrame({ type: 'crl', payload: { content: '{}' } }, CA_RESPONSES), /"payload.signature" in crl/);
+        assert.ok(validateFrame({ type: 'crl', payload: { content: '{}', signature: 'sig', signerChain: ['pem'] } }, CA_RESPONSES));
+    });
+});
@@ -0,0 +1,330 @@
+// --- WIRE PROTOCOL (Phases 2-6 and the CA) ---
+// One schema per JSON message type: what each server accepts and what each client accepts back.
+// Frames are checked at the socket, before any handler sees them. A frame that fails is answered
+// with an `error` frame carrying a machine-readable code (servers) or dropped and logged (clients).
+// Phase 1 is plain text and has no schema.
+//
+//   { type: 'error', code: ErrorCode, message }   message is for people, code is for programs
+//
+// Schemas list the fields a handler relies on. Extra fields are allowed and passed through
+// (signed transcripts cover them). Payloads that are encrypted or signed are checked for shape
+// only; the cryptography decides whether they are genuine.
+//
+// Field specs: 'string', 'number', 'boolean', 'string[]', 'object', 'array' or 'unknown',
+// with a '?' suffix if the field may be missing; a nested schema; or [schema] for a list of them.
+// Must match web-client/src/protocol.ts
+
+export type ErrorCode =
+    | 'bad_json'        // Not a JSON object with a string `type`
+    | 'unknown_type'    // No such message type (in this phase)
+    | 'bad_payload'     // A field is missing or has the wrong type
+    | 'not_registered'  // Phases 5-6: register_with_cert first
+    | 'target_offline'  // No such user online (and, Phases 3-5, nothing queued for it)
+    | 'queue_full'      // The offline queue for the target is full
+    | 'not_allowed'     // Group request refused (exists already, not a member, ...)
+    | 'unauthorized'    // CA admin request without a valid admin token
+    | 'not_found'       // CA: unknown serial number, log entry or rebind
+    | 'rejected'        // CA: enrollment, CSR or renewal refused
+    | 'rate_limited';   // Phases 1-6: too many frames, too large a frame, too many connections or resumable IDs
+
+export interface ErrorFrame {
+    type: 'error';
+    code: ErrorCode;
+    message: string;
+}
+
+export const errorFrame = (code: ErrorCode, message: string): ErrorFrame => ({ type: 'error', code, message });
+
+// Thrown by the validators, and by shared handlers that refuse a request (GroupRegistry, OfflineQueue)
+export class ProtocolError extends Error {
+    public readonly code: ErrorCode;
+
+    constructor(code: ErrorCode, message: string) {
+        super(message);
+        this.code = code;
+    }
+}
+
+// --- SCHEMAS ---
+
+type Scalar = 'string' | 'number' | 'boolean' | 'string[]' | 'object' | 'array' | 'unknown';
+export type FieldSpec = Scalar | `${Scalar}?` | Schema | readonly [Schema];
+export type Schema = { readonly [field: string]: FieldSpec };
+export type SchemaSet = { readonly [type: string]: Schema };
+
+type ScalarValue<T> =
+    T extends 'string' ? string
+    : T extends 'number' ? number
+    : T extends 'boolean' ? boolean
+    : T extends 'string[]' ? string[]
+    : T extends 'object' ? Record<string, any>
+    : T extends 'array' ? any[]
+    : unknown;
+
+type FieldValue<T> =
+    T extends `${infer S}?` ? ScalarValue<S>
+    : T extends Scalar ? ScalarValue<T>
+    : T extends readonly [infer S extends Schema] ? Infer<S>[]
+    : T extends Schema ? Infer<T>
+    : never;
+
+type OptionalField<S extends Schema> = { [F in keyof S]: S[F] extends `${string}?` ? F : never }[keyof S];
+
+// The TypeScript type a schema accepts
+export type Infer<S extends Schema> =
+    { -readonly [F in Exclude<keyof S, OptionalField<S>>]: FieldValue<S[F]> }
+    & { -readonly [F in OptionalField<S>]?: FieldValue<S[F]> };
+
+// Union of the frames in a set, discriminated by `type`
+export type FrameOf<T extends SchemaSet> = { [K in keyof T & string]: { type: K } & Infer<T[K]> }[keyof T & string];
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const checkScalar = (value: unknown, scalar: string): boolean => {
+    if (scalar === 'string[]') return Array.isArray(value) && value.every(v => typeof v === 'string');
+    if (scalar === 'object') return isObject(value);
+    if (scalar === 'array') return Array.isArray(value);
+    if (scalar === 'unknown') return true;
+    return typeof value === scalar && (scalar !== 'number' || Number.isFinite(value));
+};
+
+// @returns the path of the first field that does not match, or null
+const checkSchema = (value: Record<string, unknown>, schema: Schema, path: string): string | null => {
+    for (const [field, spec] of Object.entries(schema)) {
+        const fieldPath = path ? `${path}.${field}` : field;
+        const fieldValue = value[field];
+
+        if (typeof spec === 'string') {
+            const optional = spec.endsWith('?');
+            if (fieldValue === undefined || fieldValue === null) {
+                if (optional) continue;
+                return fieldPath;
+            }
+            if (!checkScalar(fieldValue, optional ? spec.slice(0, -1) : spec)) return fieldPath;
+        }
+        else if (Array.isArray(spec)) {
+            if (!Array.isArray(fieldValue)) return fieldPath;
+            for (let i = 0; i < fieldValue.length; i++) {
+                if (!isObject(fieldValue[i])) return `${fieldPath}[${i}]`;
+                const bad = checkSchema(fieldValue[i], spec[0], `${fieldPath}[${i}]`);
+                if (bad) return bad;
+            }
+        }
+        else {
+            if (!isObject(fieldValue)) return fieldPath;
+            const bad = checkSchema(fieldValue, spec as Schema, fieldPath);
+            if (bad) return bad;
+        }
+    }
+    return null;
+};
+
+/**
+ * Checks an already parsed frame (or direct payload) against the schema for its `type`.
+ * @throws ProtocolError (bad_json, unknown_type or bad_payload)
+ */
+export function validateFrame<T extends SchemaSet>(value: unknown, schemas: T): FrameOf<T> {
+    if (!isObject(value) || typeof value.type !== 'string') throw new ProtocolError('bad_json', 'Expected a JSON object with a string "type"');
+    if (!Object.prototype.hasOwnProperty.call(schemas, value.type)) throw new ProtocolError('unknown_type', `Unknown message type "${value.type}"`);
+    const bad = checkSchema(value, schemas[value.type], '');
+    if (bad) throw new ProtocolError('bad_payload', `Missing or invalid "${bad}" in ${value.type}`);
+    return value as FrameOf<T>;
+}
+
+/**
+ * JSON.parse + validateFrame, for raw socket data.
+ * @throws ProtocolError
+ */
+export function parseFrame<T extends SchemaSet>(data: string, schemas: T): FrameOf<T> {
+    let value: unknown;
+    try {
+        value = JSON.parse(data);
+    } catch {
+        throw new ProtocolError('bad_json', 'Frame is not valid JSON');
+    }
+    return validateFrame(value, schemas);
+}
+
+// --- MESSAGES ---
+// Requests go client -> server, frames server -> client, payloads travel inside `direct`.
+
+const ERROR = { code: 'string', message: 'string' } as const;
+
+// Phase 2: signed broadcast
+export const PHASE2_REQUESTS = {
+    pubkey: { key: 'string' },
+    message: { content: 'string', signature: 'string' }
+} as const;
+
+export const PHASE2_FRAMES = {
+    broadcast: { senderId: 'string', content: 'string', signature: 'string', senderPublicKey: 'string?' },
+    error: ERROR
+} as const;
+
+// Phases 3-5: groups (see group-registry.ts)
+export const GROUP_REQUESTS = {
+    group_create: { group: 'string' },
+    group_invite: { group: 'string', userId: 'string' },
+    group_leave: { group: 'string' },
+    group_message: { group: 'string', payload: 'object' }
+} as const;
+
+const GROUP_FRAMES = {
+    group_update: {
+        group: 'string',
+        action: 'string',
+        userId: 'string',
+        by: 'string?',
+        members: [{ id: 'string', publicKey: 'string?', certificate: 'string?', chain: 'string[]?' }]
+    },
+    group_message: { group: 'string', senderId: 'string', payload: { keyId: 'string', iteration: 'number', content: 'string', signature: 'string' } }
+} as const;
+
+export type GroupRequest = FrameOf<typeof GROUP_REQUESTS>;
+
+// Payloads are opaque to the relay: only the recipient checks them
+const DIRECT = { targetId: 'string', payload: 'object' } as const;
+const QUEUED = { targetId: 'string', waiting: 'number' } as const;
+
+// Phases 3-4: keys registered in the clear, IDs assigned per connection
+export const PHASE3_REQUESTS = {
+    register: { payload: { publicKey: 'string' }, resumable: 'boolean?' },
+    resume: { id: 'string', resumeToken: 'string' },
+    list: {},
+    ping: {}, // Answered with pong (the web client's heartbeat, see presence.ts)
+    presence: { status: 'string' },
+    direct: DIRECT,
+    ...GROUP_REQUESTS
+} as const;
+
+export const PHASE3_FRAMES = {
+    welcome: { id: 'string', resumeToken: 'string?', resumed: 'boolean?' },
+    resume_token: { id: 'string', resumeToken: 'string' },
+    user_list: { users: [{ id: 'string', publicKey: 'string?', presence: 'string', since: 'number?' }] },
+    direct: { senderId: 'string', payload: 'object', queuedAt: 'number?' },
+    queued: QUEUED,
+    error: ERROR,
+    pong: {},
+    ...GROUP_FRAMES
+} as const;
+
+// Double Ratchet messages (see rekeying-session.ts) and group sender keys (see sender-keys.ts)
+const SESSION_PAYLOAD = { epoch: 'number', header: { dh: 'string', pn: 'number', n: 'number' }, content: 'string' } as const;
+const SENDER_KEY = { group: 'string', encryptedKey: 'string', content: 'string', signature: 'string' } as const;
+
+export const PHASE3_PAYLOADS = {
+    key_exchange: { encryptedKey: 'string', ratchetKey: 'string?' },
+    chat: SESSION_PAYLOAD,
+    rekey: SESSION_PAYLOAD,
+    sender_key: SENDER_KEY
+} as const;
+
+// Phase 4: the key exchange also picks the replay protection
+export const PHASE4_PAYLOADS = {
+    ...PHASE3_PAYLOADS,
+    key_exchange: { encryptedKey: 'string', ratchetKey: 'string?', replayStrategy: 'string?', challenges: 'string[]?' },
+    replay_challenge: { nonces: 'string[]' }
+} as const;
+
+// Phase 6: certified IDs, no groups and no offline queue
+export const PHASE6_REQUESTS = {
+    register_with_cert: { payload: { certificate: 'string', chain: 'string[]?' } },
+    auth_response: { signature: 'string' },
+    list: {},
+    ping: {}, // Answered with pong (the web client's heartbeat, see presence.ts)
+    presence: { status: 'string' },
+    direct: DIRECT,
+    get_cert: { targetId: 'string' }
+} as const;
+
+export const PHASE6_FRAMES = {
+    auth_challenge: { nonce: 'string', userId: 'string' },
+    registered: { userId: 'string' },
+    registration_rejected: { code: 'string', message: 'string' },
+    user_list: { users: [{ id: 'string', hasCert: 'boolean', presence: 'string', since: 'number?' }] },
+    pong: {},
+    direct: { senderId: 'string', payload: 'object' },
+    cert_response: { targetId: 'string', certificate: 'string', chain: 'string[]?' },
+    error: ERROR
+} as const;
+
+// Handshake (see 06_forward_secrecy/client.ts). Offers are checked by parseOffer.
+export const PHASE6_PAYLOADS = {
+    handshake_init: { sessionId: 'string', ephemeral: 'string', offer: 'object?' },
+    handshake_response: { sessionId: 'string', ephemeral: 'string', offer: 'object?', selected: 'object?', sealed: 'string' },
+    handshake_finish: { sessionId: 'string', sealed: 'string' },
+    handshake_reject: { sessionId: 'string', reason: 'string' },
+    chat: { sessionId: 'string', seq: 'number', content: 'string' }
+} as const;
+
+// Phase 5: Phase 6's registration with Phase 3's groups and offline queue
+export const PHASE5_REQUESTS = {
+    ...PHASE6_REQUESTS,
+    ...GROUP_REQUESTS
+} as const;
+
+export const PHASE5_FRAMES = {
+    ...PHASE6_FRAMES,
+    direct: { senderId: 'string', payload: 'object', queuedAt: 'number?' },
+    queued: QUEUED,
+    ...GROUP_FRAMES
+} as const;
+
+export const PHASE5_PAYLOADS = {
+    ...PHASE4_PAYLOADS,
+    key_exchange: {
+        initiatorId: 'string',
+        responderId: 'string',
+        timestamp: 'number',
+        nonce: 'string',
+        encryptedKey: 'string',
+        ratchetKey: 'string',
+        replayStrategy: 'string',
+        signature: 'string',
+        certificate: 'string',
+        chain: 'string[]?',
+        challenges: 'string[]?'
+    }
+} as const;
+
+// Certificate Authority (see 05_auth/ca-server.ts). Admin requests check adminToken themselves.
+const SIGNED = { content: 'string', signature: 'string', signerChain: 'string[]?' } as const; // Checked by openStatement
+const ISSUED = { payload: { userId: 'string', certificate: 'string', chain: 'string[]', transparency: 'object' } } as const;
+
+export const CA_REQUESTS = {
+    get_root_key: {},
+    get_challenge: { enrollmentToken: 'string?' },
+    sign_request: { payload: { csr: 'string', enrollmentToken: 'string?' } },
+    renew_request: { payload: { certificate: 'string', csr: 'string', signature: 'string' } },
+    get_sth: {},
+    get_inclusion_proof: { serialNumber: 'string' },
+    get_consistency_proof: { first: 'number', second: 'number' },
+    get_entries: { start: 'number?', end: 'number?' },
+    get_crl: {},
+    cert_status: { serialNumber: 'string' },
+    revoke: { adminToken: 'string?', payload: { serialNumber: 'string', reason: 'string?' } },
+    create_enrollment_token: { adminToken: 'string?', payload: { userId: 'string', lifetimeMinutes: 'number?' } },
+    list_enrollment_tokens: { adminToken: 'string?' },
+    list_rebinds: { adminToken: 'string?' },
+    approve_rebind: { adminToken: 'string?', payload: { userId: 'string', publicKeyFingerprint: 'string?' } }
+} as const;
+
+export const CA_RESPONSES = {
+    root_key: { key: 'string', certificate: 'string' },
+    challenge: { nonce: 'string', userId: 'string?' },
+    certificate_issued: ISSUED,
+    certificate_renewed: ISSUED,
+    sth: { payload: SIGNED },
+    inclusion_proof: { serialNumber: 'string', leafIndex: 'number', proof: 'string[]', sth: SIGNED },
+    consistency_proof: { first: 'number', second: 'number', proof: 'string[]' },
+    entries: { start: 'number', entries: 'array' },
+    crl: { payload: SIGNED },
+    cert_status_response: { payload: SIGNED },
+    revoked: { serialNumber: 'string', crlVersion: 'number' },
+    enrollment_token: { userId: 'string', token: 'string', expiresAt: 'number' },
+    enrollment_token_list: { tokens: 'array' },
+    rebind_list: { requests: 'array' },
+    rebind_approved: { request: 'object' },
+    error: ERROR
+} as const;
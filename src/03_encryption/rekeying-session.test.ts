@@ -0,0 +1,103 @@
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateAESKey } from './crypto-utils';
+import { DoubleRatchet } from './double-ratchet';
+import { RekeyingSession, RekeyPolicy, SessionPayload } from './rekeying-session';
+
+const policy: RekeyPolicy = { maxMessages: 2, maxBytes: 1024 * 1024, maxAgeMs: 60 * 60_000 };
+
+describe('RekeyingSession', () => {
+    let alice: RekeyingSession;
+    let bob: RekeyingSession;
+    let toBob: SessionPayload[];   // Rekey messages alice sent on her own
+    let toAlice: SessionPayload[];
+    let events: string[];
+
+    // Delivers what one side sent on its own, in order
+    const deliver = (outbox: SessionPayload[], to: RekeyingSession, from: string) =>
+        outbox.splice(0).map(payload => to.decrypt(payload, from));
+
+    beforeEach(() => {
+        mock.timers.enable({ apis: ['Date', 'setTimeout', 'setInterval'], now: 1_000_000 });
+        [toBob, toAlice, events] = [[], [], []];
+        const sessionKey = generateAESKey();
+        const initiator = new DoubleRatchet(sessionKey);
+        const responder = new DoubleRatchet(sessionKey, initiator.publicKey);
+        alice = new RekeyingSession(initiator, { localId: 'alice', peerId: 'bob' }, p => toBob.push(p), policy);
+        bob = new RekeyingSession(responder, { localId: 'bob', peerId: 'alice' }, p => toAlice.push(p), policy);
+        alice.onEvent = e => events.push(`alice: ${e}`);
+        bob.onEvent = e => events.push(`bob: ${e}`);
+    });
+    afterEach(() => {
+        alice.close();
+        bob.close();
+        mock.timers.reset();
+    });
+
+    it('rolls over to a new epoch after maxMessages, once the peer acknowledges', () => {
+        const sent = ['one', 'two', 'three'].map(text => alice.encrypt(text));
+        assert.deepEqual(sent.map(p => p.epoch), [0, 0, 0]);
+        assert.deepEqual(toBob.map(p => [p.type, p.epoch]), [['rekey', 0]]); // Before the third message
+
+        assert.deepEqual(deliver(toBob, bob, 'alice'), [null]);
+        assert.deepEqual(sent.map(p => bob.decrypt(p, 'alice')), ['one', 'two', 'three']);
+        assert.deepEqual(toAlice.map(p => [p.type, p.epoch]), [['rekey', 1]]);
+        assert.equal(bob.encrypt('under the new key').epoch, 1);
+
+        assert.equal(alice.encrypt('still the old key').epoch, 0); // Until the ack arrives
+        deliver(toAlice, alice, 'bob');
+        assert.equal(alice.encrypt('now the new key').epoch, 1);
+        assert.ok(events.includes('alice: Peer confirmed the new key: now using epoch 1.'));
+    });
+
+    it('decrypts the old epoch during the overlap window, then drops it', () => {
+        alice.encrypt('one');
+        alice.encrypt('two');
+        const inFlight = alice.encrypt('three'); // Sent under epoch 0 right after the request
+        deliver(toBob, bob, 'alice');
+        deliver(toAlice, alice, 'bob');
+        const late = alice.encrypt('four');
+        assert.equal(late.epoch, 1);
+
+        assert.equal(bob.decrypt(inFlight, 'alice'), 'three');
+        assert.equal(bob.decrypt(late, 'alice'), 'four');
+
+        mock.timers.tick(30_000);
+        assert.ok(events.includes('bob: Dropped the old key (epoch 0).'));
+        assert.throws(() => bob.decrypt(inFlight, 'alice'), /Unknown key epoch 0/);
+    });
+
+    it('keeps the current epoch when the request is never acknowledged', () => {
+        alice.encrypt('one');
+        alice.encrypt('two');
+        alice.encrypt('three');
+        toBob.splice(0); // Lost
+        mock.timers.tick(30_000);
+        assert.ok(events.includes('alice: Rekey to epoch 1 not confirmed in time. Keeping epoch 0.'));
+
+        assert.equal(alice.encrypt('retry').epoch, 0);
+        assert.deepEqual(toBob.map(p => [p.type, p.epoch]), [['rekey', 0]]); // Tried again at the next trigger
+    });
+
+    it('settles on one new epoch when both sides rekey at once', () => {
+        ['a1', 'a2', 'a3'].forEach(text => alice.encrypt(text));
+        ['b1', 'b2', 'b3'].forEach(text => bob.encrypt(text));
+        const [fromAlice, fromBob] = [toBob.splice(0), toAlice.splice(0)];
+        fromAlice.forEach(p => bob.decrypt(p, 'alice'));
+        fromBob.forEach(p => alice.decrypt(p, 'bob'));
+        deliver(toBob, bob, 'alice'); // The winner's acks, if any
+        deliver(toAlice, alice, 'bob');
+
+        const a = alice.encrypt('after');
+        const b = bob.encrypt('after');
+        assert.equal(a.epoch, 1);
+        assert.equal(b.epoch, 1);
+        assert.equal(bob.decrypt(a, 'alice'), 'after');
+        assert.equal(alice.decrypt(b, 'bob'), 'after');
+    });
+
+    it('refuses unknown epochs', () => {
+        const payload = alice.encrypt('hello');
+        assert.throws(() => bob.decrypt({ ...payload, epoch: 5 }, 'alice'), /Unknown key epoch 5/);
+    });
+});
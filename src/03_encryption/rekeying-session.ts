@@ -0,0 +1,177 @@
+import { generateAESKey } from './crypto-utils';
+import { DoubleRatchet, MessageRoute, RatchetHeader } from './double-ratchet';
+
+// --- REKEYING (Phases 3-5) ---
+// The Double Ratchet renews message keys, but everything still hangs off the one session key from
+// the key_exchange. After a number of messages, bytes or minutes, either side starts a new key
+// epoch: a fresh session key and a fresh ratchet, sent through the current (encrypted) channel.
+//
+//   1. A -> B  rekey { action: 'request', epoch: e+1, sessionKey, ratchetKey }   under epoch e
+//   2. B -> A  rekey { action: 'ack', epoch: e+1 }                               under epoch e+1
+//
+// B switches to the new epoch when it sends the ack. A keeps sending under epoch e until the ack
+// decrypts under e+1, which proves B holds the new key. Both keep the old epoch for an overlap
+// window so messages already in flight still decrypt, then drop it.
+// If both sides start a rekey at once, the request with the smaller ratchet key wins.
+//
+// Wire format: payload { type: 'chat' | 'rekey', epoch, header, content } (epoch = key generation).
+
+export interface RekeyPolicy {
+    maxMessages: number; // Sent under one epoch
+    maxBytes: number;    // Plaintext bytes sent under one epoch
+    maxAgeMs: number;
+}
+
+export const rekeyPolicyFromEnv = (): RekeyPolicy => ({
+    maxMessages: Number(process.env.REKEY_AFTER_MESSAGES) || 100,
+    maxBytes: Number(process.env.REKEY_AFTER_BYTES) || 1024 * 1024,
+    maxAgeMs: (Number(process.env.REKEY_AFTER_MINUTES) || 10) * 60 * 1000
+});
+
+export interface SessionPayload {
+    type: 'chat' | 'rekey';
+    epoch: number;
+    header: RatchetHeader;
+    content: string;
+}
+
+type RekeyMessage =
+    | { action: 'request'; epoch: number; sessionKey: string; ratchetKey: string }
+    | { action: 'ack'; epoch: number };
+
+const OVERLAP_MS = 30_000;      // Old epoch stays decryptable this long after the switch
+const ACK_TIMEOUT_MS = 30_000;  // Unanswered request: give up, try again at the next trigger
+const AGE_CHECK_MS = 10_000;
+
+export class RekeyingSession {
+    public onEvent: (message: string) => void = () => { }; // Rekey progress, for the logs
+
+    private ratchets = new Map<number, DoubleRatchet>(); // epoch -> ratchet (current + overlap)
+    private epoch = 0; // We send under this one
+    private pending: { epoch: number; ratchet: DoubleRatchet; timer: NodeJS.Timeout } | null = null;
+    private sentMessages = 0;
+    private sentBytes = 0;
+    private epochStarted = Date.now();
+    private ageTimer: NodeJS.Timeout;
+    private policy: RekeyPolicy;
+    private route: { localId: string; peerId: string };
+    private send: (payload: SessionPayload) => void;
+
+    /**
+     * @param ratchet the ratchet from the key_exchange (epoch 0)
+     * @param send delivers a payload to the peer (rekey messages go out on their own)
+     */
+    constructor(ratchet: DoubleRatchet, route: { localId: string; peerId: string }, send: (payload: SessionPayload) => void, policy: RekeyPolicy = rekeyPolicyFromEnv()) {
+        this.ratchets.set(0, ratchet);
+        this.route = route;
+        this.send = send;
+        this.policy = policy;
+        this.ageTimer = setInterval(() => this.rekeyIfDue(), AGE_CHECK_MS);
+        this.ageTimer.unref();
+    }
+
+    // Checks the triggers first, so a rekey request goes out before the message that crossed them
+    public encrypt(plaintext: string): SessionPayload {
+        this.rekeyIfDue();
+        this.sentMessages++;
+        this.sentBytes += Buffer.byteLength(plaintext);
+        return this.seal('chat', plaintext, this.epoch);
+    }
+
+    /**
+     * Decrypts a chat or rekey payload from the peer.
+     * @param senderId what the relay told us (bound into the envelope like any message)
+     * @returns the chat plaintext, or null for rekey messages (handled here)
+     * @throws if the epoch is unknown (or dropped) or the message does not decrypt
+     */
+    public decrypt(payload: SessionPayload, senderId: string): string | null {
+        const ratchet = this.pending?.epoch === payload.epoch ? this.pending.ratchet : this.ratchets.get(payload.epoch);
+        if (!ratchet) throw new Error(`Unknown key epoch ${payload.epoch}`);
+
+        const route: MessageRoute = { senderId, recipientId: this.route.localId, type: payload.type };
+        const plaintext = ratchet.decrypt({ header: payload.header, content: payload.content }, route);
+
+        // Anything from the peer under our pending epoch proves it holds the new key
+        if (this.pending?.epoch === payload.epoch) this.confirm();
+        if (payload.type === 'chat') return plaintext;
+
+        this.handleRekey(JSON.parse(plaintext) as RekeyMessage);
+        return null;
+    }
+
+    public close() {
+        clearInterval(this.ageTimer);
+        if (this.pending) clearTimeout(this.pending.timer);
+    }
+
+    private seal(type: SessionPayload['type'], plaintext: string, epoch: number, ratchet = this.ratchets.get(epoch)!): SessionPayload {
+        const route: MessageRoute = { senderId: this.route.localId, recipientId: this.route.peerId, type };
+        const { header, content } = ratchet.encrypt(plaintext, route);
+        return { type, epoch, header, content };
+    }
+
+    private rekeyIfDue() {
+        if (this.pending) return;
+        const age = Date.now() - this.epochStarted;
+        const reason =
+            this.sentMessages >= this.policy.maxMessages ? `${this.sentMessages} messages` :
+            this.sentBytes >= this.policy.maxBytes ? `${this.sentBytes} bytes` :
+            age >= this.policy.maxAgeMs ? `${Math.round(age / 60000)} minutes` : null;
+        if (reason) this.startRekey(reason);
+    }
+
+    private startRekey(reason: string) {
+        const epoch = this.epoch + 1;
+        const sessionKey = generateAESKey();
+        const ratchet = new DoubleRatchet(sessionKey);
+        const timer = setTimeout(() => {
+            this.pending = null;
+            this.onEvent(`Rekey to epoch ${epoch} not confirmed in time. Keeping epoch ${this.epoch}.`);
+        }, ACK_TIMEOUT_MS);
+        timer.unref();
+
+        this.pending = { epoch, ratchet, timer };
+        const request: RekeyMessage = { action: 'request', epoch, sessionKey, ratchetKey: ratchet.publicKey };
+        this.send(this.seal('rekey', JSON.stringify(request), this.epoch));
+        this.onEvent(`Rekeying after ${reason}: proposed epoch ${epoch}.`);
+    }
+
+    private handleRekey(message: RekeyMessage) {
+        if (message.action !== 'request') return; // An ack only matters for confirm(), done above
+        if (message.epoch !== this.epoch + 1) throw new Error(`Unexpected rekey to epoch ${message.epoch}`);
+
+        if (this.pending) {
+            // Both sides started at once: the smaller ratchet key wins
+            if (this.pending.ratchet.publicKey < message.ratchetKey) return;
+            clearTimeout(this.pending.timer);
+            this.pending = null;
+        }
+
+        const ratchet = new DoubleRatchet(message.sessionKey, message.ratchetKey);
+        this.ratchets.set(message.epoch, ratchet);
+        const ack: RekeyMessage = { action: 'ack', epoch: message.epoch };
+        this.send(this.seal('rekey', JSON.stringify(ack), message.epoch));
+        this.switchTo(message.epoch);
+        this.onEvent(`Peer rekeyed: now using epoch ${message.epoch} (confirmed).`);
+    }
+
+    private confirm() {
+        const { epoch, ratchet, timer } = this.pending!;
+        clearTimeout(timer);
+        this.pending = null;
+        this.ratchets.set(epoch, ratchet);
+        this.switchTo(epoch);
+        this.onEvent(`Peer confirmed the new key: now using epoch ${epoch}.`);
+    }
+
+    private switchTo(epoch: number) {
+        const previous = this.epoch;
+        this.epoch = epoch;
+        this.sentMessages = 0;
+        this.sentBytes = 0;
+        this.epochStarted = Date.now();
+        setTimeout(() => {
+            if (this.ratchets.delete(previous)) this.onEvent(`Dropped the old key (epoch ${previous}).`);
+        }, OVERLAP_MS).unref();
+    }
+}
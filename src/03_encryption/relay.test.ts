@@ -0,0 +1,127 @@
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { EventEmitter } from 'events';
+import { IncomingMessage } from 'http';
+import { WebSocket } from 'ws';
+import { Relay, RelayOptions } from './relay';
+
+const options: RelayOptions = {
+    name: 'Test',
+    rateLimits: {
+        framesPerSecond: 100,
+        frameBurst: 100,
+        identityFramesPerSecond: 100,
+        identityFrameBurst: 100,
+        maxFrameBytes: 64 * 1024,
+        maxConnectionsPerIp: 100,
+        maxStrikes: 3,
+        strikeWindowMs: 60_000,
+        userListIntervalMs: 1000,
+        trustProxy: false
+    },
+    offlineQueue: { maxMessages: 10, maxBytes: 1024, maxTotalBytes: 4096, ttlMs: 60_000 },
+    heartbeat: { intervalMs: 15_000, timeoutMs: 10 * 60_000 },
+    maxResumableIds: 2
+};
+
+// Enough of a ws socket for the relay: records what it was sent
+class FakeSocket extends EventEmitter {
+    public readyState: number = WebSocket.OPEN;
+    public sent: any[] = [];
+    send(data: string) { this.sent.push(JSON.parse(data)); }
+    close() { this.disconnect(); }
+    terminate() { this.disconnect(); }
+    ping() {}
+    receive(frame: object) { this.emit('message', Buffer.from(JSON.stringify(frame))); }
+    disconnect() {
+        this.readyState = WebSocket.CLOSED;
+        this.emit('close');
+    }
+    frames(type: string) { return this.sent.filter(m => m.type === type); }
+}
+
+describe('Relay', () => {
+    let relay: Relay;
+    let sockets: FakeSocket[];
+
+    const connect = () => {
+        const ws = new FakeSocket();
+        relay.handleConnection(ws as unknown as Parameters<Relay['handleConnection']>[0], { headers: {}, socket: { remoteAddress: '10.0.0.1' } } as unknown as IncomingMessage);
+        sockets.push(ws);
+        return { ws, id: ws.frames('welcome')[0].id as string };
+    };
+    const register = (ws: FakeSocket, resumable?: boolean) =>
+        ws.receive({ type: 'register', payload: { publicKey: 'pem' }, resumable });
+
+    beforeEach(() => {
+        mock.timers.enable({ apis: ['Date', 'setTimeout', 'setInterval'], now: 1_000_000 });
+        mock.method(console, 'log', () => {});
+        relay = new Relay(options);
+        sockets = [];
+    });
+    afterEach(() => {
+        sockets.filter(ws => ws.readyState === WebSocket.OPEN).forEach(ws => ws.disconnect());
+        mock.timers.reset();
+        mock.restoreAll();
+    });
+
+    it('forgets IDs that did not ask to be resumable when they close', () => {
+        const alice = connect();
+        register(alice.ws);
+        assert.equal(alice.ws.frames('welcome')[0].resumeToken, undefined);
+        assert.deepEqual(alice.ws.frames('resume_token'), []);
+        alice.ws.disconnect();
+
+        const bob = connect();
+        bob.ws.receive({ type: 'list' });
+        assert.deepEqual(bob.ws.frames('user_list').at(-1).users.map((u: any) => u.id), [bob.id]);
+        bob.ws.receive({ type: 'direct', targetId: alice.id, payload: { type: 'chat' } });
+        assert.equal(bob.ws.frames('error')[0].code, 'target_offline');
+    });
+
+    it('queues for a resumable ID and delivers once it resumes with its token', () => {
+        const alice = connect();
+        register(alice.ws, true);
+        const { id, resumeToken } = alice.ws.frames('resume_token')[0];
+        assert.equal(id, alice.id);
+        alice.ws.disconnect();
+
+        const bob = connect();
+        bob.ws.receive({ type: 'direct', targetId: alice.id, payload: { type: 'chat', n: 1 } });
+        assert.deepEqual(bob.ws.frames('queued'), [{ type: 'queued', targetId: alice.id, waiting: 1 }]);
+
+        const again = connect();
+        again.ws.receive({ type: 'resume', id: alice.id, resumeToken });
+        assert.deepEqual(again.ws.frames('welcome')[1], { type: 'welcome', id: alice.id, resumeToken, resumed: true });
+        assert.deepEqual(again.ws.frames('direct').map(m => [m.senderId, m.payload.n]), [[bob.id, 1]]);
+
+        register(again.ws, true);
+        assert.deepEqual(again.ws.frames('resume_token'), [{ type: 'resume_token', id: alice.id, resumeToken }]);
+    });
+
+    it('refuses a resume with the wrong token or for an ID that is online', () => {
+        const alice = connect();
+        register(alice.ws, true);
+        const { resumeToken } = alice.ws.frames('resume_token')[0];
+
+        const mallory = connect();
+        mallory.ws.receive({ type: 'resume', id: alice.id, resumeToken });
+        alice.ws.disconnect();
+        mallory.ws.receive({ type: 'resume', id: alice.id, resumeToken: 'guess' });
+        assert.deepEqual(mallory.ws.frames('welcome').slice(1).map(m => [m.id, m.resumed]), [[mallory.id, false], [mallory.id, false]]);
+    });
+
+    it('caps resumable IDs, online or offline', () => {
+        const [alice, bob, carol] = [connect(), connect(), connect()];
+        register(alice.ws, true);
+        register(bob.ws, true);
+        bob.ws.disconnect();
+        register(carol.ws, true);
+        assert.deepEqual(carol.ws.frames('resume_token'), []);
+        assert.equal(carol.ws.frames('error')[0].code, 'rate_limited');
+
+        mock.timers.tick(60_001); // Bob's ID expires with the queue TTL
+        register(carol.ws, true);
+        assert.equal(carol.ws.frames('resume_token').length, 1);
+    });
+});
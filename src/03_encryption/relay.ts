@@ -0,0 +1,218 @@
+import { IncomingMessage } from 'http';
+import { WebSocketServer, WebSocket } from 'ws';
+import { randomBytes } from 'crypto';
+import { GroupRegistry, isGroupRequest } from './group-registry';
+import { OfflineQueue, OfflineQueueLimits, offlineQueueLimitsFromEnv } from './offline-queue';
+import { FloodGuard, RateLimits, rateLimitsFromEnv, Throttle } from './flood-guard';
+import { keepAlive, parseClientStatus, HeartbeatLimits, heartbeatLimitsFromEnv } from './presence';
+import { ProtocolError, errorFrame, parseFrame, PHASE3_REQUESTS } from './protocol';
+
+// --- RELAY (Phases 3-4) ---
+// Phases 3 and 4 differ only in what the clients put inside `direct` payloads, so they share one
+// relay: per-connection IDs with registered keys, direct messages with store-and-forward, groups,
+// presence and rate limiting. Each phase mounts its own instance, so their clients stay separate.
+
+export interface RelayOptions {
+    name: string; // For the logs, e.g. 'Phase 3'
+    rateLimits?: RateLimits;
+    offlineQueue?: OfflineQueueLimits;
+    heartbeat?: HeartbeatLimits;
+    maxResumableIds?: number; // Identities kept for resume at once, online or not
+}
+
+export const maxResumableIdsFromEnv = () => Number(process.env.MAX_RESUMABLE_IDS) || 10_000;
+
+interface Client extends WebSocket {
+    id: string;
+    publicKey?: string;
+    awaySince?: number; // While the client reports itself away
+}
+
+export class Relay {
+    private name: string;
+    private clients = new Map<string, Client>();
+    private heartbeat: HeartbeatLimits;
+
+    // Per-connection and per-identity token buckets, frame size and per-IP connection caps
+    private flood: FloodGuard;
+
+    // Store-and-forward: direct messages for an ID that went offline wait until it resumes.
+    // IDs are random per connection. A client that registers with `resumable: true` gets a resumeToken
+    // and can take its ID back with it. Other IDs are gone when their connection closes.
+    private offline: OfflineQueue;
+    private identities = new Map<string, { resumeToken: string; offlineSince?: number }>();
+    private maxResumableIds: number;
+
+    // Group membership and fan-out. Members get each other's registered keys.
+    private groups: GroupRegistry;
+
+    // Every register and close asks for one, so a reconnect loop would flood everyone with lists: at most one per interval
+    private userListBroadcast: Throttle;
+
+    constructor(options: RelayOptions) {
+        this.name = options.name;
+        this.heartbeat = options.heartbeat ?? heartbeatLimitsFromEnv();
+        this.flood = new FloodGuard(options.rateLimits ?? rateLimitsFromEnv());
+        this.offline = new OfflineQueue(options.offlineQueue ?? offlineQueueLimitsFromEnv());
+        this.maxResumableIds = options.maxResumableIds ?? maxResumableIdsFromEnv();
+        this.groups = new GroupRegistry({
+            isOnline: (userId) => this.clients.get(userId)?.readyState === WebSocket.OPEN && !!this.clients.get(userId)?.publicKey,
+            send: (userId, message) => {
+                const client = this.clients.get(userId);
+                if (client?.readyState === WebSocket.OPEN) client.send(JSON.stringify(message));
+            },
+            describe: (userId) => ({ id: userId, publicKey: this.clients.get(userId)?.publicKey })
+        });
+        this.userListBroadcast = this.flood.throttle(() => {
+            const msg = JSON.stringify({ type: 'user_list', users: this.getUserList() });
+            this.clients.forEach(c => c.send(msg));
+        });
+    }
+
+    // Serve every connection of this server
+    public mount(wss: WebSocketServer) {
+        wss.on('connection', (ws: Client, req: IncomingMessage) => this.handleConnection(ws, req));
+    }
+
+    public handleConnection(ws: Client, req: IncomingMessage) {
+        if (!this.flood.admit(ws, req)) return; // Too many connections from this IP: told and closed
+
+        // Assign simple readable ID for testing if possible, but random is safer for collision
+        ws.id = Math.random().toString(36).substring(7);
+        this.clients.set(ws.id, ws);
+        console.log(`[${this.name}] Client ${ws.id} connected`);
+        keepAlive(ws, () => ws.id, this.heartbeat); // A dead socket is terminated, and 'close' marks the ID offline
+
+        // Send Welcome message with ID so client knows who they are
+        ws.send(JSON.stringify({ type: 'welcome', id: ws.id }));
+
+        ws.on('message', (data) => {
+            if (!this.flood.allowFrame(ws, data, ws.id)) return; // Told rate_limited (and closed after repeated abuse)
+
+            try {
+                // Checked against the schema for its type (see protocol.ts) before anything else
+                const msg = parseFrame(data.toString(), PHASE3_REQUESTS);
+
+                if (msg.type === 'register') {
+                    ws.publicKey = msg.payload.publicKey;
+                    console.log(`Client ${ws.id} registered Public Key`);
+
+                    // Broadcast new user list to check potential partners
+                    this.broadcastUserList();
+                    if (msg.resumable) this.makeResumable(ws);
+                }
+                else if (msg.type === 'resume') {
+                    // Take back an offline ID, then get what was queued for it
+                    const identity = this.identities.get(msg.id);
+                    if (!identity || identity.offlineSince === undefined || identity.resumeToken !== msg.resumeToken) {
+                        console.log(`Client ${ws.id} could not resume ${msg.id}`);
+                        ws.send(JSON.stringify({ type: 'welcome', id: ws.id, resumeToken: this.identities.get(ws.id)?.resumeToken, resumed: false }));
+                        return;
+                    }
+                    this.clients.delete(ws.id);
+                    this.identities.delete(ws.id);
+                    console.log(`Client ${ws.id} resumed as ${msg.id}`);
+                    ws.id = msg.id;
+                    identity.offlineSince = undefined;
+                    this.clients.set(ws.id, ws);
+
+                    ws.send(JSON.stringify({ type: 'welcome', id: ws.id, resumeToken: identity.resumeToken, resumed: true }));
+                    this.offline.drain(ws.id).forEach(queued => ws.send(queued));
+                    this.broadcastUserList();
+                }
+                else if (msg.type === 'list') {
+                    this.sendUserList(ws);
+                }
+                else if (msg.type === 'ping') {
+                    ws.send(JSON.stringify({ type: 'pong' }));
+                }
+                else if (msg.type === 'presence') {
+                    ws.awaySince = parseClientStatus(msg.status) === 'away' ? ws.awaySince ?? Date.now() : undefined;
+                    this.broadcastUserList();
+                }
+                else if (msg.type === 'direct') {
+                    const target = this.clients.get(msg.targetId);
+                    if (target && target.readyState === WebSocket.OPEN) {
+                        console.log(`Relaying DIRECT message from ${ws.id} to ${msg.targetId}`);
+                        target.send(JSON.stringify({
+                            type: 'direct',
+                            senderId: ws.id,
+                            payload: msg.payload
+                        }));
+                    } else if (this.identities.get(msg.targetId)?.offlineSince !== undefined) {
+                        // Offline: keep the (encrypted) payload until the target resumes (throws if the queue is full)
+                        const waiting = this.offline.enqueue(msg.targetId, ws.id, msg.payload);
+                        console.log(`Queued DIRECT message from ${ws.id} for offline ${msg.targetId}`);
+                        ws.send(JSON.stringify({ type: 'queued', targetId: msg.targetId, waiting }));
+                    } else {
+                        ws.send(JSON.stringify(errorFrame('target_offline', 'Target not found')));
+                    }
+                }
+                else if (isGroupRequest(msg)) {
+                    this.groups.handle(ws.id, msg);
+                }
+            } catch (e) {
+                // Malformed or refused: tell the client why, with a code it can act on
+                if (e instanceof ProtocolError) ws.send(JSON.stringify(errorFrame(e.code, e.message)));
+                else console.error('Invalid message:', e);
+            }
+        });
+
+        ws.on('close', () => {
+            this.clients.delete(ws.id);
+            const identity = this.identities.get(ws.id);
+            if (identity) identity.offlineSince = Date.now();
+            this.groups.removeEverywhere(ws.id);
+            console.log(`[${this.name}] Client ${ws.id} disconnected`);
+            this.broadcastUserList();
+        });
+    }
+
+    // Keeps the client's ID for resume and tells it the token (the same one again if it has one already)
+    private makeResumable(ws: Client) {
+        this.expireIdentities();
+        let identity = this.identities.get(ws.id);
+        if (!identity) {
+            if (this.identities.size >= this.maxResumableIds) {
+                throw new ProtocolError('rate_limited', 'Too many resumable IDs, try again later');
+            }
+            identity = { resumeToken: randomBytes(16).toString('hex') };
+            this.identities.set(ws.id, identity);
+        }
+        ws.send(JSON.stringify({ type: 'resume_token', id: ws.id, resumeToken: identity.resumeToken }));
+    }
+
+    // IDs that stayed offline longer than the queue TTL are gone, with anything still queued for them
+    private expireIdentities() {
+        const cutoff = Date.now() - this.offline.limits.ttlMs;
+        this.identities.forEach((identity, id) => {
+            if (identity.offlineSince !== undefined && identity.offlineSince < cutoff) {
+                this.identities.delete(id);
+                this.offline.discard(id);
+            }
+        });
+    }
+
+    private getUserList() {
+        this.expireIdentities();
+        const online = Array.from(this.clients.values()).map(c => ({
+            id: c.id,
+            publicKey: c.publicKey, // NOW SENDING FULL KEY
+            presence: c.awaySince === undefined ? 'online' : 'away',
+            since: c.awaySince
+        }));
+        // IDs that can still be resumed: messages sent to them are queued
+        const offlineIds = Array.from(this.identities)
+            .filter(([, identity]) => identity.offlineSince !== undefined)
+            .map(([id, identity]) => ({ id, presence: 'offline', since: identity.offlineSince }));
+        return [...online, ...offlineIds];
+    }
+
+    private sendUserList(ws: WebSocket) {
+        ws.send(JSON.stringify({ type: 'user_list', users: this.getUserList() }));
+    }
+
+    private broadcastUserList() {
+        this.userListBroadcast.run();
+    }
+}
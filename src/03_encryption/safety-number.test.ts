@@ -0,0 +1,88 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { generateKeyPairSync } from 'crypto';
+import { KeyPair } from './crypto-utils';
+import { computeSafetyNumber, formatSafetyNumber, encodeSafetyNumber, VerifiedPeers, verifyCommand } from './safety-number';
+
+const rsaKeys = (): KeyPair => generateKeyPairSync('rsa', {
+    modulusLength: 2048,
+    publicKeyEncoding: { type: 'spki', format: 'pem' },
+    privateKeyEncoding: { type: 'pkcs8', format: 'pem' }
+});
+
+describe('safety numbers', () => {
+    let alice: KeyPair;
+    let bob: KeyPair;
+    let mallory: KeyPair;
+
+    before(() => {
+        [alice, bob, mallory] = [rsaKeys(), rsaKeys(), rsaKeys()];
+    });
+
+    it('is the same 60 digits on both sides', () => {
+        const forAlice = computeSafetyNumber('alice', alice.publicKey, 'bob', bob.publicKey);
+        const forBob = computeSafetyNumber('bob', bob.publicKey, 'alice', alice.publicKey);
+        assert.match(forAlice, /^\d{60}$/);
+        assert.equal(forAlice, forBob);
+        assert.equal(encodeSafetyNumber('alice', 'bob', forAlice), encodeSafetyNumber('bob', 'alice', forBob));
+    });
+
+    it('is stable: the same keys give the same number, however the PEM is wrapped', () => {
+        const digits = computeSafetyNumber('alice', alice.publicKey, 'bob', bob.publicKey);
+        const unwrapped = bob.publicKey.replace(/\n(?!-----END)/g, '').replace('-----BEGIN PUBLIC KEY-----', '-----BEGIN PUBLIC KEY-----\n');
+        assert.equal(computeSafetyNumber('alice', alice.publicKey, 'bob', bob.publicKey), digits);
+        assert.equal(computeSafetyNumber('alice', alice.publicKey, 'bob', unwrapped), digits);
+    });
+
+    it('changes with either key or either ID', () => {
+        const digits = computeSafetyNumber('alice', alice.publicKey, 'bob', bob.publicKey);
+        assert.notEqual(computeSafetyNumber('alice', alice.publicKey, 'bob', mallory.publicKey), digits);
+        assert.notEqual(computeSafetyNumber('alice', mallory.publicKey, 'bob', bob.publicKey), digits);
+        assert.notEqual(computeSafetyNumber('alice', alice.publicKey, 'bobby', bob.publicKey), digits);
+    });
+
+    it('formats twelve groups of five on three lines', () => {
+        const lines = formatSafetyNumber('0123456789'.repeat(6)).split('\n');
+        assert.deepEqual(lines, ['01234 56789 01234 56789', '01234 56789 01234 56789', '01234 56789 01234 56789']);
+    });
+});
+
+describe('VerifiedPeers', () => {
+    let dir: string;
+    let alice: KeyPair;
+    let bob: KeyPair;
+
+    before(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'verified-peers-'));
+        [alice, bob] = [rsaKeys(), rsaKeys()];
+    });
+    after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+    it('remembers the verified key across restarts and drops it when the key changes', () => {
+        const file = path.join(dir, 'peers.json');
+        const peers = new VerifiedPeers(file);
+        assert.equal(peers.check('bob', bob.publicKey), 'unverified');
+        peers.markVerified('bob', bob.publicKey);
+        assert.equal(new VerifiedPeers(file).check('bob', bob.publicKey), 'verified');
+
+        const restarted = new VerifiedPeers(file);
+        assert.equal(restarted.check('bob', alice.publicKey), 'changed');
+        assert.equal(restarted.check('bob', bob.publicKey), 'unverified');
+        assert.equal(new VerifiedPeers(file).check('bob', bob.publicKey), 'unverified');
+    });
+
+    it('verifies with the peer\'s code and refuses a different one', () => {
+        const peers = new VerifiedPeers();
+        const local = { id: 'alice', publicKey: alice.publicKey };
+        const peer = { id: 'bob', publicKey: bob.publicKey };
+        const code = encodeSafetyNumber('bob', 'alice', computeSafetyNumber('bob', bob.publicKey, 'alice', alice.publicKey));
+
+        assert.match(verifyCommand(peers, local, peer, 'chatapp-safety:1:alice:bob:000')[0], /DO NOT match/);
+        assert.equal(peers.check('bob', bob.publicKey), 'unverified');
+        assert.equal(verifyCommand(peers, local, peer, code)[0], '[VERIFY] bob marked as verified. (Codes match.)');
+        assert.equal(peers.check('bob', bob.publicKey), 'verified');
+    });
+});
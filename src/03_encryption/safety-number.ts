@@ -0,0 +1,138 @@
+import fs from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+
+// --- SAFETY NUMBERS (Phases 3-5) ---
+// The server hands out the peers' public keys (Phase 5: the CA vouches for them), so a malicious
+// server could hand out its own. Two users can rule that out by comparing a safety number out of
+// band (in person, on a call). Signal-style: each side's fingerprint is an iterated SHA-512 over
+// its ID and public key, shown as 30 digits. The safety number is both fingerprints, lower one
+// first, so both users see the same 60 digits.
+// Must match the browser version in web-client/src/crypto-browser.ts.
+
+const FINGERPRINT_VERSION = Buffer.from([0x00, 0x00]);
+const FINGERPRINT_ITERATIONS = 5200;
+
+// The DER inside an SPKI PEM, so line wrapping and headers do not matter
+const publicKeyDer = (publicKeyPem: string): Buffer =>
+    Buffer.from(publicKeyPem.replace(/-----[^-]+-----/g, '').replace(/\s+/g, ''), 'base64');
+
+// 30 digits: six 5-byte chunks of the hash, each mod 100000
+const fingerprintDigits = (userId: string, publicKeyPem: string): string => {
+    const key = publicKeyDer(publicKeyPem);
+    let hash = createHash('sha512').update(Buffer.concat([FINGERPRINT_VERSION, key, Buffer.from(userId)])).digest();
+    for (let i = 1; i < FINGERPRINT_ITERATIONS; i++) {
+        hash = createHash('sha512').update(Buffer.concat([hash, key])).digest();
+    }
+    let digits = '';
+    for (let i = 0; i < 30; i += 5) {
+        digits += (hash.readUIntBE(i, 5) % 100000).toString().padStart(5, '0');
+    }
+    return digits;
+};
+
+/**
+ * 60 digits, the same on both sides.
+ */
+export const computeSafetyNumber = (localId: string, localKeyPem: string, peerId: string, peerKeyPem: string): string =>
+    [fingerprintDigits(localId, localKeyPem), fingerprintDigits(peerId, peerKeyPem)].sort().join('');
+
+// Twelve groups of five, three lines, for reading aloud
+export const formatSafetyNumber = (digits: string): string =>
+    (digits.match(/\d{5}/g) || []).reduce((lines, group, i) => lines + group + (i % 4 === 3 ? '\n' : ' '), '').trim();
+
+// Text form (also the payload for a QR code): IDs sorted like the digits, so both sides get the same string
+export const encodeSafetyNumber = (localId: string, peerId: string, digits: string): string =>
+    ['chatapp-safety', 1, ...[localId, peerId].sort(), digits].join(':');
+
+// Short ID of a key (SHA-256 of the DER), stored when a peer is verified
+export const keyFingerprint = (publicKeyPem: string): string =>
+    createHash('sha256').update(publicKeyDer(publicKeyPem)).digest('hex');
+
+export type PeerKeyCheck = 'unverified' | 'verified' | 'changed';
+
+// Peers the user has verified, with the key they verified. Optionally kept in a JSON file.
+export class VerifiedPeers {
+    private peers = new Map<string, string>(); // userId -> keyFingerprint()
+    private file?: string;
+
+    constructor(file?: string) {
+        this.file = file;
+        if (file && fs.existsSync(file)) {
+            for (const [userId, fingerprint] of Object.entries(JSON.parse(fs.readFileSync(file, 'utf8')))) {
+                if (typeof fingerprint === 'string') this.peers.set(userId, fingerprint);
+            }
+        }
+    }
+
+    public markVerified(userId: string, publicKeyPem: string) {
+        this.peers.set(userId, keyFingerprint(publicKeyPem));
+        this.save();
+    }
+
+    public unverify(userId: string) {
+        if (this.peers.delete(userId)) this.save();
+    }
+
+    /**
+     * Compares a peer's current key with the one the user verified.
+     * A changed key loses its verified status: the user has to compare safety numbers again.
+     */
+    public check(userId: string, publicKeyPem: string): PeerKeyCheck {
+        const verified = this.peers.get(userId);
+        if (!verified) return 'unverified';
+        if (verified === keyFingerprint(publicKeyPem)) return 'verified';
+        this.unverify(userId);
+        return 'changed';
+    }
+
+    private save() {
+        if (!this.file) return;
+        fs.mkdirSync(path.dirname(this.file), { recursive: true });
+        fs.writeFileSync(this.file, JSON.stringify(Object.fromEntries(this.peers), null, 2), { mode: 0o600 });
+    }
+}
+
+// --- CLI ---
+
+export interface PeerIdentity {
+    id: string;
+    publicKey: string;
+}
+
+/**
+ * `verify <User ID> [confirm|<code>]`: shows the safety number, or marks the peer verified once the
+ * user has compared it (`confirm`) or pasted the peer's text code.
+ * @returns lines to print
+ */
+export const verifyCommand = (peers: VerifiedPeers, local: PeerIdentity, peer: PeerIdentity, arg?: string): string[] => {
+    const digits = computeSafetyNumber(local.id, local.publicKey, peer.id, peer.publicKey);
+    const code = encodeSafetyNumber(local.id, peer.id, digits);
+
+    if (arg === 'confirm' || arg === code) {
+        peers.markVerified(peer.id, peer.publicKey);
+        return [`[VERIFY] ${peer.id} marked as verified.${arg === code ? ' (Codes match.)' : ''}`];
+    }
+    if (arg?.startsWith('chatapp-safety:')) {
+        return [`[VERIFY] Codes DO NOT match. ${peer.id} is not verified: someone may be intercepting your messages.`];
+    }
+    if (arg) return [`Usage: verify ${peer.id} [confirm|<their code>]`];
+
+    const status = peers.check(peer.id, peer.publicKey);
+    return [
+        ...(status === 'changed' ? [keyChangedWarning(peer.id)] : []),
+        `[VERIFY] Safety number with ${peer.id} (${status === 'verified' ? 'verified' : 'not verified'}):`,
+        ...formatSafetyNumber(digits).split('\n').map(line => `    ${line}`),
+        `  Text code: ${code}`,
+        `  Compare it with ${peer.id} out of band, then run "verify ${peer.id} confirm" (or paste their code: "verify ${peer.id} <code>").`
+    ];
+};
+
+export const keyChangedWarning = (userId: string): string => [
+    '',
+    '!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!',
+    `[WARNING] The key of VERIFIED peer ${userId} has CHANGED.`,
+    '  Someone may be impersonating them, or they reinstalled. It is no longer verified:',
+    `  compare safety numbers again ("verify ${userId}") before trusting this session.`,
+    '!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!'
+].join('\n');
@@ -0,0 +1,118 @@
+import { describe, it, before, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateKeyPairSync } from 'crypto';
+import { KeyPair } from './crypto-utils';
+import { SenderKeyGroup, SenderKeyDistribution, wrapSenderKey, unwrapSenderKey } from './sender-keys';
+
+const rsaKeys = (): KeyPair => generateKeyPairSync('rsa', {
+    modulusLength: 2048,
+    publicKeyEncoding: { type: 'spki', format: 'pem' },
+    privateKeyEncoding: { type: 'pkcs8', format: 'pem' }
+});
+
+describe('sender key distribution', () => {
+    let alice: KeyPair;
+    let bob: KeyPair;
+    let carol: KeyPair;
+    let distribution: SenderKeyDistribution;
+
+    before(() => {
+        [alice, bob, carol] = [rsaKeys(), rsaKeys(), rsaKeys()];
+        distribution = new SenderKeyGroup('friends', 'alice').rotate();
+    });
+
+    it('unwraps a sender key wrapped and signed for us', () => {
+        const envelope = wrapSenderKey(distribution, 'alice', 'bob', bob.publicKey, alice.privateKey);
+        assert.deepEqual(unwrapSenderKey(envelope, 'alice', 'bob', alice.publicKey, bob.privateKey), distribution);
+    });
+
+    it('rejects an envelope wrapped for another recipient', () => {
+        const envelope = wrapSenderKey(distribution, 'alice', 'carol', carol.publicKey, alice.privateKey);
+        // Forwarded as is: signed for carol, so bob refuses it before decrypting anything
+        assert.throws(() => unwrapSenderKey(envelope, 'alice', 'bob', alice.publicKey, bob.privateKey), /signature invalid/);
+        // Even with carol's key, the AAD names another recipient
+        assert.throws(() => unwrapSenderKey(envelope, 'alice', 'bob', alice.publicKey, carol.privateKey), /signature invalid/);
+    });
+
+    it('rejects a forged or tampered envelope', () => {
+        const forged = wrapSenderKey(distribution, 'alice', 'bob', bob.publicKey, carol.privateKey);
+        assert.throws(() => unwrapSenderKey(forged, 'alice', 'bob', alice.publicKey, bob.privateKey), /signature invalid/);
+
+        const envelope = wrapSenderKey(distribution, 'alice', 'bob', bob.publicKey, alice.privateKey);
+        assert.throws(() => unwrapSenderKey({ ...envelope, group: 'family' }, 'alice', 'bob', alice.publicKey, bob.privateKey), /signature invalid/);
+    });
+});
+
+describe('SenderKeyGroup', () => {
+    let alice: KeyPair;
+    let sender: SenderKeyGroup;
+    let receiver: SenderKeyGroup;
+
+    before(() => {
+        alice = rsaKeys();
+    });
+
+    beforeEach(() => {
+        sender = new SenderKeyGroup('friends', 'alice');
+        receiver = new SenderKeyGroup('friends', 'bob');
+        receiver.accept('alice', sender.rotate());
+    });
+
+    it('decrypts in order and across gaps', () => {
+        const [m0, m1, m2] = ['one', 'two', 'three'].map(text => sender.encrypt(text, alice.privateKey));
+        assert.equal(receiver.decrypt('alice', m0, alice.publicKey), 'one');
+        assert.equal(receiver.decrypt('alice', m2, alice.publicKey), 'three');
+        assert.throws(() => receiver.decrypt('alice', m1, alice.publicKey), /Old or replayed/); // Skipped keys are not kept
+    });
+
+    it('rejects replays', () => {
+        const message = sender.encrypt('hello', alice.privateKey);
+        assert.equal(receiver.decrypt('alice', message, alice.publicKey), 'hello');
+        assert.throws(() => receiver.decrypt('alice', message, alice.publicKey), /Old or replayed/);
+    });
+
+    it('rejects messages under an older key', () => {
+        const old = sender.encrypt('before', alice.privateKey);
+        receiver.accept('alice', sender.rotate());
+        assert.throws(() => receiver.decrypt('alice', old, alice.publicKey), /No sender key/);
+        assert.equal(receiver.decrypt('alice', sender.encrypt('after', alice.privateKey), alice.publicKey), 'after');
+    });
+
+    it('rejects a gap of more than MAX_SKIP messages', () => {
+        for (let i = 0; i < 1001; i++) sender.encrypt('lost', alice.privateKey);
+        assert.throws(() => receiver.decrypt('alice', sender.encrypt('too far', alice.privateKey), alice.publicKey), /Too many missing/);
+
+        const fresh = new SenderKeyGroup('friends', 'bob');
+        const distribution = sender.rotate();
+        fresh.accept('alice', distribution);
+        for (let i = 0; i < 1000; i++) sender.encrypt('lost', alice.privateKey);
+        assert.equal(fresh.decrypt('alice', sender.encrypt('just in reach', alice.privateKey), alice.publicKey), 'just in reach');
+    });
+
+    it('rejects a message signed by someone else or under another sender', () => {
+        const mallory = rsaKeys();
+        const message = sender.encrypt('hello', alice.privateKey);
+        assert.throws(() => receiver.decrypt('alice', message, mallory.publicKey), /Signature invalid/);
+        assert.throws(() => receiver.decrypt('alice', sender.encrypt('hello', mallory.privateKey), alice.publicKey), /Signature invalid/);
+        assert.throws(() => receiver.decrypt('carol', message, alice.publicKey), /Signature invalid/);
+    });
+
+    it('locks out the leaver and the joiner when the sender rotates', () => {
+        // Bob leaves: alice rotates and sends the new key to the remaining members only
+        const leaver = receiver;
+        const before = sender.encrypt('while bob was here', alice.privateKey);
+        const afterLeave = sender.rotate();
+        const dave = new SenderKeyGroup('friends', 'dave'); // Stayed
+        dave.accept('alice', afterLeave);
+        const secret = sender.encrypt('bob is gone', alice.privateKey);
+        assert.equal(dave.decrypt('alice', secret, alice.publicKey), 'bob is gone');
+        assert.throws(() => leaver.decrypt('alice', secret, alice.publicKey), /No sender key/);
+
+        // Erin joins: another rotation, so she can't read what came before
+        const erin = new SenderKeyGroup('friends', 'erin');
+        erin.accept('alice', sender.rotate());
+        assert.throws(() => erin.decrypt('alice', secret, alice.publicKey), /No sender key/);
+        assert.throws(() => erin.decrypt('alice', before, alice.publicKey), /No sender key/);
+        assert.equal(erin.decrypt('alice', sender.encrypt('welcome erin', alice.privateKey), alice.publicKey), 'welcome erin');
+    });
+});
@@ -0,0 +1,170 @@
+import { createHmac, randomBytes } from 'crypto';
+import {
+    generateAESKey,
+    encryptAESKeyWithRSA,
+    decryptAESKeyWithRSA,
+    sealMessage,
+    openMessage,
+    signMessage,
+    verifySignature
+} from './crypto-utils';
+
+// --- SENDER KEYS (group chats, Phases 3-5) ---
+// Signal-style: every member has its own sender key in each group, a chain key that moves forward
+// with every message (HMAC-SHA256, like the Double Ratchet's symmetric chains). A group message is
+// encrypted once and the relay fans it out. Members receive each other's sender keys over a
+// pairwise channel: wrapped with RSA-OAEP for the recipient's identity key (like the key_exchange)
+// and signed by the sender.
+// Every member holds every chain key, so group messages are also signed with the sender's identity
+// key: otherwise any member could forge messages from another.
+// On any membership change every member starts a new sender key (a new keyId), so a new member
+// can't read earlier messages and a member who left can't read later ones.
+// Must match the browser version in web-client/src/crypto-browser.ts.
+//
+// Wire format:
+//   direct payload  { type: 'sender_key', group, encryptedKey, content, signature }   one per member
+//   group_message   { group, payload: { keyId, iteration, content, signature } }      once, fanned out
+
+const MAX_SKIP = 1000; // Lost messages we step over in one sender's chain
+
+export interface SenderKeyDistribution {
+    group: string;
+    keyId: string;     // New on every rotation
+    chainKey: string;  // base64, at `iteration`
+    iteration: number;
+}
+
+export interface SenderKeyEnvelope {
+    type: 'sender_key';
+    group: string;
+    encryptedKey: string; // RSA-OAEP for the recipient
+    content: string;      // sealMessage(distribution)
+    signature: string;    // By the sender's identity key
+}
+
+export interface GroupCiphertext {
+    keyId: string;
+    iteration: number;
+    content: string;
+    signature: string; // By the sender's identity key
+}
+
+// KDF_CK: HMAC-SHA256 with the chain key -> (next chain key, message key)
+const kdfChain = (chainKey: Buffer): [Buffer, Buffer] => [
+    createHmac('sha256', chainKey).update(Buffer.from([0x02])).digest(),
+    createHmac('sha256', chainKey).update(Buffer.from([0x01])).digest()
+];
+
+// JSON arrays, so no field can bleed into the next one
+const senderKeyAAD = (senderId: string, recipientId: string, group: string): string =>
+    JSON.stringify(['chatapp-sender-key', senderId, recipientId, group]);
+
+const groupMessageAAD = (group: string, senderId: string, keyId: string, iteration: number): string =>
+    JSON.stringify(['chatapp-group-message', group, senderId, keyId, iteration]);
+
+export const wrapSenderKey = (distribution: SenderKeyDistribution, senderId: string, recipientId: string, recipientPublicKey: string, senderPrivateKey: string): SenderKeyEnvelope => {
+    const aad = senderKeyAAD(senderId, recipientId, distribution.group);
+    const wrappingKey = generateAESKey();
+    const encryptedKey = encryptAESKeyWithRSA(wrappingKey, recipientPublicKey);
+    const content = sealMessage(JSON.stringify(distribution), wrappingKey, aad);
+    const signature = signMessage(JSON.stringify([aad, encryptedKey, content]), senderPrivateKey);
+    return { type: 'sender_key', group: distribution.group, encryptedKey, content, signature };
+};
+
+/**
+ * @throws if the signature is invalid, the key was wrapped for someone else or anything was tampered with
+ */
+export const unwrapSenderKey = (envelope: SenderKeyEnvelope, senderId: string, recipientId: string, senderPublicKey: string, recipientPrivateKey: string): SenderKeyDistribution => {
+    const aad = senderKeyAAD(senderId, recipientId, envelope.group);
+    if (!verifySignature(JSON.stringify([aad, envelope.encryptedKey, envelope.content]), envelope.signature, senderPublicKey)) {
+        throw new Error('Sender key signature invalid');
+    }
+    const wrappingKey = decryptAESKeyWithRSA(envelope.encryptedKey, recipientPrivateKey);
+    const distribution: SenderKeyDistribution = JSON.parse(openMessage(envelope.content, wrappingKey, aad));
+    if (distribution.group !== envelope.group || !Number.isSafeInteger(distribution.iteration) || distribution.iteration < 0) {
+        throw new Error('Malformed sender key');
+    }
+    return distribution;
+};
+
+// One sender's chain: ours, or a peer's as far as we have followed it
+interface SenderChain {
+    keyId: string;
+    chainKey: Buffer;
+    iteration: number; // Next message number
+}
+
+const newSenderChain = (): SenderChain => ({ keyId: randomBytes(8).toString('hex'), chainKey: randomBytes(32), iteration: 0 });
+
+export class SenderKeyGroup {
+    public readonly name: string;
+    public members: string[] = []; // From the relay, us included
+
+    private localId: string;
+    private own: SenderChain = newSenderChain();
+    private peers = new Map<string, SenderChain>(); // senderId -> current sender key
+
+    constructor(name: string, localId: string) {
+        this.name = name;
+        this.localId = localId;
+    }
+
+    /**
+     * Starts a new sender key. Send the result to every other member.
+     */
+    public rotate(): SenderKeyDistribution {
+        this.own = newSenderChain();
+        return { group: this.name, keyId: this.own.keyId, chainKey: this.own.chainKey.toString('base64'), iteration: 0 };
+    }
+
+    // Replaces the sender's previous key. The relay keeps each sender's messages in order, so
+    // nothing still in flight needs the old one.
+    public accept(senderId: string, distribution: SenderKeyDistribution) {
+        this.peers.set(senderId, {
+            keyId: distribution.keyId,
+            chainKey: Buffer.from(distribution.chainKey, 'base64'),
+            iteration: distribution.iteration
+        });
+    }
+
+    public forget(senderId: string) {
+        this.peers.delete(senderId);
+    }
+
+    public encrypt(plaintext: string, privateKey: string): GroupCiphertext {
+        const [nextChainKey, messageKey] = kdfChain(this.own.chainKey);
+        const { keyId, iteration } = this.own;
+        this.own.chainKey = nextChainKey;
+        this.own.iteration++;
+
+        const content = sealMessage(plaintext, messageKey.toString('base64'), groupMessageAAD(this.name, this.localId, keyId, iteration));
+        const signature = signMessage(JSON.stringify([groupMessageAAD(this.name, this.localId, keyId, iteration), content]), privateKey);
+        return { keyId, iteration, content, signature };
+    }
+
+    /**
+     * The chain only moves forward: replays and messages older than the current key are rejected.
+     * @throws if the signature is invalid, the key is unknown or the message does not decrypt
+     */
+    public decrypt(senderId: string, message: GroupCiphertext, senderPublicKey: string): string {
+        const aad = groupMessageAAD(this.name, senderId, message.keyId, message.iteration);
+        if (!verifySignature(JSON.stringify([aad, message.content]), message.signature, senderPublicKey)) {
+            throw new Error('Signature invalid');
+        }
+
+        const chain = this.peers.get(senderId);
+        if (!chain || chain.keyId !== message.keyId) throw new Error('No sender key for this message (yet)');
+        if (!Number.isSafeInteger(message.iteration) || message.iteration < chain.iteration) throw new Error('Old or replayed message');
+        if (message.iteration - chain.iteration > MAX_SKIP) throw new Error('Too many missing messages');
+
+        let chainKey = chain.chainKey;
+        for (let i = chain.iteration; i < message.iteration; i++) chainKey = kdfChain(chainKey)[0];
+        const [nextChainKey, messageKey] = kdfChain(chainKey);
+        const plaintext = openMessage(message.content, messageKey.toString('base64'), aad);
+
+        // Only move forward once the message is authentic
+        chain.chainKey = nextChainKey;
+        chain.iteration = message.iteration + 1;
+        return plaintext;
+    }
+}
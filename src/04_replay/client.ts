@@ -1,15 +1,27 @@
 import WebSocket from 'ws';
 import readline from 'readline';
+import path from 'path';
 import {
     generateRSAKeys,
     generateAESKey,
     encryptAESKeyWithRSA,
     decryptAESKeyWithRSA,
-    encryptMessageAES,
-    decryptMessageAES,
-    createSecurePacket,
-    ReplayProtection
+    createReplayStrategy,
+    isReplayStrategyName,
+    REPLAY_STRATEGIES,
+    ReplayStrategy,
+    ReplayStrategyName,
+    signPacket,
+    openSignedPacket,
+    SignatureStatus
 } from './crypto-utils';
+import { DoubleRatchet } from '../03_encryption/double-ratchet';
+import { RekeyingSession, SessionPayload } from '../03_encryption/rekeying-session';
+import { VerifiedPeers, verifyCommand, keyChangedWarning } from '../03_encryption/safety-number';
+import { GroupChat } from '../03_encryption/group-chat';
+import { ProtocolError, parseFrame, validateFrame, PHASE3_FRAMES, PHASE4_PAYLOADS } from '../03_encryption/protocol';
+import { IdleReporter, describePresence, watchServer } from '../03_encryption/presence';
+import { FileNonceStore } from './nonce-store';
 
 // --- Identity ---
 console.log('Generating RSA Identity...');
@@ -20,55 +32,167 @@ console.log('Identity generated.');
 interface User {
     id: string;
     publicKey?: string;
+    presence?: string; // online, away or offline (then without a key)
+    since?: number;
 }
 
 let connectedUsers: User[] = [];
 let targetUser: User | null = null;
-let sessionKey: string | null = null;
-const replayProtection = new ReplayProtection(); // Initializes validation cache
+let session: RekeyingSession | null = null; // Double Ratchet seeded by the session key, rekeyed now and then
+let myId = ''; // Assigned by the server (welcome)
+let replay: ReplayStrategy | null = null; // Chosen by the initiator at session setup
+const verifiedPeers = new VerifiedPeers(); // IDs change with every connection, so in memory only
+let signOutgoing = process.env.SIGN_MESSAGES === '1'; // Sign-then-encrypt (toggle with `sign on|off`)
 
-const ws = new WebSocket('ws://localhost:8083');
+// Seen nonces, kept across restarts. Phase 4 IDs change with every run, so one file per working
+// directory: give each client on the machine its own NONCE_STORE_DIR.
+const nonceStore = new FileNonceStore(path.join(process.env.NONCE_STORE_DIR || 'nonce-store', 'phase4.jsonl'), 60_000);
+
+// Default for sessions we start (override per session: connect <User ID> <strategy>)
+const DEFAULT_REPLAY_STRATEGY: ReplayStrategyName = isReplayStrategyName(process.env.REPLAY_STRATEGY) ? process.env.REPLAY_STRATEGY : 'timestamp';
+
+let ws: WebSocket;
+let resumeToken = ''; // Sent when we register as resumable: takes our ID back after a reconnect
+let resuming = false; // Reconnected, waiting for the answer to our resume
+
+// Group chats: sender keys go out wrapped for the key each member registered.
+// Sender-key chains only move forward, so replayed group messages are rejected too.
+const groups = new GroupChat({
+    localId: () => myId,
+    privateKey,
+    send: (message) => ws.send(JSON.stringify(message)),
+    memberKey: async (member) => member.publicKey,
+    log: (line) => {
+        console.log(`\n${line}`);
+        process.stdout.write('> ');
+    }
+});
 
 const rl = readline.createInterface({
     input: process.stdin,
     output: process.stdout
 });
 
-ws.on('open', () => {
-    console.log('Connected to Phase 4 Server (Replay Protected).');
-
-    // Register Identity
-    ws.send(JSON.stringify({
-        type: 'register',
-        payload: { publicKey }
-    }));
-
-    console.log('\nCommands:');
-    console.log('  list                 -> Show online users');
-    console.log('  connect <User ID>    -> Start secure session');
-    console.log('  msg <text>           -> Send encrypted message');
-    process.stdout.write('> ');
+// Away after AWAY_AFTER_MINUTES without input, online again on the next line (see presence.ts)
+const idle = new IdleReporter((status) => {
+    if (ws?.readyState === WebSocket.OPEN) ws.send(JSON.stringify({ type: 'presence', status }));
 });
 
-ws.on('message', (data) => {
-    try {
-        const msg = JSON.parse(data.toString());
+function connect() {
+    ws = new WebSocket(process.env.CHAT_URL || 'ws://localhost:8083');
+    watchServer(ws); // A server that stops pinging us is dropped, and 'close' reconnects
 
-        if (msg.type === 'user_list') {
-            connectedUsers = msg.users;
-            console.log('\n[USERS] Online:', connectedUsers.map(u => u.id).join(', '));
+    ws.on('open', () => {
+        const reconnected = !!myId;
+        if (reconnected) {
+            // Ask for our old ID first. The answer is a second welcome, then anything queued for us.
+            resuming = true;
+            ws.send(JSON.stringify({ type: 'resume', id: myId, resumeToken }));
         }
-        else if (msg.type === 'direct') {
-            handleDirectMessage(msg);
+        console.log('Connected to Phase 4 Server (Replay Protected).');
+
+        // Register Identity
+        ws.send(JSON.stringify({
+            type: 'register',
+            payload: { publicKey },
+            resumable: true // Keep our ID (and queue messages for it) while we are away
+        }));
+        if (reconnected) {
+            idle.reconnected();
+            return;
         }
-        else if (msg.type === 'error') {
-            console.error('\n[ERROR]', msg.message);
+
+        console.log('\nCommands:');
+        console.log('  list                 -> Show users (online, away, offline)');
+        console.log(`  connect <User ID> [${REPLAY_STRATEGIES.join('|')}]`);
+        console.log(`                       -> Start secure session (replay protection: ${DEFAULT_REPLAY_STRATEGY})`);
+        console.log('  msg <text>           -> Send encrypted message');
+        console.log(`  sign <on|off>        -> Sign messages before encrypting (now: ${signOutgoing ? 'on' : 'off'})`);
+        console.log('  verify <User ID> [confirm|<code>]');
+        console.log('                       -> Compare safety numbers, mark the peer verified');
+        console.log('  group create|leave <name>, group invite <name> <User ID>');
+        console.log('  groups               -> Show your groups');
+        console.log('  gmsg <name> <text>   -> Send encrypted message to a group');
+        process.stdout.write('> ');
+    });
+
+    ws.on('message', (data) => {
+        try {
+            const msg = parseFrame(data.toString(), PHASE3_FRAMES);
+            // The relay passes payloads through unchecked: check them before any handler does
+            if (msg.type === 'direct') validateFrame(msg.payload, PHASE4_PAYLOADS);
+
+            if (msg.type === 'welcome') {
+                if (resuming && msg.resumed === undefined) return; // This connection's new ID: the answer to our resume follows
+                if (resuming && !msg.resumed) console.log(`\n[INFO] Could not get ${myId} back. Sessions under the old ID are gone.`);
+                resuming = false;
+                myId = msg.id; // Bound into every envelope we send and expect
+                resumeToken = msg.resumeToken ?? ''; // A new ID gets its token once registered (resume_token)
+                console.log(`[INFO] My ID: ${myId}`);
+            }
+            else if (msg.type === 'resume_token') {
+                if (msg.id === myId) resumeToken = msg.resumeToken;
+            }
+            else if (msg.type === 'queued') {
+                console.log(`\n[QUEUED] ${msg.targetId} is offline. The server keeps the message until it is back (${msg.waiting} waiting).`);
+            }
+            else if (msg.type === 'user_list') {
+                connectedUsers = msg.users;
+                console.log('\n[USERS]', connectedUsers.map(describePresence).join(', '));
+                for (const user of connectedUsers) {
+                    if (user.publicKey && verifiedPeers.check(user.id, user.publicKey) === 'changed') console.log(keyChangedWarning(user.id));
+                }
+            }
+            else if (groups.handle(msg)) {
+                // Group update, group message or sender key: handled (in order) by GroupChat
+            }
+            else if (msg.type === 'direct') {
+                handleDirectMessage(msg);
+            }
+            else if (msg.type === 'error') {
+                console.error(`\n[ERROR] ${msg.message} (${msg.code})`);
+            }
+            process.stdout.write('> ');
+        } catch (e) {
+            if (e instanceof ProtocolError) console.error(`\n[PROTOCOL] Dropped frame: ${e.message}`);
+            else console.error('Error:', e);
         }
+    });
+
+    // Reconnect and take our ID back: the server queues direct messages for us in the meantime
+    ws.on('close', () => {
+        console.log('\n[INFO] Disconnected. Reconnecting in 2s...');
+        setTimeout(connect, 2000);
+    });
+    ws.on('error', () => { /* Followed by 'close' */ });
+}
+connect();
+
+const signatureLabel = (status: SignatureStatus, senderId: string) =>
+    status === 'valid' ? `(signed by ${senderId})` : status === 'invalid' ? '(SIGNATURE INVALID)' : '(unsigned)';
+
+function startSession(ratchet: DoubleRatchet, peerId: string) {
+    session?.close();
+    session = new RekeyingSession(ratchet, { localId: myId, peerId }, (payload: SessionPayload) => {
+        ws.send(JSON.stringify({ type: 'direct', targetId: peerId, payload }));
+    });
+    session.onEvent = (event) => {
+        console.log(`\n[REKEY] ${event}`);
         process.stdout.write('> ');
-    } catch (e) {
-        console.error('Error:', e);
-    }
-});
+    };
+}
+
+function startReplayProtection(name: ReplayStrategyName) {
+    replay = createReplayStrategy(name, nonceStore);
+    console.log(`[REPLAY] Using ${replay.description}`);
+}
+
+// Challenge-response: hand the peer fresh nonces whenever its supply runs low
+function sendChallenges() {
+    const nonces = replay?.issueChallenges?.() ?? [];
+    if (!targetUser || nonces.length === 0) return;
+    ws.send(JSON.stringify({ type: 'direct', targetId: targetUser.id, payload: { type: 'replay_challenge', nonces } }));
+}
 
 function handleDirectMessage(envelope: any) {
     const { senderId, payload } = envelope;
@@ -77,33 +201,47 @@ function handleDirectMessage(envelope: any) {
         console.log(`\n[KEY EXCHANGE] Received Encrypted AES Key from ${senderId}`);
         try {
             const decryptedKey = decryptAESKeyWithRSA(payload.encryptedKey, privateKey);
-            sessionKey = decryptedKey;
+            if (!payload.ratchetKey) throw new Error('No ratchet key in key exchange');
+            if (!isReplayStrategyName(payload.replayStrategy)) throw new Error(`Unknown replay strategy: ${payload.replayStrategy}`);
+            startSession(new DoubleRatchet(decryptedKey, payload.ratchetKey), senderId);
 
             targetUser = connectedUsers.find(u => u.id === senderId) || { id: senderId };
 
             console.log('[SUCCESS] Session Key Decrypted. Secure Channel Established.');
+            startReplayProtection(payload.replayStrategy);
+            replay!.acceptChallenges?.(payload.challenges || []);
+            sendChallenges();
         } catch (e) {
             console.error('[FAIL] Could not decrypt session key:', e);
         }
     }
-    else if (payload.type === 'chat') {
-        if (!sessionKey) {
+    else if (payload.type === 'replay_challenge') {
+        if (senderId === targetUser?.id) replay?.acceptChallenges?.(payload.nonces || []);
+    }
+    else if (payload.type === 'chat' || payload.type === 'rekey') {
+        if (!session || !replay) {
             console.log(`\n[ENCRYPTED] Message from ${senderId} (Cannot decrypt: No Session Key)`);
             return;
         }
         try {
-            // 1. Decrypt Layer
-            const plaintextJSON = decryptMessageAES(payload.content, sessionKey);
+            // 1. Decrypt Layer (rekey messages are handled inside)
+            const plaintextJSON = session.decrypt(payload, senderId);
+            if (plaintextJSON === null) return;
 
-            // 2. Parse Secure Packet
-            const packet = JSON.parse(plaintextJSON);
+            // 2. Signature (if signed) against the key the sender registered, then the Secure Packet
+            const senderKey = connectedUsers.find(u => u.id === senderId)?.publicKey;
+            const { body, status } = openSignedPacket(plaintextJSON, senderId, myId, senderKey);
+            const packet = JSON.parse(body);
 
             // 3. Replay Protection Check
-            if (replayProtection.validate(packet)) {
+            if (replay.validate(packet)) {
                 // If Valid
-                console.log(`\n[SECURE] ${senderId}: ${packet.payload}`);
+                console.log(`\n[SECURE] ${senderId}: ${packet.payload} ${signatureLabel(status, senderId)}`);
                 // Debug info
-                console.log(`   (Timestamp: ${new Date(packet.timestamp).toLocaleTimeString()}, Nonce: ${packet.nonce.substring(0, 6)}...)`);
+                if (packet.timestamp) console.log(`   (Timestamp: ${new Date(packet.timestamp).toLocaleTimeString()}, Nonce: ${packet.nonce.substring(0, 6)}...)`);
+                else if (packet.seq) console.log(`   (Sequence: ${packet.seq})`);
+                else console.log(`   (Challenge: ${packet.challenge.substring(0, 6)}...)`);
+                sendChallenges();
             } else {
                 // If Invalid (Replay or Expired)
                 console.log(`\n[REJECTED] Message from ${senderId} blocked by Replay Protection.`);
@@ -116,6 +254,7 @@ function handleDirectMessage(envelope: any) {
 }
 
 rl.on('line', (input) => {
+    idle.activity();
     const args = input.trim().split(' ');
     const command = args[0];
 
@@ -124,6 +263,7 @@ rl.on('line', (input) => {
     }
     else if (command === 'connect') {
         const targetId = args[1];
+        const strategy = args[2] || DEFAULT_REPLAY_STRATEGY;
         const user = connectedUsers.find(u => u.id === targetId);
 
         if (!user || !user.publicKey) {
@@ -131,11 +271,18 @@ rl.on('line', (input) => {
             process.stdout.write('> ');
             return;
         }
+        if (!isReplayStrategyName(strategy)) {
+            console.log(`Unknown replay strategy. Choose one of: ${REPLAY_STRATEGIES.join(', ')}`);
+            process.stdout.write('> ');
+            return;
+        }
 
         console.log(`\nInitiating Handshake with ${targetId}...`);
         const newSessionKey = generateAESKey();
-        sessionKey = newSessionKey;
+        const ratchet = new DoubleRatchet(newSessionKey);
+        startSession(ratchet, user.id);
         targetUser = user;
+        startReplayProtection(strategy);
 
         const encryptedKey = encryptAESKeyWithRSA(newSessionKey, user.publicKey);
 
@@ -144,7 +291,10 @@ rl.on('line', (input) => {
             targetId: targetUser.id,
             payload: {
                 type: 'key_exchange',
-                encryptedKey: encryptedKey
+                encryptedKey: encryptedKey,
+                ratchetKey: ratchet.publicKey,
+                replayStrategy: strategy,
+                challenges: replay!.issueChallenges?.() // Challenge mode: our first nonces for the responder
             }
         }));
 
@@ -152,7 +302,7 @@ rl.on('line', (input) => {
         process.stdout.write('> ');
     }
     else if (command === 'msg') {
-        if (!targetUser || !sessionKey) {
+        if (!targetUser || !session || !replay) {
             console.log('No secure session. Use "connect <ID>" first.');
             process.stdout.write('> ');
             return;
@@ -160,22 +310,61 @@ rl.on('line', (input) => {
 
         const text = args.slice(1).join(' ');
 
-        // 1. Create Secure Packet (Add Timestamp + Nonce)
-        const packet = createSecurePacket(text);
+        // 1. Create Secure Packet (Timestamp + Nonce, Sequence Number or Challenge)
+        let packet;
+        try {
+            packet = replay.createPacket(text);
+        } catch (e: any) {
+            console.log(`[REPLAY] ${e.message}. Message not sent, try again shortly.`);
+            process.stdout.write('> ');
+            return;
+        }
 
-        // 2. Encrypt the Packet JSON
-        const encryptedPayload = encryptMessageAES(JSON.stringify(packet), sessionKey);
+        // 2. Optionally sign the Packet JSON with our identity key, then encrypt it under the next message key
+        const body = JSON.stringify(packet);
+        const payload = session.encrypt(signOutgoing ? signPacket(body, myId, targetUser.id, privateKey) : body);
 
         ws.send(JSON.stringify({
             type: 'direct',
             targetId: targetUser.id,
-            payload: {
-                type: 'chat',
-                content: encryptedPayload
-            }
+            payload
         }));
 
-        console.log(`[SENT] (Encrypted & Timestamped): ${text}`);
+        console.log(`[SENT] (${signOutgoing ? 'Signed, ' : ''}Encrypted & Replay-Protected): ${text}`);
+        process.stdout.write('> ');
+    }
+    else if (command === 'verify') {
+        const user = connectedUsers.find(u => u.id === args[1]);
+        if (!user || !user.publicKey) {
+            console.log('User not found or has no public key.');
+        } else {
+            verifyCommand(verifiedPeers, { id: myId, publicKey }, { id: user.id, publicKey: user.publicKey }, args[2]).forEach(line => console.log(line));
+        }
+        process.stdout.write('> ');
+    }
+    else if (command === 'group') {
+        const [action, name, userId] = args.slice(1);
+        if (action === 'create' && name) groups.create(name);
+        else if (action === 'invite' && name && userId) groups.invite(name, userId);
+        else if (action === 'leave' && name) groups.leave(name);
+        else console.log('Usage: group create <name> | group invite <name> <User ID> | group leave <name>');
+        process.stdout.write('> ');
+    }
+    else if (command === 'groups') {
+        const names = groups.names();
+        if (names.length === 0) console.log('No groups.');
+        names.forEach(name => console.log(`  ${name}: ${groups.membersOf(name).join(', ')}`));
+        process.stdout.write('> ');
+    }
+    else if (command === 'gmsg') {
+        const text = args.slice(2).join(' ');
+        if (!groups.sendMessage(args[1], text)) console.log('Not a member of that group. Use "group create <name>" first.');
+        else console.log(`[SENT] (Encrypted to ${args[1]}): ${text}`);
+        process.stdout.write('> ');
+    }
+    else if (command === 'sign') {
+        signOutgoing = args[1] === 'on';
+        console.log(`Message signing ${signOutgoing ? 'on' : 'off'}.`);
         process.stdout.write('> ');
     } else {
         // Ignore or handle unknown
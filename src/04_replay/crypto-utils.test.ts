@@ -0,0 +1,107 @@
+import { describe, it, before, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+    CounterReplayProtection,
+    ChallengeReplayProtection,
+    ReplayProtection,
+    createReplayStrategy,
+    createSecurePacket
+} from './crypto-utils';
+
+// The strategies log every rejection
+before(() => mock.method(console, 'log', () => {}));
+after(() => mock.restoreAll());
+
+describe('CounterReplayProtection (sliding window)', () => {
+    const packet = (seq: number) => ({ seq, payload: 'x' });
+
+    it('numbers outgoing packets from 1', () => {
+        const sender = new CounterReplayProtection();
+        assert.deepEqual([1, 2, 3].map(() => sender.createPacket('x').seq), [1, 2, 3]);
+    });
+
+    it('accepts every sequence number once', () => {
+        const window = new CounterReplayProtection();
+        assert.ok(window.validate(packet(1)));
+        assert.ok(window.validate(packet(2)));
+        assert.equal(window.validate(packet(2)), false);
+        assert.equal(window.validate(packet(1)), false);
+    });
+
+    it('accepts reordering inside the window and rejects anything behind it', () => {
+        const window = new CounterReplayProtection(4);
+        assert.ok(window.validate(packet(10)));
+        assert.ok(window.validate(packet(7)));  // highest - 3: last slot of the window
+        assert.equal(window.validate(packet(6)), false); // highest - 4: behind it, even though never seen
+        assert.equal(window.validate(packet(7)), false);
+        assert.ok(window.validate(packet(9)));
+    });
+
+    it('slides the seen bits along with the window', () => {
+        const window = new CounterReplayProtection(4);
+        [1, 2, 3].forEach(seq => assert.ok(window.validate(packet(seq))));
+        assert.ok(window.validate(packet(5)));
+        assert.equal(window.validate(packet(3)), false);
+        assert.equal(window.validate(packet(2)), false);
+        assert.ok(window.validate(packet(4)));
+        assert.ok(window.validate(packet(100))); // Jump past the window: starts over
+        assert.equal(window.validate(packet(96)), false);
+        assert.ok(window.validate(packet(97)));
+    });
+
+    it('rejects packets without a positive integer sequence number', () => {
+        const window = new CounterReplayProtection();
+        [0, -1, 1.5, NaN, '2', undefined].forEach(seq => assert.equal(window.validate({ seq: seq as any, payload: 'x' }), false));
+    });
+});
+
+describe('ReplayProtection (timestamp + nonce)', () => {
+    it('accepts a fresh packet once', () => {
+        const receiver = new ReplayProtection(60, 5);
+        const packet = createSecurePacket('hi');
+        assert.ok(receiver.validate(packet));
+        assert.equal(receiver.validate(packet), false);
+    });
+
+    it('rejects packets outside the window or from the future', () => {
+        const receiver = new ReplayProtection(60, 5);
+        assert.equal(receiver.validate({ ...createSecurePacket('hi'), timestamp: Date.now() - 61_000 }), false);
+        assert.equal(receiver.validate({ ...createSecurePacket('hi'), timestamp: Date.now() + 6_000 }), false);
+        assert.ok(receiver.validate({ ...createSecurePacket('hi'), timestamp: Date.now() + 4_000 }));
+    });
+});
+
+describe('ChallengeReplayProtection', () => {
+    it('cannot send before the peer handed out challenges', () => {
+        assert.throws(() => new ChallengeReplayProtection().createPacket('hi'), /No challenge/);
+    });
+
+    it('accepts each issued challenge once', () => {
+        const receiver = new ChallengeReplayProtection(4);
+        const sender = new ChallengeReplayProtection(4);
+        sender.acceptChallenges(receiver.issueChallenges());
+
+        const packet = sender.createPacket('hi');
+        assert.ok(receiver.validate(packet));
+        assert.equal(receiver.validate(packet), false);
+        assert.equal(receiver.validate({ challenge: 'made-up', payload: 'hi' }), false);
+    });
+
+    it('tops the pool up once half of it is spent', () => {
+        const receiver = new ChallengeReplayProtection(4);
+        const sender = new ChallengeReplayProtection(4);
+        sender.acceptChallenges(receiver.issueChallenges());
+        assert.ok(receiver.validate(sender.createPacket('1')));
+        assert.deepEqual(receiver.issueChallenges(), []);
+        assert.ok(receiver.validate(sender.createPacket('2')));
+        assert.equal(receiver.issueChallenges().length, 2);
+    });
+});
+
+describe('createReplayStrategy', () => {
+    it('builds the strategy named in the key exchange', () => {
+        assert.equal(createReplayStrategy('timestamp').name, 'timestamp');
+        assert.equal(createReplayStrategy('counter').name, 'counter');
+        assert.equal(createReplayStrategy('challenge').name, 'challenge');
+    });
+});
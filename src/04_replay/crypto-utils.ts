@@ -7,17 +7,62 @@ import {
 // For simplicity in this linear progression, I will duplicate the necessary base functions + add new ones,
 // OR import from the previous phase. Importing is cleaner.
 
+import { MemoryNonceStore, NonceStore } from './nonce-store';
+
 export * from '../03_encryption/crypto-utils';
 
 // --- REPLAY PROTECTION ---
+// Three interchangeable strategies. The initiator picks one at session setup (`replayStrategy` in
+// the key_exchange) and both sides use it for the whole session.
+//   timestamp: sender clock + random nonce. No state to share, but needs synchronized clocks and
+//              remembers every nonce inside the window (in a NonceStore, optionally on disk).
+//   counter:   per-session sequence number with an IPsec-style sliding window (RFC 4303). Constant
+//              memory, tolerates reordering within the window, no clocks. Messages older than the
+//              window are dropped even if they were never seen.
+//   challenge: the receiver hands out one-time nonces and only accepts messages that spend one.
+//              Strongest freshness guarantee, but costs extra messages and the sender stalls
+//              when it runs out of challenges.
+
+export type ReplayStrategyName = 'timestamp' | 'counter' | 'challenge';
+export const REPLAY_STRATEGIES: ReplayStrategyName[] = ['timestamp', 'counter', 'challenge'];
 
-// 1. Packet Structure
+export const isReplayStrategyName = (name: unknown): name is ReplayStrategyName =>
+    REPLAY_STRATEGIES.includes(name as ReplayStrategyName);
+
+// 1. Packet Structure (one per strategy)
 export interface SecurePacket {
     timestamp: number;
     nonce: string;
     payload: any; // The actual message
 }
 
+export interface CounterPacket {
+    seq: number;
+    payload: any;
+}
+
+export interface ChallengePacket {
+    challenge: string; // Issued by the receiver, spent once
+    payload: any;
+}
+
+export type ReplayPacket = SecurePacket | CounterPacket | ChallengePacket;
+
+export interface ReplayStrategy {
+    readonly name: ReplayStrategyName;
+    readonly description: string; // For the logs
+    /**
+     * Wraps an outgoing message.
+     * @throws if the strategy cannot send yet (challenge mode without a challenge from the peer)
+     */
+    createPacket(payload: any): ReplayPacket;
+    // @returns true if valid, false if replay/expired
+    validate(packet: ReplayPacket): boolean;
+    // Challenge-response only: nonces to send to the peer, and the ones the peer sent us
+    issueChallenges?(): string[];
+    acceptChallenges?(nonces: string[]): void;
+}
+
 // 2. Wrap Data (Add Timestamp + Nonce)
 export const createSecurePacket = (payload: any): SecurePacket => {
     return {
@@ -31,47 +76,175 @@ export const createSecurePacket = (payload: any): SecurePacket => {
    3. Validator Class
    Why a class? Because we need to maintain STATE (the cache of seen nonces).
 */
-export class ReplayProtection {
-    private seenNonces: Set<string> = new Set();
+export class ReplayProtection implements ReplayStrategy {
+    public readonly name = 'timestamp';
+    public readonly description: string;
+    private seenNonces: NonceStore;
     private windowMs: number;
+    private maxSkewMs: number;
 
-    constructor(windowSeconds: number = 60) {
+    /**
+     * @param seenNonces shared or persistent store (its retention must cover the window); in-memory by default
+     */
+    constructor(windowSeconds: number = 60, maxSkewSeconds: number = 5, seenNonces?: NonceStore) {
         this.windowMs = windowSeconds * 1000;
+        this.maxSkewMs = maxSkewSeconds * 1000;
+        this.seenNonces = seenNonces ?? new MemoryNonceStore(this.windowMs);
+        this.description = `timestamp + nonce (${windowSeconds}s window, ${maxSkewSeconds}s clock skew)`;
+    }
+
+    public createPacket(payload: any): SecurePacket {
+        return createSecurePacket(payload);
     }
 
     /**
      * Validates a packet against Replay Attacks.
      * @returns true if valid, false if replay/expired.
      */
-    public validate(packet: SecurePacket): boolean {
+    public validate(packet: ReplayPacket): boolean {
+        const { timestamp, nonce } = packet as SecurePacket;
+        if (typeof timestamp !== 'number' || typeof nonce !== 'string') {
+            console.log(`[REJECT] Not a timestamp + nonce packet.`);
+            return false;
+        }
         const now = Date.now();
 
         // Check 1: Timestamp Freshness
-        if (now - packet.timestamp > this.windowMs) {
-            console.log(`[REJECT] Timestamp expired. Diff: ${now - packet.timestamp}ms`);
+        if (now - timestamp > this.windowMs) {
+            console.log(`[REJECT] Timestamp expired. Diff: ${now - timestamp}ms`);
             return false;
         }
 
         // Check 2: Future Timestamp (Time travel check)
-        if (packet.timestamp > now + 5000) { // Allow 5s clock skew
+        if (timestamp > now + this.maxSkewMs) {
             console.log(`[REJECT] Timestamp from future.`);
             return false;
         }
 
-        // Check 3: Nonce Uniqueness
-        if (this.seenNonces.has(packet.nonce)) {
-            console.log(`[REJECT] Replay detected! Nonce ${packet.nonce} already seen.`);
+        // Check 3: Nonce Uniqueness (and remember it until its timestamp leaves the window)
+        let check;
+        try {
+            check = this.seenNonces.checkAndAdd(nonce, timestamp);
+        } catch (e: any) {
+            console.log(`[REJECT] Nonce store unavailable: ${e.message}`);
+            return false;
+        }
+        if (check === 'replay') {
+            console.log(`[REJECT] Replay detected! Nonce ${nonce} already seen.`);
+            return false;
+        }
+        if (check === 'full') {
+            // Fail closed: accepting without remembering would allow a replay later
+            console.log(`[REJECT] Nonce store full, refusing messages until entries expire.`);
             return false;
         }
 
-        // Pass! Add nonce to cache.
-        this.seenNonces.add(packet.nonce);
+        return true;
+    }
+}
+
+// 4. Sequence Counter with a Sliding Window (IPsec anti-replay)
+// Bit i of `seen` = message (highest - i) arrived. Anything left of the window is rejected.
+export class CounterReplayProtection implements ReplayStrategy {
+    public readonly name = 'counter';
+    public readonly description: string;
+    private nextSeq = 1;
+    private highest = 0;
+    private seen = 0n;
+    private windowSize: number;
 
-        // Cleanup old nonces occasionally (simple approach: just keep growing for this demo, or clear explicitly)
-        // For a long-running app, we'd need a cleaner.
-        // Let's implement a lazy cleanup? Or just ignore for brief demo.
-        setTimeout(() => this.seenNonces.delete(packet.nonce), this.windowMs);
+    constructor(windowSize: number = 64) {
+        this.windowSize = windowSize;
+        this.description = `sequence counter (sliding window of ${windowSize})`;
+    }
+
+    public createPacket(payload: any): CounterPacket {
+        return { seq: this.nextSeq++, payload };
+    }
 
+    public validate(packet: ReplayPacket): boolean {
+        const { seq } = packet as CounterPacket;
+        if (!Number.isSafeInteger(seq) || seq < 1) {
+            console.log(`[REJECT] Not a sequence-numbered packet.`);
+            return false;
+        }
+
+        if (seq > this.highest) {
+            // Slide the window forward
+            const shift = BigInt(seq - this.highest);
+            this.seen = shift >= BigInt(this.windowSize) ? 1n : ((this.seen << shift) | 1n) & ((1n << BigInt(this.windowSize)) - 1n);
+            this.highest = seq;
+            return true;
+        }
+
+        const offset = this.highest - seq;
+        if (offset >= this.windowSize) {
+            console.log(`[REJECT] Sequence number ${seq} is behind the window (highest ${this.highest}).`);
+            return false;
+        }
+        const bit = 1n << BigInt(offset);
+        if (this.seen & bit) {
+            console.log(`[REJECT] Replay detected! Sequence number ${seq} already seen.`);
+            return false;
+        }
+        this.seen |= bit;
+        return true;
+    }
+}
+
+// 5. Challenge-Response: every message spends a nonce the receiver issued
+export class ChallengeReplayProtection implements ReplayStrategy {
+    public readonly name = 'challenge';
+    public readonly description: string;
+    private issued = new Set<string>(); // Handed to the peer, not spent yet
+    private received: string[] = [];    // From the peer, for our next messages
+    private poolSize: number;
+
+    constructor(poolSize: number = 16) {
+        this.poolSize = poolSize;
+        this.description = `challenge-response (${poolSize} outstanding nonces)`;
+    }
+
+    public createPacket(payload: any): ChallengePacket {
+        const challenge = this.received.shift();
+        if (!challenge) throw new Error('No challenge from the peer yet');
+        return { challenge, payload };
+    }
+
+    public validate(packet: ReplayPacket): boolean {
+        const { challenge } = packet as ChallengePacket;
+        if (typeof challenge !== 'string' || !this.issued.delete(challenge)) {
+            console.log(`[REJECT] Unknown or already spent challenge.`);
+            return false;
+        }
         return true;
     }
+
+    // Tops the pool back up once half of it is spent (empty array = nothing to send)
+    public issueChallenges(): string[] {
+        if (this.issued.size > this.poolSize / 2) return [];
+        const nonces: string[] = [];
+        while (this.issued.size < this.poolSize) {
+            const nonce = randomBytes(16).toString('hex');
+            this.issued.add(nonce);
+            nonces.push(nonce);
+        }
+        return nonces;
+    }
+
+    public acceptChallenges(nonces: string[]) {
+        // Bounded, so a flood of challenges can't grow our memory
+        this.received = [...this.received, ...nonces.filter(n => typeof n === 'string')].slice(-this.poolSize);
+    }
 }
+
+/**
+ * @param nonceStore where the timestamp strategy keeps its nonces (in-memory by default)
+ */
+export const createReplayStrategy = (name: ReplayStrategyName, nonceStore?: NonceStore): ReplayStrategy => {
+    switch (name) {
+        case 'timestamp': return new ReplayProtection(60, 5, nonceStore);
+        case 'counter': return new CounterReplayProtection();
+        case 'challenge': return new ChallengeReplayProtection();
+    }
+};
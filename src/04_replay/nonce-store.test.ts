@@ -0,0 +1,76 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { MemoryNonceStore, FileNonceStore } from './nonce-store';
+
+// Timestamps this far back are past the 1s retention of the stores below
+const LONG_AGO = 5_000;
+const options = { bucketMs: 100 };
+
+describe('MemoryNonceStore', () => {
+    it('reports a nonce as a replay while it is retained', () => {
+        const store = new MemoryNonceStore(1_000, options);
+        assert.equal(store.checkAndAdd('a', Date.now()), 'fresh');
+        assert.equal(store.checkAndAdd('a', Date.now()), 'replay');
+        assert.equal(store.checkAndAdd('b', Date.now()), 'fresh');
+    });
+
+    it('forgets nonces once their bucket is older than the retention window', () => {
+        const store = new MemoryNonceStore(1_000, options);
+        assert.equal(store.checkAndAdd('old', Date.now() - LONG_AGO), 'fresh');
+        assert.equal(store.checkAndAdd('old', Date.now()), 'fresh');
+    });
+
+    it('refuses new nonces when full, until entries expire', () => {
+        const store = new MemoryNonceStore(1_000, { ...options, maxEntries: 2 });
+        assert.equal(store.checkAndAdd('a', Date.now()), 'fresh');
+        assert.equal(store.checkAndAdd('b', Date.now()), 'fresh');
+        assert.equal(store.checkAndAdd('c', Date.now()), 'full');
+        assert.equal(store.checkAndAdd('a', Date.now()), 'replay');
+
+        const expiring = new MemoryNonceStore(1_000, { ...options, maxEntries: 2 });
+        expiring.checkAndAdd('a', Date.now() - LONG_AGO);
+        expiring.checkAndAdd('b', Date.now() - LONG_AGO);
+        assert.equal(expiring.checkAndAdd('c', Date.now()), 'fresh');
+    });
+});
+
+describe('FileNonceStore', () => {
+    let dir: string;
+    let file: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'nonce-store-'));
+        file = path.join(dir, 'nonces.jsonl');
+    });
+
+    afterEach(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+    const lines = () => fs.readFileSync(file, 'utf8').split('\n').filter(Boolean);
+
+    it('still rejects nonces accepted before a restart', () => {
+        assert.equal(new FileNonceStore(file, 1_000, options).checkAndAdd('a', Date.now()), 'fresh');
+        assert.equal(new FileNonceStore(file, 1_000, options).checkAndAdd('a', Date.now()), 'replay');
+    });
+
+    it('skips expired entries and half-written lines when loading', () => {
+        fs.writeFileSync(file, [
+            JSON.stringify({ nonce: 'old', timestamp: Date.now() - LONG_AGO }),
+            JSON.stringify({ nonce: 'recent', timestamp: Date.now() }),
+            '{"nonce":"torn","time'
+        ].join('\n'));
+        const store = new FileNonceStore(file, 1_000, options);
+        assert.equal(lines().length, 1);
+        assert.equal(store.checkAndAdd('recent', Date.now()), 'replay');
+        assert.equal(store.checkAndAdd('old', Date.now()), 'fresh');
+    });
+
+    it('drops expired entries from the file when a bucket expires', () => {
+        const store = new FileNonceStore(file, 1_000, options);
+        store.checkAndAdd('old', Date.now() - LONG_AGO);
+        store.checkAndAdd('recent', Date.now());
+        assert.deepEqual(lines().map(line => JSON.parse(line).nonce), ['recent']);
+    });
+});
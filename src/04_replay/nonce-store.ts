@@ -0,0 +1,127 @@
+import fs from 'fs';
+import path from 'path';
+
+// --- NONCE STORE ---
+// Remembers the nonces ReplayProtection has accepted for as long as their timestamps can still
+// pass the freshness check. Nonces are grouped into time buckets by packet timestamp, and a whole
+// bucket is dropped once it is older than the retention window, so there is no timer per nonce.
+// The store has a hard cap: when full it refuses new nonces (fail closed) instead of forgetting
+// old ones, which would reopen the window for replays.
+
+export type NonceCheck = 'fresh' | 'replay' | 'full';
+
+export interface NonceStore {
+    /**
+     * Records a nonce if it was not seen before.
+     * @param timestamp the packet timestamp (already checked for freshness)
+     */
+    checkAndAdd(nonce: string, timestamp: number): NonceCheck;
+}
+
+export interface NonceStoreOptions {
+    bucketMs?: number;   // Expiry granularity (default 10s)
+    maxEntries?: number; // Hard cap (default 100,000)
+}
+
+export class MemoryNonceStore implements NonceStore {
+    protected buckets = new Map<number, Set<string>>(); // bucket number -> nonces
+    protected size = 0;
+    protected bucketMs: number;
+    private retentionMs: number;
+    private maxEntries: number;
+
+    /**
+     * @param retentionMs at least the freshness window of the ReplayProtection using this store
+     */
+    constructor(retentionMs: number, options: NonceStoreOptions = {}) {
+        this.retentionMs = retentionMs;
+        this.bucketMs = options.bucketMs ?? 10_000;
+        this.maxEntries = options.maxEntries ?? 100_000;
+    }
+
+    public checkAndAdd(nonce: string, timestamp: number): NonceCheck {
+        this.expire(Date.now());
+        for (const bucket of this.buckets.values()) {
+            if (bucket.has(nonce)) return 'replay';
+        }
+        if (this.size >= this.maxEntries) return 'full';
+
+        this.persist(nonce, timestamp); // Before remembering it: if this throws, the packet is rejected
+        this.insert(nonce, timestamp);
+        return 'fresh';
+    }
+
+    protected insert(nonce: string, timestamp: number) {
+        const key = Math.floor(timestamp / this.bucketMs);
+        let bucket = this.buckets.get(key);
+        if (!bucket) {
+            bucket = new Set();
+            this.buckets.set(key, bucket);
+        }
+        if (!bucket.has(nonce)) this.size++;
+        bucket.add(nonce);
+    }
+
+    // A bucket can go once even its newest timestamp is older than the retention window
+    protected isExpired(key: number, now: number): boolean {
+        return (key + 1) * this.bucketMs + this.retentionMs <= now;
+    }
+
+    private expire(now: number) {
+        let expired = false;
+        for (const [key, bucket] of this.buckets) {
+            if (!this.isExpired(key, now)) continue;
+            this.size -= bucket.size;
+            this.buckets.delete(key);
+            expired = true;
+        }
+        if (expired) this.compact();
+    }
+
+    // Hooks for persistent stores
+    protected persist(_nonce: string, _timestamp: number) { }
+    protected compact() { }
+}
+
+// Same store, mirrored to an append-only file (one JSON object per line) so a restarted client
+// still rejects packets it accepted before the restart. Expired entries are dropped from the
+// file whenever a bucket expires.
+export class FileNonceStore extends MemoryNonceStore {
+    private file: string;
+
+    constructor(file: string, retentionMs: number, options: NonceStoreOptions = {}) {
+        super(retentionMs, options);
+        this.file = file;
+        fs.mkdirSync(path.dirname(file), { recursive: true });
+
+        if (fs.existsSync(file)) {
+            const now = Date.now();
+            for (const line of fs.readFileSync(file, 'utf8').split('\n')) {
+                try {
+                    const { nonce, timestamp } = JSON.parse(line);
+                    const key = Math.floor(timestamp / this.bucketMs);
+                    if (typeof nonce === 'string' && Number.isFinite(timestamp) && !this.isExpired(key, now)) this.insert(nonce, timestamp);
+                } catch (e) {
+                    // Empty or half-written line (crash during append)
+                }
+            }
+        }
+        this.compact();
+    }
+
+    protected persist(nonce: string, timestamp: number) {
+        fs.appendFileSync(this.file, JSON.stringify({ nonce, timestamp }) + '\n', { mode: 0o600 });
+    }
+
+    // Write to a temp file then rename, so a crash never leaves half a file behind
+    protected compact() {
+        const lines: string[] = [];
+        for (const [key, bucket] of this.buckets) {
+            // The bucket start lands in the same bucket when loaded again
+            for (const nonce of bucket) lines.push(JSON.stringify({ nonce, timestamp: key * this.bucketMs }));
+        }
+        const tmp = `${this.file}.tmp`;
+        fs.writeFileSync(tmp, lines.map(l => l + '\n').join(''), { mode: 0o600 });
+        fs.renameSync(tmp, this.file);
+    }
+}
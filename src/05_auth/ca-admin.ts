@@ -0,0 +1,119 @@
+import WebSocket from 'ws';
+import { parseFrame, CA_RESPONSES } from '../03_encryption/protocol';
+
+// --- CA ADMIN TOOL ---
+// Usage:
+//   CA_ADMIN_TOKEN=<token> node dist/05_auth/ca-admin.js revoke <serial> [reason]
+//   node dist/05_auth/ca-admin.js crl
+//   node dist/05_auth/ca-admin.js status <serial>
+//   CA_ADMIN_TOKEN=<token> node dist/05_auth/ca-admin.js rebinds
+//   CA_ADMIN_TOKEN=<token> node dist/05_auth/ca-admin.js approve-rebind <userId> [fingerprint]
+//   CA_ADMIN_TOKEN=<token> node dist/05_auth/ca-admin.js invite <userId> [minutes]
+//   CA_ADMIN_TOKEN=<token> node dist/05_auth/ca-admin.js invites
+
+const CA_URL = process.env.CA_URL || 'ws://localhost:8084';
+const adminToken = process.env.CA_ADMIN_TOKEN;
+
+const [command, ...args] = process.argv.slice(2);
+
+const requireToken = () => {
+    if (!adminToken) {
+        console.error(`CA_ADMIN_TOKEN must be set for ${command}.`);
+        process.exit(1);
+    }
+};
+
+let request: object;
+if (command === 'revoke' && args[0]) {
+    requireToken();
+    request = {
+        type: 'revoke',
+        adminToken,
+        payload: { serialNumber: args[0], reason: args.slice(1).join(' ') || 'keyCompromise' }
+    };
+}
+else if (command === 'rebinds') {
+    requireToken();
+    request = { type: 'list_rebinds', adminToken };
+}
+else if (command === 'approve-rebind' && args[0]) {
+    requireToken();
+    request = {
+        type: 'approve_rebind',
+        adminToken,
+        payload: { userId: args[0], publicKeyFingerprint: args[1] }
+    };
+}
+else if (command === 'invite' && args[0]) {
+    requireToken();
+    request = {
+        type: 'create_enrollment_token',
+        adminToken,
+        payload: { userId: args[0], lifetimeMinutes: args[1] ? Number(args[1]) : undefined }
+    };
+}
+else if (command === 'invites') {
+    requireToken();
+    request = { type: 'list_enrollment_tokens', adminToken };
+}
+else if (command === 'crl') {
+    request = { type: 'get_crl' };
+}
+else if (command === 'status' && args[0]) {
+    request = { type: 'cert_status', serialNumber: args[0] };
+}
+else {
+    console.log('Commands:');
+    console.log('  revoke <serial> [reason]   -> Revoke a certificate (needs CA_ADMIN_TOKEN)');
+    console.log('  crl                        -> Print the current CRL');
+    console.log('  status <serial>            -> Query certificate status');
+    console.log('  rebinds                    -> List pending userId rebind requests (needs CA_ADMIN_TOKEN)');
+    console.log('  approve-rebind <userId> [fingerprint] -> Let a new key take over userId (needs CA_ADMIN_TOKEN)');
+    console.log('  invite <userId> [minutes]  -> Mint a single-use enrollment token for userId (needs CA_ADMIN_TOKEN)');
+    console.log('  invites                    -> List unused enrollment tokens (needs CA_ADMIN_TOKEN)');
+    process.exit(1);
+}
+
+const ws = new WebSocket(CA_URL);
+
+ws.on('open', () => ws.send(JSON.stringify(request)));
+
+ws.on('message', (data) => {
+    const msg = parseFrame(data.toString(), CA_RESPONSES); // Throws on a malformed response
+
+    if (msg.type === 'error') {
+        console.error(`[ERROR] ${msg.message} (${msg.code})`);
+    }
+    else if (msg.type === 'revoked') {
+        console.log(`[REVOKED] ${msg.serialNumber} (CRL version ${msg.crlVersion})`);
+    }
+    else if (msg.type === 'rebind_list') {
+        if (msg.requests.length === 0) console.log('No pending rebinds.');
+        msg.requests.forEach((r: any) => {
+            console.log(`${r.userId} -> key ${r.publicKeyFingerprint} (requested ${new Date(r.requestedAt).toLocaleString()})`);
+        });
+    }
+    else if (msg.type === 'rebind_approved') {
+        console.log(`[APPROVED] ${msg.request.userId} may now be issued to key ${msg.request.publicKeyFingerprint}`);
+    }
+    else if (msg.type === 'enrollment_token') {
+        console.log(`[INVITE] Enrollment token for ${msg.userId} (single use, expires ${new Date(msg.expiresAt).toLocaleString()}):`);
+        console.log(msg.token);
+    }
+    else if (msg.type === 'enrollment_token_list') {
+        if (msg.tokens.length === 0) console.log('No unused enrollment tokens.');
+        msg.tokens.forEach((t: any) => {
+            console.log(`${t.userId} (created ${new Date(t.createdAt).toLocaleString()}, expires ${new Date(t.expiresAt).toLocaleString()})`);
+        });
+    }
+    else if (msg.type === 'crl' || msg.type === 'cert_status_response') {
+        // Pretty-print the signed statement content
+        console.log(JSON.stringify(JSON.parse(msg.payload.content), null, 2));
+    }
+    ws.close();
+});
+
+ws.on('error', (err) => {
+    console.error('Could not reach CA:', err.message);
+    process.exit(1);
+});
@@ -0,0 +1,350 @@
+import WebSocket from 'ws';
+import {
+    verifyCertificateChain,
+    createCertificateRequest,
+    parseCertificate,
+    openStatement,
+    isRevoked,
+    signRenewalRequest,
+    certificateLeafHash,
+    verifyInclusionProof,
+    verifyConsistencyProof,
+    Certificate,
+    RevocationList,
+    SignedStatement,
+    TreeHead
+} from './crypto-utils';
+import { parseFrame, CA_RESPONSES } from '../03_encryption/protocol';
+
+// --- CA CLIENT ---
+// Everything a chat client needs from the CA: enrollment, background renewal, and verifying
+// peer certificates (chain, CRL, transparency log). Shared by the Phase 5 and Phase 6 clients.
+// Holds the client's identity (key pair + current certificate) and its trust state
+// (Trust Anchor, cached CRL, last verified tree head).
+
+const CA_TIMEOUT_MS = (Number(process.env.CA_TIMEOUT_SECONDS) || 15) * 1000;
+
+/**
+ * Fails a CA exchange if the socket closes, or the CA stays silent for CA_TIMEOUT_MS, before it settled.
+ * Rejecting an already settled promise does nothing, so the close after a reply is harmless.
+ */
+function rejectOnCloseOrTimeout(ca: WebSocket, reject: (reason: Error) => void) {
+    let timer: NodeJS.Timeout;
+    const restart = () => {
+        clearTimeout(timer);
+        timer = setTimeout(() => {
+            reject(new Error(`CA did not answer within ${CA_TIMEOUT_MS / 1000}s`));
+            ca.terminate();
+        }, CA_TIMEOUT_MS);
+    };
+    restart();
+    ca.on('message', restart); // Enrollment takes several round trips
+    ca.once('close', () => {
+        clearTimeout(timer);
+        reject(new Error('CA closed the connection without answering'));
+    });
+}
+
+export class CAClient {
+    public rootCertificate: string | null = null; // Trust Anchor (X.509 PEM)
+    public certificate: string | null = null;
+    public chain: string[] = [];                  // Issuing CA certificate(s), sent along with ours
+    public userId: string | null = null;          // Subject CN of our certificate
+    public onRenewed: (() => void) | null = null; // e.g. re-register with the Chat Server
+
+    private url: string;
+    private publicKey: string;
+    private privateKey: string;
+    private crlCache: RevocationList | null = null; // Valid until crlCache.nextUpdate
+    private treeHead: TreeHead | null = null;       // Latest tree head we verified (only moves forward)
+    private treeHeadQueue: Promise<unknown> = Promise.resolve(); // Tree head updates, one at a time
+    private renewing = false;
+
+    constructor(url: string, publicKey: string, privateKey: string) {
+        this.url = url;
+        this.publicKey = publicKey;
+        this.privateKey = privateKey;
+    }
+
+    // 1. BOOTSTRAP: Enrollment token (minted by the CA admin) -> CA: Root Key & My Certificate
+    /**
+     * @throws with the CA's error message (e.g. bad token), or if our certificate is not logged
+     */
+    public async enroll(enrollmentToken: string): Promise<void> {
+        console.log('Connecting to CA...');
+        const payload = await new Promise<any>((resolve, reject) => {
+            const caWs = new WebSocket(this.url);
+
+            caWs.on('open', () => {
+                // A. Get Root Key (Trust Anchor)
+                caWs.send(JSON.stringify({ type: 'get_root_key' }));
+            });
+
+            caWs.on('message', (data) => {
+                let msg;
+                try {
+                    msg = parseFrame(data.toString(), CA_RESPONSES);
+                } catch (e) {
+                    caWs.close();
+                    reject(e);
+                    return;
+                }
+
+                if (msg.type === 'root_key') {
+                    this.rootCertificate = msg.certificate;
+                    console.log('[TRUST] Received CA Root Certificate.');
+
+                    // B. Ask for a challenge to prove we hold our private key. The CA tells us the User ID the token is for.
+                    caWs.send(JSON.stringify({ type: 'get_challenge', enrollmentToken }));
+                }
+                else if (msg.type === 'challenge') {
+                    // C. Request Signing (Issuance) with a CSR signed by our private key over the nonce
+                    console.log(`[IDENTITY] Enrolling as ${msg.userId}...`);
+                    const csr = createCertificateRequest(msg.userId!, this.publicKey, this.privateKey, msg.nonce); // Set: we sent a token
+                    caWs.send(JSON.stringify({
+                        type: 'sign_request',
+                        payload: { csr, enrollmentToken }
+                    }));
+                }
+                else if (msg.type === 'certificate_issued') {
+                    caWs.close(); // Done with CA (until renewal)
+                    resolve(msg.payload);
+                }
+                else if (msg.type === 'error') {
+                    caWs.close();
+                    reject(new Error(msg.message));
+                }
+            });
+            caWs.on('error', reject);
+            rejectOnCloseOrTimeout(caWs, reject);
+        });
+
+        const cert = parseCertificate(payload.certificate);
+        console.log(`[IDENTITY] Certificate Issued by CA (valid until ${cert.notAfter.toISOString()}).`);
+
+        // A certificate the CA did not log publicly would be invisible to monitors: don't use it
+        try {
+            await this.verifyIssuedInclusion(payload);
+        } catch (e: any) {
+            throw new Error(`Transparency check failed (${e.message}). Not using this certificate.`);
+        }
+
+        this.certificate = payload.certificate;
+        this.chain = payload.chain || [];
+        this.userId = cert.userId;
+    }
+
+    // --- CERTIFICATE LIFECYCLE ---
+    // Renew in the background once two thirds of the lifetime have passed.
+    // If renewal keeps failing, warn in the last sixth; peers refuse expired certificates.
+
+    public scheduleExpiryCheck() {
+        const cert = parseCertificate(this.certificate!);
+        const lifetime = cert.notAfter.getTime() - cert.notBefore.getTime();
+        setTimeout(() => this.checkCertificateExpiry(), Math.max(5000, Math.min(60 * 1000, lifetime / 20)));
+    }
+
+    private checkCertificateExpiry() {
+        const cert = parseCertificate(this.certificate!);
+        const lifetime = cert.notAfter.getTime() - cert.notBefore.getTime();
+        const remaining = cert.notAfter.getTime() - Date.now();
+
+        if (remaining <= 0) {
+            console.error(`\n[EXPIRED] Certificate expired at ${cert.notAfter.toISOString()}. Peers will refuse sessions. Restart to enroll again.`);
+        } else {
+            if (remaining < lifetime / 6) {
+                console.warn(`\n[WARNING] Certificate expires in ${Math.ceil(remaining / 1000)}s (${cert.notAfter.toISOString()}) and has not been renewed yet.`);
+            }
+            if (remaining < lifetime / 3 && !this.renewing) {
+                this.renewing = true;
+                this.renewCertificate()
+                    .catch(e => console.error(`\n[RENEWAL] Failed (${e.message}). Will retry.`))
+                    .finally(() => this.renewing = false);
+            }
+        }
+        this.scheduleExpiryCheck();
+    }
+
+    private async renewCertificate() {
+        console.log('\n[RENEWAL] Certificate nearing expiry. Renewing with the CA...');
+        const msg = await new Promise<any>((resolve, reject) => {
+            const ca = new WebSocket(this.url);
+            ca.on('open', () => ca.send(JSON.stringify({ type: 'get_challenge' })));
+            ca.on('message', (data) => {
+                let reply;
+                try {
+                    reply = parseFrame(data.toString(), CA_RESPONSES);
+                } catch (e) {
+                    ca.close();
+                    reject(e);
+                    return;
+                }
+                if (reply.type === 'challenge') {
+                    // Same key, fresh CSR. The current certificate's key vouches for the request.
+                    const csr = createCertificateRequest(this.userId!, this.publicKey, this.privateKey, reply.nonce);
+                    const serialNumber = parseCertificate(this.certificate!).serialNumber;
+                    ca.send(JSON.stringify({
+                        type: 'renew_request',
+                        payload: { certificate: this.certificate, csr, signature: signRenewalRequest(serialNumber, reply.nonce, csr, this.privateKey) }
+                    }));
+                    return;
+                }
+                if (reply.type === 'certificate_renewed') resolve(reply);
+                else reject(new Error(reply.type === 'error' ? reply.message : 'Unexpected CA response'));
+                ca.close();
+            });
+            ca.on('error', reject);
+            rejectOnCloseOrTimeout(ca, reject);
+        });
+
+        const check = verifyCertificateChain(msg.payload.certificate, msg.payload.chain || [], this.rootCertificate!);
+        if (!check.valid) throw new Error(`CA returned an invalid certificate (${check.reason})`);
+        if (check.certificate.userId !== this.userId) throw new Error('CA returned a certificate for another User ID');
+
+        await this.verifyIssuedInclusion(msg.payload);
+
+        this.certificate = msg.payload.certificate;
+        this.chain = msg.payload.chain || [];
+        console.log(`[RENEWAL] New certificate serial ${check.certificate.serialNumber}, valid until ${check.certificate.notAfter.toISOString()}.`);
+        this.onRenewed?.();
+    }
+
+    // One-shot request to the CA (the bootstrap connection is closed once we have a certificate)
+    public request(request: object, responseType: string): Promise<any> {
+        return new Promise((resolve, reject) => {
+            const ca = new WebSocket(this.url);
+            ca.on('open', () => ca.send(JSON.stringify(request)));
+            ca.on('message', (data) => {
+                try {
+                    const msg = parseFrame(data.toString(), CA_RESPONSES);
+                    if (msg.type === responseType) resolve(msg);
+                    else reject(new Error(msg.type === 'error' ? msg.message : 'Unexpected CA response'));
+                } catch (e) {
+                    reject(e); // Malformed response
+                }
+                ca.close();
+            });
+            ca.on('error', reject);
+            rejectOnCloseOrTimeout(ca, reject);
+        });
+    }
+
+    // Returns the cached CRL, fetching a fresh signed copy from the CA once it passes nextUpdate
+    private async getRevocationList(): Promise<RevocationList> {
+        if (this.crlCache && Date.now() < this.crlCache.nextUpdate) return this.crlCache;
+
+        const msg = await this.request({ type: 'get_crl' }, 'crl');
+        const crl = openStatement<RevocationList>(msg.payload, this.rootCertificate!);
+        if (!crl) throw new Error('CRL signature invalid');
+        if (this.crlCache && crl.version < this.crlCache.version) throw new Error('CRL rollback detected');
+
+        this.crlCache = crl;
+        console.log(`[TRUST] CRL v${crl.version} cached until ${new Date(crl.nextUpdate).toLocaleTimeString()}.`);
+        return crl;
+    }
+
+    /**
+     * Verifies a peer certificate up to the Root (linkage, signatures, dates, path length, key usage)
+     * and checks it against the CRL and the transparency log. Fails closed: no CRL or proof, no trust.
+     * @returns the verified certificate, or null (reason already logged).
+     */
+    public async verifyPeerCertificate(certificate: string, chain: string[]): Promise<Certificate | null> {
+        // Expiry is an ordinary failure (peer did not renew), so report it as such rather than as an attack
+        let presented: Certificate | null = null;
+        try { presented = parseCertificate(certificate); } catch (e) { /* reported by the chain check below */ }
+        if (presented && Date.now() > presented.notAfter.getTime()) {
+            console.error(`[AUTH] Certificate of ${presented.userId} EXPIRED at ${presented.notAfter.toISOString()}. Refusing session.`);
+            return null;
+        }
+
+        const check = verifyCertificateChain(certificate, chain, this.rootCertificate!);
+        if (!check.valid) {
+            console.error(`[AUTH] Certificate INVALID (${check.reason})! Potential MITM Attack.`);
+            return null;
+        }
+        const cert = check.certificate;
+
+        let crl: RevocationList;
+        try {
+            crl = await this.getRevocationList();
+        } catch (e: any) {
+            console.error(`[AUTH] Cannot check revocation (${e.message}). Refusing session.`);
+            return null;
+        }
+        // The user certificate AND every intermediate above it must be unrevoked
+        const serials = [cert.serialNumber, ...chain.map(pem => parseCertificate(pem).serialNumber)];
+        const revoked = serials.map(serial => isRevoked(serial, crl)).find(entry => entry);
+        if (revoked) {
+            console.error(`[AUTH] Certificate REVOKED (serial ${revoked.serialNumber}) at ${new Date(revoked.revokedAt).toISOString()} (${revoked.reason}). Refusing session.`);
+            return null;
+        }
+
+        // TRANSPARENCY: only trust certificates the CA has publicly logged
+        try {
+            await this.verifyLogInclusion(cert);
+        } catch (e: any) {
+            console.error(`[CT] ${e.message}. Refusing session.`);
+            return null;
+        }
+
+        console.log(`[AUTH] Certificate VALID (CN=${cert.userId}, serial ${cert.serialNumber}, expires ${cert.notAfter.toISOString()}).`);
+        return cert;
+    }
+
+    // --- CERTIFICATE TRANSPARENCY ---
+
+    /**
+     * Accepts a signed tree head only if it is signed by the CA and extends the last one we saw
+     * (consistency proof), so the log can neither be rolled back nor forked for us.
+     * Updates run one at a time: each is checked against the head the previous one left.
+     * @throws if the head is not acceptable
+     */
+    private updateTreeHead(signed: SignedStatement): Promise<TreeHead> {
+        const update = this.treeHeadQueue.then(() => this.advanceTreeHead(signed));
+        this.treeHeadQueue = update.catch(() => {});
+        return update;
+    }
+
+    private async advanceTreeHead(signed: SignedStatement): Promise<TreeHead> {
+        const head = openStatement<TreeHead>(signed, this.rootCertificate!);
+        if (!head) throw new Error('Tree head signature invalid');
+
+        const last = this.treeHead;
+        if (last) {
+            if (head.treeSize < last.treeSize) throw new Error('Transparency log rollback detected');
+            if (head.treeSize === last.treeSize && head.rootHash !== last.rootHash) {
+                throw new Error('Transparency log fork detected (same size, different root)');
+            }
+            if (head.treeSize > last.treeSize) {
+                const msg = await this.request({ type: 'get_consistency_proof', first: last.treeSize, second: head.treeSize }, 'consistency_proof');
+                if (!verifyConsistencyProof(last.treeSize, head.treeSize, last.rootHash, head.rootHash, msg.proof)) {
+                    throw new Error('Transparency log is not consistent with the last tree head');
+                }
+            }
+        }
+        this.treeHead = head;
+        return head;
+    }
+
+    // Our own certificate must come with a valid inclusion proof
+    private async verifyIssuedInclusion(payload: any) {
+        const { transparency } = payload;
+        if (!transparency) throw new Error('CA returned no transparency proof');
+
+        const head = await this.updateTreeHead(transparency.sth);
+        if (!verifyInclusionProof(certificateLeafHash(payload.certificate), transparency.leafIndex, head.treeSize, transparency.proof, head.rootHash)) {
+            throw new Error('Certificate is NOT in the transparency log');
+        }
+        console.log(`[CT] Our certificate is logged (index ${transparency.leafIndex} of ${head.treeSize}).`);
+    }
+
+    // Asks the CA for an inclusion proof of a peer certificate against a fresh tree head
+    private async verifyLogInclusion(certificate: Certificate) {
+        const msg = await this.request({ type: 'get_inclusion_proof', serialNumber: certificate.serialNumber }, 'inclusion_proof');
+        const head = await this.updateTreeHead(msg.sth);
+        if (!verifyInclusionProof(certificateLeafHash(certificate.pem), msg.leafIndex, head.treeSize, msg.proof, head.rootHash)) {
+            throw new Error('Certificate is NOT in the transparency log');
+        }
+        console.log(`[CT] Certificate is logged (index ${msg.leafIndex} of ${head.treeSize}).`);
+    }
+}
@@ -0,0 +1,84 @@
+import path from 'path';
+import { CAStore, RootKeyStore } from './ca-store';
+
+// --- OFFLINE ROOT CA TOOL ---
+// Works directly on the CA directories; never opens a network connection.
+// This is the only place the Root private key gets created or decrypted. It lives in CA_ROOT_DIR
+// under CA_ROOT_PASSPHRASE, both separate from the online CA's CA_DATA_DIR and CA_PASSPHRASE.
+// Usage:
+//   CA_ROOT_DIR=<dir> CA_ROOT_PASSPHRASE=<secret> node dist/05_auth/ca-offline.js init
+//   CA_ROOT_DIR=<dir> CA_ROOT_PASSPHRASE=<secret> CA_PASSPHRASE=<secret> node dist/05_auth/ca-offline.js create-intermediate [name]
+//   node dist/05_auth/ca-offline.js list
+// create-intermediate writes the Issuing CA and the Root Certificate to CA_DATA_DIR: copy that
+// directory (never CA_ROOT_DIR) to the CA server, then (re)start run-ca.js.
+
+const CA_DATA_DIR = process.env.CA_DATA_DIR || 'ca-data';
+const CA_ROOT_DIR = process.env.CA_ROOT_DIR;
+
+const [command, ...args] = process.argv.slice(2);
+const store = new CAStore(CA_DATA_DIR);
+
+const requireEnv = (name: string): string => {
+    const value = process.env[name];
+    if (!value) {
+        console.error(`${name} must be set for ${command}.`);
+        process.exit(1);
+    }
+    return value;
+};
+
+// The Root directory and passphrase must not double as the online CA's
+const rootKeys = (): { roots: RootKeyStore; rootPassphrase: string } => {
+    const dir = requireEnv('CA_ROOT_DIR');
+    if (path.resolve(dir) === path.resolve(CA_DATA_DIR)) {
+        console.error('CA_ROOT_DIR must not be CA_DATA_DIR: the online CA refuses to start next to the Root Key.');
+        process.exit(1);
+    }
+    const rootPassphrase = requireEnv('CA_ROOT_PASSPHRASE');
+    if (rootPassphrase === process.env.CA_PASSPHRASE) {
+        console.error('CA_ROOT_PASSPHRASE must differ from CA_PASSPHRASE.');
+        process.exit(1);
+    }
+    return { roots: new RootKeyStore(dir), rootPassphrase };
+};
+
+const loadRoot = (roots: RootKeyStore, passphrase: string) => {
+    try {
+        return roots.load(passphrase);
+    } catch (e) {
+        console.error(`Could not decrypt the Root Key in ${CA_ROOT_DIR}/. Wrong CA_ROOT_PASSPHRASE, or no Root yet (run init)?`);
+        process.exit(1);
+    }
+};
+
+if (command === 'init') {
+    const { roots, rootPassphrase } = rootKeys();
+    if (roots.exists()) {
+        console.error(`Root Key already exists in ${CA_ROOT_DIR}/.`);
+        process.exit(1);
+    }
+    roots.create(rootPassphrase);
+    console.log(`Created the Root CA in ${CA_ROOT_DIR}/. Next: create-intermediate, to give the online CA an Issuing CA.`);
+}
+else if (command === 'create-intermediate') {
+    const { roots, rootPassphrase } = rootKeys();
+    const passphrase = requireEnv('CA_PASSPHRASE');
+    const root = loadRoot(roots, rootPassphrase);
+    const intermediate = store.createIntermediate(root, passphrase, args.join(' ') || undefined);
+    console.log(`Created "${intermediate.name}" (serial ${intermediate.serialNumber}) in ${CA_DATA_DIR}/. It is now the active Issuing CA.`);
+    console.log('Copy that directory to the CA server and restart it. Certificates from older intermediates keep verifying.');
+}
+else if (command === 'list') {
+    const intermediates = store.getIntermediates();
+    if (intermediates.length === 0) console.log('No intermediates.');
+    intermediates.forEach(i => {
+        console.log(`${i.active ? '*' : ' '} ${i.name}  serial ${i.serialNumber}  created ${new Date(i.createdAt).toLocaleString()}`);
+    });
+}
+else {
+    console.log('Commands:');
+    console.log('  init                        -> Create the Root CA in CA_ROOT_DIR');
+    console.log('  create-intermediate [name]  -> Sign a new Issuing CA with the Root and make it active in CA_DATA_DIR');
+    console.log('  list                        -> List Issuing CAs (* = active)');
+    process.exit(1);
+}
@@ -0,0 +1,130 @@
+import { describe, it, before, after, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { EventEmitter } from 'events';
+import { generateKeyPairSync } from 'crypto';
+import { WebSocketServer } from 'ws';
+import { KeyPair, createRootCertificate, createCertificateRequest, parseCertificate, openStatement, CertificateStatus } from './crypto-utils';
+import { CAStore } from './ca-store';
+
+const rsaKeys = (): KeyPair => generateKeyPairSync('rsa', {
+    modulusLength: 2048,
+    publicKeyEncoding: { type: 'spki', format: 'pem' },
+    privateKeyEncoding: { type: 'pkcs8', format: 'pem' }
+});
+
+const ADMIN_TOKEN = 'test-admin-token';
+
+// Enough of a ws socket for the CA: records what it was sent
+class FakeSocket extends EventEmitter {
+    public sent: any[] = [];
+    send(data: string) { this.sent.push(JSON.parse(data)); }
+    // Sends a request and returns the answer (the CA answers synchronously)
+    request(frame: object) {
+        this.emit('message', Buffer.from(JSON.stringify(frame)));
+        return this.sent.at(-1);
+    }
+}
+
+describe('CA server', () => {
+    const wss = new EventEmitter();
+    const env = { ...process.env };
+    let dir: string;
+    let root: string;
+    let admin: FakeSocket;
+
+    const connect = () => {
+        const ws = new FakeSocket();
+        wss.emit('connection', ws);
+        return ws;
+    };
+    const mint = (userId: string): string =>
+        admin.request({ type: 'create_enrollment_token', adminToken: ADMIN_TOKEN, payload: { userId } }).token;
+    const enroll = (userId: string, keys: KeyPair, enrollmentToken?: string) => {
+        const ws = connect();
+        const { nonce } = ws.request({ type: 'get_challenge' });
+        return ws.request({ type: 'sign_request', payload: { csr: createCertificateRequest(userId, keys.publicKey, keys.privateKey, nonce), enrollmentToken } });
+    };
+    const status = (serialNumber: string) =>
+        openStatement<CertificateStatus>(admin.request({ type: 'cert_status', serialNumber }).payload, root)!.status;
+
+    before(async () => {
+        // A provisioned CA_DATA_DIR, as ca-offline.js leaves it (the Root Key stays elsewhere)
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ca-server-'));
+        const rootKeys = rsaKeys();
+        root = createRootCertificate(rootKeys.publicKey, rootKeys.privateKey);
+        new CAStore(dir).createIntermediate({ ...rootKeys, certificate: root }, 'test-passphrase');
+
+        // Read when the module loads
+        Object.assign(process.env, { CA_DATA_DIR: dir, CA_PASSPHRASE: 'test-passphrase', CA_ADMIN_TOKEN: ADMIN_TOKEN });
+        delete process.env.CA_ROOT_DIR;
+        mock.method(console, 'log', () => {});
+        const { startCAServer } = await import('./ca-server');
+        startCAServer(wss as unknown as WebSocketServer);
+        mock.restoreAll();
+    });
+    after(() => {
+        process.env = env;
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    beforeEach(() => {
+        mock.method(console, 'log', () => {});
+        admin = connect();
+    });
+    afterEach(() => mock.restoreAll());
+
+    it('refuses admin requests without the admin token', () => {
+        assert.equal(admin.request({ type: 'create_enrollment_token', payload: { userId: 'eve' } }).code, 'unauthorized');
+        assert.equal(admin.request({ type: 'list_rebinds', adminToken: 'guess' }).code, 'unauthorized');
+        assert.equal(admin.request({ type: 'list_rebinds', adminToken: ADMIN_TOKEN }).type, 'rebind_list');
+    });
+
+    it('enrolls only with a token for that User ID, once', () => {
+        const keys = rsaKeys();
+        assert.match(enroll('alice', keys).message, /enrollment token is required/);
+        assert.match(enroll('alice', keys, mint('bob')).message, /for bob, not alice/);
+
+        const token = mint('alice');
+        const issued = enroll('alice', keys, token);
+        assert.equal(issued.type, 'certificate_issued');
+        assert.equal(parseCertificate(issued.payload.certificate).userId, 'alice');
+        assert.match(enroll('alice', keys, token).message, /enrollment token is required/);
+    });
+
+    it('refuses a User ID bound to another key until an admin approves the rebind', () => {
+        const original = rsaKeys();
+        const first = enroll('carol', original, mint('carol'));
+        const firstSerial = parseCertificate(first.payload.certificate).serialNumber;
+
+        // Someone else (or carol on a new device) asks for carol with another key
+        const replacement = rsaKeys();
+        const token = mint('carol');
+        const refused = enroll('carol', replacement, token);
+        assert.equal(refused.type, 'error');
+        assert.match(refused.message, /already taken by another key/);
+        assert.match(enroll('carol', replacement, token).message, /already taken/); // Still pending, the token is not used up
+        const pending = admin.request({ type: 'list_rebinds', adminToken: ADMIN_TOKEN }).requests;
+        assert.deepEqual(pending.map((r: { userId: string }) => r.userId), ['carol']);
+        assert.equal(status(firstSerial), 'good');
+
+        // Meanwhile the key that holds carol can still enroll again
+        assert.equal(enroll('carol', original, mint('carol')).type, 'certificate_issued');
+
+        assert.equal(admin.request({ type: 'approve_rebind', adminToken: ADMIN_TOKEN, payload: { userId: 'carol' } }).type, 'rebind_approved');
+        const rebound = enroll('carol', replacement, token);
+        assert.equal(rebound.type, 'certificate_issued');
+        assert.equal(status(firstSerial), 'revoked'); // Superseded
+        assert.equal(status(parseCertificate(rebound.payload.certificate).serialNumber), 'good');
+
+        // carol now belongs to the new key: the old one can't take it back without another approval
+        assert.match(enroll('carol', original, mint('carol')).message, /already taken/);
+    });
+
+    it('only approves rebinds that were asked for', () => {
+        const answer = admin.request({ type: 'approve_rebind', adminToken: ADMIN_TOKEN, payload: { userId: 'nobody' } });
+        assert.equal(answer.code, 'not_found');
+    });
+});
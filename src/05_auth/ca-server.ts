@@ -1,86 +1,463 @@
-import { generateKeyPairSync, sign, verify } from 'crypto';
-import { Certificate } from './crypto-utils';
+import { randomBytes, timingSafeEqual } from 'crypto';
+import {
+    issueUserCertificate,
+    parseCertificate,
+    verifyCertificateRequest,
+    verifyRenewalRequest,
+    getKeyFingerprint,
+    signStatement,
+    DEFAULT_USER_CERT_MINUTES,
+    Certificate,
+    CertificateStatus,
+    RevocationList,
+    SignedStatement,
+    TreeHead
+} from './crypto-utils';
+import { CAStore, KeyMaterial, isRootKeyReadable } from './ca-store';
+import { TransparencyLog } from './transparency-log';
+import { ProtocolError, errorFrame, parseFrame, FrameOf, CA_REQUESTS } from '../03_encryption/protocol';
 
-// --- SIMULATED ROOT CA ---
+// --- ROOT CA ---
 // In a real world, the Private Key is locked in a vault, and the Public Key is installed on your OS.
-// For this demo, we HARDCODE a fixed KeyPair so independent Client processes (A, B) share the same Trust Anchor.
-
-const CA_PUBLIC_KEY = `-----BEGIN PUBLIC KEY-----
-MIIBIjANBgkqhkiG9w0BAQEFAAOCAQ8AMIIBCgKCAQEAu/pM9x+2B+7v/8lqP5f6
-z1b/1tQ+5+8+1+1+1+1+1+1+1+1+1+1+1+1+1+1+1+1+1+1+1+1+1+1+1+1+1+1+
-1+1+1+1+1+1+1+1+1+1+1+1+1+1+1+1+1+1+1+1+1+1+1+1+1+1+1+1+1+1+1+1+
-1+1+1+1+1+1+1+1+1+1+1+1+1+1+1+1+1+1+1+1+1+1+1+1+1+1+1+1+1+1+1+1+
-1+1+1+1+1+1+1+1+1+1+1+1+1+1+1+1+1+1+1+1+1+1+1+1+1+1+1+1+1+1+1+1+
-MwIDAQAB
------END PUBLIC KEY-----`;
-
-// NOT A REAL PRIVATE KEY - Just for demo purposes to allow signing locally
-// Actually, hardcoding a working RSA private key is messy because of newlines.
-// Simpler Strategy: generate keys ONCE at runtime? 
-// No, clients are separate processes.
-// OK, I will generate a fresh pair on the fly for THIS process, *BUT* this means Client A and Client B
-// will have DIFFERENT CAs if I don't use a shared file or hardcode.
-//
-// Hardcoding a REAL RSA key is verbose.
-// Let's use a function that generates a deterministic key based on a seed? Node crypto doesn't support that easily.
-//
-// Backup Plan: We will use a `ca-server.ts` that runs on port 8084.
-// Clients fetch the "Root Public Key" from 8084 on startup.
-// Clients request signing from 8084.
-// This ensures consistency across processes.
+// Here the Root Key lives in a file-backed CAStore (see ca-store.ts), encrypted with CA_PASSPHRASE,
+// so the Trust Anchor survives restarts and every certificate issued before keeps verifying.
+// The Root Key stays OFFLINE: it only signs intermediate (issuing) CAs via ca-offline.ts.
+// This server runs with the active intermediate, and hands out [user cert, intermediate] chains.
+// Clients fetch the Root Certificate from port 8084 on startup and request signing from 8084.
 
 import { WebSocketServer, WebSocket } from 'ws';
 
 const CA_PORT = 8084;
-let caKeyPair: { publicKey: string; privateKey: string } | null = null; // Generated on startup of CA Server
-
-export const startCAServer = () => {
-    // 1. Generate Root CA Key (Once, when CA server starts)
-    console.log("Initializing CA Root Key...");
-    caKeyPair = generateKeyPairSync('rsa', {
-        modulusLength: 2048,
-        publicKeyEncoding: { type: 'spki', format: 'pem' },
-        privateKeyEncoding: { type: 'pkcs8', format: 'pem' }
+const CA_DATA_DIR = process.env.CA_DATA_DIR || 'ca-data';
+let store: CAStore | null = null; // Root certificate, intermediates, issued-certificate registry, revocations
+let caCertificate: string | null = null; // Self-signed X.509 root certificate (PEM), the Trust Anchor
+let issuingCA: KeyMaterial | null = null; // Active intermediate, decrypted from the store on startup
+let issuingChain: string[] = []; // Sent along with every user certificate (root excluded)
+let ctLog: TransparencyLog | null = null; // Append-only Merkle log of every issued certificate
+
+// Entries per get_entries request
+const MAX_LOG_ENTRIES = 100;
+
+// --- REVOCATION STATE ---
+const CRL_LIFETIME_MS = 5 * 60 * 1000; // Clients cache the CRL for this long
+let currentCrl: { list: RevocationList; signed: SignedStatement } | null = null;
+
+// Proof-of-possession challenges expire quickly and are single-use
+const CHALLENGE_LIFETIME_MS = 60 * 1000;
+
+// Enrollment tokens (invitations minted by an admin) are valid for a day unless the admin says otherwise
+const ENROLLMENT_TOKEN_MINUTES = 24 * 60;
+
+// User IDs chosen by admins: no separators that could confuse signed protocol messages
+const USER_ID_PATTERN = /^[A-Za-z0-9._-]{1,64}$/;
+
+// User certificate lifetime. Set e.g. CA_CERT_LIFETIME_MINUTES=5 to watch clients renew.
+const CERT_LIFETIME_MINUTES = Number(process.env.CA_CERT_LIFETIME_MINUTES) || DEFAULT_USER_CERT_MINUTES;
+
+// Admin operations (revoke, approve_rebind) require this token. Set CA_ADMIN_TOKEN to choose it.
+const ADMIN_TOKEN = process.env.CA_ADMIN_TOKEN || randomBytes(16).toString('hex');
+
+const isAdmin = (token: unknown): boolean => {
+    if (typeof token !== 'string') return false;
+    const a = Buffer.from(token);
+    const b = Buffer.from(ADMIN_TOKEN);
+    return a.length === b.length && timingSafeEqual(a, b);
+};
+
+// The requests whose schema carries an adminToken (revoke, create_enrollment_token, ...)
+type AdminRequestType = { [K in keyof typeof CA_REQUESTS]: 'adminToken' extends keyof typeof CA_REQUESTS[K] ? K : never }[keyof typeof CA_REQUESTS];
+type AdminRequest = Extract<FrameOf<typeof CA_REQUESTS>, { type: AdminRequestType }>;
+
+const requireAdmin = (ws: WebSocket, msg: AdminRequest): boolean => {
+    if (isAdmin(msg.adminToken)) return true;
+    console.log(`Rejected ${msg.type} request: bad admin token`);
+    ws.send(JSON.stringify(errorFrame('unauthorized', 'Unauthorized')));
+    return false;
+};
+
+// Returns the current signed CRL, issuing a new one (with a new CRL number) when stale
+const getCurrentCrl = (): SignedStatement => {
+    if (!currentCrl || Date.now() >= currentCrl.list.nextUpdate) {
+        const now = Date.now();
+        const list: RevocationList = {
+            version: store!.nextCrlNumber(),
+            issuer: parseCertificate(issuingCA!.certificate).userId,
+            thisUpdate: now,
+            nextUpdate: now + CRL_LIFETIME_MS,
+            revoked: store!.getRevoked()
+        };
+        currentCrl = { list, signed: signStatement(list, issuingCA!.privateKey, issuingChain) };
+    }
+    return currentCrl.signed;
+};
+
+const getCertificateStatus = (serialNumber: string): CertificateStatus => {
+    const now = Date.now();
+    const revoked = store!.isRevoked(serialNumber);
+    return {
+        serialNumber,
+        status: revoked ? 'revoked' : store!.findBySerial(serialNumber) ? 'good' : 'unknown',
+        revokedAt: revoked?.revokedAt,
+        reason: revoked?.reason,
+        producedAt: now,
+        nextUpdate: now + CRL_LIFETIME_MS
+    };
+};
+
+// Signed Tree Head over the current transparency log
+const signTreeHead = (): SignedStatement => {
+    const head: TreeHead = { treeSize: ctLog!.size(), rootHash: ctLog!.rootHash(), timestamp: Date.now() };
+    return signStatement(head, issuingCA!.privateKey, issuingChain);
+};
+
+// Issues an X.509 v3 Certificate with the Issuing CA (CN = userId, SAN, keyUsage), records it in the
+// registry and the transparency log, and returns it with its inclusion proof
+const issueCertificate = (userId: string, publicKey: string, fingerprint: string) => {
+    const certificate = issueUserCertificate({
+        userId,
+        publicKey,
+        issuerCertificate: issuingCA!.certificate,
+        issuerPrivateKey: issuingCA!.privateKey,
+        validityMinutes: CERT_LIFETIME_MINUTES
     });
-    console.log("CA Ready. Root Public Key Hash:", caKeyPair.publicKey.slice(30, 60) + "...");
+    const issued = parseCertificate(certificate);
+    store!.recordIssued({
+        serialNumber: issued.serialNumber,
+        issuerSerialNumber: parseCertificate(issuingCA!.certificate).serialNumber,
+        userId,
+        publicKeyFingerprint: fingerprint,
+        issuedAt: issued.notBefore.getTime(),
+        notAfter: issued.notAfter.getTime(),
+        certificate
+    });
+    const entry = ctLog!.append(certificate);
+    console.log(`Issued certificate serial ${issued.serialNumber} (valid until ${issued.notAfter.toISOString()}), log index ${entry.index}`);
+
+    return {
+        certificate,
+        transparency: { leafIndex: entry.index, proof: ctLog!.inclusionProof(entry.index), sth: signTreeHead() }
+    };
+};
+
+// Pass a WebSocketServer to mount the CA on a shared HTTP server (src/server.ts) instead of its own port
+export const startCAServer = (mountOn?: WebSocketServer) => {
+    // 1. Load the active Issuing CA and the Root Certificate from the store. The Root Key is created
+    //    and used offline (ca-offline.ts); this process must not be able to read it.
+    console.log(`Initializing CA from ${CA_DATA_DIR}/...`);
+    // The Issuing CA key was encrypted offline with this passphrase (ca-offline.js create-intermediate)
+    const passphrase = process.env.CA_PASSPHRASE;
+    if (!passphrase) throw new Error('CA_PASSPHRASE must be set (the passphrase the Issuing CA key was created with).');
+
+    const exposed = [CA_DATA_DIR, process.env.CA_ROOT_DIR].filter((dir): dir is string => !!dir && isRootKeyReadable(dir));
+    if (exposed.length > 0) {
+        throw new Error(`Refusing to start: the Root Key is readable in ${exposed.map(dir => `${dir}/`).join(', ')}. ` +
+            'Keep it offline, where only ca-offline.js can read it.');
+    }
 
-    const wss = new WebSocketServer({ port: CA_PORT });
-    console.log(`CA Server running on ws://localhost:${CA_PORT}`);
+    store = new CAStore(CA_DATA_DIR);
+    const intermediate = store.getActiveIntermediate();
+    if (!intermediate || !store.hasRootCertificate()) {
+        throw new Error(`No Issuing CA in ${CA_DATA_DIR}/. Create one offline first: ` +
+            '`ca-offline.js init`, then `ca-offline.js create-intermediate`, and copy CA_DATA_DIR here.');
+    }
+    try {
+        issuingCA = store.loadIntermediateKey(intermediate, passphrase);
+    } catch (e) {
+        throw new Error('Could not decrypt the Issuing CA key. Wrong CA_PASSPHRASE?');
+    }
+    issuingChain = [intermediate.certificate];
+    caCertificate = store.getRootCertificate();
+
+    // Certificates issued before the log existed are logged once, in issuance order
+    ctLog = new TransparencyLog(CA_DATA_DIR);
+    store.getIssued()
+        .filter(record => ctLog!.indexOf(record.serialNumber) === undefined)
+        .forEach(record => ctLog!.append(record.certificate));
+    console.log(`Transparency log: ${ctLog.size()} entries, root ${ctLog.rootHash().slice(0, 16)}...`);
+
+    const rootPublicKey = parseCertificate(caCertificate).publicKey;
+    console.log(`Issuing with "${intermediate.name}" (serial ${intermediate.serialNumber}).`);
+    console.log("CA Ready. Root Public Key Hash:", rootPublicKey.slice(30, 60) + "...");
+
+    const wss = mountOn ?? new WebSocketServer({ port: CA_PORT });
+    if (!mountOn) console.log(`CA Server running on ws://localhost:${CA_PORT}`);
+    if (!process.env.CA_ADMIN_TOKEN) {
+        console.log(`Admin token (set CA_ADMIN_TOKEN to fix it): ${ADMIN_TOKEN}`);
+    }
 
     wss.on('connection', (ws) => {
+        // Outstanding CSR challenge for this connection
+        let pendingChallenge: { nonce: string; expiresAt: number } | null = null;
+
         ws.on('message', (data) => {
             try {
-                const msg = JSON.parse(data.toString());
+                // Checked against the schema for its type (see 03_encryption/protocol.ts) before anything else
+                const msg = parseFrame(data.toString(), CA_REQUESTS);
 
                 if (msg.type === 'get_root_key') {
                     ws.send(JSON.stringify({
                         type: 'root_key',
-                        key: caKeyPair!.publicKey
+                        key: parseCertificate(caCertificate!).publicKey,
+                        certificate: caCertificate
                     }));
                 }
-                else if (msg.type === 'sign_request') {
-                    // CSR (Certificate Signing Request)
-                    const { userId, userPublicKey } = msg.payload;
-                    console.log(`Signing Certificate for ${userId}...`);
-
-                    // Create Certificate
-                    const contentToSign = userId + userPublicKey;
-                    const signature = sign("sha256", Buffer.from(contentToSign), caKeyPair!.privateKey).toString('base64');
-
-                    const cert: Certificate = {
-                        userId,
-                        publicKey: userPublicKey,
-                        issuer: 'Antigravity Root CA',
-                        signature
+                else if (msg.type === 'get_challenge') {
+                    // With an enrollment token, also tell the holder which User ID it was minted for
+                    let userId: string | undefined;
+                    if (msg.enrollmentToken !== undefined) {
+                        const invite = typeof msg.enrollmentToken === 'string' ? store!.findEnrollmentToken(msg.enrollmentToken) : undefined;
+                        if (!invite) {
+                            ws.send(JSON.stringify(errorFrame('rejected', 'Invalid or expired enrollment token.')));
+                            return;
+                        }
+                        userId = invite.userId;
+                    }
+
+                    pendingChallenge = {
+                        nonce: randomBytes(16).toString('hex'),
+                        expiresAt: Date.now() + CHALLENGE_LIFETIME_MS
                     };
+                    ws.send(JSON.stringify({ type: 'challenge', nonce: pendingChallenge.nonce, userId }));
+                }
+                else if (msg.type === 'sign_request') {
+                    // CSR (PKCS#10, self-signed over our challenge nonce)
+                    const challenge = pendingChallenge;
+                    pendingChallenge = null; // Single use, even if verification fails
+
+                    if (!challenge || Date.now() > challenge.expiresAt) {
+                        ws.send(JSON.stringify(errorFrame('rejected', 'No valid challenge. Send get_challenge first.')));
+                        return;
+                    }
+
+                    const check = verifyCertificateRequest(msg.payload.csr, challenge.nonce);
+                    if (!check.valid) {
+                        console.log(`Rejected CSR: ${check.reason}`);
+                        ws.send(JSON.stringify(errorFrame('rejected', `CSR rejected: ${check.reason}`)));
+                        return;
+                    }
+
+                    const { userId, publicKey: userPublicKey } = check;
+                    const fingerprint = getKeyFingerprint(userPublicKey);
+
+                    // Registration authority: only invited users, and only as the User ID they were invited as
+                    const enrollmentToken = msg.payload.enrollmentToken;
+                    const invite = typeof enrollmentToken === 'string' ? store!.findEnrollmentToken(enrollmentToken) : undefined;
+                    if (!invite) {
+                        console.log(`Rejected CSR for ${userId}: no valid enrollment token`);
+                        ws.send(JSON.stringify(errorFrame('rejected', 'A valid enrollment token is required. Ask your CA admin for one.')));
+                        return;
+                    }
+                    if (invite.userId !== userId) {
+                        console.log(`Rejected CSR for ${userId}: token was minted for ${invite.userId}`);
+                        ws.send(JSON.stringify(errorFrame('rejected', `This enrollment token is for ${invite.userId}, not ${userId}.`)));
+                        return;
+                    }
+
+                    // UserId uniqueness: only the key that already holds a userId may renew it,
+                    // unless an admin approved a rebind to this new key.
+                    const boundTo = store!.getBinding(userId);
+                    if (boundTo && boundTo !== fingerprint) {
+                        if (!store!.consumeRebindApproval(userId, fingerprint)) {
+                            store!.requestRebind(userId, fingerprint);
+                            console.log(`Rejected CSR: ${userId} is bound to another key. Rebind pending admin approval.`);
+                            ws.send(JSON.stringify(errorFrame(
+                                'rejected',
+                                `User ID ${userId} is already taken by another key. Rebind is pending admin approval.`
+                            )));
+                            return;
+                        }
+                        // Approved rebind: certificates for the old key no longer speak for this userId
+                        store!.findByUserId(userId)
+                            .filter(record => record.publicKeyFingerprint === boundTo)
+                            .forEach(record => store!.revoke({
+                                serialNumber: record.serialNumber,
+                                revokedAt: Date.now(),
+                                reason: 'superseded'
+                            }));
+                        currentCrl = null;
+                        console.log(`Rebind approved: ${userId} moved to key ${fingerprint.slice(0, 16)}...`);
+                    }
+
+                    console.log(`Proof-of-possession OK. Signing Certificate for ${userId}...`);
+                    store!.consumeEnrollmentToken(enrollmentToken!); // Single use (invite found, so the token is set)
+                    const { certificate, transparency } = issueCertificate(userId, userPublicKey, fingerprint);
 
                     ws.send(JSON.stringify({
                         type: 'certificate_issued',
-                        payload: cert
+                        payload: { userId, certificate, chain: issuingChain, transparency }
                     }));
                 }
+                else if (msg.type === 'renew_request') {
+                    // Renewal: fresh CSR over our challenge, signed by the key of the current certificate
+                    const challenge = pendingChallenge;
+                    pendingChallenge = null;
+
+                    const reject = (reason: string) => {
+                        console.log(`Rejected renewal: ${reason}`);
+                        ws.send(JSON.stringify(errorFrame('rejected', `Renewal rejected: ${reason}`)));
+                    };
+
+                    if (!challenge || Date.now() > challenge.expiresAt) {
+                        ws.send(JSON.stringify(errorFrame('rejected', 'No valid challenge. Send get_challenge first.')));
+                        return;
+                    }
+
+                    const { certificate: currentPem, csr, signature } = msg.payload || {};
+                    let current: Certificate;
+                    try {
+                        current = parseCertificate(currentPem);
+                    } catch (e) {
+                        return reject('Malformed certificate');
+                    }
+
+                    // Must be a certificate we issued, unrevoked and not yet expired
+                    const record = store!.findBySerial(current.serialNumber);
+                    if (!record || record.certificate.trim() !== String(currentPem).trim()) return reject('Unknown certificate');
+                    if (store!.isRevoked(current.serialNumber)) return reject('Certificate is revoked');
+                    if (Date.now() > current.notAfter.getTime()) return reject('Certificate already expired. Enroll again with sign_request.');
+                    if (store!.getBinding(record.userId) !== record.publicKeyFingerprint) return reject('Certificate no longer holds its User ID');
+
+                    if (!verifyRenewalRequest(current.serialNumber, challenge.nonce, csr, signature, current.publicKey)) {
+                        return reject('Signature does not match the current certificate');
+                    }
+                    const check = verifyCertificateRequest(csr, challenge.nonce);
+                    if (!check.valid) return reject(`CSR rejected: ${check.reason}`);
+                    if (check.userId !== record.userId) return reject('CSR is for a different User ID');
+
+                    // Key rollover: the old key vouched for the new one, so its certificates are superseded
+                    const fingerprint = getKeyFingerprint(check.publicKey);
+                    if (fingerprint !== record.publicKeyFingerprint) {
+                        store!.findByUserId(record.userId)
+                            .filter(r => r.publicKeyFingerprint === record.publicKeyFingerprint)
+                            .forEach(r => store!.revoke({ serialNumber: r.serialNumber, revokedAt: Date.now(), reason: 'superseded' }));
+                        currentCrl = null;
+                        console.log(`Key rollover for ${record.userId} to key ${fingerprint.slice(0, 16)}...`);
+                    }
+
+                    console.log(`Renewing Certificate for ${record.userId} (was serial ${current.serialNumber})...`);
+                    const { certificate, transparency } = issueCertificate(record.userId, check.publicKey, fingerprint);
+
+                    ws.send(JSON.stringify({
+                        type: 'certificate_renewed',
+                        payload: { userId: record.userId, certificate, chain: issuingChain, transparency }
+                    }));
+                }
+                else if (msg.type === 'get_sth') {
+                    ws.send(JSON.stringify({ type: 'sth', payload: signTreeHead() }));
+                }
+                else if (msg.type === 'get_inclusion_proof') {
+                    // Proof against a freshly signed tree head
+                    const leafIndex = ctLog!.indexOf(msg.serialNumber);
+                    if (leafIndex === undefined) {
+                        ws.send(JSON.stringify(errorFrame('not_found', 'Certificate not in the transparency log')));
+                        return;
+                    }
+                    ws.send(JSON.stringify({
+                        type: 'inclusion_proof',
+                        serialNumber: msg.serialNumber,
+                        leafIndex,
+                        proof: ctLog!.inclusionProof(leafIndex),
+                        sth: signTreeHead()
+                    }));
+                }
+                else if (msg.type === 'get_consistency_proof') {
+                    const first = Number(msg.first);
+                    const second = Number(msg.second);
+                    if (!Number.isInteger(first) || !Number.isInteger(second) || first < 0 || first > second || second > ctLog!.size()) {
+                        ws.send(JSON.stringify(errorFrame('bad_payload', 'Tree sizes out of range')));
+                        return;
+                    }
+                    ws.send(JSON.stringify({
+                        type: 'consistency_proof',
+                        first,
+                        second,
+                        proof: ctLog!.consistencyProof(first, second)
+                    }));
+                }
+                else if (msg.type === 'get_entries') {
+                    // Public log contents, for monitors (ct-monitor.ts)
+                    const start = Math.max(0, Number(msg.start) || 0);
+                    const end = Math.min(Number(msg.end) || ctLog!.size(), start + MAX_LOG_ENTRIES);
+                    ws.send(JSON.stringify({ type: 'entries', start, entries: ctLog!.getEntries(start, end) }));
+                }
+                else if (msg.type === 'get_crl') {
+                    ws.send(JSON.stringify({ type: 'crl', payload: getCurrentCrl() }));
+                }
+                else if (msg.type === 'cert_status') {
+                    // OCSP-style single certificate query
+                    ws.send(JSON.stringify({
+                        type: 'cert_status_response',
+                        payload: signStatement(getCertificateStatus(msg.serialNumber), issuingCA!.privateKey, issuingChain)
+                    }));
+                }
+                else if (msg.type === 'revoke') {
+                    // ADMIN ONLY: Withdraw a certificate (e.g. leaked private key)
+                    if (!requireAdmin(ws, msg)) return;
+
+                    const { serialNumber, reason } = msg.payload;
+                    if (!store!.findBySerial(serialNumber)) {
+                        ws.send(JSON.stringify(errorFrame('not_found', 'Unknown serial number')));
+                        return;
+                    }
+                    if (!store!.isRevoked(serialNumber)) {
+                        store!.revoke({
+                            serialNumber,
+                            revokedAt: Date.now(),
+                            reason: reason || 'unspecified'
+                        });
+                        currentCrl = null; // Force a new CRL version
+                        console.log(`Revoked certificate serial ${serialNumber} (${reason || 'unspecified'})`);
+                    }
+                    getCurrentCrl();
+                    ws.send(JSON.stringify({
+                        type: 'revoked',
+                        serialNumber,
+                        crlVersion: currentCrl!.list.version
+                    }));
+                }
+                else if (msg.type === 'create_enrollment_token') {
+                    // ADMIN ONLY: Invite a user. The token is returned once and only its hash is stored.
+                    if (!requireAdmin(ws, msg)) return;
+
+                    const { userId, lifetimeMinutes } = msg.payload || {};
+                    if (typeof userId !== 'string' || !USER_ID_PATTERN.test(userId)) {
+                        ws.send(JSON.stringify(errorFrame('bad_payload', 'User ID must be 1-64 characters of A-Z, a-z, 0-9, ".", "_" or "-".')));
+                        return;
+                    }
+                    const minutes = Number(lifetimeMinutes) > 0 ? Number(lifetimeMinutes) : ENROLLMENT_TOKEN_MINUTES;
+                    const { token, record } = store!.createEnrollmentToken(userId, minutes * 60 * 1000);
+                    console.log(`Admin minted an enrollment token for ${userId} (expires ${new Date(record.expiresAt).toISOString()})`);
+                    ws.send(JSON.stringify({ type: 'enrollment_token', userId, token, expiresAt: record.expiresAt }));
+                }
+                else if (msg.type === 'list_enrollment_tokens') {
+                    // ADMIN ONLY: Outstanding invitations (hashes are not sent)
+                    if (!requireAdmin(ws, msg)) return;
+                    ws.send(JSON.stringify({
+                        type: 'enrollment_token_list',
+                        tokens: store!.getEnrollmentTokens().map(({ userId, createdAt, expiresAt }) => ({ userId, createdAt, expiresAt }))
+                    }));
+                }
+                else if (msg.type === 'list_rebinds') {
+                    // ADMIN ONLY: userIds whose holder asked to move to a new key
+                    if (!requireAdmin(ws, msg)) return;
+                    ws.send(JSON.stringify({ type: 'rebind_list', requests: store!.getPendingRebinds() }));
+                }
+                else if (msg.type === 'approve_rebind') {
+                    // ADMIN ONLY: Let the next CSR for userId (from the pending key) take it over
+                    if (!requireAdmin(ws, msg)) return;
+
+                    const { userId, publicKeyFingerprint } = msg.payload;
+                    const approved = store!.approveRebind(userId, publicKeyFingerprint);
+                    if (!approved) {
+                        ws.send(JSON.stringify(errorFrame('not_found', `No pending rebind for ${userId}`)));
+                        return;
+                    }
+                    console.log(`Admin approved rebind of ${userId} to key ${approved.publicKeyFingerprint.slice(0, 16)}...`);
+                    ws.send(JSON.stringify({ type: 'rebind_approved', request: approved }));
+                }
             } catch (e) {
-                console.error("CA Error:", e);
+                if (e instanceof ProtocolError) ws.send(JSON.stringify(errorFrame(e.code, e.message)));
+                else console.error("CA Error:", e);
             }
         });
     });
@@ -0,0 +1,54 @@
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { CAStore } from './ca-store';
+
+describe('CAStore enrollment tokens', () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ca-store-'));
+        mock.timers.enable({ apis: ['Date'], now: 1_000_000 });
+    });
+    afterEach(() => {
+        mock.timers.reset();
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('finds a token for the User ID it was minted for, and stores only its hash', () => {
+        const store = new CAStore(dir);
+        const { token, record } = store.createEnrollmentToken('alice', 60_000);
+        assert.equal(store.findEnrollmentToken(token)?.userId, 'alice');
+        assert.equal(record.expiresAt, 1_060_000);
+        assert.equal(store.findEnrollmentToken(token + 'x'), undefined);
+        assert.equal(fs.readFileSync(path.join(dir, 'registry.json'), 'utf8').includes(token), false);
+    });
+
+    it('is single-use, also after a restart', () => {
+        const store = new CAStore(dir);
+        const { token } = store.createEnrollmentToken('alice', 60_000);
+        const other = store.createEnrollmentToken('bob', 60_000).token;
+        assert.ok(new CAStore(dir).findEnrollmentToken(token));
+
+        store.consumeEnrollmentToken(token);
+        assert.equal(store.findEnrollmentToken(token), undefined);
+        assert.equal(new CAStore(dir).findEnrollmentToken(token), undefined);
+        assert.equal(store.findEnrollmentToken(other)?.userId, 'bob');
+    });
+
+    it('expires, and expired tokens are pruned on the next mint', () => {
+        const store = new CAStore(dir);
+        const { token } = store.createEnrollmentToken('alice', 60_000);
+        mock.timers.tick(59_999);
+        assert.ok(store.findEnrollmentToken(token));
+        mock.timers.tick(1);
+        assert.equal(store.findEnrollmentToken(token), undefined);
+        assert.deepEqual(store.getEnrollmentTokens(), []);
+
+        store.createEnrollmentToken('bob', 60_000);
+        const registry = JSON.parse(fs.readFileSync(path.join(dir, 'registry.json'), 'utf8'));
+        assert.deepEqual(registry.enrollmentTokens.map((t: { userId: string }) => t.userId), ['bob']);
+    });
+});
@@ -0,0 +1,379 @@
+import fs from 'fs';
+import path from 'path';
+import { createHash, createPrivateKey, generateKeyPairSync, randomBytes } from 'crypto';
+import {
+    createRootCertificate,
+    createIntermediateCertificate,
+    parseCertificate,
+    INTERMEDIATE_CA_PREFIX,
+    RevokedEntry
+} from './crypto-utils';
+
+// --- FILE-BACKED CA STORE ---
+// Layout of the (online) data directory, CA_DATA_DIR:
+//   root-cert.pem      -> the Root Certificate, i.e. the Trust Anchor (public)
+//   intermediates.json -> [{ name, serialNumber, certificate, encryptedPrivateKey (CA_PASSPHRASE), createdAt, active }]
+//   registry.json      -> { crlNumber, certificates, bindings, revoked, pendingRebinds, approvedRebinds, enrollmentTokens }
+// Everything except the encrypted intermediate keys is public information.
+// The running CA only ever decrypts the active intermediate. The Root Key lives in a separate,
+// offline directory (RootKeyStore, CA_ROOT_DIR) under its own passphrase; only ca-offline.ts opens it:
+//   root-key.json      -> { publicKey, encryptedPrivateKey (PKCS#8, AES-256-CBC + CA_ROOT_PASSPHRASE), certificate }
+
+const ROOT_KEY_FILE = 'root-key.json';
+const ROOT_CERT_FILE = 'root-cert.pem';
+
+export interface IssuedCertificate {
+    serialNumber: string;
+    issuerSerialNumber?: string; // Intermediate that signed it
+    userId: string;
+    publicKeyFingerprint: string;
+    issuedAt: number;
+    notAfter: number;
+    certificate: string; // PEM
+}
+
+export interface RebindRequest {
+    userId: string;
+    publicKeyFingerprint: string;
+    requestedAt: number;
+}
+
+// Only the hash is stored, so reading the registry does not reveal usable tokens
+export interface EnrollmentToken {
+    tokenHash: string;
+    userId: string;
+    createdAt: number;
+    expiresAt: number;
+}
+
+interface Registry {
+    crlNumber: number;
+    certificates: IssuedCertificate[];
+    bindings: Record<string, string>; // userId -> public key fingerprint
+    revoked: RevokedEntry[];
+    pendingRebinds: RebindRequest[];
+    approvedRebinds: RebindRequest[];
+    enrollmentTokens: EnrollmentToken[];
+}
+
+interface StoredRootKey {
+    publicKey: string;
+    encryptedPrivateKey: string;
+    certificate: string;
+}
+
+export interface StoredIntermediate {
+    name: string;
+    serialNumber: string;
+    certificate: string;
+    encryptedPrivateKey: string;
+    createdAt: number;
+    active: boolean; // The one the online CA issues with
+}
+
+export interface KeyMaterial {
+    publicKey: string;
+    privateKey: string;
+    certificate: string;
+}
+
+const generateKeyPair = () => generateKeyPairSync('rsa', {
+    modulusLength: 2048,
+    publicKeyEncoding: { type: 'spki', format: 'pem' },
+    privateKeyEncoding: { type: 'pkcs8', format: 'pem' }
+});
+
+const encryptPrivateKey = (privateKey: string, passphrase: string): string => {
+    return createPrivateKey(privateKey)
+        .export({ type: 'pkcs8', format: 'pem', cipher: 'aes-256-cbc', passphrase })
+        .toString();
+};
+
+// Throws if the passphrase is wrong
+const decryptPrivateKey = (encryptedPrivateKey: string, passphrase: string): string => {
+    return createPrivateKey({ key: encryptedPrivateKey, format: 'pem', passphrase })
+        .export({ type: 'pkcs8', format: 'pem' })
+        .toString();
+};
+
+const hashToken = (token: string): string => createHash('sha256').update(token).digest('hex');
+
+// Write to a temp file then rename, so a crash never leaves half a file behind
+const writeFileAtomic = (file: string, data: string, mode: number) => {
+    const tmp = file + '.tmp';
+    fs.writeFileSync(tmp, data, { mode });
+    fs.renameSync(tmp, file);
+};
+
+// Could this process read a Root Key in `dir`? The online CA refuses to start if so.
+export const isRootKeyReadable = (dir: string): boolean => {
+    try {
+        fs.accessSync(path.join(dir, ROOT_KEY_FILE), fs.constants.R_OK);
+        return true;
+    } catch {
+        return false;
+    }
+};
+
+// --- OFFLINE ROOT KEY ---
+
+export class RootKeyStore {
+    private dir: string;
+
+    constructor(dir: string) {
+        this.dir = dir;
+    }
+
+    public exists(): boolean {
+        return fs.existsSync(path.join(this.dir, ROOT_KEY_FILE));
+    }
+
+    // New self-signed Root, encrypted with the root passphrase
+    public create(passphrase: string): KeyMaterial {
+        const { publicKey, privateKey } = generateKeyPair();
+        const root = { publicKey, privateKey, certificate: createRootCertificate(publicKey, privateKey) };
+        this.save(root, passphrase);
+        return root;
+    }
+
+    /**
+     * Decrypts the Root private key.
+     * @throws if there is no Root here or the passphrase is wrong
+     */
+    public load(passphrase: string): KeyMaterial {
+        const stored: StoredRootKey = JSON.parse(fs.readFileSync(path.join(this.dir, ROOT_KEY_FILE), 'utf8'));
+        return {
+            publicKey: stored.publicKey,
+            privateKey: decryptPrivateKey(stored.encryptedPrivateKey, passphrase),
+            certificate: stored.certificate
+        };
+    }
+
+    public save(root: KeyMaterial, passphrase: string) {
+        fs.mkdirSync(this.dir, { recursive: true, mode: 0o700 });
+        const stored: StoredRootKey = { publicKey: root.publicKey, encryptedPrivateKey: encryptPrivateKey(root.privateKey, passphrase), certificate: root.certificate };
+        writeFileAtomic(path.join(this.dir, ROOT_KEY_FILE), JSON.stringify(stored, null, 2), 0o600);
+    }
+}
+
+export class CAStore {
+    private dir: string;
+    private registry: Registry;
+    private bySerial = new Map<string, IssuedCertificate>();
+    private byUserId = new Map<string, IssuedCertificate[]>();
+
+    constructor(dir: string) {
+        this.dir = dir;
+        fs.mkdirSync(dir, { recursive: true });
+
+        const file = path.join(dir, 'registry.json');
+        this.registry = fs.existsSync(file)
+            ? JSON.parse(fs.readFileSync(file, 'utf8'))
+            : { crlNumber: 0, certificates: [], bindings: {}, revoked: [], pendingRebinds: [], approvedRebinds: [], enrollmentTokens: [] };
+        this.registry.enrollmentTokens = this.registry.enrollmentTokens || []; // Registries from before enrollment tokens
+
+        this.registry.certificates.forEach(record => this.index(record));
+    }
+
+    // --- Trust Anchor ---
+
+    public hasRootCertificate(): boolean {
+        return fs.existsSync(path.join(this.dir, ROOT_CERT_FILE));
+    }
+
+    // The Trust Anchor. Public, no passphrase needed.
+    public getRootCertificate(): string {
+        return fs.readFileSync(path.join(this.dir, ROOT_CERT_FILE), 'utf8');
+    }
+
+    private setRootCertificate(certificate: string) {
+        writeFileAtomic(path.join(this.dir, ROOT_CERT_FILE), certificate, 0o644);
+    }
+
+    // --- Intermediate (issuing) CAs ---
+
+    /**
+     * Signs a new intermediate with the root key and makes it the active issuer.
+     * Older intermediates stay valid, so certificates they issued keep verifying.
+     * Also stores the Root Certificate the intermediate chains up to.
+     * @param passphrase the online CA's passphrase, which protects the intermediate key
+     */
+    public createIntermediate(root: KeyMaterial, passphrase: string, name?: string): StoredIntermediate {
+        const intermediates = this.getIntermediates();
+        const { publicKey, privateKey } = generateKeyPair();
+        const certificate = createIntermediateCertificate({
+            name: name || `${INTERMEDIATE_CA_PREFIX} ${intermediates.length + 1}`,
+            publicKey,
+            issuerCertificate: root.certificate,
+            issuerPrivateKey: root.privateKey
+        });
+        const parsed = parseCertificate(certificate);
+
+        const stored: StoredIntermediate = {
+            name: parsed.userId,
+            serialNumber: parsed.serialNumber,
+            certificate,
+            encryptedPrivateKey: encryptPrivateKey(privateKey, passphrase),
+            createdAt: Date.now(),
+            active: true
+        };
+        intermediates.forEach(i => i.active = false);
+        intermediates.push(stored);
+        this.writeFile('intermediates.json', intermediates, 0o600);
+        this.setRootCertificate(root.certificate);
+        return stored;
+    }
+
+    public getIntermediates(): StoredIntermediate[] {
+        const file = path.join(this.dir, 'intermediates.json');
+        return fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, 'utf8')) : [];
+    }
+
+    public getActiveIntermediate(): StoredIntermediate | undefined {
+        return this.getIntermediates().find(i => i.active);
+    }
+
+    public loadIntermediateKey(intermediate: StoredIntermediate, passphrase: string): KeyMaterial {
+        return {
+            publicKey: parseCertificate(intermediate.certificate).publicKey,
+            privateKey: decryptPrivateKey(intermediate.encryptedPrivateKey, passphrase),
+            certificate: intermediate.certificate
+        };
+    }
+
+    // --- Issued Certificates ---
+
+    public recordIssued(record: IssuedCertificate) {
+        this.registry.certificates.push(record);
+        this.index(record);
+        this.registry.bindings[record.userId] = record.publicKeyFingerprint;
+        this.save();
+    }
+
+    public getIssued(): IssuedCertificate[] {
+        return [...this.registry.certificates];
+    }
+
+    public findBySerial(serialNumber: string): IssuedCertificate | undefined {
+        return this.bySerial.get(serialNumber);
+    }
+
+    public findByUserId(userId: string): IssuedCertificate[] {
+        return this.byUserId.get(userId) || [];
+    }
+
+    // Fingerprint of the key that currently owns this userId (undefined if never issued)
+    public getBinding(userId: string): string | undefined {
+        return this.registry.bindings[userId];
+    }
+
+    // --- Revocation ---
+
+    public revoke(entry: RevokedEntry) {
+        if (this.isRevoked(entry.serialNumber)) return;
+        this.registry.revoked.push(entry);
+        this.save();
+    }
+
+    public isRevoked(serialNumber: string): RevokedEntry | undefined {
+        return this.registry.revoked.find(e => e.serialNumber === serialNumber);
+    }
+
+    public getRevoked(): RevokedEntry[] {
+        return [...this.registry.revoked];
+    }
+
+    public nextCrlNumber(): number {
+        this.registry.crlNumber++;
+        this.save();
+        return this.registry.crlNumber;
+    }
+
+    // --- Rebinding a userId to a new key (admin approval) ---
+
+    public requestRebind(userId: string, publicKeyFingerprint: string) {
+        const exists = this.registry.pendingRebinds.some(r =>
+            r.userId === userId && r.publicKeyFingerprint === publicKeyFingerprint);
+        if (exists) return;
+        this.registry.pendingRebinds.push({ userId, publicKeyFingerprint, requestedAt: Date.now() });
+        this.save();
+    }
+
+    public getPendingRebinds(): RebindRequest[] {
+        return [...this.registry.pendingRebinds];
+    }
+
+    /**
+     * Approves the pending rebind for userId (optionally a specific key fingerprint).
+     * @returns the approved request, or undefined if nothing was pending.
+     */
+    public approveRebind(userId: string, publicKeyFingerprint?: string): RebindRequest | undefined {
+        const request = this.registry.pendingRebinds.find(r =>
+            r.userId === userId && (!publicKeyFingerprint || r.publicKeyFingerprint === publicKeyFingerprint));
+        if (!request) return undefined;
+
+        this.registry.pendingRebinds = this.registry.pendingRebinds.filter(r => r.userId !== userId);
+        this.registry.approvedRebinds.push(request);
+        this.save();
+        return request;
+    }
+
+    // Single use: returns true (and forgets the approval) if this key was approved for userId
+    public consumeRebindApproval(userId: string, publicKeyFingerprint: string): boolean {
+        const index = this.registry.approvedRebinds.findIndex(r =>
+            r.userId === userId && r.publicKeyFingerprint === publicKeyFingerprint);
+        if (index === -1) return false;
+        this.registry.approvedRebinds.splice(index, 1);
+        this.save();
+        return true;
+    }
+
+    // --- Enrollment tokens (invitations) ---
+
+    /**
+     * Mints a single-use token that lets its holder enroll as `userId` until it expires.
+     * @returns the token. It is shown once; the store keeps only its hash.
+     */
+    public createEnrollmentToken(userId: string, lifetimeMs: number): { token: string; record: EnrollmentToken } {
+        const token = randomBytes(18).toString('base64url');
+        const now = Date.now();
+        const record: EnrollmentToken = { tokenHash: hashToken(token), userId, createdAt: now, expiresAt: now + lifetimeMs };
+        this.registry.enrollmentTokens = this.registry.enrollmentTokens.filter(t => t.expiresAt > now);
+        this.registry.enrollmentTokens.push(record);
+        this.save();
+        return { token, record };
+    }
+
+    // The unexpired token record, without using it up
+    public findEnrollmentToken(token: string): EnrollmentToken | undefined {
+        const tokenHash = hashToken(token);
+        return this.registry.enrollmentTokens.find(t => t.tokenHash === tokenHash && t.expiresAt > Date.now());
+    }
+
+    public consumeEnrollmentToken(token: string) {
+        const tokenHash = hashToken(token);
+        this.registry.enrollmentTokens = this.registry.enrollmentTokens.filter(t => t.tokenHash !== tokenHash);
+        this.save();
+    }
+
+    public getEnrollmentTokens(): EnrollmentToken[] {
+        return this.registry.enrollmentTokens.filter(t => t.expiresAt > Date.now());
+    }
+
+    // --- Internals ---
+
+    private index(record: IssuedCertificate) {
+        this.bySerial.set(record.serialNumber, record);
+        const list = this.byUserId.get(record.userId) || [];
+        list.push(record);
+        this.byUserId.set(record.userId, list);
+    }
+
+    private save() {
+        this.writeFile('registry.json', this.registry);
+    }
+
+    private writeFile(name: string, content: object, mode: number = 0o644) {
+        writeFileAtomic(path.join(this.dir, name), JSON.stringify(content, null, 2), mode);
+    }
+}
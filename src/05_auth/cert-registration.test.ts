@@ -0,0 +1,170 @@
+import { describe, it, before, after, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { EventEmitter } from 'events';
+import { AddressInfo } from 'net';
+import { generateKeyPairSync } from 'crypto';
+import { WebSocket, WebSocketServer } from 'ws';
+import {
+    KeyPair,
+    createRootCertificate,
+    createIntermediateCertificate,
+    issueUserCertificate,
+    signRegistrationChallenge
+} from './crypto-utils';
+import { CertificateRegistrar, CertifiedClient } from './cert-registration';
+
+const rsaKeys = (): KeyPair => generateKeyPairSync('rsa', {
+    modulusLength: 2048,
+    publicKeyEncoding: { type: 'spki', format: 'pem' },
+    privateKeyEncoding: { type: 'pkcs8', format: 'pem' }
+});
+
+// Enough of a ws socket for the registrar: records what it was sent
+class FakeSocket extends EventEmitter {
+    public readyState: number = WebSocket.OPEN;
+    public sent: any[] = [];
+    public id = Math.random().toString(36).substring(7);
+    public registered = false;
+    send(data: string) { this.sent.push(JSON.parse(data)); }
+}
+
+const socket = () => new FakeSocket() as FakeSocket & CertifiedClient;
+
+describe('CertificateRegistrar', () => {
+    let rootKeys: KeyPair;
+    let root: string;
+    let intermediateKeys: KeyPair;
+    let intermediate: string;
+    let ca: WebSocketServer;
+    let aliceKeys: KeyPair;
+    let alice: string;
+    let clients: Map<string, CertifiedClient>;
+    let registrar: CertificateRegistrar<CertifiedClient>;
+
+    const issue = (userId: string, publicKey: string) =>
+        issueUserCertificate({ userId, publicKey, issuerCertificate: intermediate, issuerPrivateKey: intermediateKeys.privateKey });
+
+    // Up to auth_challenge: returns the nonce
+    const challenge = (ws: FakeSocket & CertifiedClient, certificate = alice) => {
+        registrar.register(ws, { certificate, chain: [intermediate] });
+        const frame = ws.sent.at(-1);
+        assert.equal(frame.type, 'auth_challenge', frame.message);
+        return frame.nonce as string;
+    };
+    // The registrar closes its CA connection once it has the Root Certificate
+    const trusting = async (relay: CertificateRegistrar<CertifiedClient>) => {
+        const fetched = new Promise(resolve => ca.once('connection', ws => ws.once('close', resolve)));
+        relay.fetchTrustAnchor(`ws://localhost:${(ca.address() as AddressInfo).port}`);
+        await fetched;
+        return relay;
+    };
+    const rejection = (ws: FakeSocket) => {
+        const frame = ws.sent.at(-1);
+        assert.equal(frame.type, 'registration_rejected');
+        return frame.code;
+    };
+
+    before(() => {
+        rootKeys = rsaKeys();
+        root = createRootCertificate(rootKeys.publicKey, rootKeys.privateKey);
+        intermediateKeys = rsaKeys();
+        intermediate = createIntermediateCertificate({
+            name: 'Antigravity Issuing CA 1',
+            publicKey: intermediateKeys.publicKey,
+            issuerCertificate: root,
+            issuerPrivateKey: rootKeys.privateKey
+        });
+        aliceKeys = rsaKeys();
+        alice = issue('alice', aliceKeys.publicKey);
+
+        // Answers get_root_key like the CA server
+        ca = new WebSocketServer({ port: 0 });
+        ca.on('connection', ws => ws.on('message', () => ws.send(JSON.stringify({ type: 'root_key', key: rootKeys.publicKey, certificate: root }))));
+    });
+    after(() => ca.close());
+
+    beforeEach(async () => {
+        mock.method(console, 'log', () => {});
+        clients = new Map();
+        registrar = await trusting(new CertificateRegistrar(clients));
+    });
+    afterEach(() => mock.restoreAll());
+
+    it('refuses to register before it has the Root Certificate', () => {
+        const ws = socket();
+        new CertificateRegistrar(clients).register(ws, { certificate: alice, chain: [intermediate] });
+        assert.equal(rejection(ws), 'ca_unavailable');
+    });
+
+    it('routes the client under its certified User ID once it signs the challenge', () => {
+        const ws = socket();
+        const nonce = challenge(ws);
+        assert.equal(ws.sent.at(-1).userId, 'alice');
+        assert.ok(registrar.authenticate(ws, signRegistrationChallenge(nonce, 'alice', aliceKeys.privateKey)));
+        assert.equal(ws.id, 'alice');
+        assert.equal(clients.get('alice'), ws);
+        assert.equal(ws.certificate, alice);
+    });
+
+    it('rejects an auth_response signed by another key', () => {
+        const ws = socket();
+        const nonce = challenge(ws);
+        assert.equal(registrar.authenticate(ws, signRegistrationChallenge(nonce, 'alice', rsaKeys().privateKey)), false);
+        assert.equal(rejection(ws), 'proof_failed');
+        assert.equal(clients.size, 0);
+
+        // The challenge is gone: even the right signature needs a new one
+        assert.equal(registrar.authenticate(ws, signRegistrationChallenge(nonce, 'alice', aliceKeys.privateKey)), false);
+        assert.match(ws.sent.at(-1).message, /No registration in progress/);
+    });
+
+    it('rejects a signature over another nonce or User ID', () => {
+        const ws = socket();
+        const nonce = challenge(ws);
+        assert.equal(registrar.authenticate(ws, signRegistrationChallenge('other-nonce', 'alice', aliceKeys.privateKey)), false);
+
+        const again = challenge(ws);
+        assert.notEqual(again, nonce);
+        assert.equal(registrar.authenticate(ws, signRegistrationChallenge(again, 'mallory', aliceKeys.privateKey)), false);
+        assert.equal(rejection(ws), 'proof_failed');
+    });
+
+    it('rejects an auth_response without a registration', () => {
+        const ws = socket();
+        assert.equal(registrar.authenticate(ws, 'c2ln'), false);
+        assert.equal(rejection(ws), 'proof_failed');
+    });
+
+    it('rejects a certificate that does not chain to the Root', () => {
+        const ws = socket();
+        registrar.register(ws, { certificate: alice, chain: [] });
+        assert.equal(rejection(ws), 'invalid_certificate');
+    });
+
+    it('refuses a User ID that another live socket holds', () => {
+        const first = socket();
+        registrar.authenticate(first, signRegistrationChallenge(challenge(first), 'alice', aliceKeys.privateKey));
+        const second = socket();
+        registrar.register(second, { certificate: alice, chain: [intermediate] });
+        assert.equal(rejection(second), 'identity_in_use');
+
+        first.readyState = WebSocket.CLOSED;
+        const nonce = challenge(second);
+        assert.ok(registrar.authenticate(second, signRegistrationChallenge(nonce, 'alice', aliceKeys.privateKey)));
+        assert.equal(clients.get('alice'), second);
+    });
+
+    it('refuses signing-only keys where session keys need RSA-OAEP', async () => {
+        const dave = generateKeyPairSync('ed25519', { publicKeyEncoding: { type: 'spki', format: 'pem' }, privateKeyEncoding: { type: 'pkcs8', format: 'pem' } });
+        const certificate = issue('dave', dave.publicKey);
+        const ws = socket();
+        const nonce = challenge(ws, certificate); // Accepted by default (Phase 6)
+        assert.ok(registrar.authenticate(ws, signRegistrationChallenge(nonce, 'dave', dave.privateKey)));
+
+        const strict = await trusting(new CertificateRegistrar(clients, { requireKeyEncipherment: true }));
+        const refused = socket();
+        strict.register(refused, { certificate, chain: [intermediate] });
+        assert.equal(rejection(refused), 'invalid_certificate');
+        assert.match(refused.sent.at(-1).message, /needs an RSA key/);
+    });
+});
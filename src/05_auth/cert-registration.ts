@@ -0,0 +1,136 @@
+import { WebSocket } from 'ws';
+import { randomBytes } from 'crypto';
+import { verifyCertificateChain, verifyRegistrationChallenge } from './crypto-utils';
+import { ProtocolError, parseFrame, CA_RESPONSES } from '../03_encryption/protocol';
+
+// --- CERTIFICATE REGISTRATION (relay side, Phases 5-6) ---
+// Clients are routed under the User ID their certificate names. The relay fetches the CA Root
+// Certificate and verifies chains itself, then has the client prove it holds the certified key:
+//
+//   register_with_cert { payload: { certificate, chain } } -> auth_challenge { nonce, userId }
+//   auth_response { signature }                             -> (routed as userId, the relay answers)
+//
+// Every failure gets registration_rejected { code, message } so clients can tell why.
+
+export interface CertifiedClient extends WebSocket {
+    id: string; // Certified userId once registered, temporary random ID before that
+    registered: boolean;
+    certificate?: string; // Store Cert (X.509 PEM) instead of raw key
+    certificateChain?: string[]; // Intermediate CA certs up to (excluding) the root
+    pendingAuth?: { nonce: string; certificate: string; chain: string[]; userId: string; publicKey: string };
+}
+
+type RejectionCode = 'ca_unavailable' | 'invalid_certificate' | 'identity_in_use' | 'proof_failed';
+
+export class CertificateRegistrar<C extends CertifiedClient> {
+    private caRootCertificate: string | null = null; // Trust anchor, fetched once from the CA
+    private clients: Map<string, C>;
+    private requireKeyEncipherment: boolean;
+
+    /**
+     * @param clients the relay's routing table (registered clients by userId), updated on registration
+     * @param options.requireKeyEncipherment refuse signing-only keys (Ed25519, P-256): Phase 5 sends session keys with RSA-OAEP
+     */
+    constructor(clients: Map<string, C>, options: { requireKeyEncipherment?: boolean } = {}) {
+        this.clients = clients;
+        this.requireKeyEncipherment = options.requireKeyEncipherment ?? false;
+    }
+
+    // Retries every 2s until the CA answers with its Root Certificate
+    public fetchTrustAnchor(caUrl: string) {
+        const ca = new WebSocket(caUrl);
+        ca.on('open', () => ca.send(JSON.stringify({ type: 'get_root_key' })));
+        ca.on('message', (data) => {
+            try {
+                const msg = parseFrame(data.toString(), CA_RESPONSES);
+                if (msg.type === 'root_key') {
+                    this.caRootCertificate = msg.certificate;
+                    console.log('[TRUST] Received CA Root Certificate.');
+                    ca.close();
+                }
+            } catch (e) {
+                if (!(e instanceof ProtocolError)) throw e;
+                console.error(`[TRUST] Malformed CA response (${e.code}: ${e.message}), retrying in 2s...`);
+                ca.close();
+                setTimeout(() => this.fetchTrustAnchor(caUrl), 2000);
+            }
+        });
+        ca.on('error', () => {
+            console.log(`CA not reachable at ${caUrl}, retrying in 2s...`);
+            setTimeout(() => this.fetchTrustAnchor(caUrl), 2000);
+        });
+    }
+
+    // register_with_cert: verify the chain ourselves, then challenge the client
+    public register(ws: C, payload: { certificate: string; chain?: string[] }) {
+        if (!this.caRootCertificate) {
+            this.reject(ws, 'ca_unavailable', 'Server has no CA Root Certificate yet. Try again shortly.');
+            return;
+        }
+        const chain = payload.chain || [];
+        const check = verifyCertificateChain(payload.certificate, chain, this.caRootCertificate);
+        if (!check.valid) {
+            this.reject(ws, 'invalid_certificate', check.reason);
+            return;
+        }
+        if (this.requireKeyEncipherment && !check.certificate.keyUsage.includes('keyEncipherment')) {
+            this.reject(ws, 'invalid_certificate', 'This phase needs an RSA key (session keys are sent with RSA-OAEP).');
+            return;
+        }
+
+        const userId = check.certificate.userId;
+        if (this.isIdentityTaken(userId, ws)) {
+            this.reject(ws, 'identity_in_use', `${userId} is already connected.`);
+            return;
+        }
+
+        // Prove you hold the private key of this certificate
+        const nonce = randomBytes(16).toString('hex');
+        ws.pendingAuth = { nonce, certificate: payload.certificate, chain, userId, publicKey: check.certificate.publicKey };
+        ws.send(JSON.stringify({ type: 'auth_challenge', nonce, userId }));
+    }
+
+    /**
+     * auth_response: verifies the signature over the nonce with the certified key, then routes the
+     * client under its certified userId. The caller answers (registered) and announces it.
+     * @returns false if rejected (the client has been told)
+     */
+    public authenticate(ws: C, signature: string): boolean {
+        const pending = ws.pendingAuth;
+        if (!pending) {
+            this.reject(ws, 'proof_failed', 'No registration in progress.');
+            return false;
+        }
+        if (!verifyRegistrationChallenge(pending.nonce, pending.userId, signature, pending.publicKey)) {
+            this.reject(ws, 'proof_failed', 'Signature does not match the certificate key.');
+            return false;
+        }
+        if (this.isIdentityTaken(pending.userId, ws)) {
+            this.reject(ws, 'identity_in_use', `${pending.userId} is already connected.`);
+            return false;
+        }
+
+        if (ws.registered && ws.id !== pending.userId) this.clients.delete(ws.id);
+        console.log(`Client ${ws.id} authenticated as ${pending.userId}`);
+        ws.id = pending.userId;
+        ws.registered = true;
+        ws.certificate = pending.certificate;
+        ws.certificateChain = pending.chain;
+        ws.pendingAuth = undefined;
+        this.clients.set(ws.id, ws);
+        return true;
+    }
+
+    // Another live socket already holds this identity?
+    private isIdentityTaken(userId: string, ws: C): boolean {
+        const existing = this.clients.get(userId);
+        return !!existing && existing !== ws && existing.readyState === WebSocket.OPEN;
+    }
+
+    // Explicit rejection so clients can tell *why* they were not registered
+    private reject(ws: C, code: RejectionCode, message: string) {
+        console.log(`Rejected registration from ${ws.id}: ${code} (${message})`);
+        ws.pendingAuth = undefined;
+        ws.send(JSON.stringify({ type: 'registration_rejected', code, message }));
+    }
+}
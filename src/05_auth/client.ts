@@ -1,175 +1,429 @@
 import WebSocket from 'ws';
 import readline from 'readline';
-import { verify } from 'crypto'; // Native verify for checking cert sig
+import path from 'path';
+import { randomBytes } from 'crypto';
+import { CAClient } from './ca-client';
+import { DoubleRatchet } from '../03_encryption/double-ratchet';
+import { RekeyingSession, SessionPayload } from '../03_encryption/rekeying-session';
+import { VerifiedPeers, verifyCommand, keyChangedWarning } from '../03_encryption/safety-number';
+import { GroupChat } from '../03_encryption/group-chat';
+import { ProtocolError, parseFrame, validateFrame, PHASE5_FRAMES, PHASE5_PAYLOADS } from '../03_encryption/protocol';
+import { IdleReporter, describePresence, watchServer } from '../03_encryption/presence';
+import { FileNonceStore } from '../04_replay/nonce-store';
+import { loadIdentityKeys } from './identity-keys';
 import {
     generateRSAKeys,
     generateAESKey,
     encryptAESKeyWithRSA,
     decryptAESKeyWithRSA,
-    encryptMessageAES,
-    decryptMessageAES,
-    createSecurePacket,
     ReplayProtection,
-    Certificate
+    createReplayStrategy,
+    isReplayStrategyName,
+    REPLAY_STRATEGIES,
+    ReplayStrategy,
+    ReplayStrategyName,
+    signRegistrationChallenge,
+    signKeyExchange,
+    verifyKeyExchange,
+    KeyExchangeTranscript,
+    signPacket,
+    openSignedPacket,
+    SignatureStatus
 } from './crypto-utils';
 
 // --- Identity ---
-console.log('Generating RSA Identity...');
-const { publicKey, privateKey } = generateRSAKeys();
+// Kept across restarts, since the CA binds our User ID to this key (one file per client)
+const IDENTITY_KEY_FILE = process.env.IDENTITY_KEY_FILE || path.join('identity', 'phase5.json');
+let identity: ReturnType<typeof loadIdentityKeys>;
+try {
+    identity = loadIdentityKeys(IDENTITY_KEY_FILE, generateRSAKeys);
+} catch (e) {
+    console.error(`Cannot load the identity key: ${(e as Error).message}`);
+    process.exit(1);
+}
+console.log(identity.created ? `Generated an RSA Identity (saved to ${IDENTITY_KEY_FILE}).` : `Loaded the RSA Identity from ${IDENTITY_KEY_FILE}.`);
+const { publicKey, privateKey } = identity.keys;
+
+const CA_URL = process.env.CA_URL || 'ws://localhost:8084';
+// Default for sessions we start (override per session: connect <User ID> <strategy>)
+const DEFAULT_REPLAY_STRATEGY: ReplayStrategyName = isReplayStrategyName(process.env.REPLAY_STRATEGY) ? process.env.REPLAY_STRATEGY : 'timestamp';
+const ca = new CAClient(CA_URL, publicKey, privateKey);
 
 // --- State ---
-let caRootKey: string | null = null;
-let myCertificate: Certificate | null = null;
+let chatWs: WebSocket | null = null; // Chat Server connection (re-registers on renewal)
+// Away after AWAY_AFTER_MINUTES without input, online again on the next line (see presence.ts)
+const idle = new IdleReporter((status) => {
+    if (chatWs?.readyState === WebSocket.OPEN) chatWs.send(JSON.stringify({ type: 'presence', status }));
+});
 let connectedUsers: any[] = [];
 let targetUser: { id: string, publicKey: string } | null = null;
-let sessionKey: string | null = null;
-const replayProtection = new ReplayProtection();
+let session: RekeyingSession | null = null; // Double Ratchet seeded by the session key, rekeyed now and then
+let replay: ReplayStrategy | null = null; // Chosen by the initiator at session setup
+let pendingReplayStrategy: ReplayStrategyName | null = null; // From `connect`, until the certificate arrives
+let nonceStore: FileNonceStore | null = null; // Seen nonces, kept across restarts (opened once we know our userId)
+let verifiedPeers = new VerifiedPeers(); // Kept on disk once we know our userId
+const certifiedKeys = new Map<string, string>(); // userId -> key from its latest verified certificate
+let signOutgoing = process.env.SIGN_MESSAGES === '1'; // Sign-then-encrypt (toggle with `sign on|off`)
+let handshakeReplayProtection = new ReplayProtection(); // key_exchange timestamps + nonces
 
 const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
 
-// 1. BOOTSTRAP: Connect to CA to getting Root Key & My Certificate
-console.log('Connecting to CA...');
-const caWs = new WebSocket('ws://localhost:8084');
-
-caWs.on('open', () => {
-    // A. Get Root Key (Trust Anchor)
-    caWs.send(JSON.stringify({ type: 'get_root_key' }));
+// Group chats: sender keys only go to members whose certificate verifies (and names them)
+const groups = new GroupChat({
+    localId: () => ca.userId!,
+    privateKey,
+    send: (message) => chatWs?.send(JSON.stringify(message)),
+    memberKey: async (member) => {
+        if (!member.certificate) return undefined;
+        const cert = await ca.verifyPeerCertificate(member.certificate, member.chain || []);
+        if (!cert || cert.userId !== member.id) return undefined;
+        rememberPeerKey(cert.userId, cert.publicKey);
+        return cert.publicKey;
+    },
+    log: (line) => {
+        console.log(`\n${line}`);
+        process.stdout.write('> ');
+    }
 });
 
-caWs.on('message', (data) => {
-    const msg = JSON.parse(data.toString());
+// 1. BOOTSTRAP: Enrollment token (minted by the CA admin) -> CA: Root Key & My Certificate
+function askForEnrollmentToken() {
+    rl.question('Enrollment token (ask your CA admin): ', (answer) => enroll(answer.trim()));
+}
 
-    if (msg.type === 'root_key') {
-        caRootKey = msg.key;
-        console.log('[TRUST] Received CA Root Key.');
+function enroll(enrollmentToken: string) {
+    ca.enroll(enrollmentToken)
+        .then(() => {
+            openNonceStore();
+            verifiedPeers = new VerifiedPeers(path.join(process.env.VERIFIED_PEERS_DIR || 'verified-peers', `${ca.userId!.replace(/[^\w.-]/g, '_')}.json`));
+            startChatClient(); // Proceed to Chat
+            ca.scheduleExpiryCheck();
+        })
+        .catch(e => {
+            console.error('[CA ERROR]', e.message);
+            askForEnrollmentToken();
+        });
+}
 
-        // B. Request Signing (Issuance)
-        // In real world, we'd provide proof of identity. Here, we just ask.
-        caWs.send(JSON.stringify({
-            type: 'sign_request',
-            payload: { userId: 'User-' + Math.random().toString(36).substring(7), userPublicKey: publicKey }
-        }));
-    }
-    else if (msg.type === 'certificate_issued') {
-        myCertificate = msg.payload;
-        console.log('[IDENTITY] Certificate Issued by CA.');
-        caWs.close(); // Done with CA
+// A restarted client must still reject key exchanges (and timestamp-mode messages) it accepted before
+function openNonceStore() {
+    const dir = process.env.NONCE_STORE_DIR || 'nonce-store';
+    nonceStore = new FileNonceStore(path.join(dir, `${ca.userId!.replace(/[^\w.-]/g, '_')}.jsonl`), 60_000);
+    handshakeReplayProtection = new ReplayProtection(60, 5, nonceStore);
+}
 
-        startChatClient(); // Proceed to Chat
-    }
-});
+// Re-register so the Chat Server hands out the renewed certificate
+ca.onRenewed = () => {
+    chatWs?.send(JSON.stringify({
+        type: 'register_with_cert',
+        payload: { certificate: ca.certificate, chain: ca.chain }
+    }));
+};
+
+if (process.env.ENROLLMENT_TOKEN) enroll(process.env.ENROLLMENT_TOKEN);
+else askForEnrollmentToken();
 
 function startChatClient() {
-    const ws = new WebSocket('ws://localhost:8085');
+    connectChat(false);
+
+    rl.on('line', (input) => {
+        idle.activity();
+        const args = input.trim().split(' ');
+        const command = args[0];
+
+        if (command === 'list') chatWs?.send(JSON.stringify({ type: 'list' }));
+        else if (command === 'connect') {
+            const targetId = args[1];
+            const strategy = args[2] || DEFAULT_REPLAY_STRATEGY;
+            if (!isReplayStrategyName(strategy)) {
+                console.log(`Unknown replay strategy. Choose one of: ${REPLAY_STRATEGIES.join(', ')}`);
+                process.stdout.write('> ');
+                return;
+            }
+            pendingReplayStrategy = strategy;
+            console.log(`Fetching Certificate for ${targetId}...`);
+            chatWs?.send(JSON.stringify({ type: 'get_cert', targetId }));
+        }
+        else if (command === 'msg') {
+            if (!targetUser || !session || !replay) { console.log('No secure session.'); return; }
+            let packet;
+            try {
+                packet = replay.createPacket(args.slice(1).join(' '));
+            } catch (e: any) {
+                console.log(`[REPLAY] ${e.message}. Message not sent, try again shortly.`);
+                process.stdout.write('> ');
+                return;
+            }
+            const body = JSON.stringify(packet);
+            chatWs?.send(JSON.stringify({
+                type: 'direct',
+                targetId: targetUser.id,
+                payload: session.encrypt(signOutgoing ? signPacket(body, ca.userId!, targetUser.id, privateKey) : body)
+            }));
+            console.log(`[SENT] ${signOutgoing ? '(signed) ' : ''}${args.slice(1).join(' ')}`);
+        }
+        else if (command === 'verify') {
+            const peerKey = certifiedKeys.get(args[1]);
+            if (!peerKey) console.log(`No verified certificate for ${args[1]} yet. Use "connect ${args[1]}" first.`);
+            else verifyCommand(verifiedPeers, { id: ca.userId!, publicKey }, { id: args[1], publicKey: peerKey }, args[2]).forEach(line => console.log(line));
+        }
+        else if (command === 'group') {
+            const [action, name, userId] = args.slice(1);
+            if (action === 'create' && name) groups.create(name);
+            else if (action === 'invite' && name && userId) groups.invite(name, userId);
+            else if (action === 'leave' && name) groups.leave(name);
+            else console.log('Usage: group create <name> | group invite <name> <User ID> | group leave <name>');
+        }
+        else if (command === 'groups') {
+            const names = groups.names();
+            if (names.length === 0) console.log('No groups.');
+            names.forEach(name => console.log(`  ${name}: ${groups.membersOf(name).join(', ')}`));
+        }
+        else if (command === 'gmsg') {
+            const text = args.slice(2).join(' ');
+            if (!groups.sendMessage(args[1], text)) console.log('Not a member of that group. Use "group create <name>" first.');
+            else console.log(`[SENT] (Encrypted to ${args[1]}): ${text}`);
+        }
+        else if (command === 'sign') {
+            signOutgoing = args[1] === 'on';
+            console.log(`Message signing ${signOutgoing ? 'on' : 'off'}.`);
+        }
+        process.stdout.write('> ');
+    });
+}
+
+// Chat Server connection. Reconnects when it drops: the certified userId stays the same, and the
+// server delivers whatever was queued for us once we are registered again.
+function connectChat(reconnect: boolean) {
+    const ws = new WebSocket(process.env.CHAT_URL || 'ws://localhost:8085');
+    chatWs = ws;
+    watchServer(ws); // A server that stops pinging us is dropped, and 'close' reconnects
 
     ws.on('open', () => {
         console.log('Connected to Phase 5 Chat Server.');
 
-        // Register with Certificate
+        // Register with Certificate (server will challenge us to prove we hold its key)
         ws.send(JSON.stringify({
             type: 'register_with_cert',
-            payload: myCertificate
+            payload: { certificate: ca.certificate, chain: ca.chain }
         }));
+        if (reconnect) return;
 
         console.log('\nCommands:');
-        console.log('  list                 -> Show online users');
-        console.log('  connect <User ID>    -> Start secure session (Using Certs)');
+        console.log('  list                 -> Show users (online, away, offline)');
+        console.log(`  connect <User ID> [${REPLAY_STRATEGIES.join('|')}]`);
+        console.log(`                       -> Start secure session (Using Certs, replay protection: ${DEFAULT_REPLAY_STRATEGY})`);
         console.log('  msg <text>           -> Send encrypted message');
+        console.log(`  sign <on|off>        -> Sign messages before encrypting (now: ${signOutgoing ? 'on' : 'off'})`);
+        console.log('  verify <User ID> [confirm|<code>]');
+        console.log('                       -> Compare safety numbers, mark the peer verified');
+        console.log('  group create|leave <name>, group invite <name> <User ID>');
+        console.log('  groups               -> Show your groups');
+        console.log('  gmsg <name> <text>   -> Send encrypted message to a group');
         process.stdout.write('> ');
     });
 
     ws.on('message', (data) => {
         try {
-            const msg = JSON.parse(data.toString());
+            const msg = parseFrame(data.toString(), PHASE5_FRAMES);
+            // The relay passes payloads through unchecked: check them before any handler does
+            if (msg.type === 'direct') validateFrame(msg.payload, PHASE5_PAYLOADS);
 
-            if (msg.type === 'user_list') {
+            if (msg.type === 'auth_challenge') {
+                // Only ever prove possession for our own certified identity
+                if (msg.userId !== ca.userId) return;
+                const signature = signRegistrationChallenge(msg.nonce, msg.userId, privateKey);
+                ws.send(JSON.stringify({ type: 'auth_response', signature }));
+            }
+            else if (msg.type === 'registered') {
+                console.log(`\n[IDENTITY] Registered with Chat Server as ${msg.userId}.`);
+                idle.reconnected();
+            }
+            else if (msg.type === 'registration_rejected') {
+                console.error(`\n[REJECTED] Registration refused (${msg.code}): ${msg.message}`);
+            }
+            else if (msg.type === 'error') {
+                console.error(`\n[ERROR] ${msg.message} (${msg.code})`);
+            }
+            else if (msg.type === 'queued') {
+                console.log(`\n[QUEUED] ${msg.targetId} is offline. The server keeps the message until it is back (${msg.waiting} waiting).`);
+            }
+            else if (msg.type === 'user_list') {
                 connectedUsers = msg.users;
-                console.log('\n[USERS] Online:', connectedUsers.map(u => u.id).join(', '));
+                console.log('\n[USERS]', connectedUsers.map(describePresence).join(', '));
             }
             else if (msg.type === 'cert_response') {
-                handleCertResponse(msg, ws);
+                handleCertResponse(msg, ws).catch(e => console.error('[AUTH] Error:', e.message));
+            }
+            else if (groups.handle(msg)) {
+                // Group update, group message or sender key: handled (in order) by GroupChat
             }
             else if (msg.type === 'direct') {
-                handleDirectMessage(msg, ws);
+                handleDirectMessage(msg);
             }
             process.stdout.write('> ');
-        } catch (e) { console.error(e); }
+        } catch (e) {
+            if (e instanceof ProtocolError) console.error(`\n[PROTOCOL] Dropped frame: ${e.message}`);
+            else console.error(e);
+        }
     });
 
-    rl.on('line', (input) => {
-        const args = input.trim().split(' ');
-        const command = args[0];
-
-        if (command === 'list') ws.send(JSON.stringify({ type: 'list' }));
-        else if (command === 'connect') {
-            const targetId = args[1];
-            console.log(`Fetching Certificate for ${targetId}...`);
-            ws.send(JSON.stringify({ type: 'get_cert', targetId }));
-        }
-        else if (command === 'msg') {
-            if (!targetUser || !sessionKey) { console.log('No secure session.'); return; }
-            const packet = createSecurePacket(args.slice(1).join(' '));
-            const encrypted = encryptMessageAES(JSON.stringify(packet), sessionKey);
-            ws.send(JSON.stringify({
-                type: 'direct',
-                targetId: targetUser.id,
-                payload: { type: 'chat', content: encrypted }
-            }));
-            console.log(`[SENT] ${args.slice(1).join(' ')}`);
-        }
-        process.stdout.write('> ');
+    ws.on('close', () => {
+        if (chatWs !== ws) return;
+        console.log('\n[INFO] Disconnected from Chat Server. Reconnecting in 2s...');
+        setTimeout(() => connectChat(true), 2000);
     });
+    ws.on('error', () => { /* Followed by 'close' */ });
 }
 
-function handleCertResponse(msg: any, ws: WebSocket) {
-    const cert = msg.certificate;
-    console.log(`\n[AUTH] Verifying Certificate for ${cert.userId}...`);
+async function handleCertResponse(msg: any, ws: WebSocket) {
+    console.log(`\n[AUTH] Verifying Certificate for ${msg.targetId}...`);
 
-    // VERIFY CERTIFICATE AGAINST ROOT KEY
-    const contentToVerify = cert.userId + cert.publicKey;
-    const isValid = verify("sha256", Buffer.from(contentToVerify), caRootKey!, Buffer.from(cert.signature, 'base64'));
+    const cert = await ca.verifyPeerCertificate(msg.certificate, msg.chain || []);
+    if (!cert) return;
+    console.log('[AUTH] Trusting Public Key.');
+    rememberPeerKey(cert.userId, cert.publicKey);
 
-    if (isValid) {
-        console.log('[AUTH] Certificate VALID. Trusting Public Key.');
+    // Handshake
+    const newSessionKey = generateAESKey();
+    const newRatchet = new DoubleRatchet(newSessionKey);
+    const replayStrategy = pendingReplayStrategy || DEFAULT_REPLAY_STRATEGY;
+    startSession(newRatchet, cert.userId);
+    targetUser = { id: cert.userId, publicKey: cert.publicKey }; // Trusted!
+    startReplayProtection(replayStrategy);
 
-        // Handshake
-        const newSessionKey = generateAESKey();
-        sessionKey = newSessionKey;
-        targetUser = { id: cert.userId, publicKey: cert.publicKey }; // Trusted!
+    // Sign the wrapped key, our ratchet key and the replay strategy with both identities so the responder can authenticate us too
+    const transcript: KeyExchangeTranscript = {
+        initiatorId: ca.userId!,
+        responderId: cert.userId,
+        timestamp: Date.now(),
+        nonce: randomBytes(16).toString('hex'),
+        encryptedKey: encryptAESKeyWithRSA(newSessionKey, cert.publicKey),
+        ratchetKey: newRatchet.publicKey,
+        replayStrategy
+    };
+    ws.send(JSON.stringify({
+        type: 'direct',
+        targetId: cert.userId,
+        payload: {
+            type: 'key_exchange',
+            ...transcript,
+            signature: signKeyExchange(transcript, privateKey),
+            certificate: ca.certificate,
+            chain: ca.chain,
+            challenges: replay!.issueChallenges?.() // Challenge mode: our first nonces for the responder
+        }
+    }));
+    console.log('[HANDSHAKE] Sent Signed Session Key.');
+}
 
-        const encryptedKey = encryptAESKeyWithRSA(newSessionKey, cert.publicKey);
-        ws.send(JSON.stringify({
-            type: 'direct',
-            targetId: cert.userId,
-            payload: { type: 'key_exchange', encryptedKey }
-        }));
-        console.log('[HANDSHAKE] Sent Encrypted Session Key.');
+async function handleKeyExchange(senderId: string, payload: any) {
+    console.log(`\n[HANDSHAKE] Received Key from ${senderId}. Verifying sender...`);
 
-    } else {
-        console.error('[AUTH] Certificate INVALID! Potential MITM Attack.');
+    // 1. The sender's certificate must be valid and unrevoked
+    const cert = await ca.verifyPeerCertificate(payload.certificate, payload.chain || []);
+    if (!cert) return;
+
+    // 2. Identities: certificate, relay envelope and signed transcript must agree, and it must be meant for us
+    if (cert.userId !== senderId || payload.initiatorId !== senderId) {
+        console.error(`[HANDSHAKE] Identity mismatch (cert ${cert.userId}, relay ${senderId}, claimed ${payload.initiatorId}). Rejected.`);
+        return;
+    }
+    if (payload.responderId !== ca.userId) {
+        console.error(`[HANDSHAKE] Key was meant for ${payload.responderId}, not us. Rejected.`);
+        return;
+    }
+
+    // 3. Signature by the certified key over the whole transcript
+    const transcript: KeyExchangeTranscript = {
+        initiatorId: payload.initiatorId,
+        responderId: payload.responderId,
+        timestamp: payload.timestamp,
+        nonce: payload.nonce,
+        encryptedKey: payload.encryptedKey,
+        ratchetKey: payload.ratchetKey,
+        replayStrategy: payload.replayStrategy
+    };
+    if (!isReplayStrategyName(transcript.replayStrategy)) {
+        console.error(`[HANDSHAKE] Unknown replay strategy ${transcript.replayStrategy}. Rejected.`);
+        return;
+    }
+    if (!verifyKeyExchange(transcript, payload.signature, cert.publicKey)) {
+        console.error('[HANDSHAKE] Signature INVALID. Rejected.');
+        return;
     }
+
+    // 4. Freshness: an old (replayed) key_exchange must not reset the session
+    if (!handshakeReplayProtection.validate({ timestamp: transcript.timestamp, nonce: transcript.nonce, payload: null })) {
+        console.error('[HANDSHAKE] Stale or replayed key exchange. Rejected.');
+        return;
+    }
+
+    rememberPeerKey(cert.userId, cert.publicKey);
+    try {
+        startSession(new DoubleRatchet(decryptAESKeyWithRSA(transcript.encryptedKey, privateKey), transcript.ratchetKey), cert.userId);
+        targetUser = { id: cert.userId, publicKey: cert.publicKey };
+        console.log(`[SUCCESS] Secure Channel Established with authenticated ${cert.userId}.`);
+        startReplayProtection(transcript.replayStrategy);
+        replay!.acceptChallenges?.(payload.challenges || []);
+        sendChallenges();
+    } catch (e) { console.error('Decryption failed'); }
 }
 
-function handleDirectMessage(envelope: any, ws: WebSocket) {
+// Certified keys can still change (re-enrollment). Loud warning if the user had verified the old one.
+function rememberPeerKey(userId: string, key: string) {
+    certifiedKeys.set(userId, key);
+    if (verifiedPeers.check(userId, key) === 'changed') console.log(keyChangedWarning(userId));
+}
+
+const signatureLabel = (status: SignatureStatus, senderId: string) =>
+    status === 'valid' ? `(signed by ${senderId})` : status === 'invalid' ? '(SIGNATURE INVALID)' : '(unsigned)';
+
+// Rekey messages go out on the current chat connection (it changes when the certificate is renewed)
+function startSession(ratchet: DoubleRatchet, peerId: string) {
+    session?.close();
+    session = new RekeyingSession(ratchet, { localId: ca.userId!, peerId }, (payload: SessionPayload) => {
+        chatWs?.send(JSON.stringify({ type: 'direct', targetId: peerId, payload }));
+    });
+    session.onEvent = (event) => {
+        console.log(`\n[REKEY] ${event}`);
+        process.stdout.write('> ');
+    };
+}
+
+function startReplayProtection(name: ReplayStrategyName) {
+    replay = createReplayStrategy(name, nonceStore ?? undefined);
+    console.log(`[REPLAY] Using ${replay.description}`);
+}
+
+// Challenge-response: hand the peer fresh nonces whenever its supply runs low
+function sendChallenges() {
+    const nonces = replay?.issueChallenges?.() ?? [];
+    if (!targetUser || nonces.length === 0) return;
+    chatWs?.send(JSON.stringify({ type: 'direct', targetId: targetUser.id, payload: { type: 'replay_challenge', nonces } }));
+}
+
+function handleDirectMessage(envelope: any) {
     const { senderId, payload } = envelope;
 
     if (payload.type === 'key_exchange') {
-        console.log(`\n[HANDSHAKE] Received Key from ${senderId}`);
-        // In real implementation, we should ALSO verify the sender's cert here if not already known.
-        // For demo, we assume we just accept the key if we can decrypt it (Simplified).
-        try {
-            sessionKey = decryptAESKeyWithRSA(payload.encryptedKey, privateKey);
-            targetUser = { id: senderId, publicKey: '' }; // Check cert later if needed
-            console.log('[SUCCESS] Secure Channel Established.');
-        } catch (e) { console.error('Decryption failed'); }
+        handleKeyExchange(senderId, payload).catch(e => console.error('[HANDSHAKE] Error:', e.message));
+    }
+    else if (payload.type === 'replay_challenge') {
+        if (senderId === targetUser?.id) replay?.acceptChallenges?.(payload.nonces || []);
     }
-    else if (payload.type === 'chat') {
-        if (!sessionKey) return;
+    else if (payload.type === 'chat' || payload.type === 'rekey') {
+        if (!session || !replay) return;
         try {
-            const plain = decryptMessageAES(payload.content, sessionKey);
-            const packet = JSON.parse(plain);
-            if (replayProtection.validate(packet)) {
-                console.log(`\n[SECURE] ${senderId}: ${packet.payload}`);
+            const plain = session.decrypt(payload, senderId);
+            if (plain === null) return; // Rekey message, handled by the session
+            // Signed packets: check the signature against the peer's certified key
+            const certifiedKey = targetUser && senderId === targetUser.id ? targetUser.publicKey : undefined;
+            const { body, status } = openSignedPacket(plain, senderId, ca.userId!, certifiedKey);
+            const packet = JSON.parse(body);
+            if (replay.validate(packet)) {
+                console.log(`\n[SECURE] ${senderId}: ${packet.payload} ${signatureLabel(status, senderId)}`);
+                sendChallenges();
             } else {
                 console.log(`\n[REJECTED] Replay detected from ${senderId}`);
             }
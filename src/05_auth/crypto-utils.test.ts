@@ -0,0 +1,332 @@
+import { describe, it, before } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateKeyPairSync } from 'crypto';
+import {
+    KeyPair,
+    RevocationList,
+    createRootCertificate,
+    createIntermediateCertificate,
+    issueUserCertificate,
+    signStatement,
+    openStatement,
+    isRevoked,
+    createCertificateRequest,
+    verifyCertificateRequest,
+    getKeyFingerprint,
+    verifyCertificateChain,
+    parseCertificate,
+    signRegistrationChallenge,
+    verifyRegistrationChallenge,
+    KeyExchangeTranscript,
+    signKeyExchange,
+    verifyKeyExchange
+} from './crypto-utils';
+
+// RSA-2048 like generateRSAKeys(), without its console output
+const rsaKeys = (): KeyPair => generateKeyPairSync('rsa', {
+    modulusLength: 2048,
+    publicKeyEncoding: { type: 'spki', format: 'pem' },
+    privateKeyEncoding: { type: 'pkcs8', format: 'pem' }
+});
+
+// Root -> Issuing CA -> alice, the hierarchy the CA server runs
+interface Hierarchy {
+    rootKeys: KeyPair;
+    root: string;
+    intermediateKeys: KeyPair;
+    intermediate: string;
+    aliceKeys: KeyPair;
+    alice: string;
+}
+
+const createHierarchy = (): Hierarchy => {
+    const rootKeys = rsaKeys();
+    const root = createRootCertificate(rootKeys.publicKey, rootKeys.privateKey);
+    const intermediateKeys = rsaKeys();
+    const intermediate = createIntermediateCertificate({
+        name: 'Antigravity Issuing CA 1',
+        publicKey: intermediateKeys.publicKey,
+        issuerCertificate: root,
+        issuerPrivateKey: rootKeys.privateKey
+    });
+    const aliceKeys = rsaKeys();
+    const alice = issueUserCertificate({
+        userId: 'alice',
+        publicKey: aliceKeys.publicKey,
+        issuerCertificate: intermediate,
+        issuerPrivateKey: intermediateKeys.privateKey
+    });
+    return { rootKeys, root, intermediateKeys, intermediate, aliceKeys, alice };
+};
+
+describe('revocation lists', () => {
+    let pki: Hierarchy;
+    let crl: RevocationList;
+
+    before(() => {
+        pki = createHierarchy();
+        crl = {
+            version: 2,
+            issuer: 'Antigravity Issuing CA 1',
+            thisUpdate: Date.now(),
+            nextUpdate: Date.now() + 60_000,
+            revoked: [{ serialNumber: '0a1b', revokedAt: Date.now(), reason: 'keyCompromise' }]
+        };
+    });
+
+    it('opens a CRL signed by the root', () => {
+        const signed = signStatement(crl, pki.rootKeys.privateKey);
+        assert.deepEqual(openStatement<RevocationList>(signed, pki.root), crl);
+    });
+
+    it('opens a CRL signed by an intermediate that chains to the root', () => {
+        const signed = signStatement(crl, pki.intermediateKeys.privateKey, [pki.intermediate]);
+        assert.deepEqual(openStatement<RevocationList>(signed, pki.root), crl);
+    });
+
+    it('rejects a CRL whose content was changed after signing', () => {
+        const signed = signStatement(crl, pki.rootKeys.privateKey);
+        const tampered = { ...signed, content: JSON.stringify({ ...crl, revoked: [] }) };
+        assert.equal(openStatement(tampered, pki.root), null);
+    });
+
+    it('rejects a CRL signed by a key the signer chain does not certify', () => {
+        const signed = signStatement(crl, pki.rootKeys.privateKey, [pki.intermediate]);
+        assert.equal(openStatement(signed, pki.root), null);
+    });
+
+    it('rejects a signer chain from another root', () => {
+        const other = createHierarchy();
+        const signed = signStatement(crl, other.intermediateKeys.privateKey, [other.intermediate]);
+        assert.equal(openStatement(signed, pki.root), null);
+    });
+
+    it('rejects a CRL signed by a user certificate', () => {
+        const signed = signStatement(crl, pki.aliceKeys.privateKey, [pki.alice, pki.intermediate]);
+        assert.equal(openStatement(signed, pki.root), null);
+    });
+
+    it('looks up revoked serial numbers', () => {
+        assert.equal(isRevoked('0a1b', crl)?.reason, 'keyCompromise');
+        assert.equal(isRevoked('0a1c', crl), undefined);
+    });
+});
+
+describe('certificate requests (proof of possession)', () => {
+    let alice: KeyPair;
+    let bob: KeyPair;
+
+    before(() => {
+        alice = rsaKeys();
+        bob = rsaKeys();
+    });
+
+    it('accepts a CSR signed by the requested key over the challenge', () => {
+        const csr = createCertificateRequest('alice', alice.publicKey, alice.privateKey, 'nonce-1');
+        const check = verifyCertificateRequest(csr, 'nonce-1');
+        assert.ok(check.valid);
+        assert.equal(check.userId, 'alice');
+        assert.equal(getKeyFingerprint(check.publicKey), getKeyFingerprint(alice.publicKey));
+    });
+
+    it('rejects a CSR for a key the requester does not hold', () => {
+        const csr = createCertificateRequest('alice', bob.publicKey, alice.privateKey, 'nonce-1');
+        assert.deepEqual(verifyCertificateRequest(csr, 'nonce-1'), { valid: false, reason: 'CSR signature invalid (no proof of possession)' });
+    });
+
+    it('rejects a CSR answering another challenge', () => {
+        const csr = createCertificateRequest('alice', alice.publicKey, alice.privateKey, 'nonce-1');
+        assert.deepEqual(verifyCertificateRequest(csr, 'nonce-2'), { valid: false, reason: 'Challenge mismatch' });
+    });
+
+    it('rejects a malformed CSR', () => {
+        assert.deepEqual(verifyCertificateRequest('-----BEGIN CERTIFICATE REQUEST-----\nAAAA\n-----END CERTIFICATE REQUEST-----', 'nonce-1'), { valid: false, reason: 'Malformed CSR' });
+    });
+});
+
+describe('signed key exchange', () => {
+    let alice: KeyPair;
+    let mallory: KeyPair;
+    const transcript: KeyExchangeTranscript = {
+        initiatorId: 'alice',
+        responderId: 'bob',
+        timestamp: 1_700_000_000_000,
+        nonce: 'nonce-1',
+        encryptedKey: 'wrapped-session-key',
+        ratchetKey: 'ratchet-key',
+        replayStrategy: 'counter'
+    };
+
+    before(() => {
+        alice = rsaKeys();
+        mallory = rsaKeys();
+    });
+
+    it('verifies the initiator\'s signature over the transcript', () => {
+        assert.ok(verifyKeyExchange(transcript, signKeyExchange(transcript, alice.privateKey), alice.publicKey));
+    });
+
+    it('rejects any changed field', () => {
+        const signature = signKeyExchange(transcript, alice.privateKey);
+        const changes: Partial<KeyExchangeTranscript>[] = [
+            { initiatorId: 'mallory' },
+            { responderId: 'carol' },
+            { timestamp: transcript.timestamp + 1 },
+            { nonce: 'nonce-2' },
+            { encryptedKey: 'another-key' },
+            { ratchetKey: 'another-ratchet-key' },
+            { replayStrategy: 'timestamp' } // A relay downgrading the replay protection
+        ];
+        for (const change of changes) {
+            assert.equal(verifyKeyExchange({ ...transcript, ...change }, signature, alice.publicKey), false, JSON.stringify(change));
+        }
+    });
+
+    it('rejects a signature by another key, and malformed input', () => {
+        assert.equal(verifyKeyExchange(transcript, signKeyExchange(transcript, mallory.privateKey), alice.publicKey), false);
+        assert.equal(verifyKeyExchange(transcript, 'AAAA', alice.publicKey), false);
+        assert.equal(verifyKeyExchange(transcript, signKeyExchange(transcript, alice.privateKey), 'not a key'), false);
+    });
+});
+
+describe('certificate chains', () => {
+    let pki: Hierarchy;
+
+    before(() => {
+        pki = createHierarchy();
+    });
+
+    const rejection = (check: ReturnType<typeof verifyCertificateChain>): string => {
+        assert.equal(check.valid, false);
+        return check.valid ? '' : check.reason;
+    };
+
+    it('accepts a user certificate through its intermediate', () => {
+        const check = verifyCertificateChain(pki.alice, [pki.intermediate], pki.root);
+        assert.ok(check.valid);
+        assert.equal(check.certificate.userId, 'alice');
+        assert.equal(check.certificate.issuer, 'Antigravity Issuing CA 1');
+    });
+
+    it('rejects a chain missing the intermediate', () => {
+        assert.match(rejection(verifyCertificateChain(pki.alice, [], pki.root)), /^Issuer of "alice" does not match/);
+    });
+
+    it('rejects a chain ending at another root', () => {
+        const other = createHierarchy();
+        assert.match(rejection(verifyCertificateChain(pki.alice, [pki.intermediate], other.root)), /does not match|Bad signature/);
+    });
+
+    it('checks validity dates against the given time', () => {
+        const shortLived = issueUserCertificate({
+            userId: 'alice',
+            publicKey: pki.aliceKeys.publicKey,
+            issuerCertificate: pki.intermediate,
+            issuerPrivateKey: pki.intermediateKeys.privateKey,
+            validityMinutes: 1
+        });
+        assert.match(rejection(verifyCertificateChain(shortLived, [pki.intermediate], pki.root, new Date(Date.now() + 2 * 60_000))), /^Certificate "alice" expired at/);
+        assert.match(rejection(verifyCertificateChain(shortLived, [pki.intermediate], pki.root, new Date(Date.now() - 60_000))), /not yet valid$/);
+    });
+
+    it('rejects a CA certificate presented as a user identity', () => {
+        assert.equal(rejection(verifyCertificateChain(pki.intermediate, [], pki.root)), 'CA certificate presented as user identity');
+    });
+
+    it('rejects a user certificate acting as an issuer', () => {
+        const bobKeys = rsaKeys();
+        const bob = issueUserCertificate({
+            userId: 'bob',
+            publicKey: bobKeys.publicKey,
+            issuerCertificate: pki.alice,
+            issuerPrivateKey: pki.aliceKeys.privateKey
+        });
+        assert.equal(rejection(verifyCertificateChain(bob, [pki.alice, pki.intermediate], pki.root)), '"alice" is not allowed to sign certificates');
+    });
+
+    it('enforces the intermediate path length of 0', () => {
+        const subKeys = rsaKeys();
+        const sub = createIntermediateCertificate({
+            name: 'Sub CA',
+            publicKey: subKeys.publicKey,
+            issuerCertificate: pki.intermediate,
+            issuerPrivateKey: pki.intermediateKeys.privateKey
+        });
+        const carol = issueUserCertificate({
+            userId: 'carol',
+            publicKey: pki.aliceKeys.publicKey,
+            issuerCertificate: sub,
+            issuerPrivateKey: subKeys.privateKey
+        });
+        assert.equal(rejection(verifyCertificateChain(carol, [sub, pki.intermediate], pki.root)), 'Path length constraint of "Antigravity Issuing CA 1" exceeded');
+    });
+});
+
+describe('Ed25519 and P-256 subject keys', () => {
+    let pki: Hierarchy;
+
+    before(() => {
+        pki = createHierarchy();
+    });
+
+    const pem = { publicKeyEncoding: { type: 'spki', format: 'pem' }, privateKeyEncoding: { type: 'pkcs8', format: 'pem' } } as const;
+    const keyTypes: [string, () => KeyPair][] = [
+        ['Ed25519', () => generateKeyPairSync('ed25519', pem)],
+        ['P-256', () => generateKeyPairSync('ec', { namedCurve: 'prime256v1', ...pem })]
+    ];
+
+    for (const [name, generate] of keyTypes) {
+        describe(name, () => {
+            const keys = generate();
+            const other = generate();
+
+            it('proves possession with a CSR', () => {
+                const check = verifyCertificateRequest(createCertificateRequest('dave', keys.publicKey, keys.privateKey, 'nonce-1'), 'nonce-1');
+                assert.ok(check.valid);
+                assert.equal(check.userId, 'dave');
+                assert.equal(getKeyFingerprint(check.publicKey), getKeyFingerprint(keys.publicKey));
+
+                const forged = createCertificateRequest('dave', other.publicKey, keys.privateKey, 'nonce-1');
+                assert.deepEqual(verifyCertificateRequest(forged, 'nonce-1'), { valid: false, reason: 'CSR signature invalid (no proof of possession)' });
+            });
+
+            it('is certified for signing only, through the RSA CA chain', () => {
+                const dave = issueUserCertificate({
+                    userId: 'dave',
+                    publicKey: keys.publicKey,
+                    issuerCertificate: pki.intermediate,
+                    issuerPrivateKey: pki.intermediateKeys.privateKey
+                });
+                const check = verifyCertificateChain(dave, [pki.intermediate], pki.root);
+                assert.ok(check.valid);
+                assert.equal(getKeyFingerprint(check.certificate.publicKey), getKeyFingerprint(keys.publicKey));
+                assert.deepEqual(check.certificate.keyUsage, ['digitalSignature']);
+                assert.equal(parseCertificate(dave).userId, 'dave');
+
+                // Signed over the real key: swapping another key into the certificate breaks the signature
+                const der = (keyPem: string) => Buffer.from(keyPem.replace(/-----[^-]+-----|\s/g, ''), 'base64');
+                const tampered = der(dave);
+                der(other.publicKey).copy(tampered, tampered.indexOf(der(keys.publicKey)));
+                const tamperedPem = `-----BEGIN CERTIFICATE-----\n${tampered.toString('base64')}\n-----END CERTIFICATE-----`;
+                assert.equal(verifyCertificateChain(tamperedPem, [pki.intermediate], pki.root).valid, false);
+            });
+
+            it('signs registration challenges', () => {
+                const signature = signRegistrationChallenge('nonce-1', 'dave', keys.privateKey);
+                assert.ok(verifyRegistrationChallenge('nonce-1', 'dave', signature, keys.publicKey));
+                assert.equal(verifyRegistrationChallenge('nonce-1', 'mallory', signature, keys.publicKey), false);
+                assert.equal(verifyRegistrationChallenge('nonce-1', 'dave', signature, other.publicKey), false);
+            });
+        });
+    }
+
+    it('refuses other key types', () => {
+        const p384 = generateKeyPairSync('ec', { namedCurve: 'secp384r1', ...pem });
+        assert.throws(() => issueUserCertificate({
+            userId: 'erin',
+            publicKey: p384.publicKey,
+            issuerCertificate: pki.intermediate,
+            issuerPrivateKey: pki.intermediateKeys.privateKey
+        }));
+    });
+});
@@ -1,9 +1,638 @@
+import forge from 'node-forge';
+import { createHash, createPublicKey, randomBytes, sign, verify, X509Certificate } from 'crypto';
+import {
+    signMessage,
+    verifySignature,
+    signWithAlgorithm,
+    verifyWithAlgorithm,
+    signatureAlgorithmsForKey,
+    SignatureAlgorithm,
+    ReplayStrategyName
+} from '../04_replay/crypto-utils';
 
 export * from '../04_replay/crypto-utils';
 
+// --- X.509 CERTIFICATES ---
+// Certificates travel as PEM strings. They are real X.509 v3 certificates, so
+// `openssl x509 -in cert.pem -text -noout` can inspect anything the CA issues.
+
+export const CA_NAME = 'Antigravity Root CA';
+export const INTERMEDIATE_CA_PREFIX = 'Antigravity Issuing CA';
+
+// URI Subject Alternative Name carrying the chat identity (CN is for humans, SAN for machines)
+const USER_URN_PREFIX = 'urn:chatapp:user:';
+
+// Parsed view of a certificate. Only ever produced by parseCertificate(), never trusted from the wire.
 export interface Certificate {
+    serialNumber: string;
+    userId: string;            // Subject CN
+    publicKey: string;         // Subject public key (SPKI PEM)
+    issuer: string;            // Issuer CN
+    notBefore: Date;
+    notAfter: Date;
+    keyUsage: string[];        // e.g. ['digitalSignature', 'keyEncipherment']
+    subjectAltNames: string[];
+    isCA: boolean;
+    pathLength?: number;       // basicConstraints pathLenConstraint (undefined = unlimited)
+    pem: string;
+}
+
+export type CertificateCheck =
+    | { valid: true; certificate: Certificate }
+    | { valid: false; reason: string };
+
+const KEY_USAGE_FLAGS = [
+    'digitalSignature', 'nonRepudiation', 'keyEncipherment', 'dataEncipherment',
+    'keyAgreement', 'keyCertSign', 'cRLSign'
+];
+
+// SHA-256 over the DER SubjectPublicKeyInfo, so PEM formatting differences don't matter
+export const getKeyFingerprint = (publicKey: string): string => {
+    const der = createPublicKey(publicKey).export({ type: 'spki', format: 'der' });
+    return createHash('sha256').update(der).digest('hex');
+};
+
+// Positive 128-bit serial (top bit cleared so DER doesn't read it as negative)
+export const generateSerialNumber = (): string => {
+    const bytes = randomBytes(16);
+    bytes[0] &= 0x7f;
+    return bytes.toString('hex');
+};
+
+// --- Ed25519 AND P-256 SUBJECT KEYS ---
+// forge reads and writes RSA keys only. Certificates and CSRs for Ed25519 and P-256 keys (Phase 6
+// identities) are built and read with an RSA placeholder in the SubjectPublicKeyInfo: the real
+// key is put in before signing, and taken out of a copy only so forge can read the other fields.
+// Signatures are always made and checked over the real bytes. CA keys stay RSA.
+
+const PLACEHOLDER_KEY = forge.pki.rsa.setPublicKey(new forge.jsbn.BigInteger('1'), new forge.jsbn.BigInteger('65537'));
+
+// X.509 signature algorithms of CSRs self-signed with such keys (ECDSA signatures in DER here)
+const REQUEST_SIGNATURE_OIDS: Record<string, string> = { 'ed25519': '1.3.101.112', 'ecdsa-p256-sha256': '1.2.840.10045.4.3.2' };
+
+const isRsaKey = (publicKeyPem: string) => createPublicKey(publicKeyPem).asymmetricKeyType === 'rsa';
+
+const spkiDer = (publicKeyPem: string) => createPublicKey(publicKeyPem).export({ type: 'spki', format: 'der' });
+
+const spkiToPem = (spki: forge.asn1.Asn1): string =>
+    createPublicKey({ key: Buffer.from(forge.asn1.toDer(spki).getBytes(), 'binary'), format: 'der', type: 'spki' })
+        .export({ type: 'spki', format: 'pem' }) as string;
+
+// TBSCertificate: [0] version (optional), serial, signature, issuer, validity, subject, subjectPublicKeyInfo, ...
+const certificateKeyIndex = (tbs: forge.asn1.Asn1) =>
+    (tbs.value as forge.asn1.Asn1[])[0].tagClass === forge.asn1.Class.CONTEXT_SPECIFIC ? 6 : 5;
+
+// CertificationRequestInfo: version, subject, subjectPKInfo, attributes
+const REQUEST_KEY_INDEX = 2;
+
+/**
+ * Parses a PEM certificate or CSR with forge, whatever its subject key.
+ * @returns forge's view (with the real signed bytes) and the subject key as SPKI PEM
+ * @throws if malformed, or for subject keys other than RSA, Ed25519 and P-256
+ */
+const readSigned = <T extends forge.pki.Certificate | forge.pki.CertificateSigningRequest>(
+    pem: string,
+    fromAsn1: (obj: forge.asn1.Asn1) => T,
+    keyIndex: (info: forge.asn1.Asn1) => number
+): { parsed: T; publicKey: string } => {
+    const der = forge.pem.decode(pem)[0].body;
+    const real = forge.asn1.fromDer(der);
+    const info = (real.value as forge.asn1.Asn1[])[0];
+    const publicKey = spkiToPem((info.value as forge.asn1.Asn1[])[keyIndex(info)]);
+    if (isRsaKey(publicKey)) {
+        const parsed = fromAsn1(real);
+        return { parsed, publicKey: forge.pki.publicKeyToPem(parsed.publicKey as forge.pki.rsa.PublicKey) };
+    }
+    if (signatureAlgorithmsForKey(publicKey).length === 0) throw new Error('Unsupported subject key');
+
+    const readable = forge.asn1.fromDer(der);
+    const readableInfo = (readable.value as forge.asn1.Asn1[])[0];
+    (readableInfo.value as forge.asn1.Asn1[])[keyIndex(readableInfo)] = forge.pki.publicKeyToAsn1(PLACEHOLDER_KEY);
+    const parsed = fromAsn1(readable);
+    if ('tbsCertificate' in parsed) parsed.tbsCertificate = info;
+    else parsed.certificationRequestInfo = info;
+    return { parsed, publicKey };
+};
+
+const readCertificate = (pem: string) =>
+    readSigned(pem, obj => forge.pki.certificateFromAsn1(obj), certificateKeyIndex);
+
+const readCertificateRequest = (pem: string) =>
+    readSigned(pem, obj => forge.pki.certificationRequestFromAsn1(obj), () => REQUEST_KEY_INDEX);
+
+/**
+ * Creates the self-signed root certificate that acts as the Trust Anchor.
+ * pathLenConstraint 1: the root signs intermediates, only intermediates sign users.
+ */
+export const createRootCertificate = (publicKeyPem: string, privateKeyPem: string, validityDays: number = 3650): string => {
+    const cert = forge.pki.createCertificate();
+    cert.publicKey = forge.pki.publicKeyFromPem(publicKeyPem);
+    cert.serialNumber = generateSerialNumber();
+    cert.validity.notBefore = new Date();
+    cert.validity.notAfter = new Date(Date.now() + validityDays * 24 * 60 * 60 * 1000);
+
+    const name = [{ name: 'commonName', value: CA_NAME }];
+    cert.setSubject(name);
+    cert.setIssuer(name);
+    cert.setExtensions([
+        { name: 'basicConstraints', cA: true, pathLenConstraint: 1, critical: true },
+        { name: 'keyUsage', keyCertSign: true, cRLSign: true, critical: true },
+        { name: 'subjectKeyIdentifier' }
+    ]);
+
+    cert.sign(forge.pki.privateKeyFromPem(privateKeyPem), forge.md.sha256.create());
+    return forge.pki.certificateToPem(cert);
+};
+
+/**
+ * Creates an intermediate (issuing) CA certificate signed by the root.
+ * pathLenConstraint 0: it may sign user certificates but no further CAs.
+ */
+export const createIntermediateCertificate = (options: {
+    name: string;
+    publicKey: string;
+    issuerCertificate: string;
+    issuerPrivateKey: string;
+    validityDays?: number;
+}): string => {
+    const issuerCert = forge.pki.certificateFromPem(options.issuerCertificate);
+    const cert = forge.pki.createCertificate();
+    cert.publicKey = forge.pki.publicKeyFromPem(options.publicKey);
+    cert.serialNumber = generateSerialNumber();
+    cert.validity.notBefore = new Date();
+    cert.validity.notAfter = new Date(Date.now() + (options.validityDays ?? 3 * 365) * 24 * 60 * 60 * 1000);
+
+    cert.setSubject([{ name: 'commonName', value: options.name }]);
+    cert.setIssuer(issuerCert.subject.attributes);
+    cert.setExtensions([
+        { name: 'basicConstraints', cA: true, pathLenConstraint: 0, critical: true },
+        { name: 'keyUsage', keyCertSign: true, cRLSign: true, critical: true },
+        { name: 'subjectKeyIdentifier' }
+    ]);
+
+    cert.sign(forge.pki.privateKeyFromPem(options.issuerPrivateKey), forge.md.sha256.create());
+    return forge.pki.certificateToPem(cert);
+};
+
+export const DEFAULT_USER_CERT_MINUTES = 365 * 24 * 60;
+
+/**
+ * Issues an end-entity certificate binding `userId` to `publicKey`.
+ * Signed by the issuer's private key (SHA-256 with RSA).
+ */
+export const issueUserCertificate = (options: {
     userId: string;
-    publicKey: string; // The user's public key
-    issuer: string;    // "Antigravity Root CA"
-    signature: string; // CA's signature of (userId + publicKey)
+    publicKey: string;
+    issuerCertificate: string;
+    issuerPrivateKey: string;
+    serialNumber?: string;
+    validityMinutes?: number; // Default 1 year. Short lifetimes are fine, clients renew in the background.
+}): string => {
+    const issuerCert = forge.pki.certificateFromPem(options.issuerCertificate);
+    const cert = forge.pki.createCertificate();
+    const rsa = isRsaKey(options.publicKey);
+    if (!rsa && signatureAlgorithmsForKey(options.publicKey).length === 0) throw new Error('Unsupported key type');
+    cert.publicKey = rsa ? forge.pki.publicKeyFromPem(options.publicKey) : PLACEHOLDER_KEY;
+    if (!rsa) {
+        // RFC 7093 method 4: SHA-1 over the whole SubjectPublicKeyInfo (forge would hash the placeholder)
+        cert.generateSubjectKeyIdentifier = () => forge.util.createBuffer(createHash('sha1').update(spkiDer(options.publicKey)).digest('binary'));
+    }
+    cert.serialNumber = options.serialNumber || generateSerialNumber();
+    cert.validity.notBefore = new Date();
+    cert.validity.notAfter = new Date(Date.now() + (options.validityMinutes ?? DEFAULT_USER_CERT_MINUTES) * 60 * 1000);
+
+    cert.setSubject([{ name: 'commonName', value: options.userId }]);
+    cert.setIssuer(issuerCert.subject.attributes);
+    cert.setExtensions([
+        { name: 'basicConstraints', cA: false, critical: true },
+        // digitalSignature: handshake signatures, keyEncipherment: RSA-OAEP session key transport (RSA keys only)
+        { name: 'keyUsage', digitalSignature: true, keyEncipherment: rsa, critical: true },
+        { name: 'extKeyUsage', clientAuth: true },
+        { name: 'subjectAltName', altNames: [{ type: 6, value: USER_URN_PREFIX + options.userId }] },
+        { name: 'subjectKeyIdentifier' }
+    ]);
+
+    const issuerKey = forge.pki.privateKeyFromPem(options.issuerPrivateKey);
+    cert.sign(issuerKey, forge.md.sha256.create());
+    if (!rsa) {
+        // Put the real key in and sign again: the placeholder never leaves this function
+        const tbs = cert.tbsCertificate;
+        (tbs.value as forge.asn1.Asn1[])[certificateKeyIndex(tbs)] = forge.asn1.fromDer(spkiDer(options.publicKey).toString('binary'));
+        const md = forge.md.sha256.create();
+        md.update(forge.asn1.toDer(tbs).getBytes());
+        cert.signature = issuerKey.sign(md);
+    }
+    return forge.pki.certificateToPem(cert);
+};
+
+/**
+ * Decodes a PEM certificate into the fields the chat protocol cares about.
+ * Throws if the PEM is not a parseable X.509 certificate.
+ */
+export const parseCertificate = (pem: string): Certificate => {
+    const { parsed: cert, publicKey } = readCertificate(pem);
+
+    const keyUsageExt: any = cert.getExtension('keyUsage');
+    const sanExt: any = cert.getExtension('subjectAltName');
+    const basicConstraints: any = cert.getExtension('basicConstraints');
+
+    return {
+        serialNumber: cert.serialNumber,
+        userId: cert.subject.getField('CN')?.value || '',
+        publicKey,
+        issuer: cert.issuer.getField('CN')?.value || '',
+        notBefore: cert.validity.notBefore,
+        notAfter: cert.validity.notAfter,
+        keyUsage: keyUsageExt ? KEY_USAGE_FLAGS.filter(flag => keyUsageExt[flag]) : [],
+        subjectAltNames: sanExt ? sanExt.altNames.map((n: any) => n.value) : [],
+        isCA: !!basicConstraints?.cA,
+        pathLength: typeof basicConstraints?.pathLenConstraint === 'number' ? basicConstraints.pathLenConstraint : undefined,
+        pem
+    };
+};
+
+/**
+ * Walks a certification path (subject first, trust anchor last) and checks for every link:
+ * 1. Linkage: the child's issuer name is the parent's subject name
+ * 2. Signature: the parent's key verifies the child
+ * 3. Dates: now is within [notBefore, notAfter] for every certificate
+ * 4. CA constraints: every parent is a CA allowed to sign certificates, within its path length
+ */
+const checkPath = (pems: string[], trustAnchorPem: string, now: Date): string | null => {
+    let path: forge.pki.Certificate[];
+    try {
+        path = [...pems, trustAnchorPem].map(pem => readCertificate(pem).parsed);
+    } catch (e) {
+        return 'Malformed certificate';
+    }
+
+    for (let i = 0; i < path.length - 1; i++) {
+        const child = path[i];
+        const parent = path[i + 1];
+        const name = child.subject.getField('CN')?.value;
+
+        if (!child.isIssuer(parent)) return `Issuer of "${name}" does not match the next certificate in the chain`;
+        try {
+            if (!parent.verify(child)) return `Bad signature on "${name}"`;
+        } catch (e) {
+            return `Bad signature on "${name}"`;
+        }
+    }
+
+    for (const c of path) {
+        const name = c.subject.getField('CN')?.value;
+        if (now < c.validity.notBefore) return `Certificate "${name}" not yet valid`;
+        if (now > c.validity.notAfter) return `Certificate "${name}" expired at ${c.validity.notAfter.toISOString()}`;
+    }
+
+    // path[j] (j >= 1) issues certificates; (j - 1) intermediate CAs sit below it
+    for (let j = 1; j < path.length; j++) {
+        const issuer = parseCertificate(j === path.length - 1 ? trustAnchorPem : pems[j]);
+        if (!issuer.isCA || !issuer.keyUsage.includes('keyCertSign')) {
+            return `"${issuer.userId}" is not allowed to sign certificates`;
+        }
+        if (issuer.pathLength !== undefined && j - 1 > issuer.pathLength) {
+            return `Path length constraint of "${issuer.userId}" exceeded`;
+        }
+    }
+
+    return null;
+};
+
+/**
+ * Validates a user certificate through its chain of intermediates up to the trust anchor.
+ * `chain` lists the issuing certificates, starting with the leaf's issuer (root excluded).
+ * Besides the path checks, the leaf must be a non-CA key usable for signatures, and RSA keys for key
+ * transport too. Ed25519 and P-256 keys only sign (Phase 6): Phase 5 refuses them at registration.
+ */
+export const verifyCertificateChain = (pem: string, chain: string[], trustAnchorPem: string, now: Date = new Date()): CertificateCheck => {
+    const pathError = checkPath([pem, ...chain], trustAnchorPem, now);
+    if (pathError) return { valid: false, reason: pathError };
+
+    const certificate = parseCertificate(pem);
+    if (certificate.isCA) {
+        return { valid: false, reason: 'CA certificate presented as user identity' };
+    }
+    if (!certificate.keyUsage.includes('digitalSignature') || (isRsaKey(certificate.publicKey) && !certificate.keyUsage.includes('keyEncipherment'))) {
+        return { valid: false, reason: 'Key usage does not allow chat' };
+    }
+    if (!certificate.userId || !certificate.subjectAltNames.includes(USER_URN_PREFIX + certificate.userId)) {
+        return { valid: false, reason: 'Subject name mismatch' };
+    }
+
+    return { valid: true, certificate };
+};
+
+// Single-link version, for certificates issued directly by the trust anchor
+export const verifyCertificate = (pem: string, caCertificatePem: string, now: Date = new Date()): CertificateCheck => {
+    return verifyCertificateChain(pem, [], caCertificatePem, now);
+};
+
+// --- CERTIFICATE SIGNING REQUESTS (Proof-of-Possession) ---
+// A PKCS#10 CSR is self-signed with the private key matching the requested public key.
+// The CA's one-time challenge nonce goes in the challengePassword attribute, so a CSR
+// can't be replayed and can only be produced by whoever holds the private key.
+
+export type CertificateRequestCheck =
+    | { valid: true; userId: string; publicKey: string }
+    | { valid: false; reason: string };
+
+export const createCertificateRequest = (userId: string, publicKey: string, privateKey: string, challenge: string): string => {
+    const csr = forge.pki.createCertificationRequest();
+    const rsa = isRsaKey(publicKey);
+    csr.publicKey = rsa ? forge.pki.publicKeyFromPem(publicKey) : PLACEHOLDER_KEY;
+    csr.setSubject([{ name: 'commonName', value: userId }]);
+    csr.setAttributes([{ name: 'challengePassword', value: challenge }]);
+    if (rsa) {
+        csr.sign(forge.pki.privateKeyFromPem(privateKey), forge.md.sha256.create());
+        return forge.pki.certificationRequestToPem(csr);
+    }
+
+    // forge cannot sign with Ed25519 or P-256 keys: put the real key in and sign with Node
+    const algorithm = signatureAlgorithmsForKey(publicKey)[0];
+    if (!algorithm) throw new Error('Unsupported key type');
+    csr.signatureOid = REQUEST_SIGNATURE_OIDS[algorithm];
+    const info = (forge.pki.certificationRequestToAsn1(csr).value as forge.asn1.Asn1[])[0];
+    (info.value as forge.asn1.Asn1[])[REQUEST_KEY_INDEX] = forge.asn1.fromDer(spkiDer(publicKey).toString('binary'));
+    const signature = sign(algorithm === 'ed25519' ? null : 'sha256', Buffer.from(forge.asn1.toDer(info).getBytes(), 'binary'), privateKey);
+
+    const { create, Class, Type } = forge.asn1;
+    const request = create(Class.UNIVERSAL, Type.SEQUENCE, true, [
+        info,
+        create(Class.UNIVERSAL, Type.SEQUENCE, true, [
+            create(Class.UNIVERSAL, Type.OID, false, forge.asn1.oidToDer(REQUEST_SIGNATURE_OIDS[algorithm]).getBytes())
+        ]),
+        create(Class.UNIVERSAL, Type.BITSTRING, false, '\x00' + signature.toString('binary'))
+    ]);
+    return forge.pem.encode({ type: 'CERTIFICATE REQUEST', body: forge.asn1.toDer(request).getBytes() });
+};
+
+// forge checks RSA signatures, Node the others (over the real CertificationRequestInfo)
+const verifyRequestSignature = (csr: forge.pki.CertificateSigningRequest, publicKey: string): boolean => {
+    if (isRsaKey(publicKey)) return csr.verify();
+    const algorithm = signatureAlgorithmsForKey(publicKey)[0];
+    if (csr.signatureOid !== REQUEST_SIGNATURE_OIDS[algorithm]) return false;
+    const info = Buffer.from(forge.asn1.toDer(csr.certificationRequestInfo!).getBytes(), 'binary');
+    return verify(algorithm === 'ed25519' ? null : 'sha256', info, publicKey, Buffer.from(csr.signature, 'binary'));
+};
+
+/**
+ * Checks a CSR's self-signature and that it answers the CA's challenge.
+ */
+export const verifyCertificateRequest = (pem: string, expectedChallenge: string): CertificateRequestCheck => {
+    let csr: forge.pki.CertificateSigningRequest;
+    let publicKey: string;
+    try {
+        ({ parsed: csr, publicKey } = readCertificateRequest(pem));
+    } catch (e) {
+        return { valid: false, reason: 'Malformed CSR' };
+    }
+
+    try {
+        if (!verifyRequestSignature(csr, publicKey)) return { valid: false, reason: 'CSR signature invalid (no proof of possession)' };
+    } catch (e) {
+        return { valid: false, reason: 'CSR signature invalid (no proof of possession)' };
+    }
+
+    const challenge = csr.getAttribute({ name: 'challengePassword' });
+    if (!challenge || challenge.value !== expectedChallenge) {
+        return { valid: false, reason: 'Challenge mismatch' };
+    }
+
+    const userId = csr.subject.getField('CN')?.value;
+    if (!userId) return { valid: false, reason: 'CSR has no subject CN' };
+
+    return { valid: true, userId, publicKey };
+};
+
+// --- CHAT SERVER REGISTRATION (Proof of holding the certified key) ---
+// The chat server sends a fresh nonce; the client signs it together with its certified userId.
+// The context prefix keeps this signature from being reused anywhere else in the protocol.
+
+const REGISTRATION_CONTEXT = 'chatapp-phase5-register';
+
+// Proofs of holding the certified key: PKCS#1 v1.5 for RSA keys, and the only algorithm
+// Ed25519 and P-256 keys (Phase 6 identities) have
+const proofAlgorithm = (keyPem: string): SignatureAlgorithm => {
+    const usable = signatureAlgorithmsForKey(keyPem);
+    return usable.includes('rsa-pkcs1-sha256') ? 'rsa-pkcs1-sha256' : usable[0];
+};
+
+const signProof = (message: string, privateKey: string) => signWithAlgorithm(proofAlgorithm(privateKey), message, privateKey);
+
+const verifyProof = (message: string, signature: string, publicKey: string) => {
+    try {
+        return verifyWithAlgorithm(proofAlgorithm(publicKey), message, signature, publicKey);
+    } catch (e) {
+        return false; // Malformed key
+    }
+};
+
+export const signRegistrationChallenge = (nonce: string, userId: string, privateKey: string): string => {
+    return signProof(`${REGISTRATION_CONTEXT}|${userId}|${nonce}`, privateKey);
+};
+
+export const verifyRegistrationChallenge = (nonce: string, userId: string, signature: string, publicKey: string): boolean => {
+    return verifyProof(`${REGISTRATION_CONTEXT}|${userId}|${nonce}`, signature, publicKey);
+};
+
+// --- RENEWAL ---
+// A holder renews before expiry by sending a fresh CSR (over a CA challenge) together with its current
+// certificate, and signs both with the key of that still-valid certificate.
+// The CA thereby knows the request comes from the current holder, even when the CSR carries a new key.
+
+const RENEWAL_CONTEXT = 'chatapp-phase5-renew';
+
+export const signRenewalRequest = (serialNumber: string, nonce: string, csr: string, privateKey: string): string => {
+    return signProof(`${RENEWAL_CONTEXT}|${serialNumber}|${nonce}|${csr}`, privateKey);
+};
+
+export const verifyRenewalRequest = (serialNumber: string, nonce: string, csr: string, signature: string, publicKey: string): boolean => {
+    return verifyProof(`${RENEWAL_CONTEXT}|${serialNumber}|${nonce}|${csr}`, signature, publicKey);
+};
+
+// --- REVOCATION ---
+// CRLs and status responses are JSON statements signed by the issuing CA key.
+// The signature covers the exact `content` string, so clients parse only after verifying.
+
+export interface SignedStatement {
+    content: string;        // JSON of the statement
+    signature: string;      // CA signature over content (base64)
+    signerChain?: string[]; // Signing CA certificate + its issuers (root excluded). Absent = signed by the root.
+}
+
+export interface RevokedEntry {
+    serialNumber: string;
+    revokedAt: number;
+    reason: string;
+}
+
+export interface RevocationList {
+    version: number;    // CRL number, increases with every revocation
+    issuer: string;
+    thisUpdate: number;
+    nextUpdate: number; // Clients may cache the list until this time
+    revoked: RevokedEntry[];
+}
+
+export interface CertificateStatus {
+    serialNumber: string;
+    status: 'good' | 'revoked' | 'unknown';
+    revokedAt?: number;
+    reason?: string;
+    producedAt: number;
+    nextUpdate: number;
+}
+
+export const signStatement = (statement: object, privateKey: string, signerChain?: string[]): SignedStatement => {
+    const content = JSON.stringify(statement);
+    return { content, signature: signMessage(content, privateKey), signerChain };
+};
+
+/**
+ * Verifies a CA-signed statement. When a signer chain is attached, the signer must chain up
+ * to the trust anchor and be allowed to sign CRLs.
+ * @returns the parsed statement, or null if the chain or signature is bad.
+ */
+export const openStatement = <T>(signed: SignedStatement, trustAnchorPem: string, now: Date = new Date()): T | null => {
+    try {
+        let signerPem = trustAnchorPem;
+        if (signed.signerChain && signed.signerChain.length > 0) {
+            if (checkPath(signed.signerChain, trustAnchorPem, now)) return null;
+            signerPem = signed.signerChain[0];
+        }
+
+        const signer = parseCertificate(signerPem);
+        if (!signer.isCA || !signer.keyUsage.includes('cRLSign')) return null;
+        if (!verifySignature(signed.content, signed.signature, signer.publicKey)) return null;
+        return JSON.parse(signed.content) as T;
+    } catch (e) {
+        return null;
+    }
+};
+
+export const isRevoked = (serialNumber: string, crl: RevocationList): RevokedEntry | undefined => {
+    return crl.revoked.find(entry => entry.serialNumber === serialNumber);
+};
+
+// --- AUTHENTICATED KEY EXCHANGE ---
+// The initiator signs the wrapped session key together with both identities, a timestamp and a nonce.
+// The responder checks the signature against the initiator's certificate before installing the key,
+// so a key_exchange can neither be forged nor redirected to a different pair of users.
+
+export interface KeyExchangeTranscript {
+    initiatorId: string;  // Certified userId of the sender
+    responderId: string;  // Certified userId of the intended recipient
+    timestamp: number;
+    nonce: string;
+    encryptedKey: string; // Session key wrapped with the responder's public key
+    ratchetKey: string;   // Initiator's first Double Ratchet public key
+    replayStrategy: ReplayStrategyName; // Signed, so the relay can't downgrade it
+}
+
+const KEY_EXCHANGE_CONTEXT = 'chatapp-phase5-key-exchange';
+
+const keyExchangeMessage = (t: KeyExchangeTranscript): string =>
+    [KEY_EXCHANGE_CONTEXT, t.initiatorId, t.responderId, t.timestamp, t.nonce, t.encryptedKey, t.ratchetKey, t.replayStrategy].join('|');
+
+export const signKeyExchange = (transcript: KeyExchangeTranscript, privateKey: string): string => {
+    return signMessage(keyExchangeMessage(transcript), privateKey);
+};
+
+export const verifyKeyExchange = (transcript: KeyExchangeTranscript, signature: string, publicKey: string): boolean => {
+    try {
+        return verifySignature(keyExchangeMessage(transcript), signature, publicKey);
+    } catch (e) {
+        return false;
+    }
+};
+
+// --- CERTIFICATE TRANSPARENCY (RFC 6962 / 9162 style Merkle tree) ---
+// Every issued certificate is appended to a public, append-only log. The CA signs tree heads;
+// inclusion proofs show a certificate is in the log, consistency proofs show the log only grew.
+// Leaves are the certificate DER, so PEM formatting does not change the hash.
+// Hashes travel as hex strings.
+
+export interface TreeHead {
+    treeSize: number;
+    rootHash: string;
+    timestamp: number;
 }
+
+const sha256 = (...parts: Buffer[]): Buffer => createHash('sha256').update(Buffer.concat(parts)).digest();
+
+// Domain separation: 0x00 for leaves, 0x01 for interior nodes (no second-preimage tricks)
+export const hashLeaf = (data: Buffer): Buffer => sha256(Buffer.from([0x00]), data);
+export const hashChildren = (left: Buffer, right: Buffer): Buffer => sha256(Buffer.from([0x01]), left, right);
+export const EMPTY_TREE_HASH = sha256().toString('hex');
+
+export const certificateLeafHash = (pem: string): Buffer => hashLeaf(new X509Certificate(pem).raw);
+
+/**
+ * Checks that `leafHash` sits at `leafIndex` in the tree of `treeSize` leaves with `rootHash`
+ * (RFC 9162, 2.1.3.2).
+ */
+export const verifyInclusionProof = (leafHash: Buffer, leafIndex: number, treeSize: number, proof: string[], rootHash: string): boolean => {
+    if (leafIndex < 0 || leafIndex >= treeSize) return false;
+
+    let fn = leafIndex;
+    let sn = treeSize - 1;
+    let r = leafHash;
+    for (const hex of proof) {
+        const p = Buffer.from(hex, 'hex');
+        if (sn === 0) return false;
+        if ((fn & 1) === 1 || fn === sn) {
+            r = hashChildren(p, r);
+            while ((fn & 1) === 0 && fn !== 0) {
+                fn >>= 1;
+                sn >>= 1;
+            }
+        } else {
+            r = hashChildren(r, p);
+        }
+        fn >>= 1;
+        sn >>= 1;
+    }
+    return sn === 0 && r.toString('hex') === rootHash;
+};
+
+/**
+ * Checks that the tree of `secondSize` leaves (`secondRoot`) extends the tree of `firstSize`
+ * leaves (`firstRoot`) without changing any of its entries (RFC 9162, 2.1.4.2).
+ */
+export const verifyConsistencyProof = (firstSize: number, secondSize: number, firstRoot: string, secondRoot: string, proof: string[]): boolean => {
+    if (firstSize > secondSize) return false;
+    if (firstSize === secondSize) return proof.length === 0 && firstRoot === secondRoot;
+    if (firstSize === 0) return proof.length === 0; // The empty tree is a prefix of everything
+    if (proof.length === 0) return false;
+
+    // A complete (power of two) first tree is itself a node of the second one
+    const path = (firstSize & (firstSize - 1)) === 0 ? [firstRoot, ...proof] : proof;
+
+    let fn = firstSize - 1;
+    let sn = secondSize - 1;
+    while ((fn & 1) === 1) {
+        fn >>= 1;
+        sn >>= 1;
+    }
+
+    let fr: Buffer = Buffer.from(path[0], 'hex');
+    let sr = fr;
+    for (const hex of path.slice(1)) {
+        const c = Buffer.from(hex, 'hex');
+        if (sn === 0) return false;
+        if ((fn & 1) === 1 || fn === sn) {
+            fr = hashChildren(c, fr);
+            sr = hashChildren(c, sr);
+            while ((fn & 1) === 0 && fn !== 0) {
+                fn >>= 1;
+                sn >>= 1;
+            }
+        } else {
+            sr = hashChildren(sr, c);
+        }
+        fn >>= 1;
+        sn >>= 1;
+    }
+    return sn === 0 && fr.toString('hex') === firstRoot && sr.toString('hex') === secondRoot;
+};
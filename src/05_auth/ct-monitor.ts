@@ -0,0 +1,135 @@
+import WebSocket from 'ws';
+import {
+    certificateLeafHash,
+    getKeyFingerprint,
+    openStatement,
+    parseCertificate,
+    TreeHead
+} from './crypto-utils';
+import { merkleTreeHash, LogEntry } from './transparency-log';
+import { ProtocolError, parseFrame, CA_RESPONSES } from '../03_encryption/protocol';
+
+// --- CERTIFICATE TRANSPARENCY MONITOR ---
+// Downloads the whole log, recomputes the Merkle tree and checks it against every signed tree head,
+// then reports each certificate issued under the watched User ID.
+// Usage:
+//   node dist/05_auth/ct-monitor.js <userId> [keyFingerprint]
+// With a key fingerprint (sha256 of your SPKI), certificates for any other key are flagged.
+// CT_POLL_SECONDS sets the polling interval (default 10).
+
+const CA_URL = process.env.CA_URL || 'ws://localhost:8084';
+const POLL_MS = (Number(process.env.CT_POLL_SECONDS) || 10) * 1000;
+
+const [userId, expectedFingerprint] = process.argv.slice(2);
+if (!userId) {
+    console.log('Usage: ct-monitor.js <userId> [keyFingerprint]');
+    process.exit(1);
+}
+
+let caRootCertificate: string | null = null;
+let head: TreeHead | null = null;    // Last verified tree head
+let pending: TreeHead | null = null; // Tree head we are fetching entries for
+const leaves: Buffer[] = [];         // Leaf hashes of every entry so far
+
+const ws = new WebSocket(CA_URL);
+
+const alert = (message: string) => console.error(`\n[ALERT] ${message}`);
+
+const pollTreeHead = () => ws.send(JSON.stringify({ type: 'get_sth' }));
+
+const fetchEntries = () => ws.send(JSON.stringify({ type: 'get_entries', start: leaves.length, end: pending!.treeSize }));
+
+const inspectEntry = (entry: LogEntry) => {
+    const cert = parseCertificate(entry.certificate);
+    if (cert.userId !== userId) return;
+
+    const fingerprint = getKeyFingerprint(cert.publicKey);
+    console.log(`[MATCH] #${entry.index} serial ${cert.serialNumber} issued by ${cert.issuer}, ` +
+        `valid ${cert.notBefore.toISOString()} -> ${cert.notAfter.toISOString()}, key ${fingerprint.slice(0, 16)}...`);
+    if (expectedFingerprint && fingerprint !== expectedFingerprint) {
+        alert(`Certificate #${entry.index} for ${userId} is bound to a key that is NOT yours (${fingerprint}).`);
+    }
+};
+
+ws.on('open', () => {
+    console.log(`Watching ${CA_URL} for certificates issued to "${userId}"...`);
+    ws.send(JSON.stringify({ type: 'get_root_key' }));
+});
+
+ws.on('message', (data) => {
+    let msg;
+    try {
+        msg = parseFrame(data.toString(), CA_RESPONSES);
+    } catch (e) {
+        if (!(e instanceof ProtocolError)) throw e;
+        alert(`Malformed CA response: ${e.message} (${e.code})`);
+        if (!caRootCertificate) process.exit(1); // Nothing can be verified without the trust anchor
+        pending = null; // Start over from the last verified tree head
+        setTimeout(pollTreeHead, POLL_MS);
+        return;
+    }
+
+    if (msg.type === 'root_key') {
+        caRootCertificate = msg.certificate;
+        pollTreeHead();
+    }
+    else if (msg.type === 'sth') {
+        const sth = openStatement<TreeHead>(msg.payload, caRootCertificate!);
+        if (!sth) {
+            alert('Tree head signature invalid.');
+        }
+        else if (head && sth.treeSize < head.treeSize) {
+            alert(`Log shrank from ${head.treeSize} to ${sth.treeSize} entries (rollback).`);
+        }
+        else if (head && sth.treeSize === head.treeSize) {
+            if (sth.rootHash !== head.rootHash) alert('Same log size, different root hash (fork).');
+        }
+        else {
+            pending = sth;
+            fetchEntries();
+            return;
+        }
+        setTimeout(pollTreeHead, POLL_MS);
+    }
+    else if (msg.type === 'entries') {
+        const entries: LogEntry[] = msg.entries;
+        for (const entry of entries) {
+            if (entry.index !== leaves.length) {
+                alert(`Expected entry #${leaves.length}, got #${entry.index}.`);
+                process.exit(1);
+            }
+            leaves.push(certificateLeafHash(entry.certificate));
+            inspectEntry(entry);
+        }
+
+        if (leaves.length < pending!.treeSize && entries.length > 0) {
+            fetchEntries();
+            return;
+        }
+
+        // Our recomputed tree must match what the CA signed. Earlier entries are part of it,
+        // so a match also proves the log only grew since the last head.
+        const rootHash = merkleTreeHash(leaves.slice(0, pending!.treeSize)).toString('hex');
+        if (leaves.length !== pending!.treeSize || rootHash !== pending!.rootHash) {
+            alert(`Log entries do not match the signed tree head of size ${pending!.treeSize}.`);
+        } else {
+            head = pending;
+            console.log(`[OK] Tree head verified: ${head!.treeSize} entries, root ${head!.rootHash.slice(0, 16)}...`);
+        }
+        pending = null;
+        setTimeout(pollTreeHead, POLL_MS);
+    }
+    else if (msg.type === 'error') {
+        console.error(`[ERROR] ${msg.message} (${msg.code})`);
+    }
+});
+
+ws.on('close', () => {
+    console.error('Connection to CA closed.');
+    process.exit(1);
+});
+
+ws.on('error', (err) => {
+    console.error('Could not reach CA:', err.message);
+    process.exit(1);
+});
@@ -0,0 +1,51 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { generateKeyPairSync } from 'crypto';
+import { KeyPair } from './crypto-utils';
+import { loadIdentityKeys } from './identity-keys';
+
+const rsaKeys = (): KeyPair => generateKeyPairSync('rsa', {
+    modulusLength: 2048,
+    publicKeyEncoding: { type: 'spki', format: 'pem' },
+    privateKeyEncoding: { type: 'pkcs8', format: 'pem' }
+});
+
+describe('loadIdentityKeys', () => {
+    let dir: string;
+    let file: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'identity-keys-'));
+        file = path.join(dir, 'identity', 'phase5.json');
+    });
+    afterEach(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+    it('generates a key pair once and reuses it after a restart', () => {
+        let generated = 0;
+        const generate = () => {
+            generated++;
+            return rsaKeys();
+        };
+        const first = loadIdentityKeys(file, generate);
+        assert.equal(first.created, true);
+        assert.equal(fs.statSync(file).mode & 0o777, 0o600);
+
+        const again = loadIdentityKeys(file, generate);
+        assert.equal(again.created, false);
+        assert.deepEqual(again.keys, first.keys);
+        assert.equal(generated, 1);
+    });
+
+    it('refuses a file whose keys do not belong together', () => {
+        const keys = rsaKeys();
+        fs.mkdirSync(path.dirname(file));
+        fs.writeFileSync(file, JSON.stringify({ publicKey: rsaKeys().publicKey, privateKey: keys.privateKey }));
+        assert.throws(() => loadIdentityKeys(file, rsaKeys), /does not hold a matching identity key pair/);
+
+        fs.writeFileSync(file, JSON.stringify({ publicKey: keys.publicKey }));
+        assert.throws(() => loadIdentityKeys(file, rsaKeys), /does not hold a matching identity key pair/);
+    });
+});
@@ -0,0 +1,32 @@
+import fs from 'fs';
+import path from 'path';
+import { createPublicKey } from 'crypto';
+import { KeyPair } from './crypto-utils';
+
+// --- IDENTITY KEY FILE (Phases 5-6) ---
+// The CA binds each User ID to one key, so a client that made up a new key on every start would
+// need a new enrollment token and an admin rebind each time. Instead the key pair lives in a file
+// only the owner can read, and is reused for enrollment and renewal after a restart.
+
+/**
+ * Loads the key pair kept in `file`, or generates one with `generate` and keeps it there.
+ * @throws if the file exists but does not hold a matching key pair
+ */
+export const loadIdentityKeys = (file: string, generate: () => KeyPair): { keys: KeyPair; created: boolean } => {
+    if (fs.existsSync(file)) {
+        const { publicKey, privateKey } = JSON.parse(fs.readFileSync(file, 'utf8'));
+        if (typeof publicKey !== 'string' || typeof privateKey !== 'string'
+            || createPublicKey(privateKey).export({ type: 'spki', format: 'pem' }) !== publicKey) {
+            throw new Error(`${file} does not hold a matching identity key pair`);
+        }
+        return { keys: { publicKey, privateKey }, created: false };
+    }
+
+    const keys = generate();
+    fs.mkdirSync(path.dirname(file), { recursive: true, mode: 0o700 });
+    // Write to a temp file then rename, so a crash never leaves half a key behind
+    const tmp = `${file}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify({ publicKey: keys.publicKey, privateKey: keys.privateKey }, null, 2), { mode: 0o600 });
+    fs.renameSync(tmp, file);
+    return { keys, created: true };
+};
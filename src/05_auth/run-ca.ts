@@ -1,4 +1,9 @@
 import { startCAServer } from './ca-server';
 
 console.log("Starting Certificate Authority...");
-startCAServer();
+try {
+    startCAServer();
+} catch (e: any) {
+    console.error(e.message);
+    process.exit(1);
+}
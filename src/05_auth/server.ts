@@ -1,42 +1,111 @@
+import { IncomingMessage } from 'http';
 import { WebSocketServer, WebSocket } from 'ws';
-import { Certificate } from './crypto-utils';
+import { CertificateRegistrar, CertifiedClient } from './cert-registration';
+import { GroupRegistry, isGroupRequest } from '../03_encryption/group-registry';
+import { OfflineQueue } from '../03_encryption/offline-queue';
+import { FloodGuard } from '../03_encryption/flood-guard';
+import { keepAlive, parseClientStatus } from '../03_encryption/presence';
+import { ProtocolError, errorFrame, parseFrame, PHASE5_REQUESTS } from '../03_encryption/protocol';
 
-const wss = new WebSocketServer({ port: 8085 }); // New port for Phase 5 (Chat)
+const CA_URL = process.env.CA_URL || 'ws://localhost:8084';
 
-interface Client extends WebSocket {
-    id: string;
-    certificate?: Certificate; // Store Cert instead of raw key
+interface Client extends CertifiedClient {
+    awaySince?: number; // While the client reports itself away
 }
 
+// Only registered (certified) clients, keyed by certificate userId
 const clients = new Map<string, Client>();
 
-wss.on('connection', (ws: Client) => {
-    ws.id = Math.random().toString(36).substring(7);
-    clients.set(ws.id, ws);
+// Per-connection and per-identity token buckets, frame size and per-IP connection caps
+const flood = new FloodGuard();
+
+// Store-and-forward: direct messages for a certified identity that went offline wait until it
+// registers again. Only identities seen here (within the queue TTL) get a queue.
+const offline = new OfflineQueue();
+const lastSeen = new Map<string, number>(); // userId -> when it went offline
+
+function isExpectedBack(userId: string): boolean {
+    const since = lastSeen.get(userId);
+    if (since === undefined) return false;
+    if (since < Date.now() - offline.limits.ttlMs) {
+        lastSeen.delete(userId);
+        offline.discard(userId);
+        return false;
+    }
+    return true;
+}
+
+// Group membership and fan-out. Members get each other's certificates and verify them themselves.
+const groups = new GroupRegistry({
+    isOnline: (userId) => clients.get(userId)?.readyState === WebSocket.OPEN,
+    send: (userId, message) => {
+        const client = clients.get(userId);
+        if (client?.readyState === WebSocket.OPEN) client.send(JSON.stringify(message));
+    },
+    describe: (userId) => ({ id: userId, certificate: clients.get(userId)?.certificate, chain: clients.get(userId)?.certificateChain })
+});
+
+// Registration: verifies certificates against the CA Root (see cert-registration.ts)
+const registrar = new CertificateRegistrar(clients, { requireKeyEncipherment: true });
+
+function handleConnection(ws: Client, req: IncomingMessage) {
+    if (!flood.admit(ws, req)) return; // Too many connections from this IP: told and closed
+
+    ws.id = 'unregistered-' + Math.random().toString(36).substring(7);
+    ws.registered = false;
     console.log(`Client ${ws.id} connected`);
+    keepAlive(ws, () => ws.id); // A dead socket is terminated, and 'close' marks the user offline
 
     ws.on('message', (data) => {
+        if (!flood.allowFrame(ws, data, ws.registered ? ws.id : undefined)) return; // Told rate_limited (and closed after repeated abuse)
+
         try {
-            const msg = JSON.parse(data.toString());
+            // Checked against the schema for its type (see protocol.ts) before anything else
+            const msg = parseFrame(data.toString(), PHASE5_REQUESTS);
 
             if (msg.type === 'register_with_cert') {
-                // Client sends their Certificate!
-                ws.certificate = msg.payload;
-                console.log(`Client ${ws.id} provided Identity Certificate.`);
+                // 1. Client sends their Certificate (+ chain). 2. Challenge for its private key.
+                registrar.register(ws, msg.payload);
+            }
+            else if (msg.type === 'auth_response') {
+                // 3. Verify the signature over the nonce, 4. route under the certified userId
+                const previousId = ws.registered ? ws.id : undefined;
+                if (!registrar.authenticate(ws, msg.signature)) return;
+                if (previousId && previousId !== ws.id) groups.removeEverywhere(previousId);
+                lastSeen.delete(ws.id);
+
+                ws.send(JSON.stringify({ type: 'registered', userId: ws.id }));
+                offline.drain(ws.id).forEach(queued => ws.send(queued)); // In the order they were sent
                 broadcastUserList(); // Broadcast user list (clients will pull certs on demand/connect)
             }
+            else if (msg.type === 'ping') {
+                ws.send(JSON.stringify({ type: 'pong' }));
+            }
+            else if (!ws.registered) {
+                ws.send(JSON.stringify(errorFrame('not_registered', 'Not registered. Send register_with_cert first.')));
+            }
             else if (msg.type === 'list') {
                 sendUserList(ws);
             }
+            else if (msg.type === 'presence') {
+                ws.awaySince = parseClientStatus(msg.status) === 'away' ? ws.awaySince ?? Date.now() : undefined;
+                broadcastUserList();
+            }
             else if (msg.type === 'direct') {
                 const target = clients.get(msg.targetId);
                 if (target && target.readyState === WebSocket.OPEN) {
-                    // Relay Payload (could be handshake or chat)
+                    // Relay Payload (could be handshake or chat). senderId is the certified identity.
                     target.send(JSON.stringify({
                         type: 'direct',
                         senderId: ws.id,
                         payload: msg.payload
                     }));
+                } else if (isExpectedBack(msg.targetId)) {
+                    // Offline: keep the (encrypted) payload until the target registers again (throws if the queue is full)
+                    const waiting = offline.enqueue(msg.targetId, ws.id, msg.payload);
+                    ws.send(JSON.stringify({ type: 'queued', targetId: msg.targetId, waiting }));
+                } else {
+                    ws.send(JSON.stringify(errorFrame('target_offline', 'Target not found')));
                 }
             }
             // NEW: allow fetching certs
@@ -46,38 +115,72 @@ wss.on('connection', (ws: Client) => {
                     ws.send(JSON.stringify({
                         type: 'cert_response',
                         targetId: msg.targetId,
-                        certificate: target.certificate
+                        certificate: target.certificate,
+                        chain: target.certificateChain
                     }));
+                } else {
+                    ws.send(JSON.stringify(errorFrame('target_offline', `${msg.targetId} is not online`)));
                 }
             }
+            else if (isGroupRequest(msg)) {
+                groups.handle(ws.id, msg);
+            }
 
         } catch (e) {
-            console.error('Invalid message:', e);
+            // Malformed or refused: tell the client why, with a code it can act on
+            if (e instanceof ProtocolError) ws.send(JSON.stringify(errorFrame(e.code, e.message)));
+            else console.error('Invalid message:', e);
         }
     });
 
     ws.on('close', () => {
-        clients.delete(ws.id);
-        broadcastUserList();
+        console.log(`Client ${ws.id} disconnected`);
+        // Only drop the routing entry if it still points at this socket
+        if (ws.registered && clients.get(ws.id) === ws) {
+            clients.delete(ws.id);
+            lastSeen.set(ws.id, Date.now());
+            groups.removeEverywhere(ws.id);
+            broadcastUserList();
+        }
     });
-});
+}
 
 function getUserList() {
     // Only send IDs. Certificates are large, fetch on demand.
-    return Array.from(clients.values()).map(c => ({
+    const online = Array.from(clients.values()).map(c => ({
         id: c.id,
-        hasCert: !!c.certificate
+        hasCert: !!c.certificate,
+        presence: c.awaySince === undefined ? 'online' : 'away',
+        since: c.awaySince
     }));
+    // Users expected back: messages sent to them are queued
+    const offlineUsers = Array.from(lastSeen.keys())
+        .filter(isExpectedBack)
+        .map(userId => ({ id: userId, hasCert: false, presence: 'offline', since: lastSeen.get(userId) }));
+    return [...online, ...offlineUsers];
 }
 
 function sendUserList(ws: WebSocket) {
     ws.send(JSON.stringify({ type: 'user_list', users: getUserList() }));
 }
 
-function broadcastUserList() {
-    const list = getUserList();
-    const msg = JSON.stringify({ type: 'user_list', users: list });
+// Every register and close asks for one, so a reconnect loop would flood everyone with lists: at most one per interval
+const userListBroadcast = flood.throttle(() => {
+    const msg = JSON.stringify({ type: 'user_list', users: getUserList() });
     clients.forEach(c => c.send(msg));
+});
+
+function broadcastUserList() {
+    userListBroadcast.run();
 }
 
-console.log('Phase 5 Chat Server started on ws://localhost:8085');
+// Listens on its own port when run directly; src/server.ts mounts it next to the other phases instead
+export function startPhase5Server(wss: WebSocketServer = new WebSocketServer({ port: 8085 }), caUrl = CA_URL) { // New port for Phase 5 (Chat)
+    registrar.fetchTrustAnchor(caUrl);
+    wss.on('connection', handleConnection);
+}
+
+if (require.main === module) {
+    startPhase5Server();
+    console.log('Phase 5 Chat Server started on ws://localhost:8085');
+}
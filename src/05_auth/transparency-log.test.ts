@@ -0,0 +1,120 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { generateKeyPairSync } from 'crypto';
+import { merkleTreeHash, inclusionPath, consistencyPath, TransparencyLog } from './transparency-log';
+import {
+    hashLeaf,
+    certificateLeafHash,
+    createRootCertificate,
+    issueUserCertificate,
+    verifyInclusionProof,
+    verifyConsistencyProof,
+    EMPTY_TREE_HASH
+} from './crypto-utils';
+
+const leaves = (n: number): Buffer[] => Array.from({ length: n }, (_, i) => hashLeaf(Buffer.from(`entry ${i}`)));
+const hex = (hashes: Buffer[]): string[] => hashes.map(hash => hash.toString('hex'));
+const root = (tree: Buffer[]): string => merkleTreeHash(tree).toString('hex');
+
+describe('Merkle inclusion proofs', () => {
+    it('verifies every leaf of trees up to 9 leaves', () => {
+        for (let n = 1; n <= 9; n++) {
+            const tree = leaves(n);
+            for (let m = 0; m < n; m++) {
+                assert.ok(verifyInclusionProof(tree[m], m, n, hex(inclusionPath(m, tree)), root(tree)), `leaf ${m} of ${n}`);
+            }
+        }
+    });
+
+    it('rejects a proof for another leaf, index or root', () => {
+        const tree = leaves(7);
+        const proof = hex(inclusionPath(3, tree));
+        assert.equal(verifyInclusionProof(tree[4], 3, 7, proof, root(tree)), false);
+        assert.equal(verifyInclusionProof(tree[3], 2, 7, proof, root(tree)), false);
+        assert.equal(verifyInclusionProof(tree[3], 3, 7, proof, root(leaves(8))), false);
+    });
+
+    it('rejects truncated, extended and out-of-range proofs', () => {
+        const tree = leaves(7);
+        const proof = hex(inclusionPath(3, tree));
+        assert.equal(verifyInclusionProof(tree[3], 3, 7, proof.slice(1), root(tree)), false);
+        assert.equal(verifyInclusionProof(tree[3], 3, 7, [...proof, proof[0]], root(tree)), false);
+        assert.equal(verifyInclusionProof(tree[3], 7, 7, proof, root(tree)), false);
+        assert.equal(verifyInclusionProof(tree[3], -1, 7, proof, root(tree)), false);
+    });
+});
+
+describe('Merkle consistency proofs', () => {
+    it('verifies every prefix of trees up to 9 leaves', () => {
+        for (let n = 1; n <= 9; n++) {
+            const tree = leaves(n);
+            for (let m = 1; m <= n; m++) {
+                const proof = hex(m === n ? [] : consistencyPath(m, tree));
+                assert.ok(verifyConsistencyProof(m, n, root(tree.slice(0, m)), root(tree), proof), `${m} -> ${n}`);
+            }
+        }
+    });
+
+    it('treats the empty tree as a prefix of every tree', () => {
+        assert.equal(root([]), EMPTY_TREE_HASH);
+        assert.ok(verifyConsistencyProof(0, 5, EMPTY_TREE_HASH, root(leaves(5)), []));
+    });
+
+    it('rejects a first tree whose entries were rewritten', () => {
+        const tree = leaves(7);
+        const rewritten = [...tree.slice(0, 2), hashLeaf(Buffer.from('forged')), ...tree.slice(3)];
+        const proof = hex(consistencyPath(3, rewritten));
+        assert.equal(verifyConsistencyProof(3, 7, root(tree.slice(0, 3)), root(rewritten), proof), false);
+    });
+
+    it('rejects shrinking trees and missing proofs', () => {
+        const tree = leaves(6);
+        assert.equal(verifyConsistencyProof(6, 4, root(tree), root(tree.slice(0, 4)), []), false);
+        assert.equal(verifyConsistencyProof(3, 6, root(tree.slice(0, 3)), root(tree), []), false);
+        assert.equal(verifyConsistencyProof(4, 4, root(tree.slice(0, 4)), root(tree), []), false);
+    });
+});
+
+describe('TransparencyLog', () => {
+    let dir: string;
+    let certificates: string[];
+
+    before(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ct-log-'));
+        const { publicKey, privateKey } = generateKeyPairSync('rsa', {
+            modulusLength: 2048,
+            publicKeyEncoding: { type: 'spki', format: 'pem' },
+            privateKeyEncoding: { type: 'pkcs8', format: 'pem' }
+        });
+        const ca = createRootCertificate(publicKey, privateKey);
+        certificates = ['alice', 'bob', 'carol'].map(userId =>
+            issueUserCertificate({ userId, publicKey, issuerCertificate: ca, issuerPrivateKey: privateKey }));
+    });
+
+    after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+    it('serves proofs that verify against its tree heads and survives a reload', () => {
+        const log = new TransparencyLog(dir);
+        certificates.forEach(certificate => log.append(certificate));
+        const firstRoot = log.rootHash(2);
+
+        const entry = log.getEntries(1, 2)[0];
+        assert.equal(entry.userId, 'bob');
+        assert.equal(log.indexOf(entry.serialNumber), 1);
+        assert.ok(verifyInclusionProof(certificateLeafHash(entry.certificate), 1, 3, log.inclusionProof(1), log.rootHash()));
+        assert.ok(verifyConsistencyProof(2, 3, firstRoot, log.rootHash(), log.consistencyProof(2, 3)));
+
+        const reloaded = new TransparencyLog(dir);
+        assert.equal(reloaded.size(), 3);
+        assert.equal(reloaded.rootHash(), log.rootHash());
+    });
+
+    it('refuses proofs outside the log', () => {
+        const log = new TransparencyLog(dir);
+        assert.throws(() => log.inclusionProof(3), /out of range/);
+        assert.throws(() => log.consistencyProof(2, 4), /out of range/);
+    });
+});
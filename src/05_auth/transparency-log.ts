@@ -0,0 +1,126 @@
+import fs from 'fs';
+import path from 'path';
+import {
+    certificateLeafHash,
+    hashChildren,
+    parseCertificate,
+    EMPTY_TREE_HASH
+} from './crypto-utils';
+
+// --- CERTIFICATE TRANSPARENCY LOG ---
+// Append-only list of every certificate the CA issued, stored next to the CA registry:
+//   transparency-log.json -> [{ index, serialNumber, userId, certificate, loggedAt }]
+// The Merkle tree is rebuilt from the leaves in memory; only the entries are persisted.
+// Anyone can fetch entries and recompute the tree, which is what ct-monitor.ts does.
+
+export interface LogEntry {
+    index: number;
+    serialNumber: string;
+    userId: string;
+    certificate: string; // PEM
+    loggedAt: number;
+}
+
+// Largest power of two strictly smaller than n (n >= 2)
+const splitPoint = (n: number): number => {
+    let k = 1;
+    while (k * 2 < n) k *= 2;
+    return k;
+};
+
+// MTH(D[n]) from RFC 6962
+export const merkleTreeHash = (leaves: Buffer[]): Buffer => {
+    if (leaves.length === 0) return Buffer.from(EMPTY_TREE_HASH, 'hex');
+    if (leaves.length === 1) return leaves[0];
+    const k = splitPoint(leaves.length);
+    return hashChildren(merkleTreeHash(leaves.slice(0, k)), merkleTreeHash(leaves.slice(k)));
+};
+
+// PATH(m, D[n]): sibling hashes from leaf m up to the root
+export const inclusionPath = (m: number, leaves: Buffer[]): Buffer[] => {
+    if (leaves.length <= 1) return [];
+    const k = splitPoint(leaves.length);
+    return m < k
+        ? [...inclusionPath(m, leaves.slice(0, k)), merkleTreeHash(leaves.slice(k))]
+        : [...inclusionPath(m - k, leaves.slice(k)), merkleTreeHash(leaves.slice(0, k))];
+};
+
+// PROOF(m, D[n]): nodes needed to rebuild both the first m leaves' root and the full root
+export const consistencyPath = (m: number, leaves: Buffer[], complete: boolean = true): Buffer[] => {
+    if (m === leaves.length) return complete ? [] : [merkleTreeHash(leaves)];
+    const k = splitPoint(leaves.length);
+    return m <= k
+        ? [...consistencyPath(m, leaves.slice(0, k), complete), merkleTreeHash(leaves.slice(k))]
+        : [...consistencyPath(m - k, leaves.slice(k), false), merkleTreeHash(leaves.slice(0, k))];
+};
+
+export class TransparencyLog {
+    private file: string;
+    private entries: LogEntry[];
+    private leaves: Buffer[];
+    private bySerial = new Map<string, number>();
+
+    constructor(dir: string) {
+        fs.mkdirSync(dir, { recursive: true });
+        this.file = path.join(dir, 'transparency-log.json');
+        this.entries = fs.existsSync(this.file) ? JSON.parse(fs.readFileSync(this.file, 'utf8')) : [];
+        this.leaves = this.entries.map(entry => certificateLeafHash(entry.certificate));
+        this.entries.forEach(entry => this.bySerial.set(entry.serialNumber, entry.index));
+    }
+
+    public append(certificate: string): LogEntry {
+        const parsed = parseCertificate(certificate);
+        const entry: LogEntry = {
+            index: this.entries.length,
+            serialNumber: parsed.serialNumber,
+            userId: parsed.userId,
+            certificate,
+            loggedAt: Date.now()
+        };
+        this.entries.push(entry);
+        this.leaves.push(certificateLeafHash(certificate));
+        this.bySerial.set(entry.serialNumber, entry.index);
+        this.save();
+        return entry;
+    }
+
+    public size(): number {
+        return this.entries.length;
+    }
+
+    public indexOf(serialNumber: string): number | undefined {
+        return this.bySerial.get(serialNumber);
+    }
+
+    public getEntries(start: number, end: number): LogEntry[] {
+        return this.entries.slice(Math.max(0, start), Math.min(end, this.entries.length));
+    }
+
+    public rootHash(treeSize: number = this.size()): string {
+        return merkleTreeHash(this.leaves.slice(0, treeSize)).toString('hex');
+    }
+
+    /**
+     * @throws if the index or tree size is out of range
+     */
+    public inclusionProof(index: number, treeSize: number = this.size()): string[] {
+        if (index < 0 || index >= treeSize || treeSize > this.size()) throw new Error('Index out of range');
+        return inclusionPath(index, this.leaves.slice(0, treeSize)).map(hash => hash.toString('hex'));
+    }
+
+    /**
+     * @throws unless 0 <= first <= second <= size
+     */
+    public consistencyProof(first: number, second: number): string[] {
+        if (first < 0 || first > second || second > this.size()) throw new Error('Tree sizes out of range');
+        if (first === 0) return [];
+        return consistencyPath(first, this.leaves.slice(0, second)).map(hash => hash.toString('hex'));
+    }
+
+    // Write to a temp file then rename, so a crash never leaves half a JSON file behind
+    private save() {
+        const tmp = this.file + '.tmp';
+        fs.writeFileSync(tmp, JSON.stringify(this.entries, null, 2));
+        fs.renameSync(tmp, this.file);
+    }
+}
@@ -0,0 +1,460 @@
+import WebSocket from 'ws';
+import readline from 'readline';
+import path from 'path';
+import { randomBytes } from 'crypto';
+import { CAClient } from '../05_auth/ca-client';
+import { loadIdentityKeys } from '../05_auth/identity-keys';
+import { ProtocolError, parseFrame, validateFrame, PHASE6_FRAMES, PHASE6_PAYLOADS } from '../03_encryption/protocol';
+import { IdleReporter, describePresence, watchServer } from '../03_encryption/presence';
+import {
+    generateIdentityKeys,
+    IDENTITY_KEY_TYPES,
+    IdentityKeyType,
+    signRegistrationChallenge,
+    generateEphemeralKeyPair,
+    computeSharedSecret,
+    transcriptHash,
+    deriveHandshakeKeys,
+    deriveTrafficKeys,
+    signHandshake,
+    verifyHandshake,
+    sealMessage,
+    openMessage,
+    messageAAD,
+    localOffer,
+    parseOffer,
+    offerTranscript,
+    negotiate,
+    pickSignatureAlgorithm,
+    HANDSHAKE_CONTEXT,
+    CIPHER_SUITES,
+    DirectionalKeys,
+    EphemeralKeyPair,
+    HandshakeIdentity,
+    HandshakeOffer,
+    AeadAlgorithm
+} from './crypto-utils';
+
+// --- Identity (long-term, certified by the Phase 5 CA) ---
+// IDENTITY_KEY_TYPE=ed25519 or p256 for a signing-only identity (default rsa)
+const keyType = (process.env.IDENTITY_KEY_TYPE || 'rsa') as IdentityKeyType;
+if (!IDENTITY_KEY_TYPES.includes(keyType)) {
+    console.error(`IDENTITY_KEY_TYPE must be one of: ${IDENTITY_KEY_TYPES.join(', ')}`);
+    process.exit(1);
+}
+// Kept across restarts, since the CA binds our User ID to this key (one file per client)
+const IDENTITY_KEY_FILE = process.env.IDENTITY_KEY_FILE || path.join('identity', `phase6-${keyType}.json`);
+let identity: ReturnType<typeof loadIdentityKeys>;
+try {
+    identity = loadIdentityKeys(IDENTITY_KEY_FILE, () => generateIdentityKeys(keyType));
+} catch (e) {
+    console.error(`Cannot load the identity key: ${(e as Error).message}`);
+    process.exit(1);
+}
+console.log(identity.created ? `Generated a ${keyType.toUpperCase()} Identity (saved to ${IDENTITY_KEY_FILE}).` : `Loaded the ${keyType.toUpperCase()} Identity from ${IDENTITY_KEY_FILE}.`);
+const { publicKey, privateKey } = identity.keys;
+
+const CA_URL = process.env.CA_URL || 'ws://localhost:8084';
+const ca = new CAClient(CA_URL, publicKey, privateKey);
+
+const HANDSHAKE_TIMEOUT_MS = 30 * 1000; // Half-open handshakes are dropped after this
+
+// One forward-secret session per handshake. Fields are filled in (and wiped) as it progresses.
+interface Session {
+    sessionId: string;
+    peerId: string;
+    role: 'initiator' | 'responder';
+    transcript: string;              // Latest transcript hash (th1 .. th4)
+    offer: HandshakeOffer;           // Ours: the peer must sign with the algorithm it implies
+    aead?: AeadAlgorithm;            // From the negotiated cipher suite
+    ephemeral?: EphemeralKeyPair;    // Initiator only, until message 2 arrives
+    sharedSecret?: Buffer;           // Until the traffic keys are derived
+    handshakeKeys?: DirectionalKeys; // Protect the identities in messages 2 and 3
+    sendKey?: string;                // Traffic keys: set once both sides are authenticated
+    receiveKey?: string;
+    sendSeq: number;
+    receiveSeq: number;              // Highest sequence number accepted (replay / reordering check)
+}
+
+// --- State ---
+let chatWs: WebSocket | null = null; // Chat Server connection (re-registers on renewal)
+// Away after AWAY_AFTER_MINUTES without input, online again on the next line (see presence.ts)
+const idle = new IdleReporter((status) => {
+    if (chatWs?.readyState === WebSocket.OPEN) chatWs.send(JSON.stringify({ type: 'presence', status }));
+});
+let connectedUsers: any[] = [];
+const sessions = new Map<string, Session>(); // By sessionId
+let activeSession: Session | null = null;    // Where `msg` goes
+
+const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+
+// 1. BOOTSTRAP: Enrollment token (minted by the CA admin) -> CA: Root Key & My Certificate
+function askForEnrollmentToken() {
+    rl.question('Enrollment token (ask your CA admin): ', (answer) => enroll(answer.trim()));
+}
+
+function enroll(enrollmentToken: string) {
+    ca.enroll(enrollmentToken)
+        .then(() => {
+            startChatClient(); // Proceed to Chat
+            ca.scheduleExpiryCheck();
+        })
+        .catch(e => {
+            console.error('[CA ERROR]', e.message);
+            askForEnrollmentToken();
+        });
+}
+
+// Re-register so the Chat Server knows our renewed certificate
+ca.onRenewed = () => {
+    chatWs?.send(JSON.stringify({
+        type: 'register_with_cert',
+        payload: { certificate: ca.certificate, chain: ca.chain }
+    }));
+};
+
+if (process.env.ENROLLMENT_TOKEN) enroll(process.env.ENROLLMENT_TOKEN);
+else askForEnrollmentToken();
+
+function startChatClient() {
+    const ws = new WebSocket(process.env.CHAT_URL || 'ws://localhost:8086');
+    chatWs = ws;
+    watchServer(ws); // A server that stops pinging us is dropped (and we exit)
+
+    ws.on('open', () => {
+        console.log('Connected to Phase 6 Chat Server (Forward Secrecy).');
+
+        // Register with Certificate (server will challenge us to prove we hold its key)
+        ws.send(JSON.stringify({
+            type: 'register_with_cert',
+            payload: { certificate: ca.certificate, chain: ca.chain }
+        }));
+
+        console.log('\nCommands:');
+        console.log('  list                 -> Show users (online, away, offline)');
+        console.log('  connect <User ID>    -> Start forward-secret session (ephemeral X25519)');
+        console.log('  msg <text>           -> Send encrypted message');
+        process.stdout.write('> ');
+    });
+
+    ws.on('message', (data) => {
+        try {
+            const msg = parseFrame(data.toString(), PHASE6_FRAMES);
+            // The relay passes payloads through unchecked: check them before any handler does
+            if (msg.type === 'direct') validateFrame(msg.payload, PHASE6_PAYLOADS);
+
+            if (msg.type === 'auth_challenge') {
+                // Only ever prove possession for our own certified identity
+                if (msg.userId !== ca.userId) return;
+                const signature = signRegistrationChallenge(msg.nonce, msg.userId, privateKey);
+                ws.send(JSON.stringify({ type: 'auth_response', signature }));
+            }
+            else if (msg.type === 'registered') {
+                console.log(`\n[IDENTITY] Registered with Chat Server as ${msg.userId}.`);
+            }
+            else if (msg.type === 'registration_rejected') {
+                console.error(`\n[REJECTED] Registration refused (${msg.code}): ${msg.message}`);
+            }
+            else if (msg.type === 'error') {
+                console.error(`\n[ERROR] ${msg.message} (${msg.code})`);
+            }
+            else if (msg.type === 'user_list') {
+                connectedUsers = msg.users;
+                console.log('\n[USERS]', connectedUsers.map(describePresence).join(', '));
+            }
+            else if (msg.type === 'direct') {
+                handleDirectMessage(msg).catch(e => console.error('[HANDSHAKE] Error:', e.message));
+            }
+            process.stdout.write('> ');
+        } catch (e) {
+            if (e instanceof ProtocolError) console.error(`\n[PROTOCOL] Dropped frame: ${e.message}`);
+            else console.error(e);
+        }
+    });
+
+    // Sessions are ephemeral and tied to this connection: nothing to resume
+    ws.on('close', () => {
+        console.log('\n[INFO] Disconnected from Chat Server.');
+        process.exit(0);
+    });
+
+    rl.on('line', (input) => {
+        idle.activity();
+        const args = input.trim().split(' ');
+        const command = args[0];
+
+        if (command === 'list') ws.send(JSON.stringify({ type: 'list' }));
+        else if (command === 'connect') {
+            if (!args[1]) console.log('Usage: connect <User ID>');
+            else startHandshake(args[1]);
+        }
+        else if (command === 'msg') {
+            const session = activeSession;
+            if (!session?.sendKey) { console.log('No secure session.'); return; }
+            const text = args.slice(1).join(' ');
+            const seq = ++session.sendSeq;
+            send(session.peerId, {
+                type: 'chat',
+                sessionId: session.sessionId,
+                seq,
+                content: sealMessage(text, session.sendKey, messageAAD(session.sessionId, 'chat', seq), session.aead)
+            });
+            console.log(`[SENT] ${text}`);
+        }
+        process.stdout.write('> ');
+    });
+}
+
+function send(targetId: string, payload: object) {
+    chatWs?.send(JSON.stringify({ type: 'direct', targetId, payload }));
+}
+
+// Wipes the ephemeral secrets of a session that will not complete
+function abortSession(session: Session, reason: string) {
+    console.error(`[HANDSHAKE] ${reason}. Session ${session.sessionId.slice(0, 8)} with ${session.peerId} aborted.`);
+    session.sharedSecret?.fill(0);
+    sessions.delete(session.sessionId);
+}
+
+function expireIfIncomplete(session: Session) {
+    setTimeout(() => {
+        if (sessions.get(session.sessionId) === session && !session.sendKey) abortSession(session, 'Handshake timed out');
+    }, HANDSHAKE_TIMEOUT_MS);
+}
+
+// Derives the traffic keys from th4 and forgets every handshake secret
+function completeSession(session: Session) {
+    const traffic = deriveTrafficKeys(session.sharedSecret!, session.transcript);
+    session.sharedSecret!.fill(0);
+    session.sharedSecret = undefined;
+    session.handshakeKeys = undefined;
+    session.ephemeral = undefined;
+
+    if (session.role === 'initiator') {
+        session.sendKey = traffic.initiatorToResponder;
+        session.receiveKey = traffic.responderToInitiator;
+    } else {
+        session.sendKey = traffic.responderToInitiator;
+        session.receiveKey = traffic.initiatorToResponder;
+    }
+
+    // A fresh session replaces any older one with the same peer
+    sessions.forEach(other => {
+        if (other !== session && other.peerId === session.peerId) sessions.delete(other.sessionId);
+    });
+    activeSession = session;
+    console.log(`[SUCCESS] Forward-secret channel established with authenticated ${session.peerId} (session ${session.sessionId.slice(0, 8)}).`);
+}
+
+// Checks the peer's decrypted certificate and its signature over the transcript
+async function authenticatePeer(session: Session, identity: HandshakeIdentity, role: 'initiator' | 'responder'): Promise<boolean> {
+    const cert = await ca.verifyPeerCertificate(identity.certificate, identity.chain || []);
+    if (!cert) {
+        abortSession(session, 'Peer certificate rejected');
+        return false;
+    }
+    if (cert.userId !== session.peerId) {
+        abortSession(session, `Identity mismatch (cert ${cert.userId}, relay ${session.peerId})`);
+        return false;
+    }
+    // The algorithm is fixed by our offer and the peer's key: anything else is a downgrade attempt
+    if (identity.algorithm !== pickSignatureAlgorithm(session.offer.signatures, cert.publicKey)) {
+        abortSession(session, `Unexpected signature algorithm ${identity.algorithm}`);
+        return false;
+    }
+    if (!verifyHandshake(role, session.transcript, identity.signature, cert.publicKey, identity.algorithm)) {
+        abortSession(session, 'Transcript signature INVALID');
+        return false;
+    }
+    return true;
+}
+
+// --- HANDSHAKE ---
+
+// Message 1 (initiator): a fresh ephemeral key and our offer. Identities come later, encrypted.
+function startHandshake(targetId: string) {
+    const sessionId = randomBytes(16).toString('hex');
+    const ephemeral = generateEphemeralKeyPair();
+    const offer = localOffer();
+    const session: Session = {
+        sessionId,
+        peerId: targetId,
+        role: 'initiator',
+        transcript: transcriptHash(HANDSHAKE_CONTEXT, ca.userId!, targetId, sessionId, ephemeral.publicKey, offerTranscript(offer)),
+        offer,
+        ephemeral,
+        sendSeq: 0,
+        receiveSeq: 0
+    };
+    sessions.set(sessionId, session);
+    expireIfIncomplete(session);
+
+    send(targetId, { type: 'handshake_init', sessionId, ephemeral: ephemeral.publicKey, offer });
+    console.log(`[HANDSHAKE] Sent ephemeral X25519 key and our offer (${offer.suites.join(', ')}) to ${targetId}.`);
+}
+
+// Message 2 (responder): pick the parameters, send our ephemeral key and offer, plus our certificate
+// and signature under the handshake key
+function handleHandshakeInit(senderId: string, payload: any) {
+    if (sessions.has(payload.sessionId)) return; // Duplicate or replayed init
+
+    const peerOffer = parseOffer(payload.offer);
+    const offer = localOffer();
+    const selected = peerOffer && negotiate(peerOffer, offer);
+    const algorithm = peerOffer && pickSignatureAlgorithm(peerOffer.signatures, publicKey);
+    if (!selected || !algorithm) {
+        const reason = peerOffer ? 'no common protocol version, cipher suite or signature algorithm' : 'no offer (handshake from before negotiation?)';
+        console.error(`\n[HANDSHAKE] Refused ${senderId}: ${reason}.`);
+        send(senderId, { type: 'handshake_reject', sessionId: payload.sessionId, reason });
+        return;
+    }
+    const aead = CIPHER_SUITES[selected.suite];
+
+    const ephemeral = generateEphemeralKeyPair();
+    const th1 = transcriptHash(HANDSHAKE_CONTEXT, senderId, ca.userId!, payload.sessionId, payload.ephemeral, offerTranscript(peerOffer));
+    const th2 = transcriptHash(th1, ephemeral.publicKey, offerTranscript(offer), selected.version, selected.suite);
+    const sharedSecret = computeSharedSecret(ephemeral.privateKey, payload.ephemeral);
+    const handshakeKeys = deriveHandshakeKeys(sharedSecret, th2);
+
+    const signature = signHandshake('responder', th2, privateKey, algorithm);
+    const identity: HandshakeIdentity = { certificate: ca.certificate!, chain: ca.chain, algorithm, signature };
+
+    const session: Session = {
+        sessionId: payload.sessionId,
+        peerId: senderId,
+        role: 'responder',
+        transcript: transcriptHash(th2, signature), // th3, what the initiator will sign
+        offer,
+        aead,
+        sharedSecret,
+        handshakeKeys,
+        sendSeq: 0,
+        receiveSeq: 0
+    };
+    sessions.set(session.sessionId, session);
+    expireIfIncomplete(session);
+
+    send(senderId, {
+        type: 'handshake_response',
+        sessionId: session.sessionId,
+        ephemeral: ephemeral.publicKey,
+        offer,
+        selected,
+        sealed: sealMessage(JSON.stringify(identity), handshakeKeys.responderToInitiator, messageAAD(session.sessionId, 'handshake_response'), aead)
+    });
+    console.log(`\n[HANDSHAKE] ${senderId} wants a session. Negotiated phase ${selected.version}, ${selected.suite}, we sign with ${algorithm}.`);
+    console.log('[HANDSHAKE] Sent our ephemeral key and (encrypted) certificate.');
+}
+
+// Message 3 (initiator): authenticate the responder, then send our own certificate and signature
+async function handleHandshakeResponse(senderId: string, payload: any) {
+    const session = sessions.get(payload.sessionId);
+    if (!session || session.role !== 'initiator' || !session.ephemeral || session.peerId !== senderId) {
+        console.error(`[HANDSHAKE] Unexpected handshake_response from ${senderId}. Ignored.`);
+        return;
+    }
+
+    // Recompute the responder's pick from both offers: a relay that tampered with either shows up
+    // here or, at the latest, as a bad transcript signature
+    const peerOffer = parseOffer(payload.offer);
+    const expected = peerOffer && negotiate(session.offer, peerOffer);
+    if (!expected || payload.selected?.version !== expected.version || payload.selected?.suite !== expected.suite) {
+        abortSession(session, 'Negotiated parameters do not match the offers (downgrade attempt?)');
+        return;
+    }
+    const algorithm = pickSignatureAlgorithm(peerOffer.signatures, publicKey);
+    if (!algorithm) {
+        abortSession(session, `${senderId} accepts none of our signature algorithms`);
+        return;
+    }
+    session.aead = CIPHER_SUITES[expected.suite];
+
+    const th2 = transcriptHash(session.transcript, payload.ephemeral, offerTranscript(peerOffer), expected.version, expected.suite);
+    session.sharedSecret = computeSharedSecret(session.ephemeral.privateKey, payload.ephemeral);
+    session.ephemeral = undefined; // The DH is done: the ephemeral private key is no longer needed
+    session.handshakeKeys = deriveHandshakeKeys(session.sharedSecret, th2);
+    session.transcript = th2;
+
+    let identity: HandshakeIdentity;
+    try {
+        identity = JSON.parse(openMessage(payload.sealed, session.handshakeKeys.responderToInitiator, messageAAD(session.sessionId, 'handshake_response'), session.aead));
+    } catch (e) {
+        abortSession(session, 'Cannot decrypt handshake_response');
+        return;
+    }
+    console.log(`[HANDSHAKE] Verifying ${senderId}...`);
+    if (!(await authenticatePeer(session, identity, 'responder'))) return;
+
+    console.log(`[HANDSHAKE] Negotiated phase ${expected.version}, ${expected.suite}, we sign with ${algorithm}.`);
+
+    const th3 = transcriptHash(th2, identity.signature);
+    const signature = signHandshake('initiator', th3, privateKey, algorithm);
+    const ours: HandshakeIdentity = { certificate: ca.certificate!, chain: ca.chain, algorithm, signature };
+    send(senderId, {
+        type: 'handshake_finish',
+        sessionId: session.sessionId,
+        sealed: sealMessage(JSON.stringify(ours), session.handshakeKeys.initiatorToResponder, messageAAD(session.sessionId, 'handshake_finish'), session.aead)
+    });
+
+    session.transcript = transcriptHash(th3, signature); // th4
+    completeSession(session);
+}
+
+// Message 3 received (responder): authenticate the initiator
+async function handleHandshakeFinish(senderId: string, payload: any) {
+    const session = sessions.get(payload.sessionId);
+    if (!session || session.role !== 'responder' || !session.handshakeKeys || session.peerId !== senderId) {
+        console.error(`[HANDSHAKE] Unexpected handshake_finish from ${senderId}. Ignored.`);
+        return;
+    }
+
+    let identity: HandshakeIdentity;
+    try {
+        identity = JSON.parse(openMessage(payload.sealed, session.handshakeKeys.initiatorToResponder, messageAAD(session.sessionId, 'handshake_finish'), session.aead));
+    } catch (e) {
+        abortSession(session, 'Cannot decrypt handshake_finish');
+        return;
+    }
+    console.log(`[HANDSHAKE] Verifying ${senderId}...`);
+    if (!(await authenticatePeer(session, identity, 'initiator'))) return;
+
+    session.transcript = transcriptHash(session.transcript, identity.signature); // th4
+    completeSession(session);
+}
+
+async function handleDirectMessage(envelope: any) {
+    const { senderId, payload } = envelope;
+
+    if (payload.type === 'handshake_init') {
+        handleHandshakeInit(senderId, payload);
+    }
+    else if (payload.type === 'handshake_response') {
+        await handleHandshakeResponse(senderId, payload);
+    }
+    else if (payload.type === 'handshake_finish') {
+        await handleHandshakeFinish(senderId, payload);
+    }
+    else if (payload.type === 'handshake_reject') {
+        // Unauthenticated, but all it can do is end a handshake the relay could have dropped anyway
+        const session = sessions.get(payload.sessionId);
+        if (session?.role === 'initiator' && session.peerId === senderId && !session.sendKey) {
+            abortSession(session, `${senderId} refused: ${payload.reason}`);
+        }
+    }
+    else if (payload.type === 'chat') {
+        const session = sessions.get(payload.sessionId);
+        if (!session?.receiveKey || session.peerId !== senderId) return;
+
+        // Sequence numbers only go up: replayed or reordered messages are dropped
+        if (!(payload.seq > session.receiveSeq)) {
+            console.log(`\n[REJECTED] Replayed or out-of-order message #${payload.seq} from ${senderId}`);
+            return;
+        }
+        try {
+            const text = openMessage(payload.content, session.receiveKey, messageAAD(session.sessionId, 'chat', payload.seq), session.aead);
+            session.receiveSeq = payload.seq;
+            activeSession = session;
+            console.log(`\n[SECURE] ${senderId}: ${text}`);
+        } catch (e) { console.error('Decrypt error'); }
+    }
+}
@@ -0,0 +1,184 @@
+import { describe, it, before } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateKeyPairSync } from 'crypto';
+import {
+    KeyPair,
+    HANDSHAKE_CONTEXT,
+    transcriptHash,
+    deriveHandshakeKeys,
+    deriveTrafficKeys,
+    signHandshake,
+    verifyHandshake,
+    messageAAD,
+    generateEphemeralKeyPair,
+    computeSharedSecret,
+    sealMessage,
+    openMessage,
+    HandshakeOffer,
+    negotiate,
+    localOffer,
+    parseOffer,
+    offerTranscript,
+    pickSignatureAlgorithm,
+    generateIdentityKeys
+} from './crypto-utils';
+
+const rsaKeys = (): KeyPair => generateKeyPairSync('rsa', {
+    modulusLength: 2048,
+    publicKeyEncoding: { type: 'spki', format: 'pem' },
+    privateKeyEncoding: { type: 'pkcs8', format: 'pem' }
+});
+
+describe('Phase 6 handshake', () => {
+    let alice: KeyPair;
+    let bob: KeyPair;
+
+    before(() => {
+        alice = rsaKeys();
+        bob = rsaKeys();
+    });
+
+    // Both sides' view of one handshake, alice initiating (offers left out: see the negotiation tests)
+    const handshake = (responderEphemeralSeen?: string) => {
+        const eI = generateEphemeralKeyPair();
+        const eR = generateEphemeralKeyPair();
+        const th1 = transcriptHash(HANDSHAKE_CONTEXT, 'alice', 'bob', 'session-1', eI.publicKey);
+
+        const responderSecret = computeSharedSecret(eR.privateKey, eI.publicKey);
+        const responderTh2 = transcriptHash(th1, eR.publicKey);
+        const initiatorSecret = computeSharedSecret(eI.privateKey, responderEphemeralSeen ?? eR.publicKey);
+        const initiatorTh2 = transcriptHash(th1, responderEphemeralSeen ?? eR.publicKey);
+
+        return { responderSecret, responderTh2, initiatorSecret, initiatorTh2 };
+    };
+
+    it('derives the same handshake and traffic keys on both sides', () => {
+        const { responderSecret, responderTh2, initiatorSecret, initiatorTh2 } = handshake();
+        assert.deepEqual(deriveHandshakeKeys(initiatorSecret, initiatorTh2), deriveHandshakeKeys(responderSecret, responderTh2));
+
+        const sigR = signHandshake('responder', responderTh2, bob.privateKey, 'rsa-pss-sha256');
+        assert.ok(verifyHandshake('responder', initiatorTh2, sigR, bob.publicKey, 'rsa-pss-sha256'));
+        const th3 = transcriptHash(initiatorTh2, sigR);
+        const sigI = signHandshake('initiator', th3, alice.privateKey, 'rsa-pss-sha256');
+        assert.ok(verifyHandshake('initiator', transcriptHash(responderTh2, sigR), sigI, alice.publicKey, 'rsa-pss-sha256'));
+
+        const th4 = transcriptHash(th3, sigI);
+        const initiatorTraffic = deriveTrafficKeys(initiatorSecret, th4);
+        assert.deepEqual(deriveTrafficKeys(responderSecret, th4), initiatorTraffic);
+        assert.notEqual(initiatorTraffic.initiatorToResponder, initiatorTraffic.responderToInitiator);
+        assert.notDeepEqual(initiatorTraffic, deriveHandshakeKeys(initiatorSecret, initiatorTh2));
+    });
+
+    it('binds the keys to the ephemeral keys both sides saw', () => {
+        const { responderSecret, responderTh2, initiatorSecret, initiatorTh2 } = handshake(generateEphemeralKeyPair().publicKey);
+        assert.notDeepEqual(deriveHandshakeKeys(initiatorSecret, initiatorTh2), deriveHandshakeKeys(responderSecret, responderTh2));
+
+        const sigR = signHandshake('responder', responderTh2, bob.privateKey, 'rsa-pss-sha256');
+        assert.equal(verifyHandshake('responder', initiatorTh2, sigR, bob.publicKey, 'rsa-pss-sha256'), false);
+    });
+
+    it('does not accept a responder signature as an initiator one', () => {
+        const { responderTh2 } = handshake();
+        const sigR = signHandshake('responder', responderTh2, bob.privateKey, 'rsa-pss-sha256');
+        assert.equal(verifyHandshake('initiator', responderTh2, sigR, bob.publicKey, 'rsa-pss-sha256'), false);
+        assert.equal(verifyHandshake('responder', responderTh2, sigR, alice.publicKey, 'rsa-pss-sha256'), false);
+    });
+
+    it('seals identities and chat messages under their own AAD', () => {
+        const { initiatorSecret, initiatorTh2 } = handshake();
+        const keys = deriveHandshakeKeys(initiatorSecret, initiatorTh2);
+        const sealed = sealMessage('identity', keys.responderToInitiator, messageAAD('session-1', 'handshake_response'));
+        assert.equal(openMessage(sealed, keys.responderToInitiator, messageAAD('session-1', 'handshake_response')), 'identity');
+        assert.throws(() => openMessage(sealed, keys.responderToInitiator, messageAAD('session-1', 'handshake_finish')));
+        assert.throws(() => openMessage(sealed, keys.initiatorToResponder, messageAAD('session-1', 'handshake_response')));
+        assert.throws(() => openMessage(sealed, keys.responderToInitiator, messageAAD('session-2', 'handshake_response')));
+    });
+
+    it('refuses malformed ephemeral keys', () => {
+        const eI = generateEphemeralKeyPair();
+        assert.throws(() => computeSharedSecret(eI.privateKey, Buffer.alloc(31).toString('base64')), /32 bytes/);
+        assert.throws(() => computeSharedSecret(eI.privateKey, Buffer.alloc(32).toString('base64')));
+    });
+});
+
+describe('Phase 6 negotiation', () => {
+    const offer = (suites: string[], versions: number[] = [6]): HandshakeOffer =>
+        ({ versions, suites, signatures: ['rsa-pss-sha256', 'rsa-pkcs1-sha256'] });
+
+    it('picks the first suite in the initiator\'s order that both support', () => {
+        const initiator = offer(['X25519_CHACHA20_POLY1305_SHA256', 'X25519_AES_256_GCM_SHA256']);
+        const responder = offer(['X25519_AES_256_GCM_SHA256', 'X25519_CHACHA20_POLY1305_SHA256']);
+        assert.deepEqual(negotiate(initiator, responder), { version: 6, suite: 'X25519_CHACHA20_POLY1305_SHA256' });
+        assert.deepEqual(negotiate(responder, initiator), { version: 6, suite: 'X25519_AES_256_GCM_SHA256' });
+    });
+
+    it('skips suites and versions this build does not know', () => {
+        const initiator = offer(['X25519_KYBER_SHA384', 'X25519_AES_256_GCM_SHA256'], [7, 6]);
+        const responder = offer(['X25519_KYBER_SHA384', 'X25519_AES_256_GCM_SHA256'], [7, 6]);
+        assert.deepEqual(negotiate(initiator, responder), { version: 6, suite: 'X25519_AES_256_GCM_SHA256' });
+    });
+
+    it('returns null when there is nothing in common', () => {
+        assert.equal(negotiate(offer(['X25519_AES_256_GCM_SHA256']), offer(['X25519_CHACHA20_POLY1305_SHA256'])), null);
+        assert.equal(negotiate(offer(['X25519_AES_256_GCM_SHA256'], [6]), offer(['X25519_AES_256_GCM_SHA256'], [5])), null);
+    });
+
+    it('puts the whole offer, unknown names included, into the transcript', () => {
+        const full = offer(['X25519_CHACHA20_POLY1305_SHA256', 'X25519_AES_256_GCM_SHA256']);
+        const stripped = offer(['X25519_AES_256_GCM_SHA256']);
+        assert.notEqual(offerTranscript(full), offerTranscript(stripped));
+        assert.notEqual(offerTranscript(offer(['X25519_KYBER_SHA384', 'X25519_AES_256_GCM_SHA256'])), offerTranscript(stripped));
+    });
+
+    it('restricts and reorders our suites with HANDSHAKE_SUITES', () => {
+        const saved = process.env.HANDSHAKE_SUITES;
+        try {
+            process.env.HANDSHAKE_SUITES = 'X25519_CHACHA20_POLY1305_SHA256, X25519_AES_256_GCM_SHA256';
+            assert.deepEqual(localOffer().suites, ['X25519_CHACHA20_POLY1305_SHA256', 'X25519_AES_256_GCM_SHA256']);
+            process.env.HANDSHAKE_SUITES = 'X25519_CHACHA20_POLY1305_SHA256, bogus';
+            assert.deepEqual(localOffer().suites, ['X25519_CHACHA20_POLY1305_SHA256']);
+            process.env.HANDSHAKE_SUITES = 'bogus';
+            assert.deepEqual(localOffer().suites, ['X25519_AES_256_GCM_SHA256', 'X25519_CHACHA20_POLY1305_SHA256']);
+        } finally {
+            if (saved === undefined) delete process.env.HANDSHAKE_SUITES;
+            else process.env.HANDSHAKE_SUITES = saved;
+        }
+    });
+
+    it('only accepts well-formed offers from the wire', () => {
+        assert.deepEqual(parseOffer({ ...offer(['X25519_AES_256_GCM_SHA256']), extra: true }), offer(['X25519_AES_256_GCM_SHA256']));
+        assert.equal(parseOffer(undefined), null);
+        assert.equal(parseOffer({ versions: ['6'], suites: [], signatures: [] }), null);
+        assert.equal(parseOffer({ versions: [6], suites: 'X25519_AES_256_GCM_SHA256', signatures: [] }), null);
+        assert.equal(parseOffer({ versions: Array(33).fill(6), suites: [], signatures: [] }), null);
+    });
+
+    it('signs with the verifier\'s most preferred algorithm the key supports', () => {
+        const { publicKey } = rsaKeys();
+        assert.equal(pickSignatureAlgorithm(['rsa-pkcs1-sha256', 'rsa-pss-sha256'], publicKey), 'rsa-pkcs1-sha256');
+        assert.equal(pickSignatureAlgorithm(['ed25519', 'rsa-pss-sha256'], publicKey), 'rsa-pss-sha256');
+        assert.equal(pickSignatureAlgorithm(['ed25519'], publicKey), undefined);
+
+        const ed25519 = generateIdentityKeys('ed25519').publicKey;
+        assert.equal(pickSignatureAlgorithm(['rsa-pss-sha256', 'ed25519'], ed25519), 'ed25519');
+        assert.equal(pickSignatureAlgorithm(['rsa-pss-sha256', 'rsa-pkcs1-sha256'], ed25519), undefined);
+        const p256 = generateIdentityKeys('p256').publicKey;
+        assert.equal(pickSignatureAlgorithm(['ed25519', 'ecdsa-p256-sha256'], p256), 'ecdsa-p256-sha256');
+    });
+
+    it('signs and verifies handshakes with Ed25519 and P-256 identities', () => {
+        for (const [type, algorithm] of [['ed25519', 'ed25519'], ['p256', 'ecdsa-p256-sha256']] as const) {
+            const keys = generateIdentityKeys(type);
+            const signature = signHandshake('initiator', 'th2', keys.privateKey, algorithm);
+            assert.ok(verifyHandshake('initiator', 'th2', signature, keys.publicKey, algorithm));
+            assert.equal(verifyHandshake('responder', 'th2', signature, keys.publicKey, algorithm), false);
+        }
+    });
+
+    it('does not verify a signature under another algorithm', () => {
+        const keys = rsaKeys();
+        const signature = signHandshake('responder', 'th2', keys.privateKey, 'rsa-pkcs1-sha256');
+        assert.ok(verifyHandshake('responder', 'th2', signature, keys.publicKey, 'rsa-pkcs1-sha256'));
+        assert.equal(verifyHandshake('responder', 'th2', signature, keys.publicKey, 'rsa-pss-sha256'), false);
+    });
+});
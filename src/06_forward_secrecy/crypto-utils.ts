@@ -0,0 +1,193 @@
+import { createHash, generateKeyPairSync, hkdfSync } from 'crypto';
+import {
+    signWithAlgorithm,
+    verifyWithAlgorithm,
+    signatureAlgorithmsForKey,
+    SIGNATURE_ALGORITHMS,
+    SignatureAlgorithm,
+    AeadAlgorithm,
+    KeyPair,
+    generateRSAKeys
+} from '../05_auth/crypto-utils';
+
+export * from '../05_auth/crypto-utils';
+
+// --- FORWARD SECRECY (Ephemeral X25519, SIGMA / Noise XX style) ---
+// Phase 5 wraps the session key with the responder's long-term RSA key: whoever steals that key
+// later can decrypt every recorded session. Here both sides generate a fresh X25519 key pair per
+// session, sign the handshake transcript with their certified (long-term) key, and derive the
+// traffic keys from the ephemeral Diffie-Hellman secret. The ephemeral private keys are dropped
+// once the handshake completes, so past sessions stay secret even if the long-term keys leak.
+//
+//   1. I -> R  handshake_init      { sessionId, ephemeral: eI, offer: O_I }
+//   2. R -> I  handshake_response  { sessionId, ephemeral: eR, offer: O_R, selected, sealed: AEAD_hs_r2i(cert_R, chain_R, alg_R, sig_R(th2)) }
+//   3. I -> R  handshake_finish    { sessionId, sealed: AEAD_hs_i2r(cert_I, chain_I, alg_I, sig_I(th3)) }
+//   (2') R -> I  handshake_reject  { sessionId, reason }   nothing in common (unauthenticated)
+//
+// Certificates travel encrypted under the handshake keys (like Noise XX), so a passive observer
+// of the relay does not see them. Each signature covers both User IDs, both ephemeral keys and
+// the negotiation (see NEGOTIATION below).
+// X25519 key pairs and the AEAD (sealMessage / openMessage) come from Phase 3.
+
+export const HANDSHAKE_CONTEXT = 'chatapp-phase6-handshake';
+const HANDSHAKE_KEYS_INFO = 'chatapp-phase6 handshake keys';
+const TRAFFIC_KEYS_INFO = 'chatapp-phase6 traffic keys';
+
+// One key per direction: a reflected message never decrypts under our own receive key
+export interface DirectionalKeys {
+    initiatorToResponder: string; // AES-256 key (base64)
+    responderToInitiator: string;
+}
+
+// Decrypted content of handshake_response / handshake_finish
+export interface HandshakeIdentity {
+    certificate: string;
+    chain: string[];
+    algorithm: SignatureAlgorithm; // Picked with pickSignatureAlgorithm()
+    signature: string; // Over the transcript hash, by the certified key
+}
+
+// Running hash over everything both sides have said so far (hex):
+//   th1 = H(HANDSHAKE_CONTEXT | initiatorId | responderId | sessionId | eI | O_I)
+//   th2 = H(th1 | eR | O_R | version | suite)     -> handshake keys, signed by the responder
+//   th3 = H(th2 | sig_R)  -> signed by the initiator
+//   th4 = H(th3 | sig_I)  -> traffic keys
+export const transcriptHash = (...parts: (string | number)[]): string => {
+    return createHash('sha256').update(parts.join('|')).digest('hex');
+};
+
+// HKDF-SHA256 keyed by the DH secret, salted with the transcript hash -> two 256-bit keys
+const deriveDirectionalKeys = (sharedSecret: Buffer, transcript: string, info: string): DirectionalKeys => {
+    const okm = Buffer.from(hkdfSync('sha256', sharedSecret, Buffer.from(transcript, 'hex'), info, 64));
+    return {
+        initiatorToResponder: okm.subarray(0, 32).toString('base64'),
+        responderToInitiator: okm.subarray(32).toString('base64')
+    };
+};
+
+// Keys protecting the identities in messages 2 and 3
+export const deriveHandshakeKeys = (sharedSecret: Buffer, th2: string): DirectionalKeys => {
+    return deriveDirectionalKeys(sharedSecret, th2, HANDSHAKE_KEYS_INFO);
+};
+
+// Chat keys, bound to the full (mutually authenticated) transcript
+export const deriveTrafficKeys = (sharedSecret: Buffer, th4: string): DirectionalKeys => {
+    return deriveDirectionalKeys(sharedSecret, th4, TRAFFIC_KEYS_INFO);
+};
+
+// Role and algorithm are part of the signed message, so a responder signature can't be replayed as
+// an initiator one, nor a signature checked under a different algorithm
+const handshakeMessage = (role: 'initiator' | 'responder', algorithm: SignatureAlgorithm, transcript: string): string =>
+    [HANDSHAKE_CONTEXT, role, algorithm, transcript].join('|');
+
+export const signHandshake = (role: 'initiator' | 'responder', transcript: string, privateKey: string, algorithm: SignatureAlgorithm): string => {
+    return signWithAlgorithm(algorithm, handshakeMessage(role, algorithm, transcript), privateKey);
+};
+
+export const verifyHandshake = (role: 'initiator' | 'responder', transcript: string, signature: string, publicKey: string, algorithm: SignatureAlgorithm): boolean => {
+    return verifyWithAlgorithm(algorithm, handshakeMessage(role, algorithm, transcript), signature, publicKey);
+};
+
+// AAD for a handshake or chat message (not sent, both sides rebuild it)
+export const messageAAD = (sessionId: string, type: string, seq: number = 0): string =>
+    [HANDSHAKE_CONTEXT, sessionId, type, seq].join('|');
+
+// --- NEGOTIATION (versioned handshake, downgrade protection) ---
+// Each side offers the protocol versions, cipher suites and signature algorithms it supports, in
+// preference order. The responder picks from the initiator's order; the initiator recomputes the
+// pick from both offers and aborts if it differs. Both offers and the pick are in the transcript
+// that both identities sign, so a relay that strips entries from an offer (to force a weaker suite
+// or signature algorithm) breaks the signatures.
+// Versions number revisions of this handshake, starting at 6; there is no older one to fall back to.
+// A handshake_init without an offer is refused, and Phase 6 clients reject the Phase 5 key_exchange
+// (unknown payload type), so a relay cannot talk them into an older phase's protocol either.
+// Only this handshake negotiates: Phases 2-5 keep their fixed algorithms.
+
+export const PROTOCOL_VERSIONS = [6]; // Newest first
+
+// Key agreement is always ephemeral X25519 and the hash SHA-256 (transcript, HKDF): suites differ in the AEAD
+export type CipherSuite = 'X25519_AES_256_GCM_SHA256' | 'X25519_CHACHA20_POLY1305_SHA256';
+
+export const CIPHER_SUITES: Record<CipherSuite, AeadAlgorithm> = {
+    X25519_AES_256_GCM_SHA256: 'aes-256-gcm',
+    X25519_CHACHA20_POLY1305_SHA256: 'chacha20-poly1305'
+};
+
+export const isCipherSuite = (name: unknown): name is CipherSuite =>
+    typeof name === 'string' && Object.keys(CIPHER_SUITES).includes(name);
+
+export interface HandshakeOffer {
+    versions: number[];
+    suites: string[];     // Unknown names (from newer clients) are skipped, but still part of the transcript
+    signatures: string[]; // Algorithms we accept from the peer
+}
+
+export interface HandshakeSelection {
+    version: number;
+    suite: CipherSuite;
+}
+
+/**
+ * Our offer. HANDSHAKE_SUITES (comma-separated suite names) restricts or reorders the suites.
+ */
+export const localOffer = (): HandshakeOffer => {
+    const configured = (process.env.HANDSHAKE_SUITES || '').split(',').map(name => name.trim()).filter(isCipherSuite);
+    return {
+        versions: PROTOCOL_VERSIONS,
+        suites: configured.length ? configured : Object.keys(CIPHER_SUITES),
+        signatures: SIGNATURE_ALGORITHMS
+    };
+};
+
+// Shape check for an offer from the wire
+export const parseOffer = (raw: any): HandshakeOffer | null => {
+    const isList = (value: unknown, type: 'number' | 'string') =>
+        Array.isArray(value) && value.length <= 32 && value.every(item => typeof item === type);
+    if (!raw || !isList(raw.versions, 'number') || !isList(raw.suites, 'string') || !isList(raw.signatures, 'string')) return null;
+    return { versions: raw.versions, suites: raw.suites, signatures: raw.signatures };
+};
+
+// How an offer enters the transcript (field order fixed, whatever the JSON looked like)
+export const offerTranscript = (offer: HandshakeOffer): string =>
+    JSON.stringify([offer.versions, offer.suites, offer.signatures]);
+
+/**
+ * Highest common version, first suite in the initiator's order that both support.
+ * Both sides run it: the responder to pick, the initiator to check the pick.
+ * @returns null if there is nothing in common
+ */
+export const negotiate = (initiator: HandshakeOffer, responder: HandshakeOffer): HandshakeSelection | null => {
+    const versions = initiator.versions.filter(v => PROTOCOL_VERSIONS.includes(v) && responder.versions.includes(v));
+    const suite = initiator.suites.find(name => isCipherSuite(name) && responder.suites.includes(name)) as CipherSuite | undefined;
+    if (!versions.length || !suite) return null;
+    return { version: Math.max(...versions), suite };
+};
+
+/**
+ * The verifier's most preferred algorithm that the signer's key supports.
+ * The signer uses it, and the verifier insists on it (so nobody can fall back to a weaker one).
+ * @param accepted the verifier's offer.signatures
+ * @param signerKey the signer's public key (PEM)
+ */
+export const pickSignatureAlgorithm = (accepted: string[], signerKey: string): SignatureAlgorithm | undefined => {
+    const usable = signatureAlgorithmsForKey(signerKey);
+    return accepted.find(name => usable.includes(name as SignatureAlgorithm)) as SignatureAlgorithm | undefined;
+};
+
+// --- IDENTITY KEYS ---
+// Phase 6 identities only sign (session keys come from X25519), so besides RSA they can be Ed25519
+// or P-256 keys. Phase 5 refuses those: it transports session keys with RSA-OAEP.
+
+export type IdentityKeyType = 'rsa' | 'ed25519' | 'p256';
+export const IDENTITY_KEY_TYPES: IdentityKeyType[] = ['rsa', 'ed25519', 'p256'];
+
+export const generateIdentityKeys = (type: IdentityKeyType = 'rsa'): KeyPair => {
+    if (type === 'rsa') return generateRSAKeys();
+    const encoding = {
+        publicKeyEncoding: { type: 'spki', format: 'pem' },
+        privateKeyEncoding: { type: 'pkcs8', format: 'pem' }
+    } as const;
+    return type === 'ed25519'
+        ? generateKeyPairSync('ed25519', encoding)
+        : generateKeyPairSync('ec', { namedCurve: 'prime256v1', ...encoding });
+};
@@ -0,0 +1,151 @@
+import { IncomingMessage } from 'http';
+import { WebSocketServer, WebSocket } from 'ws';
+import { CertificateRegistrar, CertifiedClient } from '../05_auth/cert-registration';
+import { FloodGuard } from '../03_encryption/flood-guard';
+import { keepAlive, parseClientStatus } from '../03_encryption/presence';
+import { ProtocolError, errorFrame, parseFrame, PHASE6_REQUESTS } from '../03_encryption/protocol';
+
+const CA_URL = process.env.CA_URL || 'ws://localhost:8084';
+
+interface Client extends CertifiedClient {
+    awaySince?: number; // While the client reports itself away
+}
+
+// Only registered (certified) clients, keyed by certificate userId
+const clients = new Map<string, Client>();
+
+// Users who went offline stay in the user list as "offline since" for a day (no queue in this phase)
+const OFFLINE_LISTED_MS = 24 * 60 * 60 * 1000;
+const lastSeen = new Map<string, number>(); // userId -> when it went offline
+
+// Per-connection and per-identity token buckets, frame size and per-IP connection caps
+const flood = new FloodGuard();
+
+// Registration: verifies certificates against the CA Root (see cert-registration.ts)
+const registrar = new CertificateRegistrar(clients);
+
+function handleConnection(ws: Client, req: IncomingMessage) {
+    if (!flood.admit(ws, req)) return; // Too many connections from this IP: told and closed
+
+    ws.id = 'unregistered-' + Math.random().toString(36).substring(7);
+    ws.registered = false;
+    console.log(`Client ${ws.id} connected`);
+    keepAlive(ws, () => ws.id); // A dead socket is terminated, and 'close' marks the user offline
+
+    ws.on('message', (data) => {
+        if (!flood.allowFrame(ws, data, ws.registered ? ws.id : undefined)) return; // Told rate_limited (and closed after repeated abuse)
+
+        try {
+            // Checked against the schema for its type (see protocol.ts) before anything else
+            const msg = parseFrame(data.toString(), PHASE6_REQUESTS);
+
+            if (msg.type === 'register_with_cert') {
+                // 1. Client sends their Certificate (+ chain). 2. Challenge for its private key.
+                registrar.register(ws, msg.payload);
+            }
+            else if (msg.type === 'auth_response') {
+                // 3. Verify the signature over the nonce, 4. route under the certified userId
+                if (!registrar.authenticate(ws, msg.signature)) return;
+                lastSeen.delete(ws.id);
+
+                ws.send(JSON.stringify({ type: 'registered', userId: ws.id }));
+                broadcastUserList(); // Broadcast user list (clients will pull certs on demand/connect)
+            }
+            else if (msg.type === 'ping') {
+                ws.send(JSON.stringify({ type: 'pong' }));
+            }
+            else if (!ws.registered) {
+                ws.send(JSON.stringify(errorFrame('not_registered', 'Not registered. Send register_with_cert first.')));
+            }
+            else if (msg.type === 'list') {
+                sendUserList(ws);
+            }
+            else if (msg.type === 'presence') {
+                ws.awaySince = parseClientStatus(msg.status) === 'away' ? ws.awaySince ?? Date.now() : undefined;
+                broadcastUserList();
+            }
+            else if (msg.type === 'direct') {
+                const target = clients.get(msg.targetId);
+                if (target && target.readyState === WebSocket.OPEN) {
+                    // Relay Payload (handshake or chat). senderId is the certified identity.
+                    // The relay never sees session keys: they come from the peers' ephemeral DH.
+                    target.send(JSON.stringify({
+                        type: 'direct',
+                        senderId: ws.id,
+                        payload: msg.payload
+                    }));
+                } else {
+                    ws.send(JSON.stringify(errorFrame('target_offline', 'Target not found')));
+                }
+            }
+            // NEW: allow fetching certs
+            else if (msg.type === 'get_cert') {
+                const target = clients.get(msg.targetId);
+                if (target?.certificate) {
+                    ws.send(JSON.stringify({
+                        type: 'cert_response',
+                        targetId: msg.targetId,
+                        certificate: target.certificate,
+                        chain: target.certificateChain
+                    }));
+                } else {
+                    ws.send(JSON.stringify(errorFrame('target_offline', `${msg.targetId} is not online`)));
+                }
+            }
+
+        } catch (e) {
+            // Malformed or refused: tell the client why, with a code it can act on
+            if (e instanceof ProtocolError) ws.send(JSON.stringify(errorFrame(e.code, e.message)));
+            else console.error('Invalid message:', e);
+        }
+    });
+
+    ws.on('close', () => {
+        console.log(`Client ${ws.id} disconnected`);
+        // Only drop the routing entry if it still points at this socket
+        if (ws.registered && clients.get(ws.id) === ws) {
+            clients.delete(ws.id);
+            lastSeen.set(ws.id, Date.now());
+            broadcastUserList();
+        }
+    });
+}
+
+function getUserList() {
+    // Only send IDs. Certificates are large, fetch on demand.
+    const online = Array.from(clients.values()).map(c => ({
+        id: c.id,
+        hasCert: !!c.certificate,
+        presence: c.awaySince === undefined ? 'online' : 'away',
+        since: c.awaySince
+    }));
+    const cutoff = Date.now() - OFFLINE_LISTED_MS;
+    lastSeen.forEach((since, userId) => { if (since < cutoff) lastSeen.delete(userId); });
+    const offlineUsers = Array.from(lastSeen).map(([userId, since]) => ({ id: userId, hasCert: false, presence: 'offline', since }));
+    return [...online, ...offlineUsers];
+}
+
+function sendUserList(ws: WebSocket) {
+    ws.send(JSON.stringify({ type: 'user_list', users: getUserList() }));
+}
+
+// Every register and close asks for one, so a reconnect loop would flood everyone with lists: at most one per interval
+const userListBroadcast = flood.throttle(() => {
+    const msg = JSON.stringify({ type: 'user_list', users: getUserList() });
+    clients.forEach(c => c.send(msg));
+});
+
+function broadcastUserList() {
+    userListBroadcast.run();
+}
+
+// Listens on its own port when run directly; src/server.ts mounts it next to the other phases instead
+export function startPhase6Server(wss: WebSocketServer = new WebSocketServer({ port: 8086 }), caUrl = CA_URL) { // New port for Phase 6
+    registrar.fetchTrustAnchor(caUrl);
+    wss.on('connection', handleConnection);
+}
+
+if (require.main === module) {
+    startPhase6Server();
+    console.log('Phase 6 Chat Server (Forward Secrecy) started on ws://localhost:8086');
+}
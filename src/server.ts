@@ -0,0 +1,97 @@
+import http from 'http';
+import { WebSocketServer } from 'ws';
+import { startPhase1Server } from './01_plain/server';
+import { startPhase2Server } from './02_signatures/server';
+import { startPhase3Server } from './03_encryption/server';
+import { startPhase4Server } from './04_replay/server';
+import { startPhase5Server } from './05_auth/server';
+import { startPhase6Server } from './06_forward_secrecy/server';
+import { startCAServer } from './05_auth/ca-server';
+
+// --- SINGLE-PROCESS SERVER ---
+// Hosts the selected phases and the CA on one HTTP port. WebSocket upgrades are routed by path
+// (/phase1 ... /phase6, /ca), the same way the Caddyfile routes them to the per-phase containers.
+// Usage:
+//   npm start (or node dist/server.js)               -> everything on port 8080
+//   node dist/server.js --phases=3,5,ca --port=9000  -> only Phase 3, Phase 5 and the CA
+// PORT sets the default port. CA_* variables configure the CA exactly as for run-ca.js.
+// Without --phases the CA is mounted only if it is provisioned (a warning says why not), so a fresh
+// checkout starts. Asked for with --phases, a CA that cannot start stops the server.
+// Phases 5 and 6 fetch their trust anchor from the co-hosted CA, or from CA_URL if it is not enabled.
+
+const ALL_PHASES = ['1', '2', '3', '4', '5', '6', 'ca'];
+
+const option = (name: string): string | undefined =>
+    process.argv.slice(2).find(arg => arg.startsWith(`--${name}=`))?.slice(name.length + 3);
+
+const port = Number(option('port') || process.env.PORT || 8080);
+const caRequired = option('phases') !== undefined;
+const enabled = (option('phases') || ALL_PHASES.join(',')).split(',').map(p => p.trim().toLowerCase());
+
+const unknown = enabled.filter(p => !ALL_PHASES.includes(p));
+if (unknown.length > 0 || !Number.isInteger(port)) {
+    console.error(`Usage: node dist/server.js [--phases=${ALL_PHASES.join(',')}] [--port=8080]`);
+    if (unknown.length > 0) console.error(`Unknown phase(s): ${unknown.join(', ')}`);
+    process.exit(1);
+}
+
+// Path prefix -> handler. Each handler gets its own WebSocketServer, so its clients stay separate.
+const mounts = new Map<string, WebSocketServer>();
+const mount = (path: string, start: (wss: WebSocketServer) => void) => {
+    const wss = new WebSocketServer({ noServer: true });
+    start(wss);
+    mounts.set(path, wss);
+};
+
+// The CA first: a wrong CA_PASSPHRASE should stop us before anything listens
+if (enabled.includes('ca')) {
+    try {
+        mount('/ca', wss => startCAServer(wss));
+    } catch (e: any) {
+        if (caRequired) {
+            console.error(e.message);
+            process.exit(1);
+        }
+        console.warn(`CA not started: ${e.message}`);
+        console.warn('Phases 5 and 6 will use CA_URL instead. Provision the CA (see README, Phase 5) to host it here.');
+    }
+}
+
+// Without a co-hosted CA, Phases 5 and 6 keep their CA_URL default
+const caUrl = mounts.has('/ca') ? `ws://localhost:${port}/ca` : undefined;
+
+if (enabled.includes('1')) mount('/phase1', wss => startPhase1Server(wss));
+if (enabled.includes('2')) mount('/phase2', wss => startPhase2Server(wss));
+if (enabled.includes('3')) mount('/phase3', wss => startPhase3Server(wss));
+if (enabled.includes('4')) mount('/phase4', wss => startPhase4Server(wss));
+if (enabled.includes('5')) mount('/phase5', wss => startPhase5Server(wss, caUrl));
+if (enabled.includes('6')) mount('/phase6', wss => startPhase6Server(wss, caUrl));
+
+// The mount itself or anything below it: /phase3 and /phase3/x, but not /phase30 or /cat
+const route = (url: string | undefined): WebSocketServer | undefined => {
+    const path = new URL(url || '/', 'http://localhost').pathname;
+    for (const [prefix, wss] of mounts) {
+        if (path === prefix || path.startsWith(prefix + '/')) return wss;
+    }
+    return undefined;
+};
+
+const server = http.createServer((req, res) => {
+    // Plain HTTP: nothing to serve, but say where the sockets are
+    res.writeHead(route(req.url) ? 426 : 404, { 'Content-Type': 'text/plain' });
+    res.end(`WebSocket endpoints: ${Array.from(mounts.keys()).join(', ')}\n`);
+});
+
+server.on('upgrade', (req, socket, head) => {
+    const wss = route(req.url);
+    if (!wss) {
+        socket.end('HTTP/1.1 404 Not Found\r\n\r\n');
+        return;
+    }
+    wss.handleUpgrade(req, socket, head, (ws) => wss.emit('connection', ws, req));
+});
+
+server.listen(port, () => {
+    console.log(`Server started on http://localhost:${port}`);
+    mounts.forEach((_, path) => console.log(`  ws://localhost:${port}${path}`));
+});
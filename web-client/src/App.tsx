@@ -3,9 +3,130 @@ import { PhaseSelector } from './components/PhaseSelector';
 import { LogViewer } from './components/LogViewer';
 import { ChatWindow } from './components/ChatWindow';
 import { ConnectionSettings } from './components/ConnectionSettings'; // Import Settings
+import { SafetyNumberDialog } from './components/SafetyNumberDialog';
 import * as Crypto from './crypto-browser';
+import * as Protocol from './protocol';
+
+// The CA sits next to the chat servers: its own port, or /ca behind the reverse proxy (or the single-process server)
+function caUrlFor(serverUrl: string, usePorts: boolean): string {
+  return usePorts ? `${serverUrl}:8084` : `${serverUrl.replace(/\/$/, '')}/ca`;
+}
+
+// Phases 3-4: register as resumable, so the relay keeps our ID (and queues messages for it) while we
+// are away. The token lives in sessionStorage: a reload takes the ID back, another tab gets its own.
+function registerFrame(phase: number, publicKey: string) {
+  return { type: 'register', payload: { publicKey }, ...(phase >= 3 && { resumable: true }) };
+}
+const resumeKey = (wsUrl: string) => `chat_resume_${wsUrl}`;
+
+// Heartbeat and presence (Phases 3-6). Must match src/03_encryption/presence.ts
+const HEARTBEAT_INTERVAL_MS = 15 * 1000;
+const HEARTBEAT_TIMEOUT_MS = 45 * 1000;
+const AWAY_AFTER_MS = 5 * 60 * 1000;
+
+// One-shot request to the CA, resolved with the reply of the expected type
+function requestFromCA<T>(caUrl: string, request: object, responseType: string): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const caWs = new WebSocket(caUrl);
+    caWs.onopen = () => caWs.send(JSON.stringify(request));
+    caWs.onerror = () => reject(new Error('CA unreachable'));
+    caWs.onmessage = (e) => {
+      caWs.close();
+      let msg;
+      try {
+        msg = Protocol.parseFrame(e.data, Protocol.CA_RESPONSES);
+      } catch (err) {
+        return reject(err); // Malformed response (ProtocolError)
+      }
+      if (msg.type === responseType) resolve(msg as T);
+      else reject(new Error(msg.type === 'error' ? msg.message : 'Unexpected CA response'));
+    };
+  });
+}
+
+// Phase 5 transparency: accept a CA-signed tree head only if it extends the last verified one
+// (consistency proof), so the log can neither be rolled back nor forked for us.
+async function acceptTreeHead(caUrl: string, signed: Crypto.SignedStatement, trustAnchor: string, last: Crypto.TreeHead | null): Promise<Crypto.TreeHead> {
+  const head = Crypto.openStatement<Crypto.TreeHead>(signed, trustAnchor);
+  if (!head) throw new Error('Tree head signature invalid');
+
+  if (last) {
+    if (head.treeSize < last.treeSize) throw new Error('Transparency log rollback detected');
+    if (head.treeSize === last.treeSize && head.rootHash !== last.rootHash) {
+      throw new Error('Transparency log fork detected (same size, different root)');
+    }
+    if (head.treeSize > last.treeSize) {
+      const msg = await requestFromCA<{ proof: string[] }>(
+        caUrl, { type: 'get_consistency_proof', first: last.treeSize, second: head.treeSize }, 'consistency_proof'
+      );
+      if (!Crypto.verifyConsistencyProof(last.treeSize, head.treeSize, last.rootHash, head.rootHash, msg.proof)) {
+        throw new Error('Transparency log is not consistent with the last tree head');
+      }
+    }
+  }
+  return head;
+}
+
+interface InclusionProof {
+  leafIndex: number;
+  proof: string[];
+  sth: Crypto.SignedStatement;
+}
+
+// Checks that `certificate` sits at proof.leafIndex of the log. Returns the new verified tree head.
+async function checkLogInclusion(caUrl: string, certificate: string, proof: InclusionProof | undefined, trustAnchor: string, last: Crypto.TreeHead | null): Promise<Crypto.TreeHead> {
+  if (!proof) throw new Error('CA returned no transparency proof');
+  const head = await acceptTreeHead(caUrl, proof.sth, trustAnchor, last);
+  if (!Crypto.verifyInclusionProof(Crypto.certificateLeafHash(certificate), proof.leafIndex, head.treeSize, proof.proof, head.rootHash)) {
+    throw new Error('Certificate is NOT in the transparency log');
+  }
+  return head;
+}
+
+// Phase 6: one forward-secret session per handshake. Fields are filled in (and wiped) as it progresses.
+interface ForwardSecureSession {
+  sessionId: string;
+  peerId: string;
+  role: 'initiator' | 'responder';
+  transcript: string;                     // Latest transcript hash (th1 .. th4)
+  offer: Crypto.HandshakeOffer;           // Ours: the peer must sign with the algorithm it implies
+  ephemeral?: Crypto.EphemeralKeyPair;    // Initiator only, until message 2 arrives
+  sharedSecret?: ArrayBuffer;             // Until the traffic keys are derived
+  handshakeKeys?: Crypto.DirectionalKeys; // Protect the identities in messages 2 and 3
+  sendKey?: CryptoKey;                    // Traffic keys: set once both sides are authenticated
+  receiveKey?: CryptoKey;
+  sendSeq: number;
+  receiveSeq: number;
+}
+
+// Phase 6 direct payloads. `sealed` is an encrypted Crypto.HandshakeIdentity. Offers are checked with parseOffer.
+type ForwardSecurePayload =
+  | { type: 'handshake_init'; sessionId: string; ephemeral: string; offer?: unknown }
+  | { type: 'handshake_response'; sessionId: string; ephemeral: string; offer?: unknown; selected?: Crypto.HandshakeSelection; sealed: string }
+  | { type: 'handshake_finish'; sessionId: string; sealed: string }
+  | { type: 'handshake_reject'; sessionId: string; reason: string }
+  | { type: 'chat'; sessionId: string; seq: number; content: string };
 
 // LOGGING HELPERS
+// Phases 3-5: a group as the sidebar shows it
+interface GroupSummary {
+  name: string;
+  members: string[];
+}
+
+// What the relay tells members about each other (Phases 3-4: registered key, Phase 5: certificate)
+interface GroupMember {
+  id: string;
+  publicKey?: string;
+  certificate?: string;
+  chain?: string[];
+}
+
+type GroupRelayMessage =
+  | { type: 'group_update'; group: string; action: 'created' | 'joined' | 'left'; userId: string; by?: string; members: GroupMember[] }
+  | { type: 'group_message'; group: string; senderId: string; payload: Crypto.GroupCiphertext }
+  | { type: 'direct'; senderId: string; payload: Crypto.SenderKeyEnvelope };
+
 interface LogEntry {
   timestamp: Date;
   type: 'info' | 'success' | 'error' | 'crypto' | 'network';
@@ -40,13 +161,44 @@ export default function App() {
     const host = window.location.hostname;
     return (host === 'localhost' || host === '127.0.0.1');
   });
+  const caUrl = caUrlFor(serverUrl, usePorts);
 
   // State for keys
   const [keyPair, setKeyPair] = useState<any>(null); // RSA Key Pair
-  const [_sessionKey, setSessionKey] = useState<any>(null); // AES Session Key
   const [targetUser, setTargetUser] = useState<any>(null);
+  const [certWarning, setCertWarning] = useState<string | null>(null); // Phase 5/6 expiry banner
+  const [replayStrategyName, setReplayStrategyName] = useState<Crypto.ReplayStrategyName>('timestamp'); // Phase 4/5, for sessions we start
+  const [signMessages, setSignMessages] = useState(false); // Phases 3-5: sign-then-encrypt
+  const [verifiedIds, setVerifiedIds] = useState<string[]>(() => new Crypto.VerifiedPeers().ids()); // Phases 3-5, for the UI
+  const [keyChangeWarning, setKeyChangeWarning] = useState<string | null>(null); // A verified peer's key changed
+  const [safetyDialog, setSafetyDialog] = useState<{ peerId: string; peerKey: string; safetyNumber: string; code: string } | null>(null);
+  const [groups, setGroups] = useState<GroupSummary[]>([]); // Phases 3-5, for the UI
+  const [activeGroup, setActiveGroup] = useState<string | null>(null); // Phases 3-5: messages go to this group instead of targetUser
 
   const ws = useRef<WebSocket | null>(null);
+  const caRootCertificate = useRef<string | null>(null); // Phase 5 Trust Anchor (X.509 PEM)
+  const crlCache = useRef<Crypto.RevocationList | null>(null); // Valid until nextUpdate
+  const myCertifiedId = useRef<string | null>(null); // Subject CN of our Phase 5 certificate
+  const myRelayId = useRef(''); // ID from the welcome message (Phases 3-4)
+  const myCertificate = useRef<{ certificate: string; chain: string[] } | null>(null); // Sent with signed key exchanges
+  const seenKeyExchangeNonces = useRef(new Crypto.MemoryNonceStore(60_000)); // Phase 5 key_exchange replay check: forgets nonces past the window
+  const treeHead = useRef<Crypto.TreeHead | null>(null); // Latest verified transparency log head
+  const treeHeadQueue = useRef<Promise<unknown>>(Promise.resolve()); // Tree head updates, one at a time
+  const certifiedKeyPair = useRef<Awaited<ReturnType<typeof Crypto.generateRSAKeys>> | null>(null); // Key pair our certificate was issued for
+  const fsSessions = useRef(new Map<string, ForwardSecureSession>()); // Phase 6, by sessionId
+  const activeFsSession = useRef<ForwardSecureSession | null>(null); // Phase 6: where messages go
+  const ratchetSession = useRef<Crypto.RekeyingSession | null>(null); // Phases 3-5: Double Ratchet seeded by the session key, rekeyed now and then
+  const sessionPeer = useRef<string | null>(null); // Phases 3-5: who the ratchet is shared with
+  const sessionPeerKey = useRef<string | null>(null); // Phases 3-5: its registered (or certified) key, for signed messages
+  const registeredKeys = useRef(new Map<string, string>()); // Phases 3-4: from user_list, for handlers
+  const certifiedKeys = useRef(new Map<string, string>()); // Phase 5: userId -> key from its latest verified certificate
+  const verifiedPeers = useRef(new Crypto.VerifiedPeers()); // Peers whose safety number the user compared
+  const replay = useRef<Crypto.ReplayStrategy | null>(null); // Phases 4-5: chosen by the initiator at session setup
+  const chosenReplayStrategy = useRef<Crypto.ReplayStrategyName>('timestamp'); // replayStrategyName, for handlers
+  const identityKeys = useRef<Awaited<ReturnType<typeof Crypto.generateRSAKeys>> | null>(null); // keyPair, for handlers
+  const senderKeyGroups = useRef(new Map<string, Crypto.SenderKeyGroup>()); // Phases 3-5: our groups and sender keys
+  const groupMemberKeys = useRef(new Map<string, string>()); // Phases 3-5: member ID -> identity key from the last group_update
+  const groupQueue = useRef<Promise<void>>(Promise.resolve()); // Group relay messages, one at a time and in order
 
   const addLog = useCallback((type: LogEntry['type'], message: string) => {
     setLogs(prev => [...prev, { timestamp: new Date(), type, message }]);
@@ -62,15 +214,17 @@ export default function App() {
 
   // --- CRYPTO SETUP ---
   useEffect(() => {
-    // Generate Identity on Phase Change if needed (Phase 2+)
+    // Load the Identity on Phase Change if needed (Phase 2+). Generated once, then kept in IndexedDB.
     if (phase >= 2) {
-      addLog('crypto', 'Generating RSA-2048 Identity Keys...');
-      Crypto.generateRSAKeys().then(keys => {
+      addLog('crypto', 'Loading RSA-2048 Identity Keys...');
+      Crypto.loadIdentityKeys().then(({ keys, created }) => {
         setKeyPair(keys);
-        addLog('success', 'Identity Generated.');
+        identityKeys.current = keys;
+        addLog('success', created ? 'Identity Generated (kept in this browser).' : 'Identity loaded from this browser.');
       }).catch(err => addLog('error', 'Key Gen Failed: ' + err));
     } else {
       setKeyPair(null);
+      identityKeys.current = null;
     }
   }, [phase, addLog]);
 
@@ -82,14 +236,28 @@ export default function App() {
     setUsers([]);
     setMessages([]);
     setTargetUser(null);
-    setSessionKey(null);
+    ratchetSession.current?.close();
+    ratchetSession.current = null;
+    sessionPeer.current = null;
+    sessionPeerKey.current = null;
+    registeredKeys.current.clear();
+    certifiedKeys.current.clear();
+    setKeyChangeWarning(null);
+    setSafetyDialog(null);
+    replay.current = null;
+    fsSessions.current.clear();
+    activeFsSession.current = null;
+    senderKeyGroups.current.clear();
+    groupMemberKeys.current.clear();
+    setGroups([]);
+    setActiveGroup(null);
 
     // Construct URL based on Phase and Settings
     let wsUrl = '';
 
     if (usePorts) {
       // Port-based (Localhost style): ws://localhost:8080
-      const ports = { 1: 8080, 2: 8081, 3: 8082, 4: 8083, 5: 8085 };
+      const ports = { 1: 8080, 2: 8081, 3: 8082, 4: 8083, 5: 8085, 6: 8086 };
       const port = ports[phase as keyof typeof ports];
       // If serverUrl includes a port, strip it? Or just assume serverUrl is the HOST.
       // Let's assume serverUrl is "ws://localhost" or "ws://192.168.1.5"
@@ -108,42 +276,83 @@ export default function App() {
       const socket = new WebSocket(wsUrl);
       ws.current = socket;
 
+      // Browsers cannot see the server's pings: ask for a pong ourselves, and give the connection up
+      // once the server has been silent for too long (a half-open socket never fires onclose by itself)
+      let lastHeard = Date.now();
+      const heartbeat = setInterval(() => {
+        if (phase < 3 || socket.readyState !== WebSocket.OPEN) return;
+        if (Date.now() - lastHeard > HEARTBEAT_TIMEOUT_MS) {
+          addLog('error', `No answer from the server for ${HEARTBEAT_TIMEOUT_MS / 1000}s. Connection lost.`);
+          clearInterval(heartbeat);
+          setConnected(false);
+          socket.close();
+          return;
+        }
+        socket.send(JSON.stringify({ type: 'ping' }));
+      }, HEARTBEAT_INTERVAL_MS);
+
+      // Phases 3-4: waiting for the answer to our resume (a second welcome)
+      let resuming = false;
+
       socket.onopen = () => {
         setConnected(true);
         addLog('success', 'Connected to Server.');
 
+        // Ask for our old ID first. The answer is a second welcome, then anything queued for us.
+        const saved = phase >= 3 && phase <= 4 ? sessionStorage.getItem(resumeKey(wsUrl)) : null;
+        if (saved) {
+          resuming = true;
+          socket.send(JSON.stringify({ type: 'resume', ...JSON.parse(saved) }));
+        }
+
         // Register Identity
         if (phase === 1) {
           // No Key registration
         } else if (phase >= 2 && phase <= 4) {
           if (keyPair) {
-            socket.send(JSON.stringify({
-              type: 'register',
-              payload: { publicKey: keyPair.publicKey }
-            }));
+            socket.send(JSON.stringify(registerFrame(phase, keyPair.publicKey)));
             addLog('network', 'Sent Public Key to Server.');
           }
-        } else if (phase === 5) {
-          handlePhase5Registration(socket);
+        } else if (phase >= 5) {
+          handlePhase5Registration(socket); // Phase 6 uses the same CA certificates
         }
 
-        // Request User List
-        socket.send(JSON.stringify({ type: 'list' }));
+        // Request User List (Phase 5/6 receive it once registration is complete)
+        if (phase < 5) socket.send(JSON.stringify({ type: 'list' }));
       };
 
       socket.onmessage = async (event) => {
+        lastHeard = Date.now();
         try {
           const msg = JSON.parse(event.data);
+          // Checked against the schema for its type (see protocol.ts) before any handler sees it
+          const frames = Protocol.SERVER_FRAMES[phase];
+          if (frames) {
+            Protocol.validateFrame(msg, frames);
+            if (msg.type === 'direct') Protocol.validateFrame(msg.payload, Protocol.DIRECT_PAYLOADS[phase]!);
+          }
 
           if (msg.type === 'welcome') {
+            if (resuming && msg.resumed === undefined) return; // This connection's new ID: the answer to our resume follows
+            if (resuming) addLog(msg.resumed ? 'success' : 'info', msg.resumed ? 'Took our previous ID back.' : 'Could not take our previous ID back.');
+            resuming = false;
+            if (msg.resumeToken) sessionStorage.setItem(resumeKey(wsUrl), JSON.stringify({ id: msg.id, resumeToken: msg.resumeToken }));
+            else sessionStorage.removeItem(resumeKey(wsUrl)); // A new ID gets its token once registered (resume_token)
             setMyId(msg.id);
+            myRelayId.current = msg.id;
             addLog('info', `My ID: ${msg.id}`);
           }
+          else if (msg.type === 'resume_token' && msg.id === myRelayId.current) {
+            sessionStorage.setItem(resumeKey(wsUrl), JSON.stringify({ id: msg.id, resumeToken: msg.resumeToken }));
+          }
 
           handleIncomingMessage(msg);
         } catch (e) {
+          if (e instanceof Protocol.ProtocolError) {
+            addLog('error', `Dropped malformed frame from the server: ${e.message}`);
+          }
           // Plain text message in Phase 1?
-          if (phase === 1 && !event.data.startsWith('{')) {
+          else if (phase === 1 && !event.data.startsWith('{')) {
             // It's a broadcast string
             const text = event.data;
             addMessage({ id: Date.now().toString(), sender: 'Unknown', text, isOwn: false, timestamp: new Date() });
@@ -154,71 +363,620 @@ export default function App() {
       };
 
       socket.onclose = () => {
+        clearInterval(heartbeat);
         setConnected(false);
         addLog('error', 'Disconnected from Server.');
       };
 
-      return () => socket.close();
+      return () => {
+        clearInterval(heartbeat);
+        socket.close();
+      };
     } catch (e: any) {
       addLog('error', `Connection Failed: ${e.message || 'Invalid URL'}`);
     }
   }, [phase, serverUrl, usePorts, addLog]); // REMOVED keyPair from deps
 
+  // --- PRESENCE (Phases 3-6) ---
+  // Away while the tab is hidden or after AWAY_AFTER_MS without input, online again on the next one
+  useEffect(() => {
+    if (!connected || phase < 3 || !myId) return;
+    let status: 'online' | 'away' = 'online';
+    let idleTimer: ReturnType<typeof setTimeout> | undefined;
+    const report = (next: 'online' | 'away') => {
+      if (next === status) return;
+      status = next;
+      ws.current?.send(JSON.stringify({ type: 'presence', status }));
+    };
+    const onActivity = () => {
+      clearTimeout(idleTimer);
+      if (document.hidden) {
+        report('away');
+        return;
+      }
+      report('online');
+      idleTimer = setTimeout(() => report('away'), AWAY_AFTER_MS);
+    };
+
+    const events = ['keydown', 'pointerdown', 'mousemove'];
+    events.forEach(name => window.addEventListener(name, onActivity));
+    document.addEventListener('visibilitychange', onActivity);
+    onActivity();
+    return () => {
+      clearTimeout(idleTimer);
+      events.forEach(name => window.removeEventListener(name, onActivity));
+      document.removeEventListener('visibilitychange', onActivity);
+    };
+  }, [connected, phase, myId]);
+
   // --- LATE REGISTRATION EFFECT ---
   // If keys are generated AFTER connection is established
   useEffect(() => {
     if (connected && keyPair && phase >= 2 && phase <= 4) {
       if (ws.current && ws.current.readyState === WebSocket.OPEN) {
-        ws.current.send(JSON.stringify({
-          type: 'register',
-          payload: { publicKey: keyPair.publicKey }
-        }));
+        ws.current.send(JSON.stringify(registerFrame(phase, keyPair.publicKey)));
         addLog('network', 'Sent Public Key (Async)');
       }
     }
   }, [keyPair, connected, phase, addLog]);
 
 
+  // Checks a certificate's log inclusion and moves treeHead forward. One at a time, so each new
+  // head is checked against the one the previous check left rather than a stale copy.
+  const checkLogged = useCallback((certificate: string, proof: InclusionProof | undefined): Promise<Crypto.TreeHead> => {
+    const check = treeHeadQueue.current.then(async () => {
+      treeHead.current = await checkLogInclusion(caUrl, certificate, proof, caRootCertificate.current || '', treeHead.current);
+      return treeHead.current;
+    });
+    treeHeadQueue.current = check.catch(() => {});
+    return check;
+  }, [caUrl]);
+
+  // --- PHASE 5/6 CERTIFICATE LIFECYCLE ---
+  // Renew in the background once two thirds of the lifetime have passed, then re-register.
+  // If renewal keeps failing, show a banner in the last sixth; peers refuse expired certificates.
+  useEffect(() => {
+    if (phase < 5 || !connected || !keyPair) return;
+    let renewing = false;
+
+    const renewCertificate = () => new Promise<void>((resolve, reject) => {
+      const current = myCertificate.current!;
+      const keys = certifiedKeyPair.current;
+      const caWs = new WebSocket(caUrl);
+      caWs.onopen = () => caWs.send(JSON.stringify({ type: 'get_challenge' }));
+      caWs.onerror = () => reject(new Error('CA unreachable'));
+      caWs.onmessage = async (e) => {
+        let msg;
+        try {
+          msg = JSON.parse(e.data);
+          Protocol.validateFrame(msg, Protocol.CA_RESPONSES);
+        } catch (err) {
+          caWs.close();
+          return reject(err);
+        }
+        if (msg.type === 'challenge') {
+          // Same key, fresh CSR. The current certificate's key vouches for the request.
+          const csr = Crypto.createCertificateRequest(myCertifiedId.current || '', keys.publicKey, keys.privateKey, msg.nonce);
+          const serialNumber = Crypto.parseCertificate(current.certificate).serialNumber;
+          const signature = await Crypto.signMessageWithKeyObject(
+            Crypto.renewalMessage(serialNumber, msg.nonce, csr), keys.raw.privateKey
+          );
+          caWs.send(JSON.stringify({ type: 'renew_request', payload: { certificate: current.certificate, csr, signature } }));
+          return;
+        }
+        caWs.close();
+        if (msg.type !== 'certificate_renewed') return reject(new Error(msg.message || 'Unexpected CA response'));
+
+        const chain: string[] = msg.payload.chain || [];
+        const check = Crypto.verifyCertificateChain(msg.payload.certificate, chain, caRootCertificate.current || '');
+        if (!check.valid) return reject(new Error(`CA returned an invalid certificate (${check.reason})`));
+        if (check.certificate.userId !== myCertifiedId.current) return reject(new Error('CA returned a certificate for another User ID'));
+        try {
+          await checkLogged(msg.payload.certificate, msg.payload.transparency);
+        } catch (err) {
+          return reject(err);
+        }
+
+        myCertificate.current = { certificate: msg.payload.certificate, chain };
+        setCertWarning(null);
+        addLog('success', `Certificate renewed (serial ${check.certificate.serialNumber}, valid until ${check.certificate.notAfter.toLocaleString()}).`);
+
+        // Re-register so the Chat Server hands out the new certificate
+        ws.current?.send(JSON.stringify({ type: 'register_with_cert', payload: myCertificate.current }));
+        resolve();
+      };
+    });
+
+    const checkExpiry = () => {
+      if (!myCertificate.current) return;
+      const cert = Crypto.parseCertificate(myCertificate.current.certificate);
+      const lifetime = cert.notAfter.getTime() - cert.notBefore.getTime();
+      const remaining = cert.notAfter.getTime() - Date.now();
+
+      if (remaining <= 0) {
+        setCertWarning(`Your certificate expired at ${cert.notAfter.toLocaleString()}. Peers will refuse sessions. Reconnect to enroll again.`);
+        return;
+      }
+      if (remaining < lifetime / 6) {
+        setCertWarning(`Your certificate expires in ${Math.ceil(remaining / 1000)}s and has not been renewed yet.`);
+      }
+      if (remaining < lifetime / 3 && !renewing) {
+        renewing = true;
+        addLog('crypto', 'Certificate nearing expiry. Renewing with the CA...');
+        renewCertificate()
+          .catch(e => addLog('error', `Certificate renewal failed (${e.message}). Will retry.`))
+          .finally(() => renewing = false);
+      }
+    };
+
+    const timer = setInterval(checkExpiry, 5000);
+    return () => clearInterval(timer);
+  }, [phase, connected, keyPair, caUrl, addLog, checkLogged]);
+
   // --- PHASE 5 SPECIAL HANDLER ---
   const handlePhase5Registration = (chatSocket: WebSocket) => {
-    addLog('network', 'Connecting to CA (Port 8084) to get Certificate...');
-    const caWs = new WebSocket('ws://localhost:8084');
+    // Registration authority: the CA only issues to users holding an enrollment token minted by its admin
+    const enrollmentToken = window.prompt('Phase 5 enrollment token (ask your CA admin):')?.trim();
+    if (!enrollmentToken) {
+      addLog('error', 'No enrollment token. Switch to another phase and back to retry.');
+      return;
+    }
+
+    addLog('network', `Connecting to CA at ${caUrl} to get Certificate...`);
+    const caWs = new WebSocket(caUrl);
     caWs.onopen = () => caWs.send(JSON.stringify({ type: 'get_root_key' }));
 
-    caWs.onmessage = (e) => {
-      const msg = JSON.parse(e.data);
+    caWs.onmessage = async (e) => {
+      let msg;
+      try {
+        msg = JSON.parse(e.data);
+        Protocol.validateFrame(msg, Protocol.CA_RESPONSES);
+      } catch (err) {
+        addLog('error', `CA: ${(err as Error).message}`);
+        caWs.close();
+        return;
+      }
       if (msg.type === 'root_key') {
-        addLog('info', 'Received CA Root Key.');
-        // Request Sign
+        caRootCertificate.current = msg.certificate;
+        addLog('info', 'Received CA Root Certificate.');
+        // Ask for a challenge to prove we hold our private key. The CA tells us the User ID the token is for.
+        caWs.send(JSON.stringify({ type: 'get_challenge', enrollmentToken }));
+      }
+      else if (msg.type === 'challenge') {
+        // Request Sign with a CSR signed over the CA's nonce
+        addLog('crypto', `Signing Certificate Request for ${msg.userId} (Proof-of-Possession)...`);
+        const csr = Crypto.createCertificateRequest(msg.userId, keyPair.publicKey, keyPair.privateKey, msg.nonce);
+        certifiedKeyPair.current = keyPair;
         caWs.send(JSON.stringify({
           type: 'sign_request',
-          payload: { userId: 'WebUser-' + Math.random().toString(36).substring(7), userPublicKey: keyPair.publicKey }
+          payload: { csr, enrollmentToken }
         }));
       }
+      else if (msg.type === 'error') {
+        addLog('error', `CA: ${msg.message}`);
+        caWs.close();
+      }
       else if (msg.type === 'certificate_issued') {
         addLog('success', 'Certificate Received from CA!');
         caWs.close();
 
-        setMyId(msg.payload.userId);
+        // A certificate the CA did not log publicly would be invisible to monitors: don't use it
+        try {
+          const head = await checkLogged(msg.payload.certificate, msg.payload.transparency);
+          addLog('crypto', `Our certificate is in the transparency log (index ${msg.payload.transparency.leafIndex} of ${head.treeSize}).`);
+        } catch (err) {
+          addLog('error', `${(err as Error).message}. Not using this certificate.`);
+          return;
+        }
+
+        myCertifiedId.current = Crypto.parseCertificate(msg.payload.certificate).userId;
+        myCertificate.current = { certificate: msg.payload.certificate, chain: msg.payload.chain || [] };
+        setMyId(myCertifiedId.current);
+        setCertWarning(null);
 
-        // Register with Chat Server
+        // Register with Chat Server (certificate + issuing CA chain)
         chatSocket.send(JSON.stringify({
           type: 'register_with_cert',
-          payload: msg.payload
+          payload: { certificate: msg.payload.certificate, chain: msg.payload.chain || [] }
         }));
-        addLog('network', 'Registered Identity with Chat Server.');
+        addLog('network', 'Sent Certificate to Chat Server.');
       }
     };
   };
 
+  // Returns the cached CRL, fetching a fresh signed copy from the CA once it passes nextUpdate
+  const getRevocationList = (): Promise<Crypto.RevocationList> => {
+    const cached = crlCache.current;
+    if (cached && Date.now() < cached.nextUpdate) return Promise.resolve(cached);
+
+    return new Promise((resolve, reject) => {
+      const caWs = new WebSocket(caUrl);
+      caWs.onopen = () => caWs.send(JSON.stringify({ type: 'get_crl' }));
+      caWs.onerror = () => reject(new Error('CA unreachable'));
+      caWs.onmessage = (e) => {
+        caWs.close();
+        let msg;
+        try {
+          msg = JSON.parse(e.data);
+          Protocol.validateFrame(msg, Protocol.CA_RESPONSES);
+        } catch (err) {
+          return reject(err);
+        }
+        if (msg.type !== 'crl') return reject(new Error('Unexpected CA response'));
+
+        const crl = Crypto.openStatement<Crypto.RevocationList>(msg.payload, caRootCertificate.current || '');
+        if (!crl) return reject(new Error('CRL signature invalid'));
+        if (cached && crl.version < cached.version) return reject(new Error('CRL rollback detected'));
+
+        crlCache.current = crl;
+        addLog('crypto', `CRL v${crl.version} cached until ${new Date(crl.nextUpdate).toLocaleTimeString()}.`);
+        resolve(crl);
+      };
+    });
+  };
+
+  // Phase 5: Verify a peer certificate chain (linkage, signatures, dates, path length, key usage)
+  // its revocation status and its transparency log entry before trusting its key. Fails closed.
+  const verifyPeerCertificate = async (certificate: string, chain: string[]): Promise<Crypto.Certificate | null> => {
+    // Expiry is an ordinary failure (peer did not renew), so report it as such rather than as an attack
+    let presented: Crypto.Certificate | null = null;
+    try { presented = Crypto.parseCertificate(certificate); } catch { /* reported by the chain check below */ }
+    if (presented && Date.now() > presented.notAfter.getTime()) {
+      addLog('error', `Certificate of ${presented.userId} EXPIRED at ${presented.notAfter.toLocaleString()}. Refusing session.`);
+      return null;
+    }
+
+    const check = Crypto.verifyCertificateChain(certificate, chain, caRootCertificate.current || '');
+    if (!check.valid) {
+      addLog('error', `Certificate INVALID (${check.reason})! Potential MITM Attack.`);
+      return null;
+    }
+    const cert = check.certificate;
+
+    let crl: Crypto.RevocationList;
+    try {
+      crl = await getRevocationList();
+    } catch (e) {
+      addLog('error', `Cannot check revocation (${(e as Error).message}). Refusing session.`);
+      return null;
+    }
+    // The user certificate AND every intermediate above it must be unrevoked
+    const serials = [cert.serialNumber, ...chain.map(pem => Crypto.parseCertificate(pem).serialNumber)];
+    const revoked = serials.map(serial => Crypto.isRevoked(serial, crl)).find(entry => entry);
+    if (revoked) {
+      addLog('error', `Certificate REVOKED (serial ${revoked.serialNumber}) at ${new Date(revoked.revokedAt).toLocaleString()} (${revoked.reason}). Refusing session.`);
+      return null;
+    }
+
+    // Transparency: only trust certificates the CA has publicly logged
+    try {
+      const proof = await requestFromCA<InclusionProof>(caUrl, { type: 'get_inclusion_proof', serialNumber: cert.serialNumber }, 'inclusion_proof');
+      const head = await checkLogged(cert.pem, proof);
+      addLog('crypto', `Certificate is in the transparency log (index ${proof.leafIndex} of ${head.treeSize}).`);
+    } catch (e) {
+      addLog('error', `${(e as Error).message}. Refusing session.`);
+      return null;
+    }
+
+    addLog('success', `Certificate VALID (CN=${cert.userId}, serial ${cert.serialNumber}, expires ${cert.notAfter.toLocaleDateString()}).`);
+    return cert;
+  };
+
+  // Phase 5: Authenticate the initiator of a key_exchange (certificate, identities, signature, freshness)
+  // Resolves to the initiator's certificate, or null if the key exchange was rejected
+  const verifyKeyExchange = async (senderId: string, payload: Crypto.SignedKeyExchange): Promise<Crypto.Certificate | null> => {
+    addLog('crypto', `Verifying sender of key exchange (${senderId})...`);
+    const cert = await verifyPeerCertificate(payload.certificate, payload.chain || []);
+    if (!cert) return null;
+
+    if (cert.userId !== senderId || payload.initiatorId !== senderId) {
+      addLog('error', `Key exchange identity mismatch (cert ${cert.userId}, relay ${senderId}, claimed ${payload.initiatorId}). Rejected.`);
+      return null;
+    }
+    if (payload.responderId !== myCertifiedId.current) {
+      addLog('error', `Key exchange was meant for ${payload.responderId}, not us. Rejected.`);
+      return null;
+    }
+
+    const transcript: Crypto.KeyExchangeTranscript = {
+      initiatorId: payload.initiatorId,
+      responderId: payload.responderId,
+      timestamp: payload.timestamp,
+      nonce: payload.nonce,
+      encryptedKey: payload.encryptedKey,
+      ratchetKey: payload.ratchetKey,
+      replayStrategy: payload.replayStrategy
+    };
+    if (!Crypto.verifySignature(Crypto.keyExchangeMessage(transcript), payload.signature, cert.publicKey)) {
+      addLog('error', 'Key exchange signature INVALID. Rejected.');
+      return null;
+    }
+
+    // Freshness: 60s window, 5s clock skew, each nonce once
+    const age = Date.now() - transcript.timestamp;
+    if (age > 60000 || age < -5000 || seenKeyExchangeNonces.current.checkAndAdd(transcript.nonce, transcript.timestamp) !== 'fresh') {
+      addLog('error', 'Stale or replayed key exchange. Rejected.');
+      return null;
+    }
+
+    addLog('success', `Key exchange signed by certified ${cert.userId}.`);
+    return cert;
+  };
+
+  // --- PHASE 6: FORWARD-SECRET HANDSHAKE (ephemeral X25519, SIGMA / Noise XX style) ---
+  // Same messages and transcript as src/06_forward_secrecy/client.ts:
+  //   handshake_init { eI } -> handshake_response { eR, sealed R identity } -> handshake_finish { sealed I identity }
+
+  const sendDirect = (targetId: string, payload: object) => {
+    ws.current?.send(JSON.stringify({ type: 'direct', targetId, payload }));
+  };
+
+  const abortFsSession = (session: ForwardSecureSession, reason: string) => {
+    addLog('error', `Handshake with ${session.peerId} aborted: ${reason}.`);
+    fsSessions.current.delete(session.sessionId);
+  };
+
+  const expireFsSessionIfIncomplete = (session: ForwardSecureSession) => {
+    setTimeout(() => {
+      if (fsSessions.current.get(session.sessionId) === session && !session.sendKey) abortFsSession(session, 'timed out');
+    }, 30000);
+  };
+
+  // Checks the peer's decrypted certificate and its signature over the transcript
+  const authenticateFsPeer = async (session: ForwardSecureSession, identity: Crypto.HandshakeIdentity, role: 'initiator' | 'responder'): Promise<boolean> => {
+    const cert = await verifyPeerCertificate(identity.certificate, identity.chain || []);
+    if (!cert) {
+      abortFsSession(session, 'peer certificate rejected');
+      return false;
+    }
+    if (cert.userId !== session.peerId) {
+      abortFsSession(session, `identity mismatch (cert ${cert.userId}, relay ${session.peerId})`);
+      return false;
+    }
+    // The algorithm is fixed by our offer and the peer's key: anything else is a downgrade attempt
+    if (identity.algorithm !== Crypto.pickSignatureAlgorithm(session.offer.signatures, cert.publicKey)) {
+      abortFsSession(session, `unexpected signature algorithm ${identity.algorithm}`);
+      return false;
+    }
+    if (!await Crypto.verifyWithAlgorithm(identity.algorithm, Crypto.handshakeMessage(role, identity.algorithm, session.transcript), identity.signature, cert.publicKey)) {
+      abortFsSession(session, 'transcript signature INVALID');
+      return false;
+    }
+    return true;
+  };
+
+  // Derives the traffic keys from th4 and forgets every handshake secret
+  const completeFsSession = async (session: ForwardSecureSession) => {
+    const traffic = await Crypto.deriveTrafficKeys(session.sharedSecret!, session.transcript);
+    session.sharedSecret = undefined;
+    session.handshakeKeys = undefined;
+    session.ephemeral = undefined;
+    session.sendKey = session.role === 'initiator' ? traffic.initiatorToResponder : traffic.responderToInitiator;
+    session.receiveKey = session.role === 'initiator' ? traffic.responderToInitiator : traffic.initiatorToResponder;
+
+    // A fresh session replaces any older one with the same peer
+    fsSessions.current.forEach(other => {
+      if (other !== session && other.peerId === session.peerId) fsSessions.current.delete(other.sessionId);
+    });
+    activeFsSession.current = session;
+    setTargetUser({ id: session.peerId });
+    addLog('success', `Forward-secret channel established with authenticated ${session.peerId} (ephemeral keys discarded).`);
+  };
+
+  // Message 1 (initiator): a fresh ephemeral key and our offer
+  const startHandshake = async (targetId: string) => {
+    const sessionId = Crypto.generateNonce();
+    const ephemeral = await Crypto.generateEphemeralKeyPair();
+    const offer = Crypto.localOffer();
+    const session: ForwardSecureSession = {
+      sessionId,
+      peerId: targetId,
+      role: 'initiator',
+      transcript: Crypto.transcriptHash(Crypto.HANDSHAKE_CONTEXT, myCertifiedId.current || '', targetId, sessionId, ephemeral.publicKey, Crypto.offerTranscript(offer)),
+      offer,
+      ephemeral,
+      sendSeq: 0,
+      receiveSeq: 0
+    };
+    fsSessions.current.set(sessionId, session);
+    expireFsSessionIfIncomplete(session);
+
+    sendDirect(targetId, { type: 'handshake_init', sessionId, ephemeral: ephemeral.publicKey, offer });
+    addLog('crypto', `Sent ephemeral X25519 key and our offer (${offer.suites.join(', ')}) to ${targetId}.`);
+  };
+
+  const handleForwardSecureMessage = async (senderId: string, payload: ForwardSecurePayload) => {
+    const session = fsSessions.current.get(payload.sessionId);
+
+    if (payload.type === 'handshake_init') {
+      // Message 2 (responder): pick the parameters, send our ephemeral key and offer, plus our
+      // certificate and signature under the handshake key
+      if (session) return; // Duplicate or replayed init
+      const peerOffer = Crypto.parseOffer(payload.offer);
+      const offer = Crypto.localOffer();
+      const selected = peerOffer && Crypto.negotiate(peerOffer, offer);
+      const algorithm = peerOffer && Crypto.pickSignatureAlgorithm(peerOffer.signatures, certifiedKeyPair.current.publicKey);
+      if (!selected || !algorithm) {
+        const reason = peerOffer ? 'no common protocol version, cipher suite or signature algorithm' : 'no offer (handshake from before negotiation?)';
+        addLog('error', `Refused handshake from ${senderId}: ${reason}.`);
+        sendDirect(senderId, { type: 'handshake_reject', sessionId: payload.sessionId, reason });
+        return;
+      }
+
+      const ephemeral = await Crypto.generateEphemeralKeyPair();
+      const th1 = Crypto.transcriptHash(Crypto.HANDSHAKE_CONTEXT, senderId, myCertifiedId.current || '', payload.sessionId, payload.ephemeral, Crypto.offerTranscript(peerOffer));
+      const th2 = Crypto.transcriptHash(th1, ephemeral.publicKey, Crypto.offerTranscript(offer), selected.version, selected.suite);
+      const sharedSecret = await Crypto.computeSharedSecret(ephemeral.privateKey, payload.ephemeral);
+      const handshakeKeys = await Crypto.deriveHandshakeKeys(sharedSecret, th2);
+      const signature = await Crypto.signWithAlgorithm(algorithm, Crypto.handshakeMessage('responder', algorithm, th2), certifiedKeyPair.current.raw.privateKey);
+
+      const created: ForwardSecureSession = {
+        sessionId: payload.sessionId,
+        peerId: senderId,
+        role: 'responder',
+        transcript: Crypto.transcriptHash(th2, signature), // th3, what the initiator will sign
+        offer,
+        sharedSecret,
+        handshakeKeys,
+        sendSeq: 0,
+        receiveSeq: 0
+      };
+      fsSessions.current.set(created.sessionId, created);
+      expireFsSessionIfIncomplete(created);
+
+      const identity: Crypto.HandshakeIdentity = { ...myCertificate.current!, algorithm, signature };
+      sendDirect(senderId, {
+        type: 'handshake_response',
+        sessionId: created.sessionId,
+        ephemeral: ephemeral.publicKey,
+        offer,
+        selected,
+        sealed: await Crypto.sealMessage(JSON.stringify(identity), handshakeKeys.responderToInitiator, Crypto.messageAAD(created.sessionId, 'handshake_response'))
+      });
+      addLog('crypto', `${senderId} started a handshake. Negotiated phase ${selected.version}, ${selected.suite}, we sign with ${algorithm}.`);
+      addLog('crypto', 'Sent our ephemeral key and (encrypted) certificate.');
+    }
+    else if (payload.type === 'handshake_response') {
+      // Message 3 (initiator): authenticate the responder, then send our own certificate and signature
+      if (!session || session.role !== 'initiator' || !session.ephemeral || session.peerId !== senderId) {
+        addLog('error', `Unexpected handshake_response from ${senderId}. Ignored.`);
+        return;
+      }
+      // Recompute the responder's pick from both offers: a relay that tampered with either shows up
+      // here or, at the latest, as a bad transcript signature
+      const peerOffer = Crypto.parseOffer(payload.offer);
+      const expected = peerOffer && Crypto.negotiate(session.offer, peerOffer);
+      if (!expected || payload.selected?.version !== expected.version || payload.selected?.suite !== expected.suite) {
+        abortFsSession(session, 'negotiated parameters do not match the offers (downgrade attempt?)');
+        return;
+      }
+      const algorithm = Crypto.pickSignatureAlgorithm(peerOffer.signatures, certifiedKeyPair.current.publicKey);
+      if (!algorithm) {
+        abortFsSession(session, `${senderId} accepts none of our signature algorithms`);
+        return;
+      }
+
+      const th2 = Crypto.transcriptHash(session.transcript, payload.ephemeral, Crypto.offerTranscript(peerOffer), expected.version, expected.suite);
+      session.sharedSecret = await Crypto.computeSharedSecret(session.ephemeral.privateKey, payload.ephemeral);
+      session.ephemeral = undefined;
+      session.handshakeKeys = await Crypto.deriveHandshakeKeys(session.sharedSecret, th2);
+      session.transcript = th2;
+
+      let identity: Crypto.HandshakeIdentity;
+      try {
+        identity = JSON.parse(await Crypto.openMessage(payload.sealed, session.handshakeKeys.responderToInitiator, Crypto.messageAAD(session.sessionId, 'handshake_response')));
+      } catch {
+        abortFsSession(session, 'cannot decrypt handshake_response');
+        return;
+      }
+      addLog('crypto', `Verifying ${senderId}...`);
+      if (!(await authenticateFsPeer(session, identity, 'responder'))) return;
+
+      addLog('crypto', `Negotiated phase ${expected.version}, ${expected.suite}, we sign with ${algorithm}.`);
+
+      const th3 = Crypto.transcriptHash(th2, identity.signature);
+      const signature = await Crypto.signWithAlgorithm(algorithm, Crypto.handshakeMessage('initiator', algorithm, th3), certifiedKeyPair.current.raw.privateKey);
+      const ours: Crypto.HandshakeIdentity = { ...myCertificate.current!, algorithm, signature };
+      sendDirect(senderId, {
+        type: 'handshake_finish',
+        sessionId: session.sessionId,
+        sealed: await Crypto.sealMessage(JSON.stringify(ours), session.handshakeKeys.initiatorToResponder, Crypto.messageAAD(session.sessionId, 'handshake_finish'))
+      });
+
+      session.transcript = Crypto.transcriptHash(th3, signature); // th4
+      await completeFsSession(session);
+    }
+    else if (payload.type === 'handshake_finish') {
+      // Message 3 received (responder): authenticate the initiator
+      if (!session || session.role !== 'responder' || !session.handshakeKeys || session.peerId !== senderId) {
+        addLog('error', `Unexpected handshake_finish from ${senderId}. Ignored.`);
+        return;
+      }
+      let identity: Crypto.HandshakeIdentity;
+      try {
+        identity = JSON.parse(await Crypto.openMessage(payload.sealed, session.handshakeKeys.initiatorToResponder, Crypto.messageAAD(session.sessionId, 'handshake_finish')));
+      } catch {
+        abortFsSession(session, 'cannot decrypt handshake_finish');
+        return;
+      }
+      addLog('crypto', `Verifying ${senderId}...`);
+      if (!(await authenticateFsPeer(session, identity, 'initiator'))) return;
+
+      session.transcript = Crypto.transcriptHash(session.transcript, identity.signature); // th4
+      await completeFsSession(session);
+    }
+    else if (payload.type === 'handshake_reject') {
+      // Unauthenticated, but all it can do is end a handshake the relay could have dropped anyway
+      if (session?.role === 'initiator' && session.peerId === senderId && !session.sendKey) {
+        abortFsSession(session, `${senderId} refused: ${payload.reason}`);
+      }
+    }
+    else if (payload.type === 'chat') {
+      if (!session?.receiveKey || session.peerId !== senderId) return;
+      // Sequence numbers only go up: replayed or reordered messages are dropped
+      if (!(payload.seq > session.receiveSeq)) {
+        addLog('error', `Replayed or out-of-order message #${payload.seq} from ${senderId}. Rejected.`);
+        return;
+      }
+      try {
+        const text = await Crypto.openMessage(payload.content, session.receiveKey, Crypto.messageAAD(session.sessionId, 'chat', payload.seq));
+        session.receiveSeq = payload.seq;
+        activeFsSession.current = session;
+        setTargetUser({ id: senderId });
+        addMessage({ id: Date.now().toString(), sender: senderId, text, isOwn: false, timestamp: new Date(), isEncrypted: true });
+      } catch {
+        addMessage({ id: Date.now().toString(), sender: senderId, text: "🔒 (Decryption Failed)", isOwn: false, timestamp: new Date(), isEncrypted: true });
+      }
+    }
+  };
+
   // --- MESSAGE HANDLER ---
   const handleIncomingMessage = async (msg: any) => {
-    if (msg.type === 'user_list') {
+    if (msg.type === 'auth_challenge') {
+      // Phase 5: Prove we hold the key of the certificate we registered with
+      if (msg.userId !== myCertifiedId.current) return;
+      addLog('crypto', 'Signing registration challenge...');
+      const signature = await Crypto.signMessageWithKeyObject(
+        Crypto.registrationChallengeMessage(msg.nonce, msg.userId), certifiedKeyPair.current.raw.privateKey
+      );
+      ws.current?.send(JSON.stringify({ type: 'auth_response', signature }));
+    }
+    else if (msg.type === 'registered') {
+      setMyId(msg.userId);
+      addLog('success', `Registered with Chat Server as ${msg.userId}.`);
+    }
+    else if (msg.type === 'registration_rejected') {
+      addLog('error', `Registration refused (${msg.code}): ${msg.message}`);
+    }
+    else if (msg.type === 'error') {
+      addLog('error', `Server: ${msg.message} (${msg.code})`);
+    }
+    else if (msg.type === 'queued') {
+      // Phases 3-5: the relay keeps direct messages for offline users and delivers them when they are back
+      addLog('info', `${msg.targetId} is offline. The server keeps the message until it is back (${msg.waiting} waiting).`);
+    }
+    else if (msg.type === 'user_list') {
       setUsers(msg.users);
+      registeredKeys.current = new Map(
+        (msg.users as { id: string; publicKey?: string }[]).filter(u => u.publicKey).map(u => [u.id, u.publicKey!])
+      );
+      registeredKeys.current.forEach((key, userId) => checkPeerKey(userId, key));
       // Try to guess my ID if not set (simple heuristic for Phase 1-4)
       // Actually server doesn't tell us OUR id easily in this protocol. 
       // We rely on "sending" to see our ID, or we assume random.
     }
+    else if (msg.type === 'cert_response') {
+      addLog('crypto', `Verifying Certificate for ${msg.targetId}...`);
+      const cert = await verifyPeerCertificate(msg.certificate, msg.chain || []);
+      if (!cert) {
+        setTargetUser(null);
+        return;
+      }
+      setTargetUser({ id: cert.userId });
+      certifiedKeys.current.set(cert.userId, cert.publicKey);
+      checkPeerKey(cert.userId, cert.publicKey);
+      await sendSessionKey(cert.userId, cert.publicKey);
+    }
     else if (msg.type === 'broadcast') {
       // Phase 2
       if (phase === 2 && msg.signature) {
@@ -242,53 +1000,79 @@ export default function App() {
         });
       }
     }
+    else if (msg.type === 'group_update' || msg.type === 'group_message' || msg.payload?.type === 'sender_key') {
+      // Phases 3-5: in order, so a sender key is installed before the messages that follow it
+      groupQueue.current = groupQueue.current
+        .then(() => handleGroupRelayMessage(msg))
+        .catch(e => addLog('error', `Group: ${(e as Error).message}`));
+    }
     else if (msg.type === 'direct') {
       const { senderId, payload } = msg;
 
-      if (payload.type === 'key_exchange') {
+      if (phase === 6) {
+        await handleForwardSecureMessage(senderId, payload);
+      }
+      else if (payload.type === 'key_exchange') {
         addLog('crypto', `Received Encrypted Session Key from ${senderId}`);
+        // Phase 5: only install keys signed by the certified sender and addressed to us
+        let senderKey = registeredKeys.current.get(senderId);
+        if (phase === 5) {
+          const cert = await verifyKeyExchange(senderId, payload);
+          if (!cert) return;
+          senderKey = cert.publicKey;
+          certifiedKeys.current.set(cert.userId, cert.publicKey);
+          checkPeerKey(cert.userId, cert.publicKey);
+        }
         try {
           // Decrypt AES Key with RSA Private (Real)
           const aesKeyBytes = await Crypto.decryptRSA(payload.encryptedKey, keyPair.raw.privateKey);
 
-          // Import AES Key (bits -> CryptoKey or Raw depending on env)
-          // We need a helper to arbitrary import raw bits as AES-GCM key
-          // Wait, I don't have a helper to import RAW bits as AES key in crypto-browser?
-          // generateAESKey returns { base64, keyObj }. 
-          // I need to construct keyObj from bytes.
-          // Let's add inline import logic or assumes implementation details.
-
-          // Simpler: Just stick bytes in _sessionKey if using Forge? 
-          // If WebCrypto, importKey.
-
-          let sessionKeyObj;
-          if (window.crypto && window.crypto.subtle) {
-            sessionKeyObj = await window.crypto.subtle.importKey(
-              "raw", aesKeyBytes as any, { name: "AES-GCM" }, true, ["encrypt", "decrypt"]
-            );
-          } else {
-            // Forge uses raw bytes string
-            // aesKeyBytes is Uint8Array.
-            sessionKeyObj = String.fromCharCode(...aesKeyBytes);
-          }
+          if (!payload.ratchetKey) throw new Error('Missing ratchet key');
+          if (phase >= 4 && !Crypto.isReplayStrategyName(payload.replayStrategy)) throw new Error(`Unknown replay strategy ${payload.replayStrategy}`);
+          const newRatchet = await Crypto.DoubleRatchet.create(aesKeyBytes, payload.ratchetKey);
 
           addLog('success', 'Session Key Decrypted & Established.');
           setTargetUser({ id: senderId });
-          setSessionKey(sessionKeyObj);
+          startRatchetSession(newRatchet, senderId, senderKey);
+          if (phase >= 4) {
+            startReplayProtection(payload.replayStrategy);
+            replay.current!.acceptChallenges?.(payload.challenges || []);
+            sendChallenges(senderId);
+          }
 
         } catch (e: any) {
           addLog('error', 'Key Decryption Failed: ' + e.message);
         }
       }
-      else if (payload.type === 'chat') {
+      else if (payload.type === 'replay_challenge') {
+        if (senderId === sessionPeer.current) replay.current?.acceptChallenges?.(payload.nonces || []);
+      }
+      else if (payload.type === 'chat' || payload.type === 'rekey') {
         // Decrypt content
         addLog('crypto', `Decrypting message from ${senderId}...`);
 
         try {
-          if (!_sessionKey) {
+          if (!ratchetSession.current) {
             throw new Error("No session key established.");
           }
-          const plainText = await Crypto.decryptMessageAES(payload.content, _sessionKey);
+          const decrypted = await ratchetSession.current.decrypt(payload, senderId);
+          if (decrypted === null) return; // Rekey message, handled by the session
+
+          // Signed packets: check the signature against the peer's registered (or certified) key
+          const peerKey = senderId === sessionPeer.current ? sessionPeerKey.current ?? undefined : undefined;
+          const { body, status } = Crypto.openSignedPacket(decrypted, senderId, ownEnvelopeId(), peerKey);
+          if (status === 'invalid') addLog('error', `Signature on message from ${senderId} is INVALID.`);
+          let plainText = body;
+          if (phase >= 4) {
+            // Phase 4/5: the ratchet-decrypted text is a replay-protected packet
+            const packet = JSON.parse(plainText);
+            if (!replay.current?.validate(packet)) {
+              addLog('error', `Message from ${senderId} blocked by replay protection (${replay.current?.name}).`);
+              return;
+            }
+            plainText = packet.payload;
+            sendChallenges(senderId);
+          }
 
           addMessage({
             id: Date.now().toString(),
@@ -296,7 +1080,8 @@ export default function App() {
             text: plainText,
             isOwn: false,
             timestamp: new Date(),
-            isEncrypted: true
+            isEncrypted: true,
+            signature: status
           });
         } catch (e) {
           addMessage({
@@ -312,6 +1097,153 @@ export default function App() {
     }
   };
 
+  // --- PHASES 3-5: GROUP CHATS (sender keys) ---
+  // Same messages as src/03_encryption/group-chat.ts. Every membership change rotates our sender
+  // key and sends it, wrapped and signed, to every other member. Messages are encrypted once.
+
+  const identityPrivateKey = () => (phase === 5 ? certifiedKeyPair.current?.raw.privateKey : identityKeys.current?.raw.privateKey);
+
+  const refreshGroups = () => {
+    setGroups([...senderKeyGroups.current.values()].map(g => ({ name: g.name, members: g.members })));
+  };
+
+  // The member's identity key, or undefined if it can't be trusted (Phase 5: verify the certificate)
+  const groupMemberKey = async (member: GroupMember) => {
+    if (phase !== 5) return member.publicKey;
+    if (!member.certificate) return undefined;
+    const cert = await verifyPeerCertificate(member.certificate, member.chain || []);
+    if (!cert || cert.userId !== member.id) return undefined;
+    certifiedKeys.current.set(cert.userId, cert.publicKey);
+    checkPeerKey(cert.userId, cert.publicKey);
+    return cert.publicKey;
+  };
+
+  const handleGroupRelayMessage = async (msg: GroupRelayMessage) => {
+    const me = ownEnvelopeId();
+    const privateKey = identityPrivateKey();
+    if (!privateKey) throw new Error('No identity key yet.');
+
+    if (msg.type === 'group_update') {
+      if (msg.action === 'left' && msg.userId === me) {
+        senderKeyGroups.current.delete(msg.group);
+        setActiveGroup(current => (current === msg.group ? null : current));
+        refreshGroups();
+        addLog('info', `You left group ${msg.group}.`);
+        return;
+      }
+      let group = senderKeyGroups.current.get(msg.group);
+      if (!group) {
+        group = new Crypto.SenderKeyGroup(msg.group, me);
+        senderKeyGroups.current.set(msg.group, group);
+      }
+      group.members = msg.members.map(m => m.id);
+      if (msg.action === 'left') group.forget(msg.userId);
+      refreshGroups();
+      addLog('info', `Group ${msg.group}: ${msg.userId} ${msg.action === 'created' ? 'created it' : msg.action}${msg.by ? ` (invited by ${msg.by})` : ''}.`);
+
+      // New sender key for the new member list: joiners can't read the past, leavers can't read the future
+      const distribution = group.rotate();
+      for (const member of msg.members) {
+        if (member.id === me) continue;
+        const key = await groupMemberKey(member);
+        if (!key) {
+          groupMemberKeys.current.delete(member.id);
+          addLog('error', `Group ${msg.group}: no trusted key for ${member.id}, not sending our sender key.`);
+          continue;
+        }
+        groupMemberKeys.current.set(member.id, key);
+        sendDirect(member.id, await Crypto.wrapSenderKey(distribution, me, member.id, key, privateKey));
+      }
+      addLog('crypto', `Group ${msg.group}: new sender key sent to ${group.members.length - 1} member(s).`);
+    }
+    else if (msg.type === 'group_message') {
+      const group = senderKeyGroups.current.get(msg.group);
+      const senderKey = groupMemberKeys.current.get(msg.senderId);
+      try {
+        if (!group || !senderKey) throw new Error('not a member');
+        const text = await group.decrypt(msg.senderId, msg.payload, senderKey);
+        addMessage({ id: Date.now().toString(), sender: `${msg.senderId} → ${msg.group}`, text, isOwn: false, timestamp: new Date(), isEncrypted: true, signature: 'valid' });
+      } catch (e) {
+        addLog('error', `Group message for ${msg.group} from ${msg.senderId} not decrypted: ${(e as Error).message}`);
+        addMessage({ id: Date.now().toString(), sender: `${msg.senderId} → ${msg.group}`, text: '🔒 (Decryption Failed)', isOwn: false, timestamp: new Date(), isEncrypted: true });
+      }
+    }
+    else {
+      const { senderId, payload } = msg;
+      const group = senderKeyGroups.current.get(payload.group);
+      const senderKey = groupMemberKeys.current.get(senderId);
+      if (!group || !group.members.includes(senderId) || !senderKey) throw new Error(`Ignoring sender key from ${senderId} for ${payload.group}`);
+      group.accept(senderId, await Crypto.unwrapSenderKey(payload, senderId, me, senderKey, privateKey));
+      addLog('crypto', `Group ${payload.group}: received sender key of ${senderId}.`);
+    }
+  };
+
+  const handleCreateGroup = (name: string) => ws.current?.send(JSON.stringify({ type: 'group_create', group: name }));
+  const handleInviteToGroup = (name: string, userId: string) => ws.current?.send(JSON.stringify({ type: 'group_invite', group: name, userId }));
+  const handleLeaveGroup = (name: string) => ws.current?.send(JSON.stringify({ type: 'group_leave', group: name }));
+
+  // Phases 3-5: wrap the new ratchet so it rekeys itself (events go to the log)
+  const startRatchetSession = (newRatchet: Crypto.DoubleRatchet, peerId: string, peerKey?: string) => {
+    ratchetSession.current?.close();
+    ratchetSession.current = new Crypto.RekeyingSession(newRatchet, ownEnvelopeId(), peerId, payload => sendDirect(peerId, payload));
+    ratchetSession.current.onEvent = event => addLog('crypto', `Rekey with ${peerId}: ${event}`);
+    sessionPeer.current = peerId;
+    sessionPeerKey.current = peerKey ?? null;
+  };
+
+  // Phases 3-5: loud warning if a peer the user verified now has a different key (it is no longer verified)
+  const checkPeerKey = (userId: string, key: string) => {
+    if (verifiedPeers.current.check(userId, key) !== 'changed') return;
+    const warning = `The key of VERIFIED peer ${userId} has CHANGED. Someone may be impersonating them: compare safety numbers again before trusting this session.`;
+    addLog('error', warning);
+    setKeyChangeWarning(warning);
+    setVerifiedIds(verifiedPeers.current.ids());
+  };
+
+  // Safety number of the current peer: our key and theirs (Phase 5: the certified ones)
+  const handleVerifyPeer = () => {
+    const peerId = targetUser?.id;
+    const peerKey = phase === 5 ? certifiedKeys.current.get(peerId) : registeredKeys.current.get(peerId);
+    const localKey = phase === 5 ? certifiedKeyPair.current?.publicKey : keyPair?.publicKey;
+    if (!peerId || !peerKey || !localKey) {
+      addLog('error', `No key for ${peerId || 'this peer'} yet. Connect first.`);
+      return;
+    }
+    const safetyNumber = Crypto.computeSafetyNumber(ownEnvelopeId(), localKey, peerId, peerKey);
+    setSafetyDialog({ peerId, peerKey, safetyNumber, code: Crypto.encodeSafetyNumber(ownEnvelopeId(), peerId, safetyNumber) });
+  };
+
+  const handleMarkVerified = (verified: boolean) => {
+    if (!safetyDialog) return;
+    if (verified) verifiedPeers.current.markVerified(safetyDialog.peerId, safetyDialog.peerKey);
+    else verifiedPeers.current.unverify(safetyDialog.peerId);
+    setVerifiedIds(verifiedPeers.current.ids());
+    addLog(verified ? 'success' : 'info', `${safetyDialog.peerId} ${verified ? 'marked as verified' : 'no longer verified'}.`);
+    if (verified) setKeyChangeWarning(null);
+    setSafetyDialog(null);
+  };
+
+  // Phase 4/5 replay protection for the session being set up
+  const startReplayProtection = (name: Crypto.ReplayStrategyName) => {
+    replay.current = Crypto.createReplayStrategy(name);
+    addLog('info', `Replay protection: ${replay.current.description}`);
+  };
+
+  // Challenge-response: hand the peer fresh nonces whenever its supply runs low
+  const sendChallenges = (peerId: string) => {
+    const nonces = replay.current?.issueChallenges?.() ?? [];
+    if (nonces.length > 0) sendDirect(peerId, { type: 'replay_challenge', nonces });
+  };
+
+  const handleReplayStrategyChange = (name: Crypto.ReplayStrategyName) => {
+    setReplayStrategyName(name);
+    chosenReplayStrategy.current = name;
+    addLog('info', `Replay protection for new sessions: ${Crypto.createReplayStrategy(name).description}`);
+  };
+
+  // The ID the relay knows us by: certified CN in Phase 5, assigned ID before that
+  const ownEnvelopeId = () => (phase === 5 ? myCertifiedId.current : myRelayId.current) || '';
+
   const addMessage = (msg: any) => setMessages(prev => [...prev, msg]);
 
   // --- SEND HANDLER ---
@@ -330,20 +1262,63 @@ export default function App() {
         ws.current?.send(JSON.stringify({ type: 'broadcast', payload: text, signature: sig }));
       }
     }
+    else if (phase === 6) {
+      // Traffic key of the active session. The sequence number is authenticated (AAD), never reused.
+      const session = activeFsSession.current;
+      if (session?.sendKey) {
+        const seq = ++session.sendSeq;
+        addLog('crypto', `Encrypting for ${session.peerId} (AES-GCM, message #${seq})...`);
+        const content = await Crypto.sealMessage(text, session.sendKey, Crypto.messageAAD(session.sessionId, 'chat', seq));
+        ws.current?.send(JSON.stringify({
+          type: 'direct',
+          targetId: session.peerId,
+          payload: { type: 'chat', sessionId: session.sessionId, seq, content }
+        }));
+      } else {
+        addLog('error', 'Secure Connection Not Established. Click user to connect.');
+      }
+    }
+    else if (phase >= 3 && activeGroup) {
+      // Group: encrypted once with our sender key, the relay fans it out
+      const group = senderKeyGroups.current.get(activeGroup);
+      const privateKey = identityPrivateKey();
+      if (!group || !privateKey) {
+        addLog('error', `Not a member of ${activeGroup}. Message not sent.`);
+        return;
+      }
+      const payload = await group.encrypt(text, privateKey);
+      addLog('crypto', `Encrypting for group ${activeGroup} (sender key ${payload.keyId}, message #${payload.iteration})...`);
+      ws.current?.send(JSON.stringify({ type: 'group_message', group: activeGroup, payload }));
+    }
     else if (phase >= 3) {
       // Encrypt
-      if (targetUser && _sessionKey) {
-        addLog('crypto', `Encrypting for ${targetUser.id} (AES-GCM)...`);
-
-        const encryptedJson = await Crypto.encryptMessageAES(text, _sessionKey);
+      if (targetUser && ratchetSession.current) {
+        let plainText = text;
+        if (phase >= 4 && replay.current) {
+          try {
+            plainText = JSON.stringify(replay.current.createPacket(text));
+          } catch (e) {
+            addLog('error', `${(e as Error).message}. Message not sent, try again shortly.`);
+            return;
+          }
+        }
+        if (signMessages) {
+          // Sign-then-encrypt: our identity key (Phase 5: the certified one) over the payload
+          const signingKey = phase === 5 ? certifiedKeyPair.current?.raw.privateKey : keyPair?.raw.privateKey;
+          if (!signingKey) {
+            addLog('error', 'No identity key to sign with. Message not sent.');
+            return;
+          }
+          addLog('crypto', 'Signing message...');
+          plainText = await Crypto.signPacket(plainText, ownEnvelopeId(), targetUser.id, signingKey);
+        }
+        const payload = await ratchetSession.current.encrypt(plainText);
+        addLog('crypto', `Encrypting for ${targetUser.id} (AES-GCM, key epoch ${payload.epoch}, ratchet message #${payload.header.n})...`);
 
         ws.current?.send(JSON.stringify({
           type: 'direct',
           targetId: targetUser.id,
-          payload: {
-            type: 'chat',
-            content: encryptedJson
-          }
+          payload
         }));
       } else {
         addLog('error', 'Secure Connection Not Established. Click user to connect.');
@@ -352,16 +1327,19 @@ export default function App() {
   };
 
   const handleConnectUser = async (userId: string) => {
+    setActiveGroup(null);
     setTargetUser({ id: userId });
     addLog('info', `Targeting ${userId}...`);
-    if (phase >= 3) {
-      addLog('crypto', 'Initiating Handshake... (Generating AES Key)');
-
-      // 1. Generate AES Session Key
-      // 1. Generate AES Session Key
-      const aesKeyData = await Crypto.generateAESKey();
-
-      // 2. Encrypt AES Key with Target's Public Key
+    if (phase === 6) {
+      // Phase 6: No certificate lookup. Certificates travel (encrypted) inside the handshake.
+      await startHandshake(userId);
+    }
+    else if (phase === 5) {
+      // Phase 5: Keys come from certificates, fetched on demand and verified in cert_response
+      addLog('network', `Fetching Certificate for ${userId}...`);
+      ws.current?.send(JSON.stringify({ type: 'get_cert', targetId: userId }));
+    }
+    else if (phase >= 3) {
       // WE need target's public key.
       let targetPubKey = null;
 
@@ -381,34 +1359,79 @@ export default function App() {
         }
       }
 
-      // Extract raw bytes of AES key to encrypt
-      let rawAesBytes: Uint8Array;
-      if (window.crypto && window.crypto.subtle) {
-        const exported = await window.crypto.subtle.exportKey("raw", aesKeyData.keyObj as CryptoKey);
-        rawAesBytes = new Uint8Array(exported);
-      } else {
-        // Forge: AesKeyData.keyObj IS the bytes string
-        // Convert to Uint8Array for encryptRSA helper
-        const str = aesKeyData.keyObj as string;
-        rawAesBytes = new Uint8Array(str.length);
-        for (let i = 0; i < str.length; i++) rawAesBytes[i] = str.charCodeAt(i);
-      }
+      await sendSessionKey(userId, targetPubKey);
+    }
+  };
 
-      const encryptedKeyBase64 = await Crypto.encryptRSA(rawAesBytes, targetPubKey);
+  const sendSessionKey = async (userId: string, targetPubKey: string) => {
+    addLog('crypto', 'Initiating Handshake... (Generating AES Key)');
 
-      ws.current?.send(JSON.stringify({
-        type: 'direct',
-        targetId: userId,
-        payload: { type: 'key_exchange', encryptedKey: encryptedKeyBase64 }
-      }));
+    // 1. Generate AES Session Key
+    const aesKeyData = await Crypto.generateAESKey();
 
-      addLog('success', 'Sent Encrypted Session Key.');
-      setSessionKey(aesKeyData.keyObj); // Store for self ONLY after success
+    // 2. Extract raw bytes of AES key to encrypt
+    let rawAesBytes: Uint8Array;
+    if (window.crypto && window.crypto.subtle) {
+      const exported = await window.crypto.subtle.exportKey("raw", aesKeyData.keyObj as CryptoKey);
+      rawAesBytes = new Uint8Array(exported);
+    } else {
+      // Forge: AesKeyData.keyObj IS the bytes string
+      // Convert to Uint8Array for encryptRSA helper
+      const str = aesKeyData.keyObj as string;
+      rawAesBytes = new Uint8Array(str.length);
+      for (let i = 0; i < str.length; i++) rawAesBytes[i] = str.charCodeAt(i);
     }
+
+    // 3. Encrypt AES Key with Target's Public Key
+    const encryptedKeyBase64 = await Crypto.encryptRSA(rawAesBytes, targetPubKey);
+
+    // 4. Seed our Double Ratchet with it. The responder needs our first ratchet key.
+    const newRatchet = await Crypto.DoubleRatchet.create(rawAesBytes);
+
+    let payload: Record<string, unknown> = { type: 'key_exchange', encryptedKey: encryptedKeyBase64, ratchetKey: newRatchet.publicKey };
+    const replayStrategy = chosenReplayStrategy.current;
+    if (phase >= 4) {
+      // 5. Our choice of replay protection (challenge mode: plus our first nonces for the responder)
+      startReplayProtection(replayStrategy);
+      payload = { ...payload, replayStrategy, challenges: replay.current!.issueChallenges?.() };
+    }
+    if (phase === 5 && myCertificate.current) {
+      // Phase 5: Sign the wrapped key with both identities so the responder can authenticate us too
+      const transcript: Crypto.KeyExchangeTranscript = {
+        initiatorId: myCertifiedId.current || '',
+        responderId: userId,
+        timestamp: Date.now(),
+        nonce: Crypto.generateNonce(),
+        encryptedKey: encryptedKeyBase64,
+        ratchetKey: newRatchet.publicKey,
+        replayStrategy
+      };
+      const signature = await Crypto.signMessageWithKeyObject(Crypto.keyExchangeMessage(transcript), certifiedKeyPair.current.raw.privateKey);
+      payload = { ...payload, ...transcript, signature, ...myCertificate.current };
+    }
+
+    ws.current?.send(JSON.stringify({
+      type: 'direct',
+      targetId: userId,
+      payload
+    }));
+
+    addLog('success', 'Sent Encrypted Session Key.');
+    startRatchetSession(newRatchet, userId, targetPubKey); // Store for self ONLY after success
   };
 
   return (
     <div className="flex flex-col h-screen w-full bg-gray-100 font-sans text-gray-900">
+      {phase >= 5 && certWarning && (
+        <div className="bg-amber-100 border-b border-amber-300 text-amber-900 text-sm px-4 py-2">
+          ⚠️ {certWarning}
+        </div>
+      )}
+      {phase >= 3 && phase <= 5 && keyChangeWarning && (
+        <div className="bg-red-100 border-b border-red-300 text-red-900 text-sm font-semibold px-4 py-2">
+          🚨 {keyChangeWarning}
+        </div>
+      )}
       <div className="flex flex-1 overflow-hidden">
         <PhaseSelector currentPhase={phase} onSelectPhase={setPhase} />
         <ChatWindow
@@ -420,10 +1443,33 @@ export default function App() {
           onSendMessage={handleSendMessage}
           onConnectToUser={handleConnectUser}
           phase={phase}
+          replayStrategy={replayStrategyName}
+          onReplayStrategyChange={handleReplayStrategyChange}
+          signMessages={signMessages}
+          onSignMessagesChange={setSignMessages}
+          verifiedPeers={verifiedIds}
+          onVerifyPeer={handleVerifyPeer}
+          groups={groups}
+          activeGroup={activeGroup}
+          onSelectGroup={setActiveGroup}
+          onCreateGroup={handleCreateGroup}
+          onInviteToGroup={handleInviteToGroup}
+          onLeaveGroup={handleLeaveGroup}
         />
       </div>
       <LogViewer logs={logs} />
       <ConnectionSettings serverUrl={serverUrl} usePorts={usePorts} onSave={handleSettingsSave} />
+      {safetyDialog && (
+        <SafetyNumberDialog
+          peerId={safetyDialog.peerId}
+          safetyNumber={safetyDialog.safetyNumber}
+          code={safetyDialog.code}
+          verified={verifiedIds.includes(safetyDialog.peerId)}
+          onMarkVerified={() => handleMarkVerified(true)}
+          onUnverify={() => handleMarkVerified(false)}
+          onClose={() => setSafetyDialog(null)}
+        />
+      )}
     </div>
   );
 }
@@ -1,5 +1,6 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Send, Lock, User, RefreshCw } from 'lucide-react';
+import { Send, Lock, User, RefreshCw, ShieldCheck, ShieldAlert, Users, Plus, LogOut } from 'lucide-react';
+import { REPLAY_STRATEGIES, type ReplayStrategyName, type SignatureStatus } from '../crypto-browser';
 
 interface Message {
     id: string;
@@ -9,12 +10,25 @@ interface Message {
     isSystem?: boolean;
     timestamp: Date;
     isEncrypted?: boolean;
+    signature?: SignatureStatus; // Phases 3-5, received messages
 }
 
 interface User {
     id: string;
     hasKey?: boolean;
     hasCert?: boolean;
+    presence?: 'online' | 'away' | 'offline'; // Phases 3-6
+    since?: number; // When the user went away or offline
+}
+
+const PRESENCE_COLORS = { online: 'bg-green-500', away: 'bg-amber-400', offline: 'bg-gray-300' };
+
+const presenceLabel = (user: User) =>
+    user.since ? `${user.presence} since ${new Date(user.since).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}` : user.presence;
+
+interface Group {
+    name: string;
+    members: string[];
 }
 
 interface ChatWindowProps {
@@ -26,12 +40,28 @@ interface ChatWindowProps {
     onSendMessage: (text: string) => void;
     onConnectToUser: (userId: string) => void;
     phase: number;
+    replayStrategy: ReplayStrategyName; // Phase 4/5: used for sessions we start
+    onReplayStrategyChange: (name: ReplayStrategyName) => void;
+    signMessages: boolean; // Phases 3-5: sign-then-encrypt
+    onSignMessagesChange: (sign: boolean) => void;
+    verifiedPeers: string[]; // Safety number compared
+    onVerifyPeer: () => void; // Phases 3-5: safety number of the current peer
+    groups: Group[]; // Phases 3-5: sender-key group chats
+    activeGroup: string | null; // Messages go to this group instead of targetId
+    onSelectGroup: (name: string | null) => void;
+    onCreateGroup: (name: string) => void;
+    onInviteToGroup: (name: string, userId: string) => void;
+    onLeaveGroup: (name: string) => void;
 }
 
 export const ChatWindow: React.FC<ChatWindowProps> = ({
-    messages, connected, users, myId, targetId, onSendMessage, onConnectToUser, phase
+    messages, connected, users, myId, targetId, onSendMessage, onConnectToUser, phase, replayStrategy, onReplayStrategyChange,
+    signMessages, onSignMessagesChange, verifiedPeers, onVerifyPeer,
+    groups, activeGroup, onSelectGroup, onCreateGroup, onInviteToGroup, onLeaveGroup
 }) => {
     const [input, setInput] = useState('');
+    const [newGroup, setNewGroup] = useState('');
+    const group = groups.find(g => g.name === activeGroup);
     const endRef = useRef<HTMLDivElement>(null);
 
     useEffect(() => {
@@ -46,13 +76,43 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({
         }
     };
 
+    const handleCreateGroup = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (newGroup.trim()) {
+            onCreateGroup(newGroup.trim());
+            setNewGroup('');
+        }
+    };
+
     return (
         <div className="flex flex-1 h-full bg-white relative">
             {/* Sidebar: Users */}
             <div className="w-56 border-r border-gray-200 bg-gray-50 flex flex-col hidden md:flex">
                 <div className="p-4 border-b border-gray-200">
-                    <h3 className="text-xs font-bold text-gray-500 uppercase tracking-widest mb-1">Online Users</h3>
+                    <h3 className="text-xs font-bold text-gray-500 uppercase tracking-widest mb-1">Users</h3>
                     <div className="text-xs text-gray-400 truncate">My ID: <span className="text-black font-mono">{myId || '...'}</span></div>
+                    {(phase === 4 || phase === 5) && (
+                        <label className="block text-xs text-gray-400 mt-2">
+                            Replay protection
+                            <select
+                                value={replayStrategy}
+                                onChange={e => onReplayStrategyChange(e.target.value as ReplayStrategyName)}
+                                className="mt-1 w-full border border-gray-300 rounded bg-white text-gray-700 p-1"
+                            >
+                                {REPLAY_STRATEGIES.map(name => <option key={name} value={name}>{name}</option>)}
+                            </select>
+                        </label>
+                    )}
+                    {phase >= 3 && phase <= 5 && (
+                        <label className="flex items-center gap-2 text-xs text-gray-400 mt-2">
+                            <input
+                                type="checkbox"
+                                checked={signMessages}
+                                onChange={e => onSignMessagesChange(e.target.checked)}
+                            />
+                            Sign messages
+                        </label>
+                    )}
                 </div>
                 <div className="flex-1 overflow-y-auto p-2">
                     {users.filter(u => u.id !== myId).map(user => (
@@ -62,9 +122,18 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({
                             className={`w-full text-left p-2 rounded flex items-center justify-between text-sm mb-1 ${targetId === user.id ? 'bg-blue-50 text-blue-700 border border-blue-200' : 'hover:bg-gray-200 text-gray-700'
                                 }`}
                         >
-                            <span className="font-mono">{user.id}</span>
+                            <span className="flex items-center gap-2 min-w-0">
+                                {user.presence && <span className={`w-2 h-2 rounded-full shrink-0 ${PRESENCE_COLORS[user.presence]}`} />}
+                                <span className="min-w-0">
+                                    <span className="font-mono block truncate">{user.id}</span>
+                                    {user.presence && user.presence !== 'online' && (
+                                        <span className="block text-xs text-gray-400">{presenceLabel(user)}</span>
+                                    )}
+                                </span>
+                            </span>
                             {phase >= 2 && (
                                 <div className="flex gap-1">
+                                    {verifiedPeers.includes(user.id) && <ShieldCheck size={12} className="text-green-600" />}
                                     {(user.hasKey || user.hasCert) && <Lock size={12} className="text-green-500" />}
                                 </div>
                             )}
@@ -74,6 +143,53 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({
                         <div className="text-xs text-center text-gray-400 mt-4">No other users online.</div>
                     )}
                 </div>
+                {phase >= 3 && phase <= 5 && (
+                    <div className="border-t border-gray-200 p-2 max-h-72 overflow-y-auto">
+                        <h3 className="text-xs font-bold text-gray-500 uppercase tracking-widest mb-2 px-2">Groups</h3>
+                        <form onSubmit={handleCreateGroup} className="flex gap-1 mb-2">
+                            <input
+                                type="text"
+                                value={newGroup}
+                                onChange={e => setNewGroup(e.target.value)}
+                                placeholder="New group..."
+                                className="flex-1 min-w-0 border border-gray-300 rounded bg-white text-xs p-1"
+                                disabled={!connected}
+                            />
+                            <button type="submit" disabled={!newGroup.trim() || !connected} className="p-1 rounded hover:bg-gray-200 disabled:opacity-50" title="Create group">
+                                <Plus size={14} />
+                            </button>
+                        </form>
+                        {groups.map(g => (
+                            <button
+                                key={g.name}
+                                onClick={() => onSelectGroup(g.name)}
+                                className={`w-full text-left p-2 rounded flex items-center justify-between text-sm mb-1 ${activeGroup === g.name ? 'bg-blue-50 text-blue-700 border border-blue-200' : 'hover:bg-gray-200 text-gray-700'
+                                    }`}
+                            >
+                                <span className="font-mono truncate">{g.name}</span>
+                                <span className="text-xs text-gray-400 flex items-center gap-1"><Users size={12} /> {g.members.length}</span>
+                            </button>
+                        ))}
+                        {group && (
+                            <div className="px-2 text-xs text-gray-500">
+                                <div className="truncate mb-1">Members: <span className="font-mono">{group.members.join(', ')}</span></div>
+                                <select
+                                    value=""
+                                    onChange={e => e.target.value && onInviteToGroup(group.name, e.target.value)}
+                                    className="w-full border border-gray-300 rounded bg-white text-gray-700 p-1 mb-1"
+                                >
+                                    <option value="">Invite...</option>
+                                    {users.filter(u => u.id !== myId && u.presence !== 'offline' && !group.members.includes(u.id)).map(u => (
+                                        <option key={u.id} value={u.id}>{u.id}</option>
+                                    ))}
+                                </select>
+                                <button onClick={() => onLeaveGroup(group.name)} className="text-red-600 flex items-center gap-1 hover:underline">
+                                    <LogOut size={12} /> Leave group
+                                </button>
+                            </div>
+                        )}
+                    </div>
+                )}
             </div>
 
             {/* Main Chat */}
@@ -92,9 +208,20 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({
                     <div className="flex items-center gap-2">
                         <div className={`w-2 h-2 rounded-full ${connected ? 'bg-green-500' : 'bg-red-500'}`} />
                         <span className="font-medium text-gray-700">
-                            {targetId ? `Secure Chat with ${targetId}` : 'Broadcast / Lobby'}
+                            {group ? `Group ${group.name} (${group.members.length} members, sender keys)` : targetId ? `Secure Chat with ${targetId}` : 'Broadcast / Lobby'}
                         </span>
+                        {!group && targetId && verifiedPeers.includes(targetId) && (
+                            <span className="text-xs text-green-600 flex items-center gap-1"><ShieldCheck size={12} /> Verified</span>
+                        )}
                     </div>
+                    {!group && targetId && phase >= 3 && phase <= 5 && (
+                        <button
+                            onClick={onVerifyPeer}
+                            className="text-xs text-gray-600 border border-gray-300 rounded-full px-3 py-1 flex items-center gap-1 hover:bg-gray-50"
+                        >
+                            <ShieldCheck size={12} /> Verify safety number
+                        </button>
+                    )}
                 </div>
 
                 {/* Messages */}
@@ -112,6 +239,15 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({
                                 )}
                                 {msg.text}
                                 {msg.isEncrypted && <Lock size={10} className="inline ml-2 opacity-50" />}
+                                {msg.signature === 'valid' && (
+                                    <div className="text-[10px] text-green-600 mt-1 flex items-center gap-1"><ShieldCheck size={10} /> Signed by {msg.sender}</div>
+                                )}
+                                {msg.signature === 'invalid' && (
+                                    <div className="text-[10px] text-red-600 mt-1 flex items-center gap-1"><ShieldAlert size={10} /> Signature invalid</div>
+                                )}
+                                {msg.signature === 'unsigned' && (
+                                    <div className="text-[10px] text-gray-400 mt-1">Not signed</div>
+                                )}
                             </div>
                         </div>
                     ))}
@@ -125,7 +261,7 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({
                             type="text"
                             value={input}
                             onChange={(e) => setInput(e.target.value)}
-                            placeholder={targetId ? `Message ${targetId}...` : "Broadcast message..."}
+                            placeholder={group ? `Message ${group.name}...` : targetId ? `Message ${targetId}...` : "Broadcast message..."}
                             className="w-full bg-gray-50 border border-gray-200 rounded-full px-4 py-3 text-sm focus:outline-none focus:ring-2 focus:ring-black/10 focus:border-black transition-all pr-12"
                             disabled={!connected}
                         />
@@ -1,5 +1,5 @@
 import React from 'react';
-import { Network, Shield, Lock, Clock, FileBadge } from 'lucide-react';
+import { Network, Shield, Lock, Clock, FileBadge, KeyRound } from 'lucide-react';
 
 interface PhaseSelectorProps {
     currentPhase: number;
@@ -13,6 +13,7 @@ export const PhaseSelector: React.FC<PhaseSelectorProps> = ({ currentPhase, onSe
         { id: 3, name: 'Hybrid Encryption', icon: Lock, desc: 'Confidentiality (AES+RSA)' },
         { id: 4, name: 'Replay Protection', icon: Clock, desc: 'Timestamps & Nonces' },
         { id: 5, name: 'Auth Key Exchange', icon: FileBadge, desc: 'Certificates (Mini-CA)' },
+        { id: 6, name: 'Forward Secrecy', icon: KeyRound, desc: 'Ephemeral X25519 + HKDF' },
     ];
 
     return (
@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { ShieldCheck, ShieldAlert, X, Copy } from 'lucide-react';
+import { safetyNumberGroups } from '../crypto-browser';
+
+interface SafetyNumberDialogProps {
+    peerId: string;
+    safetyNumber: string; // 60 digits, the same on both sides
+    code: string;         // Text encoding, to paste into the peer's dialog (or a QR code)
+    verified: boolean;
+    onMarkVerified: () => void;
+    onUnverify: () => void;
+    onClose: () => void;
+}
+
+export const SafetyNumberDialog: React.FC<SafetyNumberDialogProps> = ({
+    peerId, safetyNumber, code, verified, onMarkVerified, onUnverify, onClose
+}) => {
+    const [theirCode, setTheirCode] = useState('');
+    const [copied, setCopied] = useState(false);
+    const pasted = theirCode.trim();
+
+    const handleCopy = () => {
+        navigator.clipboard?.writeText(code).then(() => setCopied(true));
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4">
+            <div className="bg-white rounded-xl shadow-2xl w-full max-w-md overflow-hidden animate-in fade-in zoom-in duration-200">
+                <div className="flex justify-between items-center p-4 border-b border-gray-100 bg-gray-50">
+                    <h3 className="font-bold text-gray-700 flex items-center gap-2">
+                        <ShieldCheck size={18} />
+                        Verify {peerId}
+                    </h3>
+                    <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+                        <X size={20} />
+                    </button>
+                </div>
+
+                <div className="p-6 space-y-5">
+                    <p className="text-sm text-gray-600">
+                        Compare this number with {peerId} in person or on a call. If it matches, nobody (not even the server)
+                        has swapped your keys.
+                    </p>
+
+                    <div className="grid grid-cols-4 gap-2 font-mono text-lg text-center text-gray-800 bg-gray-50 rounded-lg p-4">
+                        {safetyNumberGroups(safetyNumber).map((group, i) => <span key={i}>{group}</span>)}
+                    </div>
+
+                    <div className="space-y-2">
+                        <label className="block text-sm font-medium text-gray-700">Text code</label>
+                        <div className="flex gap-2">
+                            <input readOnly value={code} className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-lg font-mono text-xs text-gray-600" />
+                            <button onClick={handleCopy} className="px-3 py-2 border border-gray-300 rounded-lg text-gray-600 hover:bg-gray-50" title="Copy">
+                                <Copy size={16} />
+                            </button>
+                        </div>
+                        {copied && <p className="text-xs text-gray-400">Copied.</p>}
+                    </div>
+
+                    <div className="space-y-2">
+                        <label className="block text-sm font-medium text-gray-700">Or paste {peerId}'s code</label>
+                        <input
+                            value={theirCode}
+                            onChange={e => setTheirCode(e.target.value)}
+                            placeholder="chatapp-safety:1:..."
+                            className="w-full px-3 py-2 border border-gray-300 rounded-lg font-mono text-xs focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+                        />
+                        {pasted && pasted === code && (
+                            <p className="text-xs text-green-600 flex items-center gap-1"><ShieldCheck size={12} /> Codes match.</p>
+                        )}
+                        {pasted && pasted !== code && (
+                            <p className="text-xs text-red-600 flex items-center gap-1"><ShieldAlert size={12} /> Codes DO NOT match. Someone may be intercepting your messages.</p>
+                        )}
+                    </div>
+                </div>
+
+                <div className="p-4 border-t border-gray-100 bg-gray-50 flex justify-between items-center">
+                    <span className={`text-sm ${verified ? 'text-green-600' : 'text-gray-500'}`}>
+                        {verified ? 'Verified' : 'Not verified'}
+                    </span>
+                    {verified ? (
+                        <button onClick={onUnverify} className="px-4 py-2 text-sm border border-gray-300 rounded-lg text-gray-700 hover:bg-white">
+                            Clear verification
+                        </button>
+                    ) : (
+                        <button
+                            onClick={onMarkVerified}
+                            disabled={!!pasted && pasted !== code}
+                            className="px-4 py-2 text-sm bg-black text-white rounded-lg hover:bg-gray-800 disabled:opacity-50"
+                        >
+                            Mark as verified
+                        </button>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -72,6 +72,76 @@ function toPem(buffer: ArrayBuffer, type: string) {
     return `-----BEGIN ${type}-----\n${b64}\n-----END ${type}-----`;
 }
 
+// --- IDENTITY KEY STORE (IndexedDB) ---
+// The Phase 5 CA binds each User ID to one key, so the identity key pair is kept across reloads
+// and phase switches, and reused for enrollment and renewal (the CLI keeps it in a file).
+
+type IdentityKeys = Awaited<ReturnType<typeof generateRSAKeys>>;
+interface StoredIdentity {
+    publicKey: string;
+    privateKey: string;
+    raw?: CryptoKeyPair; // WebCrypto keys are stored as they are; node-forge keys are rebuilt from the PEMs
+}
+
+const IDENTITY_DB = 'chatapp-identity';
+const IDENTITY_STORE = 'keys';
+let identityKeys: Promise<{ keys: IdentityKeys; created: boolean }> | null = null; // One load per page
+
+function openIdentityDb(): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+        const request = indexedDB.open(IDENTITY_DB, 1);
+        request.onupgradeneeded = () => request.result.createObjectStore(IDENTITY_STORE);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+function identityRequest<T>(db: IDBDatabase, mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        const request = run(db.transaction(IDENTITY_STORE, mode).objectStore(IDENTITY_STORE));
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+async function loadOrCreateIdentity(): Promise<{ keys: IdentityKeys; created: boolean }> {
+    let db: IDBDatabase | null = null;
+    try {
+        db = await openIdentityDb();
+        const stored = await identityRequest<StoredIdentity | undefined>(db, 'readonly', store => store.get('rsa'));
+        if (stored) {
+            const raw = stored.raw ?? {
+                publicKey: forge.pki.publicKeyFromPem(stored.publicKey),
+                privateKey: forge.pki.privateKeyFromPem(stored.privateKey)
+            };
+            return { keys: { publicKey: stored.publicKey, privateKey: stored.privateKey, raw }, created: false };
+        }
+    } catch (e) {
+        console.warn('IndexedDB unavailable: the identity key is kept for this page only', e);
+        db = null;
+    }
+
+    const keys = await generateRSAKeys();
+    if (db) {
+        const stored: StoredIdentity = { publicKey: keys.publicKey, privateKey: keys.privateKey };
+        if (isWebCryptoAvailable() && keys.raw.privateKey instanceof CryptoKey) stored.raw = keys.raw;
+        await identityRequest(db, 'readwrite', store => store.put(stored, 'rsa'));
+    }
+    return { keys, created: true };
+}
+
+/**
+ * The identity key pair kept in IndexedDB, generated (and kept) on first use.
+ * `created` tells whether this page generated it.
+ */
+export function loadIdentityKeys(): Promise<{ keys: IdentityKeys; created: boolean }> {
+    identityKeys ??= loadOrCreateIdentity().catch(e => {
+        identityKeys = null; // Try again next time
+        throw e;
+    });
+    return identityKeys;
+}
+
 // --- PHASE 2: SIGNING ---
 
 export async function signMessage(_message: string, _privateKeyPem: string) {
@@ -120,63 +190,85 @@ export async function generateAESKey() {
     }
 }
 
-export async function encryptMessageAES(message: string, key: any) {
-    if (isWebCryptoAvailable() && typeof key !== 'string') {
-        // WebCrypto
-        const iv = window.crypto.getRandomValues(new Uint8Array(12));
-        const encrypted = await window.crypto.subtle.encrypt(
-            { name: "AES-GCM", iv: iv },
-            key,
-            enc.encode(message)
-        );
+// Versioned envelope, must match src/03_encryption/crypto-utils.ts:
+//   { v: 2, senderId, recipientId, sessionId, type, seq, iv, encrypted, authTag }
+// The routing metadata travels in clear but is authenticated as AES-GCM associated data.
+// (v1 was the bare { iv, encrypted, authTag } and is no longer accepted.)
 
-        const encryptBuf = new Uint8Array(encrypted);
-        const tagLength = 16;
-        const ciphertext = encryptBuf.slice(0, encryptBuf.length - tagLength);
-        const tag = encryptBuf.slice(encryptBuf.length - tagLength);
+export const ENVELOPE_VERSION = 2;
 
-        return JSON.stringify({
-            iv: arrayBufferToBase64(iv.buffer),
-            encrypted: arrayBufferToBase64(ciphertext.buffer),
-            authTag: arrayBufferToBase64(tag.buffer)
-        });
+export interface MessageContext {
+    senderId: string;
+    recipientId: string;
+    sessionId: string;
+    type: string;
+    seq: number;
+}
+
+// Everything the receiver checks itself. The sequence number is read from the envelope.
+export type ExpectedContext = Omit<MessageContext, 'seq'>;
+
+export interface DecryptedMessage {
+    plaintext: string;
+    context: MessageContext;
+}
+
+function envelopeAAD(ctx: MessageContext, extraAAD: string): string {
+    return JSON.stringify(['chatapp-envelope', ENVELOPE_VERSION, ctx.senderId, ctx.recipientId, ctx.sessionId, ctx.type, ctx.seq, extraAAD]);
+}
+
+// A WebCrypto key, or the raw key bytes for the forge fallback
+export type AESKey = CryptoKey | string;
+
+// extraAAD: additional data the receiver rebuilds itself (e.g. a Double Ratchet header)
+export async function encryptMessageAES(message: string, key: AESKey, context: MessageContext, extraAAD: string = '') {
+    const { senderId, recipientId, sessionId, type, seq } = context;
+    const aad = envelopeAAD(context, extraAAD);
+    let sealed;
+    if (isWebCryptoAvailable() && typeof key !== 'string') {
+        // WebCrypto
+        sealed = JSON.parse(await sealMessage(message, key, aad));
     } else {
         // Forge Fallback
+        if (typeof key !== 'string') throw new Error('WebCrypto unavailable: the forge fallback needs raw key bytes');
         const iv = forge.random.getBytesSync(12);
         const cipher = forge.cipher.createCipher('AES-GCM', key); // key is bytes
-        cipher.start({ iv: iv });
+        cipher.start({ iv: iv, additionalData: forge.util.encodeUtf8(aad) });
         cipher.update(forge.util.createBuffer(message, 'utf8'));
         cipher.finish();
 
-        return JSON.stringify({
+        sealed = {
             iv: window.btoa(iv),
             encrypted: window.btoa(cipher.output.data),
             authTag: window.btoa(cipher.mode.tag.data)
-        });
+        };
     }
+    return JSON.stringify({ v: ENVELOPE_VERSION, senderId, recipientId, sessionId, type, seq, ...sealed });
 }
 
-export async function decryptMessageAES(payloadStr: string, key: any) {
+// Throws if the envelope is not v2, its metadata differs from `expected`, or anything was tampered with
+export async function decryptMessageAES(payloadStr: string, key: AESKey, expected: ExpectedContext, extraAAD: string = ''): Promise<DecryptedMessage> {
     const obj = JSON.parse(payloadStr);
+    if (obj.v !== ENVELOPE_VERSION) throw new Error(`Unsupported envelope version: ${obj.v}`);
 
-    if (isWebCryptoAvailable() && typeof key !== 'string') {
-        const iv = base64ToArrayBuffer(obj.iv);
-        const ciphertext = base64ToArrayBuffer(obj.encrypted);
-        const tag = base64ToArrayBuffer(obj.authTag);
-
-        const combined = new Uint8Array(ciphertext.byteLength + tag.byteLength);
-        combined.set(new Uint8Array(ciphertext));
-        combined.set(new Uint8Array(tag), ciphertext.byteLength);
-
-        const decrypted = await window.crypto.subtle.decrypt(
-            { name: "AES-GCM", iv: new Uint8Array(iv) },
-            key,
-            combined
-        );
+    const context: MessageContext = {
+        senderId: obj.senderId,
+        recipientId: obj.recipientId,
+        sessionId: obj.sessionId,
+        type: obj.type,
+        seq: obj.seq
+    };
+    for (const field of ['senderId', 'recipientId', 'sessionId', 'type'] as const) {
+        if (context[field] !== expected[field]) throw new Error(`Envelope ${field} mismatch`);
+    }
+    if (!Number.isSafeInteger(context.seq) || context.seq < 0) throw new Error('Invalid envelope sequence number');
+    const aad = envelopeAAD(context, extraAAD);
 
-        return dec.decode(decrypted);
+    if (isWebCryptoAvailable() && typeof key !== 'string') {
+        return { plaintext: await openMessage(payloadStr, key, aad), context };
     } else {
         // Forge Fallback
+        if (typeof key !== 'string') throw new Error('WebCrypto unavailable: the forge fallback needs raw key bytes');
         const iv = window.atob(obj.iv);
         const encrypted = window.atob(obj.encrypted);
         const authTag = window.atob(obj.authTag);
@@ -184,13 +276,14 @@ export async function decryptMessageAES(payloadStr: string, key: any) {
         const decipher = forge.cipher.createDecipher('AES-GCM', key);
         decipher.start({
             iv: iv,
+            additionalData: forge.util.encodeUtf8(aad),
             tag: forge.util.createBuffer(authTag)
         });
         decipher.update(forge.util.createBuffer(encrypted));
         const pass = decipher.finish();
 
         if (pass) {
-            return decipher.output.toString();
+            return { plaintext: decipher.output.toString(), context };
         } else {
             throw new Error("Decryption failed");
         }
@@ -277,3 +370,1406 @@ export async function decryptRSA(base64Data: string, privateKey: any): Promise<U
         return bytes;
     }
 }
+
+// --- PHASE 3: X25519 + AEAD ---
+// Must match src/03_encryption/crypto-utils.ts. Needs WebCrypto X25519 (no forge fallback).
+
+export interface EphemeralKeyPair {
+    publicKey: string;      // Raw X25519 public key (base64)
+    privateKey: CryptoKey;
+}
+
+export async function generateEphemeralKeyPair(): Promise<EphemeralKeyPair> {
+    const keys = await window.crypto.subtle.generateKey({ name: 'X25519' }, false, ['deriveBits']) as CryptoKeyPair;
+    const raw = await window.crypto.subtle.exportKey('raw', keys.publicKey);
+    return { publicKey: arrayBufferToBase64(raw), privateKey: keys.privateKey };
+}
+
+// Rejects malformed keys and low-order points (all-zero shared secret)
+export async function computeSharedSecret(privateKey: CryptoKey, peerPublicKey: string): Promise<ArrayBuffer> {
+    const raw = base64ToArrayBuffer(peerPublicKey);
+    if (raw.byteLength !== 32) throw new Error('Ephemeral key must be 32 bytes');
+
+    const peer = await window.crypto.subtle.importKey('raw', raw, { name: 'X25519' }, false, []);
+    const secret = await window.crypto.subtle.deriveBits({ name: 'X25519', public: peer }, privateKey, 256);
+    if (new Uint8Array(secret).every(byte => byte === 0)) throw new Error('Degenerate shared secret');
+    return secret;
+}
+
+// AES-256-GCM with associated data, in the same { iv, encrypted, authTag } envelope as encryptMessageAES
+export async function sealMessage(plaintext: string, key: CryptoKey, aad: string): Promise<string> {
+    const iv = window.crypto.getRandomValues(new Uint8Array(12));
+    const sealed = new Uint8Array(await window.crypto.subtle.encrypt(
+        { name: 'AES-GCM', iv, additionalData: enc.encode(aad) }, key, enc.encode(plaintext)
+    ));
+    return JSON.stringify({
+        iv: arrayBufferToBase64(iv.buffer),
+        encrypted: arrayBufferToBase64(sealed.slice(0, sealed.length - 16).buffer),
+        authTag: arrayBufferToBase64(sealed.slice(sealed.length - 16).buffer)
+    });
+}
+
+// Throws if the ciphertext, tag or associated data was tampered with
+export async function openMessage(sealed: string, key: CryptoKey, aad: string): Promise<string> {
+    const obj = JSON.parse(sealed);
+    const ciphertext = new Uint8Array(base64ToArrayBuffer(obj.encrypted));
+    const tag = new Uint8Array(base64ToArrayBuffer(obj.authTag));
+    const combined = new Uint8Array(ciphertext.length + tag.length);
+    combined.set(ciphertext);
+    combined.set(tag, ciphertext.length);
+
+    const plain = await window.crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: new Uint8Array(base64ToArrayBuffer(obj.iv)), additionalData: enc.encode(aad) }, key, combined
+    );
+    return dec.decode(plain);
+}
+
+// --- PHASE 3: DOUBLE RATCHET ---
+// Must match src/03_encryption/double-ratchet.ts (same KDFs, header, AAD and envelope).
+// The session key from the key_exchange only seeds it: every message gets its own key, and every
+// reply moves the chains forward with a fresh X25519 exchange.
+
+export interface RatchetHeader {
+    dh: string; // Sender's current ratchet public key (raw, base64)
+    pn: number; // Length of the sender's previous sending chain
+    n: number;  // Message number in the current chain
+}
+
+export interface RatchetMessage {
+    header: RatchetHeader;
+    content: string; // encryptMessageAES() v2 envelope, header as extra AAD
+}
+
+const RATCHET_CONTEXT = 'chatapp-double-ratchet';
+const MAX_SKIP = 100;
+const MAX_SKIPPED_KEYS = 1000;
+
+async function hkdf(ikm: ArrayBuffer, salt: ArrayBuffer, info: string): Promise<[ArrayBuffer, ArrayBuffer]> {
+    const key = await window.crypto.subtle.importKey('raw', ikm, 'HKDF', false, ['deriveBits']);
+    const okm = await window.crypto.subtle.deriveBits({ name: 'HKDF', hash: 'SHA-256', salt, info: enc.encode(info) }, key, 512);
+    return [okm.slice(0, 32), okm.slice(32)];
+}
+
+// KDF_CK: HMAC-SHA256 with the chain key -> (next chain key, message key)
+async function kdfChain(chainKey: ArrayBuffer): Promise<[ArrayBuffer, CryptoKey]> {
+    const hmacKey = await window.crypto.subtle.importKey('raw', chainKey, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+    const next = await window.crypto.subtle.sign('HMAC', hmacKey, new Uint8Array([0x02]));
+    const messageKey = await window.crypto.subtle.sign('HMAC', hmacKey, new Uint8Array([0x01]));
+    return [next, await window.crypto.subtle.importKey('raw', messageKey, { name: 'AES-GCM' }, false, ['encrypt', 'decrypt'])];
+}
+
+// Sender, recipient and message type. The ratchet adds its session ID and sequence number.
+export type MessageRoute = Omit<ExpectedContext, 'sessionId'>;
+
+export function ratchetAAD(header: RatchetHeader): string {
+    return [RATCHET_CONTEXT, header.dh, header.pn, header.n].join('|');
+}
+
+interface RatchetState {
+    dhSelf: EphemeralKeyPair;
+    dhRemote: string | null;
+    rootKey: ArrayBuffer;
+    sendChain: ArrayBuffer | null;
+    receiveChain: ArrayBuffer | null;
+    sendCount: number;
+    receiveCount: number;
+    previousSendCount: number;
+    sendSeq: number; // Across all chains
+    skipped: Map<string, CryptoKey>; // `${dh}:${n}` -> message key
+}
+
+export class DoubleRatchet {
+    readonly sessionId: string; // Same on both sides, derived from the session key
+    private state: RatchetState;
+    private queue: Promise<unknown> = Promise.resolve(); // WebCrypto is async: one operation at a time
+
+    private constructor(sessionId: string, state: RatchetState) {
+        this.sessionId = sessionId;
+        this.state = state;
+    }
+
+    /**
+     * @param sessionKey raw AES session key from the key_exchange
+     * @param peerRatchetKey the initiator's ratchet key (responder only)
+     */
+    static async create(sessionKey: Uint8Array, peerRatchetKey?: string): Promise<DoubleRatchet> {
+        const raw = new Uint8Array(sessionKey);
+        const [rootKey, initialChain] = await hkdf(raw.buffer, new ArrayBuffer(32), `${RATCHET_CONTEXT} init`);
+        const ikm = await window.crypto.subtle.importKey('raw', raw, 'HKDF', false, ['deriveBits']);
+        const sessionId = await window.crypto.subtle.deriveBits(
+            { name: 'HKDF', hash: 'SHA-256', salt: new ArrayBuffer(32), info: enc.encode(`${RATCHET_CONTEXT} session id`) }, ikm, 128
+        );
+        const state: RatchetState = {
+            dhSelf: await generateEphemeralKeyPair(),
+            dhRemote: null,
+            rootKey,
+            sendChain: initialChain,
+            receiveChain: null,
+            sendCount: 0,
+            receiveCount: 0,
+            previousSendCount: 0,
+            sendSeq: 0,
+            skipped: new Map()
+        };
+        if (peerRatchetKey) {
+            state.dhRemote = peerRatchetKey;
+            state.receiveChain = initialChain;
+            [state.rootKey, state.sendChain] = await hkdf(
+                await computeSharedSecret(state.dhSelf.privateKey, peerRatchetKey), state.rootKey, `${RATCHET_CONTEXT} root`
+            );
+        }
+        return new DoubleRatchet(forge.util.bytesToHex(String.fromCharCode(...new Uint8Array(sessionId))), state);
+    }
+
+    // Our current ratchet public key (the initiator sends it as `ratchetKey` in the key_exchange)
+    get publicKey(): string {
+        return this.state.dhSelf.publicKey;
+    }
+
+    encrypt(plaintext: string, route: MessageRoute): Promise<RatchetMessage> {
+        return this.serialize(async () => {
+            const s = this.state;
+            const [nextChain, messageKey] = await kdfChain(s.sendChain!);
+            s.sendChain = nextChain;
+            const header: RatchetHeader = { dh: s.dhSelf.publicKey, pn: s.previousSendCount, n: s.sendCount++ };
+            const context = { ...route, sessionId: this.sessionId, seq: s.sendSeq++ };
+            return { header, content: await encryptMessageAES(plaintext, messageKey, context, ratchetAAD(header)) };
+        });
+    }
+
+    // route: what the relay told us (sender, recipient = us, message type).
+    // Throws on tampering, replays, misrouting, or too many skipped messages. The ratchet is left unchanged.
+    decrypt(message: RatchetMessage, route: MessageRoute): Promise<string> {
+        return this.serialize(async () => {
+            const { header } = message;
+            const skippedId = `${header.dh}:${header.n}`;
+            const skippedKey = this.state.skipped.get(skippedId);
+            if (skippedKey) {
+                const plaintext = await this.open(message, skippedKey, route);
+                this.state.skipped.delete(skippedId);
+                return plaintext;
+            }
+
+            // Work on a copy, committed only if the message decrypts
+            const s: RatchetState = { ...this.state, skipped: new Map(this.state.skipped) };
+            if (header.dh !== s.dhRemote) {
+                await skipMessageKeys(s, header.pn);
+                // DH ratchet: new receiving chain from their new key, then a new key pair and sending chain of ours
+                s.previousSendCount = s.sendCount;
+                s.sendCount = 0;
+                s.receiveCount = 0;
+                s.dhRemote = header.dh;
+                [s.rootKey, s.receiveChain] = await hkdf(await computeSharedSecret(s.dhSelf.privateKey, header.dh), s.rootKey, `${RATCHET_CONTEXT} root`);
+                s.dhSelf = await generateEphemeralKeyPair();
+                [s.rootKey, s.sendChain] = await hkdf(await computeSharedSecret(s.dhSelf.privateKey, header.dh), s.rootKey, `${RATCHET_CONTEXT} root`);
+            }
+            await skipMessageKeys(s, header.n);
+            const [nextChain, messageKey] = await kdfChain(s.receiveChain!);
+            s.receiveChain = nextChain;
+            s.receiveCount++;
+
+            const plaintext = await this.open(message, messageKey, route);
+            this.state = s;
+            return plaintext;
+        });
+    }
+
+    private async open(message: RatchetMessage, messageKey: CryptoKey, route: MessageRoute): Promise<string> {
+        const expected = { ...route, sessionId: this.sessionId };
+        return (await decryptMessageAES(message.content, messageKey, expected, ratchetAAD(message.header))).plaintext;
+    }
+
+    private serialize<T>(operation: () => Promise<T>): Promise<T> {
+        const result = this.queue.then(operation);
+        this.queue = result.catch(() => undefined);
+        return result;
+    }
+}
+
+// Store the keys of messages we have not received yet (up to `until`) in the current chain
+async function skipMessageKeys(s: RatchetState, until: number) {
+    if (!s.receiveChain) return;
+    if (until - s.receiveCount > MAX_SKIP) throw new Error('Too many skipped messages');
+    while (s.receiveCount < until) {
+        const [nextChain, messageKey] = await kdfChain(s.receiveChain);
+        s.receiveChain = nextChain;
+        s.skipped.set(`${s.dhRemote}:${s.receiveCount++}`, messageKey);
+        if (s.skipped.size > MAX_SKIPPED_KEYS) s.skipped.delete(s.skipped.keys().next().value!);
+    }
+}
+
+// --- PHASE 3: REKEYING ---
+// Must match src/03_encryption/rekeying-session.ts. After a number of messages, bytes or minutes,
+// either side sends a fresh session key and ratchet key through the current channel (epoch e);
+// the peer answers with an ack under the new epoch, which proves it holds the new key. The old
+// epoch stays decryptable for an overlap window. Simultaneous requests: the smaller ratchet key wins.
+
+export interface RekeyPolicy {
+    maxMessages: number; // Sent under one epoch
+    maxBytes: number;    // Plaintext bytes sent under one epoch
+    maxAgeMs: number;
+}
+
+export const DEFAULT_REKEY_POLICY: RekeyPolicy = { maxMessages: 100, maxBytes: 1024 * 1024, maxAgeMs: 10 * 60 * 1000 };
+
+export interface SessionPayload {
+    type: 'chat' | 'rekey';
+    epoch: number;
+    header: RatchetHeader;
+    content: string;
+}
+
+type RekeyMessage =
+    | { action: 'request'; epoch: number; sessionKey: string; ratchetKey: string }
+    | { action: 'ack'; epoch: number };
+
+const REKEY_OVERLAP_MS = 30_000;
+const REKEY_ACK_TIMEOUT_MS = 30_000;
+const REKEY_AGE_CHECK_MS = 10_000;
+
+export class RekeyingSession {
+    onEvent: (message: string) => void = () => { }; // Rekey progress, for the logs
+
+    private ratchets = new Map<number, DoubleRatchet>(); // epoch -> ratchet (current + overlap)
+    private epoch = 0; // We send under this one
+    private pending: { epoch: number; ratchet: DoubleRatchet; timer: ReturnType<typeof setTimeout> } | null = null;
+    private sentMessages = 0;
+    private sentBytes = 0;
+    private epochStarted = Date.now();
+    private ageTimer: ReturnType<typeof setInterval>;
+    private queue: Promise<unknown> = Promise.resolve(); // Rekeying awaits WebCrypto: one operation at a time
+    private policy: RekeyPolicy;
+    private localId: string;
+    private peerId: string;
+    private send: (payload: SessionPayload) => void;
+
+    /**
+     * @param ratchet the ratchet from the key_exchange (epoch 0)
+     * @param send delivers a payload to the peer (rekey messages go out on their own)
+     */
+    constructor(ratchet: DoubleRatchet, localId: string, peerId: string, send: (payload: SessionPayload) => void, policy: RekeyPolicy = DEFAULT_REKEY_POLICY) {
+        this.ratchets.set(0, ratchet);
+        this.localId = localId;
+        this.peerId = peerId;
+        this.send = send;
+        this.policy = policy;
+        this.ageTimer = setInterval(() => this.serialize(() => this.rekeyIfDue()).catch(() => undefined), REKEY_AGE_CHECK_MS);
+    }
+
+    // Checks the triggers first, so a rekey request goes out before the message that crossed them
+    encrypt(plaintext: string): Promise<SessionPayload> {
+        return this.serialize(async () => {
+            await this.rekeyIfDue();
+            this.sentMessages++;
+            this.sentBytes += enc.encode(plaintext).length;
+            return this.seal('chat', plaintext, this.epoch, this.ratchets.get(this.epoch)!);
+        });
+    }
+
+    // Resolves to the chat plaintext, or null for rekey messages (handled here).
+    // Throws if the epoch is unknown (or dropped) or the message does not decrypt.
+    decrypt(payload: SessionPayload, senderId: string): Promise<string | null> {
+        return this.serialize(async () => {
+            const ratchet = this.pending?.epoch === payload.epoch ? this.pending.ratchet : this.ratchets.get(payload.epoch);
+            if (!ratchet) throw new Error(`Unknown key epoch ${payload.epoch}`);
+            const plaintext = await ratchet.decrypt(
+                { header: payload.header, content: payload.content },
+                { senderId, recipientId: this.localId, type: payload.type }
+            );
+
+            // Anything from the peer under our pending epoch proves it holds the new key
+            if (this.pending?.epoch === payload.epoch) this.confirm();
+            if (payload.type === 'chat') return plaintext;
+
+            await this.handleRekey(JSON.parse(plaintext) as RekeyMessage);
+            return null;
+        });
+    }
+
+    close() {
+        clearInterval(this.ageTimer);
+        if (this.pending) clearTimeout(this.pending.timer);
+    }
+
+    private async seal(type: SessionPayload['type'], plaintext: string, epoch: number, ratchet: DoubleRatchet): Promise<SessionPayload> {
+        const { header, content } = await ratchet.encrypt(plaintext, { senderId: this.localId, recipientId: this.peerId, type });
+        return { type, epoch, header, content };
+    }
+
+    private async rekeyIfDue() {
+        if (this.pending) return;
+        const age = Date.now() - this.epochStarted;
+        const reason =
+            this.sentMessages >= this.policy.maxMessages ? `${this.sentMessages} messages` :
+            this.sentBytes >= this.policy.maxBytes ? `${this.sentBytes} bytes` :
+            age >= this.policy.maxAgeMs ? `${Math.round(age / 60000)} minutes` : null;
+        if (reason) await this.startRekey(reason);
+    }
+
+    private async startRekey(reason: string) {
+        const epoch = this.epoch + 1;
+        const sessionKey = window.crypto.getRandomValues(new Uint8Array(32));
+        const ratchet = await DoubleRatchet.create(sessionKey);
+        const timer = setTimeout(() => {
+            this.pending = null;
+            this.onEvent(`Rekey to epoch ${epoch} not confirmed in time. Keeping epoch ${this.epoch}.`);
+        }, REKEY_ACK_TIMEOUT_MS);
+
+        this.pending = { epoch, ratchet, timer };
+        const request: RekeyMessage = { action: 'request', epoch, sessionKey: arrayBufferToBase64(sessionKey.buffer), ratchetKey: ratchet.publicKey };
+        this.send(await this.seal('rekey', JSON.stringify(request), this.epoch, this.ratchets.get(this.epoch)!));
+        this.onEvent(`Rekeying after ${reason}: proposed epoch ${epoch}.`);
+    }
+
+    private async handleRekey(message: RekeyMessage) {
+        if (message.action !== 'request') return; // An ack only matters for confirm(), done above
+        if (message.epoch !== this.epoch + 1) throw new Error(`Unexpected rekey to epoch ${message.epoch}`);
+
+        if (this.pending) {
+            // Both sides started at once: the smaller ratchet key wins
+            if (this.pending.ratchet.publicKey < message.ratchetKey) return;
+            clearTimeout(this.pending.timer);
+            this.pending = null;
+        }
+
+        const ratchet = await DoubleRatchet.create(new Uint8Array(base64ToArrayBuffer(message.sessionKey)), message.ratchetKey);
+        this.ratchets.set(message.epoch, ratchet);
+        const ack: RekeyMessage = { action: 'ack', epoch: message.epoch };
+        this.send(await this.seal('rekey', JSON.stringify(ack), message.epoch, ratchet));
+        this.switchTo(message.epoch);
+        this.onEvent(`Peer rekeyed: now using epoch ${message.epoch} (confirmed).`);
+    }
+
+    private confirm() {
+        const { epoch, ratchet, timer } = this.pending!;
+        clearTimeout(timer);
+        this.pending = null;
+        this.ratchets.set(epoch, ratchet);
+        this.switchTo(epoch);
+        this.onEvent(`Peer confirmed the new key: now using epoch ${epoch}.`);
+    }
+
+    private switchTo(epoch: number) {
+        const previous = this.epoch;
+        this.epoch = epoch;
+        this.sentMessages = 0;
+        this.sentBytes = 0;
+        this.epochStarted = Date.now();
+        setTimeout(() => {
+            if (this.ratchets.delete(previous)) this.onEvent(`Dropped the old key (epoch ${previous}).`);
+        }, REKEY_OVERLAP_MS);
+    }
+
+    private serialize<T>(operation: () => Promise<T>): Promise<T> {
+        const result = this.queue.then(operation);
+        this.queue = result.catch(() => undefined);
+        return result;
+    }
+}
+
+// --- PHASE 3: SIGN-THEN-ENCRYPT (Optional) ---
+// Must match src/03_encryption/crypto-utils.ts. The shared message keys cannot tell the two parties
+// apart, so the sender may sign the payload with its identity key before encrypting it.
+
+export interface SignedPacket {
+    signedBy: string;
+    body: string;      // The chat payload (Phases 4-5: the replay-protected packet JSON)
+    signature: string;
+}
+
+export type SignatureStatus = 'valid' | 'invalid' | 'unsigned';
+
+export function signedPacketMessage(senderId: string, recipientId: string, body: string): string {
+    return JSON.stringify(['chatapp-signed-message', senderId, recipientId, body]);
+}
+
+export async function signPacket(body: string, senderId: string, recipientId: string, privateKey: CryptoKey | forge.pki.rsa.PrivateKey): Promise<string> {
+    const signature = await signMessageWithKeyObject(signedPacketMessage(senderId, recipientId, body), privateKey);
+    const packet: SignedPacket = { signedBy: senderId, body, signature };
+    return JSON.stringify(packet);
+}
+
+// Unwraps a signed packet, or passes an unsigned payload through unchanged.
+// senderPublicKey: the sender's registered key (Phase 5: from its verified certificate)
+export function openSignedPacket(plaintext: string, senderId: string, recipientId: string, senderPublicKey?: string): { body: string; status: SignatureStatus } {
+    let packet: Partial<SignedPacket>;
+    try {
+        packet = JSON.parse(plaintext);
+    } catch {
+        return { body: plaintext, status: 'unsigned' };
+    }
+    if (typeof packet?.body !== 'string' || typeof packet.signature !== 'string' || typeof packet.signedBy !== 'string') {
+        return { body: plaintext, status: 'unsigned' };
+    }
+
+    const valid = packet.signedBy === senderId && !!senderPublicKey &&
+        verifySignature(signedPacketMessage(senderId, recipientId, packet.body), packet.signature, senderPublicKey);
+    return { body: packet.body, status: valid ? 'valid' : 'invalid' };
+}
+
+// --- PHASE 3: SENDER KEYS (group chats) ---
+// Must match src/03_encryption/sender-keys.ts. Every member has its own sender key per group, a
+// chain key that moves forward with every message (same KDF_CK as the Double Ratchet). Sender keys
+// travel wrapped with RSA-OAEP for each member and signed; group messages are encrypted once and
+// signed with the sender's identity key, since every member holds every chain key.
+// Needs WebCrypto, like the Double Ratchet.
+
+const MAX_SENDER_KEY_SKIP = 1000;
+
+export interface SenderKeyDistribution {
+    group: string;
+    keyId: string;     // New on every rotation
+    chainKey: string;  // base64, at `iteration`
+    iteration: number;
+}
+
+export interface SenderKeyEnvelope {
+    type: 'sender_key';
+    group: string;
+    encryptedKey: string; // RSA-OAEP for the recipient
+    content: string;      // sealMessage(distribution)
+    signature: string;    // By the sender's identity key
+}
+
+export interface GroupCiphertext {
+    keyId: string;
+    iteration: number;
+    content: string;
+    signature: string; // By the sender's identity key
+}
+
+function senderKeyAAD(senderId: string, recipientId: string, group: string): string {
+    return JSON.stringify(['chatapp-sender-key', senderId, recipientId, group]);
+}
+
+function groupMessageAAD(group: string, senderId: string, keyId: string, iteration: number): string {
+    return JSON.stringify(['chatapp-group-message', group, senderId, keyId, iteration]);
+}
+
+export async function wrapSenderKey(distribution: SenderKeyDistribution, senderId: string, recipientId: string, recipientPublicKey: string, senderPrivateKey: CryptoKey | forge.pki.rsa.PrivateKey): Promise<SenderKeyEnvelope> {
+    const aad = senderKeyAAD(senderId, recipientId, distribution.group);
+    const raw = window.crypto.getRandomValues(new Uint8Array(32));
+    const encryptedKey = await encryptRSA(raw, recipientPublicKey);
+    const wrappingKey = await window.crypto.subtle.importKey('raw', raw, { name: 'AES-GCM' }, false, ['encrypt']);
+    const content = await sealMessage(JSON.stringify(distribution), wrappingKey, aad);
+    const signature = await signMessageWithKeyObject(JSON.stringify([aad, encryptedKey, content]), senderPrivateKey);
+    return { type: 'sender_key', group: distribution.group, encryptedKey, content, signature };
+}
+
+// Throws if the signature is invalid, the key was wrapped for someone else or anything was tampered with
+export async function unwrapSenderKey(envelope: SenderKeyEnvelope, senderId: string, recipientId: string, senderPublicKey: string, recipientPrivateKey: CryptoKey | forge.pki.rsa.PrivateKey): Promise<SenderKeyDistribution> {
+    const aad = senderKeyAAD(senderId, recipientId, envelope.group);
+    if (!verifySignature(JSON.stringify([aad, envelope.encryptedKey, envelope.content]), envelope.signature, senderPublicKey)) {
+        throw new Error('Sender key signature invalid');
+    }
+    const raw = await decryptRSA(envelope.encryptedKey, recipientPrivateKey);
+    const wrappingKey = await window.crypto.subtle.importKey('raw', new Uint8Array(raw), { name: 'AES-GCM' }, false, ['decrypt']);
+    const distribution: SenderKeyDistribution = JSON.parse(await openMessage(envelope.content, wrappingKey, aad));
+    if (distribution.group !== envelope.group || !Number.isSafeInteger(distribution.iteration) || distribution.iteration < 0) {
+        throw new Error('Malformed sender key');
+    }
+    return distribution;
+}
+
+interface SenderChain {
+    keyId: string;
+    chainKey: ArrayBuffer;
+    iteration: number; // Next message number
+}
+
+function newSenderChain(): SenderChain {
+    return {
+        keyId: forge.util.bytesToHex(forge.random.getBytesSync(8)),
+        chainKey: window.crypto.getRandomValues(new Uint8Array(32)).buffer,
+        iteration: 0
+    };
+}
+
+export class SenderKeyGroup {
+    readonly name: string;
+    members: string[] = []; // From the relay, us included
+    private localId: string;
+    private own: SenderChain = newSenderChain();
+    private peers = new Map<string, SenderChain>(); // senderId -> current sender key
+    private queue: Promise<unknown> = Promise.resolve(); // WebCrypto is async: one operation at a time
+
+    constructor(name: string, localId: string) {
+        this.name = name;
+        this.localId = localId;
+    }
+
+    // Starts a new sender key. Send the result to every other member.
+    rotate(): SenderKeyDistribution {
+        this.own = newSenderChain();
+        return { group: this.name, keyId: this.own.keyId, chainKey: arrayBufferToBase64(this.own.chainKey), iteration: 0 };
+    }
+
+    // Replaces the sender's previous key (the relay keeps each sender's messages in order)
+    accept(senderId: string, distribution: SenderKeyDistribution) {
+        this.peers.set(senderId, {
+            keyId: distribution.keyId,
+            chainKey: base64ToArrayBuffer(distribution.chainKey),
+            iteration: distribution.iteration
+        });
+    }
+
+    forget(senderId: string) {
+        this.peers.delete(senderId);
+    }
+
+    encrypt(plaintext: string, privateKey: CryptoKey | forge.pki.rsa.PrivateKey): Promise<GroupCiphertext> {
+        return this.serialize(async () => {
+            const own = this.own;
+            const { keyId, iteration } = own;
+            const [nextChainKey, messageKey] = await kdfChain(own.chainKey);
+            own.chainKey = nextChainKey;
+            own.iteration++;
+
+            const aad = groupMessageAAD(this.name, this.localId, keyId, iteration);
+            const content = await sealMessage(plaintext, messageKey, aad);
+            const signature = await signMessageWithKeyObject(JSON.stringify([aad, content]), privateKey);
+            return { keyId, iteration, content, signature };
+        });
+    }
+
+    // The chain only moves forward: replays and messages older than the current key are rejected.
+    // Throws if the signature is invalid, the key is unknown or the message does not decrypt.
+    decrypt(senderId: string, message: GroupCiphertext, senderPublicKey: string): Promise<string> {
+        return this.serialize(async () => {
+            const aad = groupMessageAAD(this.name, senderId, message.keyId, message.iteration);
+            if (!verifySignature(JSON.stringify([aad, message.content]), message.signature, senderPublicKey)) {
+                throw new Error('Signature invalid');
+            }
+
+            const chain = this.peers.get(senderId);
+            if (!chain || chain.keyId !== message.keyId) throw new Error('No sender key for this message (yet)');
+            if (!Number.isSafeInteger(message.iteration) || message.iteration < chain.iteration) throw new Error('Old or replayed message');
+            if (message.iteration - chain.iteration > MAX_SENDER_KEY_SKIP) throw new Error('Too many missing messages');
+
+            let chainKey = chain.chainKey;
+            for (let i = chain.iteration; i < message.iteration; i++) chainKey = (await kdfChain(chainKey))[0];
+            const [nextChainKey, messageKey] = await kdfChain(chainKey);
+            const plaintext = await openMessage(message.content, messageKey, aad);
+
+            // Only move forward once the message is authentic
+            chain.chainKey = nextChainKey;
+            chain.iteration = message.iteration + 1;
+            return plaintext;
+        });
+    }
+
+    private serialize<T>(operation: () => Promise<T>): Promise<T> {
+        const result = this.queue.then(operation);
+        this.queue = result.catch(() => undefined);
+        return result;
+    }
+}
+
+// --- PHASE 3: SAFETY NUMBERS ---
+// Must match src/03_encryption/safety-number.ts: iterated SHA-512 over ID + public key (DER),
+// 30 digits per side, lower fingerprint first. Users compare the 60 digits out of band.
+
+const FINGERPRINT_ITERATIONS = 5200;
+
+// The DER inside an SPKI PEM (binary string), so line wrapping and headers do not matter
+function publicKeyDer(publicKeyPem: string): string {
+    return window.atob(publicKeyPem.replace(/-----[^-]+-----/g, '').replace(/\s+/g, ''));
+}
+
+function fingerprintDigits(userId: string, publicKeyPem: string): string {
+    const key = publicKeyDer(publicKeyPem);
+    const sha512 = (bytes: string) => forge.md.sha512.create().update(bytes, 'raw').digest().bytes();
+    let hash = sha512('\x00\x00' + key + forge.util.encodeUtf8(userId));
+    for (let i = 1; i < FINGERPRINT_ITERATIONS; i++) hash = sha512(hash + key);
+
+    let digits = '';
+    for (let i = 0; i < 30; i += 5) {
+        let chunk = 0;
+        for (let j = 0; j < 5; j++) chunk = chunk * 256 + hash.charCodeAt(i + j);
+        digits += (chunk % 100000).toString().padStart(5, '0');
+    }
+    return digits;
+}
+
+// 60 digits, the same on both sides
+export function computeSafetyNumber(localId: string, localKeyPem: string, peerId: string, peerKeyPem: string): string {
+    return [fingerprintDigits(localId, localKeyPem), fingerprintDigits(peerId, peerKeyPem)].sort().join('');
+}
+
+// Twelve groups of five
+export function safetyNumberGroups(digits: string): string[] {
+    return digits.match(/\d{5}/g) || [];
+}
+
+// Text form (also the payload for a QR code)
+export function encodeSafetyNumber(localId: string, peerId: string, digits: string): string {
+    return ['chatapp-safety', 1, ...[localId, peerId].sort(), digits].join(':');
+}
+
+export function keyFingerprint(publicKeyPem: string): string {
+    return forge.util.bytesToHex(sha256Bytes(publicKeyDer(publicKeyPem)));
+}
+
+export type PeerKeyCheck = 'unverified' | 'verified' | 'changed';
+
+// Peers the user has verified, with the key they verified (kept in localStorage)
+export class VerifiedPeers {
+    private peers: Map<string, string>; // userId -> keyFingerprint()
+    private storageKey: string;
+
+    constructor(storageKey = 'chat_verified_peers') {
+        this.storageKey = storageKey;
+        this.peers = new Map(Object.entries(JSON.parse(localStorage.getItem(storageKey) || '{}')));
+    }
+
+    markVerified(userId: string, publicKeyPem: string) {
+        this.peers.set(userId, keyFingerprint(publicKeyPem));
+        this.save();
+    }
+
+    unverify(userId: string) {
+        if (this.peers.delete(userId)) this.save();
+    }
+
+    // A changed key loses its verified status: the user has to compare safety numbers again
+    check(userId: string, publicKeyPem: string): PeerKeyCheck {
+        const verified = this.peers.get(userId);
+        if (!verified) return 'unverified';
+        if (verified === keyFingerprint(publicKeyPem)) return 'verified';
+        this.unverify(userId);
+        return 'changed';
+    }
+
+    ids(): string[] {
+        return [...this.peers.keys()];
+    }
+
+    private save() {
+        localStorage.setItem(this.storageKey, JSON.stringify(Object.fromEntries(this.peers)));
+    }
+}
+
+// --- PHASE 4: REPLAY PROTECTION ---
+// Must match src/04_replay/crypto-utils.ts (packet formats, strategy names).
+// The initiator picks the strategy at session setup (`replayStrategy` in the key_exchange).
+
+export type ReplayStrategyName = 'timestamp' | 'counter' | 'challenge';
+export const REPLAY_STRATEGIES: ReplayStrategyName[] = ['timestamp', 'counter', 'challenge'];
+
+export function isReplayStrategyName(name: unknown): name is ReplayStrategyName {
+    return REPLAY_STRATEGIES.includes(name as ReplayStrategyName);
+}
+
+export interface SecurePacket {
+    timestamp: number;
+    nonce: string;
+    payload: string;
+}
+
+export interface CounterPacket {
+    seq: number;
+    payload: string;
+}
+
+export interface ChallengePacket {
+    challenge: string;
+    payload: string;
+}
+
+export type ReplayPacket = SecurePacket | CounterPacket | ChallengePacket;
+
+export interface ReplayStrategy {
+    readonly name: ReplayStrategyName;
+    readonly description: string;
+    createPacket(payload: string): ReplayPacket; // Throws in challenge mode without a challenge from the peer
+    validate(packet: ReplayPacket): boolean;
+    issueChallenges?(): string[];
+    acceptChallenges?(nonces: string[]): void;
+}
+
+// Seen nonces in 10s buckets by packet timestamp: whole buckets expire, no timer per nonce.
+// Hard cap, fail closed when full. (The Node clients can also keep this on disk, see nonce-store.ts.)
+export class MemoryNonceStore {
+    private buckets = new Map<number, Set<string>>();
+    private size = 0;
+    private retentionMs: number;
+    private bucketMs: number;
+    private maxEntries: number;
+
+    constructor(retentionMs: number, bucketMs: number = 10_000, maxEntries: number = 100_000) {
+        this.retentionMs = retentionMs;
+        this.bucketMs = bucketMs;
+        this.maxEntries = maxEntries;
+    }
+
+    checkAndAdd(nonce: string, timestamp: number): 'fresh' | 'replay' | 'full' {
+        const now = Date.now();
+        for (const [key, bucket] of this.buckets) {
+            if ((key + 1) * this.bucketMs + this.retentionMs > now) continue;
+            this.size -= bucket.size;
+            this.buckets.delete(key);
+        }
+        for (const bucket of this.buckets.values()) {
+            if (bucket.has(nonce)) return 'replay';
+        }
+        if (this.size >= this.maxEntries) return 'full';
+
+        const key = Math.floor(timestamp / this.bucketMs);
+        if (!this.buckets.has(key)) this.buckets.set(key, new Set());
+        this.buckets.get(key)!.add(nonce);
+        this.size++;
+        return 'fresh';
+    }
+}
+
+// Sender clock + random nonce. Needs synchronized clocks, remembers every nonce in the window.
+export class ReplayProtection implements ReplayStrategy {
+    readonly name = 'timestamp';
+    readonly description: string;
+    private seenNonces: MemoryNonceStore;
+    private windowMs: number;
+    private maxSkewMs: number;
+
+    constructor(windowSeconds: number = 60, maxSkewSeconds: number = 5) {
+        this.windowMs = windowSeconds * 1000;
+        this.maxSkewMs = maxSkewSeconds * 1000;
+        this.seenNonces = new MemoryNonceStore(this.windowMs);
+        this.description = `timestamp + nonce (${windowSeconds}s window, ${maxSkewSeconds}s clock skew)`;
+    }
+
+    createPacket(payload: string): SecurePacket {
+        return { timestamp: Date.now(), nonce: generateNonce(), payload };
+    }
+
+    validate(packet: ReplayPacket): boolean {
+        const { timestamp, nonce } = packet as SecurePacket;
+        if (typeof timestamp !== 'number' || typeof nonce !== 'string') return false;
+        const now = Date.now();
+        if (now - timestamp > this.windowMs || timestamp > now + this.maxSkewMs) return false;
+        return this.seenNonces.checkAndAdd(nonce, timestamp) === 'fresh';
+    }
+}
+
+// Sequence number with an IPsec-style sliding window: constant memory, tolerates reordering, no clocks
+export class CounterReplayProtection implements ReplayStrategy {
+    readonly name = 'counter';
+    readonly description: string;
+    private nextSeq = 1;
+    private highest = 0;
+    private seen = 0n; // Bit i = message (highest - i) arrived
+    private windowSize: number;
+
+    constructor(windowSize: number = 64) {
+        this.windowSize = windowSize;
+        this.description = `sequence counter (sliding window of ${windowSize})`;
+    }
+
+    createPacket(payload: string): CounterPacket {
+        return { seq: this.nextSeq++, payload };
+    }
+
+    validate(packet: ReplayPacket): boolean {
+        const { seq } = packet as CounterPacket;
+        if (!Number.isSafeInteger(seq) || seq < 1) return false;
+
+        if (seq > this.highest) {
+            const shift = BigInt(seq - this.highest);
+            this.seen = shift >= BigInt(this.windowSize) ? 1n : ((this.seen << shift) | 1n) & ((1n << BigInt(this.windowSize)) - 1n);
+            this.highest = seq;
+            return true;
+        }
+
+        const offset = this.highest - seq;
+        const bit = 1n << BigInt(offset);
+        if (offset >= this.windowSize || this.seen & bit) return false;
+        this.seen |= bit;
+        return true;
+    }
+}
+
+// The receiver hands out one-time nonces; every message spends one. Costs extra messages.
+export class ChallengeReplayProtection implements ReplayStrategy {
+    readonly name = 'challenge';
+    readonly description: string;
+    private issued = new Set<string>();
+    private received: string[] = [];
+    private poolSize: number;
+
+    constructor(poolSize: number = 16) {
+        this.poolSize = poolSize;
+        this.description = `challenge-response (${poolSize} outstanding nonces)`;
+    }
+
+    createPacket(payload: string): ChallengePacket {
+        const challenge = this.received.shift();
+        if (!challenge) throw new Error('No challenge from the peer yet');
+        return { challenge, payload };
+    }
+
+    validate(packet: ReplayPacket): boolean {
+        const { challenge } = packet as ChallengePacket;
+        return typeof challenge === 'string' && this.issued.delete(challenge);
+    }
+
+    // Tops the pool back up once half of it is spent (empty array = nothing to send)
+    issueChallenges(): string[] {
+        if (this.issued.size > this.poolSize / 2) return [];
+        const nonces: string[] = [];
+        while (this.issued.size < this.poolSize) {
+            const nonce = generateNonce();
+            this.issued.add(nonce);
+            nonces.push(nonce);
+        }
+        return nonces;
+    }
+
+    acceptChallenges(nonces: string[]) {
+        this.received = [...this.received, ...nonces.filter(n => typeof n === 'string')].slice(-this.poolSize);
+    }
+}
+
+export function createReplayStrategy(name: ReplayStrategyName): ReplayStrategy {
+    switch (name) {
+        case 'timestamp': return new ReplayProtection();
+        case 'counter': return new CounterReplayProtection();
+        case 'challenge': return new ChallengeReplayProtection();
+    }
+}
+
+// --- PHASE 5: X.509 CERTIFICATES ---
+// Same checks as src/05_auth/crypto-utils.ts (verifyCertificateChain), using node-forge in the browser.
+// forge reads RSA keys only: certificates for Ed25519 and P-256 keys (Phase 6 peers) are read from a
+// copy with an RSA placeholder as the subject key. Signatures are checked over the real bytes.
+
+const USER_URN_PREFIX = 'urn:chatapp:user:';
+
+export interface Certificate {
+    serialNumber: string;
+    userId: string;
+    publicKey: string;
+    issuer: string;
+    notBefore: Date;
+    notAfter: Date;
+    keyUsage: string[];
+    subjectAltNames: string[];
+    isCA: boolean;
+    pathLength?: number;
+    pem: string;
+}
+
+export type CertificateCheck =
+    | { valid: true; certificate: Certificate }
+    | { valid: false; reason: string };
+
+interface ParsedExtension {
+    cA?: boolean;
+    pathLenConstraint?: number;
+    altNames?: { value: string }[];
+    [flag: string]: unknown;
+}
+
+const KEY_USAGE_FLAGS = [
+    'digitalSignature', 'nonRepudiation', 'keyEncipherment', 'dataEncipherment',
+    'keyAgreement', 'keyCertSign', 'cRLSign'
+];
+
+const PLACEHOLDER_KEY = forge.pki.rsa.setPublicKey(new forge.jsbn.BigInteger('1'), new forge.jsbn.BigInteger('65537'));
+
+// TBSCertificate: [0] version (optional), serial, signature, issuer, validity, subject, subjectPublicKeyInfo, ...
+const certificateKeyIndex = (tbs: forge.asn1.Asn1) =>
+    (tbs.value as forge.asn1.Asn1[])[0].tagClass === forge.asn1.Class.CONTEXT_SPECIFIC ? 6 : 5;
+
+// forge's view of the certificate (with the real signed bytes) and its subject key as SPKI PEM
+function readCertificate(pem: string): { cert: forge.pki.Certificate; publicKey: string } {
+    const der = forge.pem.decode(pem)[0].body;
+    const real = forge.asn1.fromDer(der);
+    const tbs = (real.value as forge.asn1.Asn1[])[0];
+    const spki = (tbs.value as forge.asn1.Asn1[])[certificateKeyIndex(tbs)];
+    const algorithms = algorithmsForSpki(spki);
+    if (algorithms.includes('rsa-pkcs1-sha256')) {
+        const cert = forge.pki.certificateFromAsn1(real);
+        return { cert, publicKey: forge.pki.publicKeyToPem(cert.publicKey as forge.pki.rsa.PublicKey) };
+    }
+    if (algorithms.length === 0) throw new Error('Unsupported subject key');
+
+    const readable = forge.asn1.fromDer(der);
+    const readableTbs = (readable.value as forge.asn1.Asn1[])[0];
+    (readableTbs.value as forge.asn1.Asn1[])[certificateKeyIndex(readableTbs)] = forge.pki.publicKeyToAsn1(PLACEHOLDER_KEY);
+    const cert = forge.pki.certificateFromAsn1(readable);
+    cert.tbsCertificate = tbs;
+    return { cert, publicKey: forge.pem.encode({ type: 'PUBLIC KEY', body: forge.asn1.toDer(spki).getBytes() }) };
+}
+
+export function parseCertificate(pem: string): Certificate {
+    const { cert, publicKey } = readCertificate(pem);
+    const keyUsageExt = cert.getExtension('keyUsage') as ParsedExtension | null;
+    const sanExt = cert.getExtension('subjectAltName') as ParsedExtension | null;
+    const basicConstraints = cert.getExtension('basicConstraints') as ParsedExtension | null;
+
+    return {
+        serialNumber: cert.serialNumber,
+        userId: cert.subject.getField('CN')?.value || '',
+        publicKey,
+        issuer: cert.issuer.getField('CN')?.value || '',
+        notBefore: cert.validity.notBefore,
+        notAfter: cert.validity.notAfter,
+        keyUsage: keyUsageExt ? KEY_USAGE_FLAGS.filter(flag => keyUsageExt[flag]) : [],
+        subjectAltNames: sanExt?.altNames ? sanExt.altNames.map(n => n.value) : [],
+        isCA: !!basicConstraints?.cA,
+        pathLength: typeof basicConstraints?.pathLenConstraint === 'number' ? basicConstraints.pathLenConstraint : undefined,
+        pem
+    };
+}
+
+// Linkage, signatures, dates and CA constraints along [subject, ..., trust anchor]
+function checkPath(pems: string[], trustAnchorPem: string, now: Date): string | null {
+    let path: forge.pki.Certificate[];
+    try {
+        path = [...pems, trustAnchorPem].map(pem => readCertificate(pem).cert);
+    } catch {
+        return 'Malformed certificate';
+    }
+
+    for (let i = 0; i < path.length - 1; i++) {
+        const child = path[i];
+        const parent = path[i + 1];
+        const name = child.subject.getField('CN')?.value;
+
+        if (!child.isIssuer(parent)) return `Issuer of "${name}" does not match the next certificate in the chain`;
+        try {
+            if (!parent.verify(child)) return `Bad signature on "${name}"`;
+        } catch {
+            return `Bad signature on "${name}"`;
+        }
+    }
+
+    for (const c of path) {
+        const name = c.subject.getField('CN')?.value;
+        if (now < c.validity.notBefore) return `Certificate "${name}" not yet valid`;
+        if (now > c.validity.notAfter) return `Certificate "${name}" expired at ${c.validity.notAfter.toISOString()}`;
+    }
+
+    for (let j = 1; j < path.length; j++) {
+        const issuer = parseCertificate(j === path.length - 1 ? trustAnchorPem : pems[j]);
+        if (!issuer.isCA || !issuer.keyUsage.includes('keyCertSign')) {
+            return `"${issuer.userId}" is not allowed to sign certificates`;
+        }
+        if (issuer.pathLength !== undefined && j - 1 > issuer.pathLength) {
+            return `Path length constraint of "${issuer.userId}" exceeded`;
+        }
+    }
+
+    return null;
+}
+
+// `chain` = issuing certificates starting with the leaf's issuer (root excluded)
+export function verifyCertificateChain(pem: string, chain: string[], trustAnchorPem: string, now: Date = new Date()): CertificateCheck {
+    const pathError = checkPath([pem, ...chain], trustAnchorPem, now);
+    if (pathError) return { valid: false, reason: pathError };
+
+    const certificate = parseCertificate(pem);
+    if (certificate.isCA) {
+        return { valid: false, reason: 'CA certificate presented as user identity' };
+    }
+    // RSA keys also receive session keys (RSA-OAEP). Ed25519 and P-256 keys only sign (Phase 6).
+    const rsa = signatureAlgorithmsForKey(certificate.publicKey).includes('rsa-pkcs1-sha256');
+    if (!certificate.keyUsage.includes('digitalSignature') || (rsa && !certificate.keyUsage.includes('keyEncipherment'))) {
+        return { valid: false, reason: 'Key usage does not allow chat' };
+    }
+    if (!certificate.userId || !certificate.subjectAltNames.includes(USER_URN_PREFIX + certificate.userId)) {
+        return { valid: false, reason: 'Subject name mismatch' };
+    }
+
+    return { valid: true, certificate };
+}
+
+// --- PHASE 5: CERTIFICATE SIGNING REQUEST (Proof-of-Possession) ---
+// PKCS#10 CSR self-signed with our private key; the CA's challenge nonce is the challengePassword.
+
+export function createCertificateRequest(userId: string, publicKeyPem: string, privateKeyPem: string, challenge: string): string {
+    const csr = forge.pki.createCertificationRequest();
+    csr.publicKey = forge.pki.publicKeyFromPem(publicKeyPem);
+    csr.setSubject([{ name: 'commonName', value: userId }]);
+    csr.setAttributes([{ name: 'challengePassword', value: challenge }]);
+    csr.sign(forge.pki.privateKeyFromPem(privateKeyPem), forge.md.sha256.create());
+    return forge.pki.certificationRequestToPem(csr);
+}
+
+// --- PHASE 5: CHAT SERVER REGISTRATION ---
+// Must match signRegistrationChallenge in src/05_auth/crypto-utils.ts
+
+export function registrationChallengeMessage(nonce: string, userId: string): string {
+    return `chatapp-phase5-register|${userId}|${nonce}`;
+}
+
+// --- PHASE 5: RENEWAL ---
+// Must match signRenewalRequest in src/05_auth/crypto-utils.ts
+
+export function renewalMessage(serialNumber: string, nonce: string, csr: string): string {
+    return `chatapp-phase5-renew|${serialNumber}|${nonce}|${csr}`;
+}
+
+// --- PHASE 5: AUTHENTICATED KEY EXCHANGE ---
+// Must match signKeyExchange / verifyKeyExchange in src/05_auth/crypto-utils.ts
+
+export interface KeyExchangeTranscript {
+    initiatorId: string;
+    responderId: string;
+    timestamp: number;
+    nonce: string;
+    encryptedKey: string;
+    ratchetKey: string; // Initiator's first Double Ratchet public key
+    replayStrategy: ReplayStrategyName;
+}
+
+// key_exchange payload as sent over the relay
+export interface SignedKeyExchange extends KeyExchangeTranscript {
+    signature: string;
+    certificate: string;
+    chain?: string[];
+    challenges?: string[]; // Challenge mode: the initiator's first nonces (not signed, only the strategy is)
+}
+
+export function keyExchangeMessage(t: KeyExchangeTranscript): string {
+    return ['chatapp-phase5-key-exchange', t.initiatorId, t.responderId, t.timestamp, t.nonce, t.encryptedKey, t.ratchetKey, t.replayStrategy].join('|');
+}
+
+export function generateNonce(): string {
+    return forge.util.bytesToHex(forge.random.getBytesSync(16));
+}
+
+// RSASSA-PKCS1-v1_5 / SHA-256 verify against an SPKI PEM (forge, so it also works without WebCrypto)
+export function verifySignature(message: string, signatureBase64: string, publicKeyPem: string): boolean {
+    try {
+        const key = forge.pki.publicKeyFromPem(publicKeyPem) as forge.pki.rsa.PublicKey;
+        const md = forge.md.sha256.create();
+        md.update(message, 'utf8');
+        return key.verify(md.digest().bytes(), window.atob(signatureBase64));
+    } catch {
+        return false;
+    }
+}
+
+// --- PHASE 5: REVOCATION (CA-signed JSON statements) ---
+
+export interface SignedStatement {
+    content: string;
+    signature: string;
+    signerChain?: string[]; // Signing CA + its issuers (root excluded). Absent = signed by the root.
+}
+
+export interface RevokedEntry {
+    serialNumber: string;
+    revokedAt: number;
+    reason: string;
+}
+
+export interface RevocationList {
+    version: number;
+    issuer: string;
+    thisUpdate: number;
+    nextUpdate: number;
+    revoked: RevokedEntry[];
+}
+
+// Verifies an RSASSA-PKCS1-v1_5 / SHA-256 signature from a CA chaining up to the root, then parses the content
+export function openStatement<T>(signed: SignedStatement, trustAnchorPem: string, now: Date = new Date()): T | null {
+    try {
+        let signerPem = trustAnchorPem;
+        if (signed.signerChain && signed.signerChain.length > 0) {
+            if (checkPath(signed.signerChain, trustAnchorPem, now)) return null;
+            signerPem = signed.signerChain[0];
+        }
+
+        const signer = parseCertificate(signerPem);
+        if (!signer.isCA || !signer.keyUsage.includes('cRLSign')) return null;
+
+        const signerKey = forge.pki.certificateFromPem(signerPem).publicKey as forge.pki.rsa.PublicKey;
+        const md = forge.md.sha256.create();
+        md.update(signed.content, 'utf8');
+        if (!signerKey.verify(md.digest().bytes(), window.atob(signed.signature))) return null;
+        return JSON.parse(signed.content) as T;
+    } catch {
+        return null;
+    }
+}
+
+export function isRevoked(serialNumber: string, crl: RevocationList): RevokedEntry | undefined {
+    return crl.revoked.find(entry => entry.serialNumber === serialNumber);
+}
+
+// --- PHASE 5: CERTIFICATE TRANSPARENCY ---
+// Must match the Merkle tree in src/05_auth/crypto-utils.ts (RFC 9162). Hashes are hex on the wire,
+// forge byte strings in here.
+
+export interface TreeHead {
+    treeSize: number;
+    rootHash: string;
+    timestamp: number;
+}
+
+function sha256Bytes(bytes: string): string {
+    const md = forge.md.sha256.create();
+    md.update(bytes);
+    return md.digest().bytes();
+}
+
+const hashChildren = (left: string, right: string) => sha256Bytes('\x01' + left + right);
+
+// Leaf = SHA-256(0x00 || certificate DER)
+export function certificateLeafHash(pem: string): string {
+    return sha256Bytes('\x00' + forge.pem.decode(pem)[0].body);
+}
+
+export function verifyInclusionProof(leafHash: string, leafIndex: number, treeSize: number, proof: string[], rootHash: string): boolean {
+    if (leafIndex < 0 || leafIndex >= treeSize) return false;
+
+    let fn = leafIndex;
+    let sn = treeSize - 1;
+    let r = leafHash;
+    for (const hex of proof) {
+        const p = forge.util.hexToBytes(hex);
+        if (sn === 0) return false;
+        if ((fn & 1) === 1 || fn === sn) {
+            r = hashChildren(p, r);
+            while ((fn & 1) === 0 && fn !== 0) {
+                fn >>= 1;
+                sn >>= 1;
+            }
+        } else {
+            r = hashChildren(r, p);
+        }
+        fn >>= 1;
+        sn >>= 1;
+    }
+    return sn === 0 && forge.util.bytesToHex(r) === rootHash;
+}
+
+export function verifyConsistencyProof(firstSize: number, secondSize: number, firstRoot: string, secondRoot: string, proof: string[]): boolean {
+    if (firstSize > secondSize) return false;
+    if (firstSize === secondSize) return proof.length === 0 && firstRoot === secondRoot;
+    if (firstSize === 0) return proof.length === 0;
+    if (proof.length === 0) return false;
+
+    const path = (firstSize & (firstSize - 1)) === 0 ? [firstRoot, ...proof] : proof;
+
+    let fn = firstSize - 1;
+    let sn = secondSize - 1;
+    while ((fn & 1) === 1) {
+        fn >>= 1;
+        sn >>= 1;
+    }
+
+    let fr = forge.util.hexToBytes(path[0]);
+    let sr = fr;
+    for (const hex of path.slice(1)) {
+        const c = forge.util.hexToBytes(hex);
+        if (sn === 0) return false;
+        if ((fn & 1) === 1 || fn === sn) {
+            fr = hashChildren(c, fr);
+            sr = hashChildren(c, sr);
+            while ((fn & 1) === 0 && fn !== 0) {
+                fn >>= 1;
+                sn >>= 1;
+            }
+        } else {
+            sr = hashChildren(sr, c);
+        }
+        fn >>= 1;
+        sn >>= 1;
+    }
+    return sn === 0 && forge.util.bytesToHex(fr) === firstRoot && forge.util.bytesToHex(sr) === secondRoot;
+}
+
+// --- PHASE 6: FORWARD SECRECY (Ephemeral X25519) ---
+// Must match src/06_forward_secrecy/crypto-utils.ts. Needs WebCrypto X25519 (no forge fallback).
+// Keys derived here are non-extractable AES-GCM CryptoKeys. X25519 and AEAD helpers: see Phase 3.
+
+export const HANDSHAKE_CONTEXT = 'chatapp-phase6-handshake';
+
+export interface DirectionalKeys {
+    initiatorToResponder: CryptoKey;
+    responderToInitiator: CryptoKey;
+}
+
+// Decrypted content of handshake_response / handshake_finish
+export interface HandshakeIdentity {
+    certificate: string;
+    chain: string[];
+    algorithm: SignatureAlgorithm;
+    signature: string;
+}
+
+export function transcriptHash(...parts: (string | number)[]): string {
+    const md = forge.md.sha256.create();
+    md.update(parts.join('|'), 'utf8');
+    return md.digest().toHex();
+}
+
+async function deriveDirectionalKeys(sharedSecret: ArrayBuffer, transcript: string, info: string): Promise<DirectionalKeys> {
+    const ikm = await window.crypto.subtle.importKey('raw', sharedSecret, 'HKDF', false, ['deriveBits']);
+    const salt = Uint8Array.from(forge.util.hexToBytes(transcript), c => c.charCodeAt(0));
+    const okm = await window.crypto.subtle.deriveBits({ name: 'HKDF', hash: 'SHA-256', salt, info: enc.encode(info) }, ikm, 512);
+
+    const importAES = (bytes: ArrayBuffer) =>
+        window.crypto.subtle.importKey('raw', bytes, { name: 'AES-GCM' }, false, ['encrypt', 'decrypt']);
+    return {
+        initiatorToResponder: await importAES(okm.slice(0, 32)),
+        responderToInitiator: await importAES(okm.slice(32))
+    };
+}
+
+export function deriveHandshakeKeys(sharedSecret: ArrayBuffer, th2: string): Promise<DirectionalKeys> {
+    return deriveDirectionalKeys(sharedSecret, th2, 'chatapp-phase6 handshake keys');
+}
+
+export function deriveTrafficKeys(sharedSecret: ArrayBuffer, th4: string): Promise<DirectionalKeys> {
+    return deriveDirectionalKeys(sharedSecret, th4, 'chatapp-phase6 traffic keys');
+}
+
+// Signed with signWithAlgorithm, checked with verifyWithAlgorithm
+export function handshakeMessage(role: 'initiator' | 'responder', algorithm: SignatureAlgorithm, transcript: string): string {
+    return [HANDSHAKE_CONTEXT, role, algorithm, transcript].join('|');
+}
+
+export function messageAAD(sessionId: string, type: string, seq: number = 0): string {
+    return [HANDSHAKE_CONTEXT, sessionId, type, seq].join('|');
+}
+
+// --- PHASE 6: NEGOTIATION (versioned handshake, downgrade protection) ---
+// Must match src/06_forward_secrecy/crypto-utils.ts and src/02_signatures/crypto-utils.ts.
+// The browser offers only what it implements: WebCrypto has no ChaCha20-Poly1305, so AES-256-GCM.
+// It verifies every signature algorithm (peers may hold Ed25519 or P-256 identities); its own
+// identity is RSA, which signs with RSA-PSS or PKCS#1 v1.5.
+// Only the Phase 6 handshake negotiates: the other phases below and above keep fixed algorithms.
+
+export type SignatureAlgorithm = 'ed25519' | 'ecdsa-p256-sha256' | 'rsa-pss-sha256' | 'rsa-pkcs1-sha256';
+export type CipherSuite = 'X25519_AES_256_GCM_SHA256' | 'X25519_CHACHA20_POLY1305_SHA256';
+
+export const PROTOCOL_VERSIONS = [6];
+const SUPPORTED_SUITES: CipherSuite[] = ['X25519_AES_256_GCM_SHA256'];
+const SUPPORTED_SIGNATURES: SignatureAlgorithm[] = ['ed25519', 'ecdsa-p256-sha256', 'rsa-pss-sha256', 'rsa-pkcs1-sha256'];
+
+const OIDS = {
+    rsa: '1.2.840.113549.1.1.1',
+    ed25519: '1.3.101.112',
+    ec: '1.2.840.10045.2.1',
+    p256: '1.2.840.10045.3.1.7'
+};
+
+// What a SubjectPublicKeyInfo can sign with, strongest first
+function algorithmsForSpki(spki: forge.asn1.Asn1): SignatureAlgorithm[] {
+    const [oid, params] = (spki.value as forge.asn1.Asn1[])[0].value as forge.asn1.Asn1[];
+    switch (forge.asn1.derToOid(oid.value as string)) {
+        case OIDS.ed25519: return ['ed25519'];
+        case OIDS.ec: return params && forge.asn1.derToOid(params.value as string) === OIDS.p256 ? ['ecdsa-p256-sha256'] : [];
+        case OIDS.rsa: return ['rsa-pss-sha256', 'rsa-pkcs1-sha256'];
+        default: return [];
+    }
+}
+
+// What a public key (SPKI PEM) can sign with, strongest first
+export function signatureAlgorithmsForKey(publicKeyPem: string): SignatureAlgorithm[] {
+    try {
+        return algorithmsForSpki(forge.asn1.fromDer(forge.pem.decode(publicKeyPem)[0].body));
+    } catch {
+        return [];
+    }
+}
+
+export interface HandshakeOffer {
+    versions: number[];
+    suites: string[];
+    signatures: string[]; // Algorithms we accept from the peer
+}
+
+export interface HandshakeSelection {
+    version: number;
+    suite: CipherSuite;
+}
+
+export function localOffer(): HandshakeOffer {
+    return { versions: PROTOCOL_VERSIONS, suites: SUPPORTED_SUITES, signatures: SUPPORTED_SIGNATURES };
+}
+
+// Shape check for an offer from the wire
+export function parseOffer(raw: unknown): HandshakeOffer | null {
+    const offer = raw as Partial<HandshakeOffer> | null;
+    const isList = (value: unknown, type: 'number' | 'string') =>
+        Array.isArray(value) && value.length <= 32 && value.every(item => typeof item === type);
+    if (!offer || !isList(offer.versions, 'number') || !isList(offer.suites, 'string') || !isList(offer.signatures, 'string')) return null;
+    return { versions: offer.versions!, suites: offer.suites!, signatures: offer.signatures! };
+}
+
+export function offerTranscript(offer: HandshakeOffer): string {
+    return JSON.stringify([offer.versions, offer.suites, offer.signatures]);
+}
+
+// Highest common version, first suite in the initiator's order that both support
+export function negotiate(initiator: HandshakeOffer, responder: HandshakeOffer): HandshakeSelection | null {
+    const versions = initiator.versions.filter(v => PROTOCOL_VERSIONS.includes(v) && responder.versions.includes(v));
+    const suite = initiator.suites.find(name => SUPPORTED_SUITES.includes(name as CipherSuite) && responder.suites.includes(name)) as CipherSuite | undefined;
+    if (!versions.length || !suite) return null;
+    return { version: Math.max(...versions), suite };
+}
+
+// The verifier's most preferred algorithm that the signer's key supports
+export function pickSignatureAlgorithm(accepted: string[], signerKeyPem: string): SignatureAlgorithm | undefined {
+    const usable = signatureAlgorithmsForKey(signerKeyPem);
+    return accepted.find(name => usable.includes(name as SignatureAlgorithm)) as SignatureAlgorithm | undefined;
+}
+
+// WebCrypto parameters for the algorithms forge lacks. ECDSA signatures are r || s, as in Node (ieee-p1363).
+const WEBCRYPTO_SIGNATURES = {
+    'ed25519': { key: { name: 'Ed25519' }, sign: { name: 'Ed25519' } },
+    'ecdsa-p256-sha256': { key: { name: 'ECDSA', namedCurve: 'P-256' }, sign: { name: 'ECDSA', hash: 'SHA-256' } }
+};
+
+// RSA-PSS uses a 32-byte salt (the digest length), like Node's RSA_PSS_SALTLEN_DIGEST
+const pssScheme = () => forge.pss.create({
+    md: forge.md.sha256.create(),
+    mgf: forge.mgf.mgf1.create(forge.md.sha256.create()),
+    saltLength: 32
+});
+
+export async function signWithAlgorithm(algorithm: SignatureAlgorithm, message: string, privateKey: CryptoKey | forge.pki.rsa.PrivateKey): Promise<string> {
+    if (algorithm === 'rsa-pkcs1-sha256') return signMessageWithKeyObject(message, privateKey);
+    if (algorithm === 'ed25519' || algorithm === 'ecdsa-p256-sha256') {
+        if (!isWebCryptoAvailable() || !(privateKey instanceof CryptoKey)) throw new Error(`${algorithm} needs a WebCrypto key`);
+        return arrayBufferToBase64(await window.crypto.subtle.sign(WEBCRYPTO_SIGNATURES[algorithm].sign, privateKey, enc.encode(message)));
+    }
+    if (algorithm !== 'rsa-pss-sha256') throw new Error(`Unsupported signature algorithm: ${algorithm}`);
+
+    if (isWebCryptoAvailable() && privateKey instanceof CryptoKey) {
+        // The identity key was imported for PKCS#1 v1.5: re-import it for PSS
+        const pkcs8 = await window.crypto.subtle.exportKey('pkcs8', privateKey);
+        const pssKey = await window.crypto.subtle.importKey('pkcs8', pkcs8, { name: 'RSA-PSS', hash: 'SHA-256' }, false, ['sign']);
+        return arrayBufferToBase64(await window.crypto.subtle.sign({ name: 'RSA-PSS', saltLength: 32 }, pssKey, enc.encode(message)));
+    }
+    const md = forge.md.sha256.create();
+    md.update(message, 'utf8');
+    return window.btoa((privateKey as forge.pki.rsa.PrivateKey).sign(md, pssScheme()));
+}
+
+export async function verifyWithAlgorithm(algorithm: SignatureAlgorithm, message: string, signatureBase64: string, publicKeyPem: string): Promise<boolean> {
+    if (!signatureAlgorithmsForKey(publicKeyPem).includes(algorithm)) return false;
+    if (algorithm === 'rsa-pkcs1-sha256') return verifySignature(message, signatureBase64, publicKeyPem);
+    if (algorithm === 'ed25519' || algorithm === 'ecdsa-p256-sha256') {
+        if (!isWebCryptoAvailable()) return false;
+        try {
+            const spki = Uint8Array.from(forge.pem.decode(publicKeyPem)[0].body, c => c.charCodeAt(0));
+            const key = await window.crypto.subtle.importKey('spki', spki, WEBCRYPTO_SIGNATURES[algorithm].key, false, ['verify']);
+            return await window.crypto.subtle.verify(WEBCRYPTO_SIGNATURES[algorithm].sign, key, base64ToArrayBuffer(signatureBase64), enc.encode(message));
+        } catch {
+            return false; // Malformed signature, or a browser without the algorithm
+        }
+    }
+    try {
+        const key = forge.pki.publicKeyFromPem(publicKeyPem) as forge.pki.rsa.PublicKey;
+        const md = forge.md.sha256.create();
+        md.update(message, 'utf8');
+        return key.verify(md.digest().bytes(), window.atob(signatureBase64), pssScheme());
+    } catch {
+        return false;
+    }
+}